@@ -1,12 +1,17 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
-import { verifyToken } from '@/lib/auth'
+import { getTokenFromRequest, verifyAccessToken } from '@/lib/auth-tokens'
+import { PERMISSIONS, Permission, hasPermission } from '@/lib/permissions'
 
 export async function middleware(request: NextRequest) {
   const { pathname, search } = request.nextUrl
 
   // Define protected routes
-  const protectedRoutes = ['/dashboard', '/profile', '/settings']
+  const protectedRoutes = ['/dashboard', '/profile', '/settings', '/admin']
+  // Protected routes that also need a permission from the access token
+  const permissionRoutes: Record<string, Permission> = {
+    '/admin': PERMISSIONS.ADMIN_ACCESS
+  }
   const authRoutes = ['/login', '/signup']
   const publicRoutes = ['/api', '/_next', '/favicon.ico']
 
@@ -29,21 +34,10 @@ export async function middleware(request: NextRequest) {
     pathname.startsWith(route)
   )
 
-  // Get token from cookies or Authorization header
-  const token = request.cookies.get('auth-token')?.value || 
-                request.headers.get('authorization')?.replace('Bearer ', '')
-
-  // Verify token if it exists
-  let user = null
-  if (token) {
-    try {
-      user = await verifyToken(token)
-    } catch (error) {
-      // Token verification failed, treat as unauthenticated
-      console.warn('Token verification failed:', error)
-      user = null
-    }
-  }
+  // Same token and checks as route handlers (see @/lib/auth-tokens); an invalid token is treated as unauthenticated.
+  // Session revocation needs the database, so it is enforced by the API routes rather than here
+  const token = getTokenFromRequest(request)
+  const user = token ? await verifyAccessToken(token) : null
 
   // Enhanced redirect logic
   if (isProtectedRoute && !user) {
@@ -57,6 +51,14 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(loginUrl)
   }
 
+  const requiredPermission = Object.entries(permissionRoutes).find(([route]) =>
+    pathname.startsWith(route)
+  )?.[1]
+
+  if (requiredPermission && !hasPermission(user, requiredPermission)) {
+    return NextResponse.redirect(new URL('/unauthorized', request.url))
+  }
+
   if (isAuthRoute && user) {
     // Check if there's a redirect parameter to send authenticated users to their intended destination
     const redirectParam = request.nextUrl.searchParams.get('redirect')
@@ -0,0 +1,22 @@
+/**
+ * Deletes audit events and security alerts older than
+ * AUTH_AUDIT_RETENTION_DAYS (default 365). The /api/cron/maintenance route
+ * does this daily on Vercel; schedule this for deployments that run elsewhere.
+ *
+ *   npm run db:prune-audit
+ */
+
+import { prisma } from '../src/lib/prisma'
+import { AUDIT_RETENTION_DAYS, AuditLogService } from '../src/lib/audit-log'
+
+async function main() {
+  const { entries, alerts } = await AuditLogService.prune()
+  console.log(`✅ Removed ${entries} audit events and ${alerts} alerts older than ${AUDIT_RETENTION_DAYS} days`)
+}
+
+main()
+  .catch(error => {
+    console.error('❌ Pruning failed:', error)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,23 @@
+/**
+ * Deletes accounts whose deletion grace period (ACCOUNT_DELETION_GRACE_DAYS,
+ * default 30) has ended, anonymizing their audit records first. The
+ * /api/cron/maintenance route does this daily on Vercel; schedule this for
+ * deployments that run elsewhere.
+ *
+ *   npm run db:purge-accounts
+ */
+
+import { prisma } from '../src/lib/prisma'
+import { AccountDeletionService } from '../src/lib/account-deletion'
+
+async function main() {
+  const purged = await AccountDeletionService.purgeDue()
+  console.log(`✅ Purged ${purged} accounts past their deletion date`)
+}
+
+main()
+  .catch(error => {
+    console.error('❌ Purging failed:', error)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,33 @@
+/**
+ * Seeds the default roles and, when SEED_SUPER_ADMIN_EMAIL is set, grants
+ * that existing account super_admin so there is someone to manage roles.
+ *
+ *   SEED_SUPER_ADMIN_EMAIL=you@example.com npm run db:seed
+ */
+
+import { prisma } from '../src/lib/prisma'
+import { RbacService } from '../src/lib/rbac'
+
+async function main() {
+  await RbacService.ensureDefaultRoles()
+  console.log('✅ Default roles are in place')
+
+  const email = process.env.SEED_SUPER_ADMIN_EMAIL?.trim().toLowerCase()
+  if (!email) return
+
+  const user = await prisma.user.findUnique({ where: { email }, select: { id: true } })
+  if (!user) {
+    console.warn(`⚠️ No account for ${email}; sign up first, then run the seed again`)
+    return
+  }
+
+  await RbacService.assignRole(user.id, 'super_admin')
+  console.log(`✅ ${email} is now a super_admin`)
+}
+
+main()
+  .catch(error => {
+    console.error('❌ Seeding failed:', error)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,128 @@
+import { SignJWT, exportPKCS8, exportSPKI, generateKeyPair, jwtVerify } from 'jose'
+import { GET } from '../jwks.json/route'
+import { JwtKeyConfig, KeyRing, LEGACY_KID, createKeyRing } from '@/lib/jwt-keys'
+
+// These tests sign and verify for real
+jest.unmock('jose')
+
+async function asymmetricKey(kid: string, alg: 'ES256' | 'EdDSA', extra: Partial<JwtKeyConfig> = {}): Promise<JwtKeyConfig> {
+  const { privateKey } = await generateKeyPair(alg, { extractable: true })
+  return { kid, alg, privateKey: await exportPKCS8(privateKey), ...extra }
+}
+
+async function signWith(keyRing: KeyRing) {
+  const { kid, alg, key } = keyRing.signing
+  return new SignJWT({ userId: 'user-1', type: 'access' })
+    .setProtectedHeader({ alg, kid })
+    .setExpirationTime('5m')
+    .sign(key)
+}
+
+function verifyWith(keyRing: KeyRing, token: string) {
+  return jwtVerify(token, header => keyRing.resolve(header))
+}
+
+describe('JWT signing keys', () => {
+  let es256: JwtKeyConfig
+  let eddsa: JwtKeyConfig
+
+  beforeAll(async () => {
+    es256 = await asymmetricKey('2026-10', 'ES256')
+    eddsa = await asymmetricKey('2026-04', 'EdDSA')
+  })
+
+  it('should sign with the first key and name it in the header', async () => {
+    const keyRing = await createKeyRing([es256, eddsa])
+
+    const token = await signWith(keyRing)
+    const { payload, protectedHeader } = await verifyWith(keyRing, token)
+
+    expect(protectedHeader).toEqual({ alg: 'ES256', kid: '2026-10' })
+    expect(payload.userId).toBe('user-1')
+  })
+
+  it('should keep verifying tokens from the previous key after a rotation', async () => {
+    const before = await createKeyRing([eddsa])
+    const token = await signWith(before)
+
+    const after = await createKeyRing([es256, eddsa])
+
+    await expect(verifyWith(after, token)).resolves.toMatchObject({ protectedHeader: { kid: '2026-04', alg: 'EdDSA' } })
+  })
+
+  it('should refuse tokens from a key past its verifyUntil', async () => {
+    const token = await signWith(await createKeyRing([eddsa]))
+
+    const after = await createKeyRing([es256, { ...eddsa, verifyUntil: '2020-01-01T00:00:00Z' }])
+
+    await expect(verifyWith(after, token)).rejects.toThrow('was retired')
+  })
+
+  it('should verify tokens without a kid against the legacy secret', async () => {
+    const secret = 'legacy-secret-at-least-32-characters-long'
+    const legacyToken = await new SignJWT({ userId: 'user-1' })
+      .setProtectedHeader({ alg: 'HS256' })
+      .sign(new TextEncoder().encode(secret))
+
+    const keyRing = await createKeyRing([es256, { kid: LEGACY_KID, alg: 'HS256', secret, verifyUntil: '2999-01-01T00:00:00Z' }])
+
+    await expect(verifyWith(keyRing, legacyToken)).resolves.toMatchObject({ payload: { userId: 'user-1' } })
+  })
+
+  it('should refuse an HS256 token that names an asymmetric key', async () => {
+    const keyRing = await createKeyRing([es256])
+    // Classic confusion attack: use the published public key as an HMAC secret
+    const forged = await new SignJWT({ userId: 'attacker' })
+      .setProtectedHeader({ alg: 'HS256', kid: '2026-10' })
+      .sign(new TextEncoder().encode(JSON.stringify(keyRing.jwks().keys[0])))
+
+    await expect(verifyWith(keyRing, forged)).rejects.toThrow('does not use HS256')
+  })
+
+  it('should refuse unknown key ids', async () => {
+    const token = await signWith(await createKeyRing([eddsa]))
+
+    await expect(verifyWith(await createKeyRing([es256]), token)).rejects.toThrow('Unknown JWT key id')
+  })
+
+  it('should accept a verify-only key given as a public key', async () => {
+    const { privateKey, publicKey } = await generateKeyPair('ES256', { extractable: true })
+    const token = await new SignJWT({ userId: 'user-1' }).setProtectedHeader({ alg: 'ES256', kid: 'old' }).sign(privateKey)
+
+    const keyRing = await createKeyRing([eddsa, { kid: 'old', alg: 'ES256', publicKey: await exportSPKI(publicKey) }])
+
+    await expect(verifyWith(keyRing, token)).resolves.toBeTruthy()
+  })
+
+  it('should reject configurations that cannot sign', async () => {
+    await expect(createKeyRing([{ kid: 'old', alg: 'ES256', publicKey: 'x' }])).rejects.toThrow()
+    await expect(createKeyRing([{ kid: 'a', alg: 'HS256' }])).rejects.toThrow('HS256 keys need a secret')
+    await expect(createKeyRing([es256, { ...es256 }])).rejects.toThrow('unique')
+  })
+
+  describe('GET /.well-known/jwks.json', () => {
+    const originalKeys = process.env.JWT_SIGNING_KEYS
+
+    afterAll(() => {
+      process.env.JWT_SIGNING_KEYS = originalKeys
+    })
+
+    it('should publish public keys only', async () => {
+      process.env.JWT_SIGNING_KEYS = JSON.stringify([
+        es256,
+        eddsa,
+        { kid: 'shared', alg: 'HS256', secret: 'never-published-secret-32-characters' },
+      ])
+
+      const response = await GET()
+      const body = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('Cache-Control')).toContain('max-age=')
+      expect(body.keys.map((key: { kid: string }) => key.kid)).toEqual(['2026-10', '2026-04'])
+      expect(body.keys[0]).toMatchObject({ kty: 'EC', crv: 'P-256', alg: 'ES256', use: 'sig' })
+      expect(body.keys[1]).toMatchObject({ kty: 'OKP', crv: 'Ed25519', alg: 'EdDSA', use: 'sig' })
+      expect(JSON.stringify(body)).not.toMatch(/"d"|never-published/)
+    })
+  })
+})
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { getAccessKeyRing } from '@/lib/jwt-keys'
+
+// Other services cache this, so a new key should be listed here a while before it starts signing
+const JWKS_MAX_AGE_SECONDS = 5 * 60
+
+// Public keys that verify Hayl access tokens. HS256 secrets are never listed; with only those configured this is empty
+export async function GET() {
+  try {
+    const keyRing = await getAccessKeyRing()
+
+    return NextResponse.json(keyRing.jwks(), {
+      status: 200,
+      headers: {
+        'Cache-Control': `public, max-age=${JWKS_MAX_AGE_SECONDS}`
+      }
+    })
+
+  } catch (error) {
+    console.error('JWKS error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    )
+  }
+}
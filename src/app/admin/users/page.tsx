@@ -0,0 +1,361 @@
+'use client'
+
+import { FormEvent, useCallback, useEffect, useState } from 'react'
+import { Alert } from '@/components/ui/Alert'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useAuth } from '@/contexts/AuthContext'
+import { formatDate } from '@/lib/utils'
+import { DEFAULT_ROLES, PERMISSIONS, Permission, hasPermission } from '@/lib/permissions'
+
+interface AdminUser {
+  id: string
+  email: string
+  name: string | null
+  emailVerified: boolean
+  mfaEnabled: boolean
+  createdAt: string
+  disabledAt: string | null
+  disabledReason: string | null
+  passwordResetRequired: boolean
+  roles: string[]
+  locked: boolean
+  lockedUntil: string | null
+  activeSessions: number
+}
+
+interface Pagination {
+  page: number
+  pageSize: number
+  total: number
+  totalPages: number
+}
+
+interface Filters {
+  search: string
+  emailVerified: string
+  role: string
+  createdFrom: string
+  createdTo: string
+}
+
+type UserAction = 'verification' | 'password-reset' | 'disable' | 'enable' | 'sessions' | 'unlock' | 'delete'
+
+const emptyFilters: Filters = { search: '', emailVerified: '', role: '', createdFrom: '', createdTo: '' }
+
+const actions: Record<UserAction, {
+  label: string
+  path: string
+  method: 'POST' | 'DELETE'
+  permission: Permission
+  confirm?: string
+}> = {
+  verification: { label: 'Resend verification', path: '/verification', method: 'POST', permission: PERMISSIONS.USERS_WRITE },
+  'password-reset': {
+    label: 'Force password reset',
+    path: '/password-reset',
+    method: 'POST',
+    permission: PERMISSIONS.USERS_WRITE,
+    confirm: 'Sign this user out everywhere and require a new password?'
+  },
+  disable: { label: 'Disable', path: '/disable', method: 'POST', permission: PERMISSIONS.USERS_WRITE },
+  enable: { label: 'Enable', path: '/enable', method: 'POST', permission: PERMISSIONS.USERS_WRITE },
+  sessions: {
+    label: 'Revoke sessions',
+    path: '/sessions',
+    method: 'DELETE',
+    permission: PERMISSIONS.SESSIONS_REVOKE,
+    confirm: 'Sign this user out of every device?'
+  },
+  unlock: { label: 'Unlock', path: '/unlock', method: 'POST', permission: PERMISSIONS.USERS_UNLOCK },
+  delete: {
+    label: 'Delete',
+    path: '',
+    method: 'DELETE',
+    permission: PERMISSIONS.USERS_DELETE,
+    confirm: 'Permanently delete this account? This cannot be undone.'
+  },
+}
+
+function StatusBadge({ tone, children }: { tone: 'success' | 'warning' | 'error' | 'neutral'; children: string }) {
+  const tones = {
+    success: 'bg-success-100 text-success-800',
+    warning: 'bg-warning-100 text-warning-800',
+    error: 'bg-error-100 text-error-800',
+    neutral: 'bg-neutral-100 text-neutral-700',
+  }
+
+  return (
+    <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${tones[tone]}`}>
+      {children}
+    </span>
+  )
+}
+
+export default function AdminUsersPage() {
+  const { user: currentUser } = useAuth()
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [pagination, setPagination] = useState<Pagination | null>(null)
+  const [draft, setDraft] = useState<Filters>(emptyFilters)
+  const [filters, setFilters] = useState<Filters>(emptyFilters)
+  const [page, setPage] = useState(1)
+  const [loading, setLoading] = useState(true)
+  const [pending, setPending] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  const loadUsers = useCallback(async () => {
+    setLoading(true)
+
+    const query = new URLSearchParams({ page: String(page) })
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) query.set(key, value)
+    })
+
+    try {
+      const response = await fetch(`/api/admin/users?${query}`, {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.details?.join(', ') || data.error || 'Unable to load users')
+        return
+      }
+
+      setUsers(data.users)
+      setPagination(data.pagination)
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [filters, page])
+
+  useEffect(() => {
+    loadUsers()
+  }, [loadUsers])
+
+  const applyFilters = (e: FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setPage(1)
+    setFilters(draft)
+  }
+
+  const clearFilters = () => {
+    setDraft(emptyFilters)
+    setPage(1)
+    setFilters(emptyFilters)
+  }
+
+  const runAction = async (target: AdminUser, action: UserAction) => {
+    const { path, method, confirm } = actions[action]
+    let body: string | undefined
+
+    if (confirm && !window.confirm(`${target.email}: ${confirm}`)) {
+      return
+    }
+
+    if (action === 'disable') {
+      const reason = window.prompt(`Why is ${target.email} being disabled? (optional)`)
+      if (reason === null) return
+      body = JSON.stringify({ reason })
+    }
+
+    setPending(`${target.id}:${action}`)
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch(`/api/admin/users/${encodeURIComponent(target.id)}${path}`, {
+        method,
+        credentials: 'include',
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body,
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || `Unable to ${actions[action].label.toLowerCase()}`)
+        return
+      }
+
+      setMessage(`${target.email}: ${data.message}`)
+      await loadUsers()
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const availableActions = (target: AdminUser): UserAction[] => {
+    const isSelf = target.id === currentUser?.id
+    const candidates: UserAction[] = isSelf
+      ? ['verification']
+      : ['verification', 'password-reset', target.disabledAt ? 'enable' : 'disable', 'sessions', 'unlock', 'delete']
+
+    return candidates.filter(action => {
+      if (action === 'verification' && target.emailVerified) return false
+      if (action === 'unlock' && !target.locked) return false
+      if (action === 'sessions' && target.activeSessions === 0) return false
+      return hasPermission(currentUser, actions[action].permission)
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-neutral-200">
+        <h1 className="text-lg font-medium text-neutral-900">Users</h1>
+        <p className="text-sm text-neutral-500">
+          Search accounts and act on them. Every action is recorded in the audit log.
+        </p>
+      </div>
+
+      <form onSubmit={applyFilters} className="px-6 py-4 border-b border-neutral-200 grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+        <div className="md:col-span-2">
+          <Input
+            label="Search"
+            placeholder="Email or name"
+            value={draft.search}
+            onChange={(e) => setDraft(prev => ({ ...prev, search: e.target.value }))}
+          />
+        </div>
+        <label className="block text-sm font-medium text-neutral-700">
+          Email
+          <select
+            className="mt-2 block w-full rounded-lg border border-neutral-300 px-3 py-2 text-sm"
+            value={draft.emailVerified}
+            onChange={(e) => setDraft(prev => ({ ...prev, emailVerified: e.target.value }))}
+          >
+            <option value="">Any</option>
+            <option value="true">Verified</option>
+            <option value="false">Unverified</option>
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-neutral-700">
+          Role
+          <select
+            className="mt-2 block w-full rounded-lg border border-neutral-300 px-3 py-2 text-sm"
+            value={draft.role}
+            onChange={(e) => setDraft(prev => ({ ...prev, role: e.target.value }))}
+          >
+            <option value="">Any</option>
+            {Object.keys(DEFAULT_ROLES).map(role => (
+              <option key={role} value={role}>{role}</option>
+            ))}
+          </select>
+        </label>
+        <Input
+          label="Created from"
+          type="date"
+          value={draft.createdFrom}
+          onChange={(e) => setDraft(prev => ({ ...prev, createdFrom: e.target.value }))}
+        />
+        <Input
+          label="Created to"
+          type="date"
+          value={draft.createdTo}
+          onChange={(e) => setDraft(prev => ({ ...prev, createdTo: e.target.value }))}
+        />
+        <div className="md:col-span-6 flex space-x-2">
+          <Button type="submit" size="sm">Apply filters</Button>
+          <Button type="button" variant="ghost" size="sm" onClick={clearFilters}>Clear</Button>
+        </div>
+      </form>
+
+      <div className="p-6 space-y-4">
+        {error && (
+          <Alert variant="error" closable onClose={() => setError('')}>
+            {error}
+          </Alert>
+        )}
+        {message && (
+          <Alert variant="success" closable onClose={() => setMessage('')}>
+            {message}
+          </Alert>
+        )}
+
+        {loading && users.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : users.length === 0 ? (
+          <p className="text-sm text-neutral-500">No users match these filters.</p>
+        ) : (
+          <ul className="divide-y divide-neutral-200">
+            {users.map(target => (
+              <li key={target.id} className="py-4 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+                <div>
+                  <p className="text-sm font-medium text-neutral-900">
+                    {target.email}
+                    {target.name && <span className="ml-2 text-neutral-500 font-normal">{target.name}</span>}
+                  </p>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {target.roles.map(role => (
+                      <StatusBadge key={role} tone="neutral">{role}</StatusBadge>
+                    ))}
+                    {!target.emailVerified && <StatusBadge tone="warning">Unverified</StatusBadge>}
+                    {target.locked && <StatusBadge tone="warning">Locked</StatusBadge>}
+                    {target.passwordResetRequired && <StatusBadge tone="warning">Reset required</StatusBadge>}
+                    {target.disabledAt && <StatusBadge tone="error">Disabled</StatusBadge>}
+                    {target.mfaEnabled && <StatusBadge tone="success">2FA</StatusBadge>}
+                  </div>
+                  <p className="mt-1 text-xs text-neutral-400">
+                    Joined {formatDate(target.createdAt)} · {target.activeSessions} active session{target.activeSessions === 1 ? '' : 's'}
+                    {target.disabledReason && ` · Disabled: ${target.disabledReason}`}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {availableActions(target).map(action => (
+                    <Button
+                      key={action}
+                      variant={action === 'delete' || action === 'disable' ? 'destructive' : 'outline'}
+                      size="sm"
+                      loading={pending === `${target.id}:${action}`}
+                      disabled={pending !== null}
+                      onClick={() => runAction(target, action)}
+                    >
+                      {actions[action].label}
+                    </Button>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between pt-4 border-t border-neutral-200">
+            <p className="text-sm text-neutral-500">
+              Page {pagination.page} of {pagination.totalPages} · {pagination.total} users
+            </p>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={loading || page <= 1}
+                onClick={() => setPage(prev => prev - 1)}
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={loading || page >= pagination.totalPages}
+                onClick={() => setPage(prev => prev + 1)}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
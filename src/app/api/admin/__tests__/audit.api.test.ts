@@ -0,0 +1,141 @@
+import { GET } from '../audit/route'
+import { TestUtils, APITestHelpers } from '@/lib/test-utils'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { logAuthEvent } from '@/lib/auth-logger'
+
+// Mock external dependencies
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    authAuditLog: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+    authSecurityAlert: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+    userRole: {
+      findMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/auth', () => ({
+  getCurrentUser: jest.fn(),
+}))
+
+jest.mock('@/lib/auth-logger', () => ({
+  logAuthEvent: jest.fn(),
+}))
+
+const mockPrisma = prisma as unknown as {
+  authAuditLog: { findMany: jest.Mock; count: jest.Mock }
+  authSecurityAlert: { findMany: jest.Mock; count: jest.Mock }
+  userRole: { findMany: jest.Mock }
+}
+const mockGetCurrentUser = getCurrentUser as jest.Mock
+
+const auditEntry = {
+  id: 'log-1',
+  event: 'login_failure',
+  success: false,
+  userId: null,
+  email: 'victim@example.com',
+  ip: '203.0.113.7',
+  userAgent: 'curl/8.0',
+  error: 'Invalid credentials',
+  sessionId: null,
+  duration: 120,
+  metadata: null,
+  createdAt: new Date('2026-03-01T10:00:00Z'),
+}
+
+function auditRequest(query = '') {
+  return APITestHelpers.testEndpoint(GET, 'GET', `/api/admin/audit${query}`)
+}
+
+describe('GET /api/admin/audit', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetCurrentUser.mockResolvedValue({ userId: 'admin-id', email: 'admin@example.com', sessionId: 'session-123' })
+    mockPrisma.userRole.findMany.mockResolvedValue([
+      { role: { name: 'admin', permissions: ['admin:access', 'audit:read'] } },
+    ])
+    mockPrisma.authAuditLog.findMany.mockResolvedValue([auditEntry])
+    mockPrisma.authAuditLog.count.mockResolvedValue(45)
+    mockPrisma.authSecurityAlert.findMany.mockResolvedValue([])
+    mockPrisma.authSecurityAlert.count.mockResolvedValue(0)
+  })
+
+  it('should return a page of events with pagination', async () => {
+    const { response, data } = await auditRequest('?ip=203.0.113.7&event=login_failure,account_locked')
+
+    TestUtils.assertValidResponse(response, 200)
+    TestUtils.assertSuccessResponse(data)
+    expect(data.events).toHaveLength(1)
+    expect(data.pagination).toEqual({ page: 1, pageSize: 20, total: 45, totalPages: 3 })
+    expect(mockPrisma.authAuditLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({
+        ip: '203.0.113.7',
+        event: { in: ['login_failure', 'account_locked'] },
+      }),
+    }))
+    expect(logAuthEvent).not.toHaveBeenCalled()
+  })
+
+  it('should return security alerts for kind=alerts', async () => {
+    const { response, data } = await auditRequest('?kind=alerts&level=high')
+
+    TestUtils.assertValidResponse(response, 200)
+    expect(data.alerts).toEqual([])
+    expect(mockPrisma.authSecurityAlert.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ level: 'high' }),
+    }))
+  })
+
+  it('should export matching events as CSV and record the export', async () => {
+    const request = TestUtils.createMockRequest('GET', '/api/admin/audit?format=csv&email=victim@example.com')
+    const response = await GET(request)
+    const body = await response.text()
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toContain('text/csv')
+    expect(response.headers.get('Content-Disposition')).toMatch(/attachment; filename="auth-events-.*\.csv"/)
+    expect(response.headers.get('X-Export-Truncated')).toBe('true')
+    expect(body.split('\r\n')[1]).toContain('victim@example.com')
+    expect(logAuthEvent).toHaveBeenCalledWith('admin_action', expect.any(Object), expect.objectContaining({
+      userId: 'admin-id',
+      metadata: expect.objectContaining({ action: 'export_audit_log', format: 'csv', rows: 1 }),
+    }))
+  })
+
+  it('should export as a JSON file', async () => {
+    const request = TestUtils.createMockRequest('GET', '/api/admin/audit?format=json')
+    const response = await GET(request)
+    const body = JSON.parse(await response.text())
+
+    expect(response.headers.get('Content-Disposition')).toMatch(/\.json"$/)
+    expect(body[0]).toEqual(expect.objectContaining({ id: 'log-1', event: 'login_failure' }))
+  })
+
+  it('should reject invalid filters', async () => {
+    const { response, data } = await auditRequest('?kind=everything&from=yesterday&format=xml')
+
+    TestUtils.assertValidResponse(response, 400)
+    expect(data.details).toHaveLength(3)
+    expect(mockPrisma.authAuditLog.findMany).not.toHaveBeenCalled()
+  })
+
+  it('should require the audit:read permission', async () => {
+    mockPrisma.userRole.findMany.mockResolvedValue([
+      { role: { name: 'support', permissions: ['admin:access', 'users:read'] } },
+    ])
+
+    const { response, data } = await auditRequest()
+
+    TestUtils.assertValidResponse(response, 403)
+    expect(data.code).toBe('FORBIDDEN')
+    expect(mockPrisma.authAuditLog.findMany).not.toHaveBeenCalled()
+  })
+})
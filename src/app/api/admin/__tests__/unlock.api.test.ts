@@ -0,0 +1,117 @@
+import { POST } from '../users/[id]/unlock/route'
+import { TestUtils, APITestHelpers } from '@/lib/test-utils'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { logAuthEvent, logAdminAction } from '@/lib/auth-logger'
+
+// Mock external dependencies
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    userRole: {
+      findMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/auth', () => ({
+  getCurrentUser: jest.fn(),
+}))
+
+jest.mock('@/lib/auth-logger', () => ({
+  logAuthEvent: jest.fn(),
+  logAdminAction: jest.fn(),
+}))
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; updateMany: jest.Mock }
+  userRole: { findMany: jest.Mock }
+}
+const mockGetCurrentUser = getCurrentUser as jest.Mock
+
+const params = { params: Promise.resolve({ id: 'locked-user-id' }) }
+
+function unlockRequest() {
+  return APITestHelpers.testEndpoint(
+    (request) => POST(request, params),
+    'POST',
+    '/api/admin/users/locked-user-id/unlock'
+  )
+}
+
+describe('POST /api/admin/users/:id/unlock', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetCurrentUser.mockResolvedValue({ userId: 'admin-id', email: 'admin@example.com', sessionId: 'session-123' })
+    mockPrisma.userRole.findMany.mockResolvedValue([
+      { role: { name: 'support', permissions: ['admin:access', 'users:unlock'] } },
+    ])
+    mockPrisma.user.findUnique.mockResolvedValue({
+      id: 'locked-user-id',
+      email: 'locked@example.com',
+      name: 'Locked User',
+      emailVerified: true,
+    })
+    mockPrisma.user.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  it('should unlock the account for a user with the users:unlock permission', async () => {
+    const { response, data } = await unlockRequest()
+
+    TestUtils.assertValidResponse(response, 200)
+    TestUtils.assertSuccessResponse(data)
+    expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'locked-user-id' },
+      data: expect.objectContaining({ failedLoginAttempts: 0, lockedUntil: null, unlockToken: null }),
+    })
+    expect(logAdminAction).toHaveBeenCalledWith(
+      expect.any(Object),
+      expect.objectContaining({ userId: 'admin-id' }),
+      'unlock_account',
+      expect.objectContaining({ id: 'locked-user-id', email: 'locked@example.com' })
+    )
+  })
+
+  it('should check permissions against the database, not just the token', async () => {
+    await unlockRequest()
+
+    expect(mockPrisma.userRole.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: 'admin-id' },
+    }))
+  })
+
+  it('should refuse a user without the permission', async () => {
+    mockPrisma.userRole.findMany.mockResolvedValue([])
+
+    const { response, data } = await unlockRequest()
+
+    TestUtils.assertValidResponse(response, 403)
+    expect(data.code).toBe('FORBIDDEN')
+    expect(mockPrisma.user.updateMany).not.toHaveBeenCalled()
+    expect(logAuthEvent).toHaveBeenCalledWith('access_denied', expect.any(Object), expect.objectContaining({
+      userId: 'admin-id',
+      metadata: { permission: 'users:unlock' },
+    }))
+  })
+
+  it('should require authentication', async () => {
+    mockGetCurrentUser.mockResolvedValue(null)
+
+    const { response } = await unlockRequest()
+
+    TestUtils.assertValidResponse(response, 401)
+    expect(mockPrisma.userRole.findMany).not.toHaveBeenCalled()
+  })
+
+  it('should return 404 for an unknown user', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue(null)
+
+    const { response } = await unlockRequest()
+
+    TestUtils.assertValidResponse(response, 404)
+    expect(mockPrisma.user.updateMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,396 @@
+import { GET } from '../users/route'
+import { DELETE } from '../users/[id]/route'
+import { POST as disable } from '../users/[id]/disable/route'
+import { POST as enable } from '../users/[id]/enable/route'
+import { POST as forceReset } from '../users/[id]/password-reset/route'
+import { POST as resendVerification } from '../users/[id]/verification/route'
+import { DELETE as revokeSessions } from '../users/[id]/sessions/route'
+import { TestUtils, APITestHelpers } from '@/lib/test-utils'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { logAdminAction } from '@/lib/auth-logger'
+import { emailService } from '@/lib/email-service'
+
+// Mock external dependencies
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    userRole: {
+      findMany: jest.fn(),
+    },
+    session: {
+      updateMany: jest.fn(),
+    },
+    authAuditLog: {
+      updateMany: jest.fn(),
+    },
+    authSecurityAlert: {
+      updateMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/auth', () => ({
+  getCurrentUser: jest.fn(),
+}))
+
+jest.mock('@/lib/auth-logger', () => ({
+  logAuthEvent: jest.fn(),
+  logAdminAction: jest.fn(),
+}))
+
+jest.mock('@/lib/email-service', () => ({
+  emailService: {
+    sendVerificationEmail: jest.fn(),
+    sendPasswordResetEmail: jest.fn(),
+  },
+}))
+
+const mockPrisma = prisma as unknown as {
+  user: {
+    findMany: jest.Mock
+    count: jest.Mock
+    findUnique: jest.Mock
+    update: jest.Mock
+    delete: jest.Mock
+  }
+  userRole: { findMany: jest.Mock }
+  session: { updateMany: jest.Mock }
+  authAuditLog: { updateMany: jest.Mock }
+  authSecurityAlert: { updateMany: jest.Mock }
+}
+const mockGetCurrentUser = getCurrentUser as jest.Mock
+const mockEmailService = emailService as unknown as {
+  sendVerificationEmail: jest.Mock
+  sendPasswordResetEmail: jest.Mock
+}
+
+const adminGrant = { role: { name: 'admin', permissions: ['admin:access', 'users:read', 'users:write', 'users:delete', 'sessions:revoke'] } }
+const targetUser = { id: 'target-id', email: 'target@example.com', name: 'Target User', emailVerified: true }
+
+function paramsFor(id: string) {
+  return { params: Promise.resolve({ id }) }
+}
+
+// The first userRole lookup is the admin's own access, the second the target's roles
+function givenTargetRoles(roles: string[]) {
+  mockPrisma.userRole.findMany
+    .mockResolvedValueOnce([adminGrant])
+    .mockResolvedValueOnce(roles.map(name => ({ role: { name, permissions: [] } })))
+}
+
+describe('Admin user management API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetCurrentUser.mockResolvedValue({ userId: 'admin-id', email: 'admin@example.com', sessionId: 'session-123' })
+    mockPrisma.userRole.findMany.mockResolvedValue([adminGrant])
+    mockPrisma.user.findUnique.mockResolvedValue(targetUser)
+    mockPrisma.user.update.mockResolvedValue(targetUser)
+    mockPrisma.session.updateMany.mockResolvedValue({ count: 2 })
+    mockPrisma.authAuditLog.updateMany.mockResolvedValue({ count: 3 })
+    mockPrisma.authSecurityAlert.updateMany.mockResolvedValue({ count: 0 })
+    mockEmailService.sendVerificationEmail.mockResolvedValue(true)
+    mockEmailService.sendPasswordResetEmail.mockResolvedValue(true)
+  })
+
+  describe('GET /api/admin/users', () => {
+    beforeEach(() => {
+      mockPrisma.user.findMany.mockResolvedValue([
+        {
+          id: 'user-1',
+          email: 'one@example.com',
+          name: 'User One',
+          emailVerified: false,
+          mfaEnabled: false,
+          createdAt: new Date('2026-01-01'),
+          lockedUntil: new Date(Date.now() + 60_000),
+          disabledAt: null,
+          disabledReason: null,
+          passwordResetRequired: false,
+          roles: [{ role: { name: 'support' } }],
+          _count: { sessions: 3 },
+        },
+      ])
+      mockPrisma.user.count.mockResolvedValue(41)
+    })
+
+    it('should list users with their roles, lock state and session count', async () => {
+      const { response, data } = await APITestHelpers.testEndpoint(GET, 'GET', '/api/admin/users')
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+      expect(data.users[0]).toEqual(expect.objectContaining({
+        id: 'user-1',
+        roles: ['user', 'support'],
+        locked: true,
+        activeSessions: 3,
+      }))
+      expect(data.pagination).toEqual({ page: 1, pageSize: 20, total: 41, totalPages: 3 })
+    })
+
+    it('should apply search, filters and pagination', async () => {
+      await APITestHelpers.testEndpoint(
+        GET,
+        'GET',
+        '/api/admin/users?search=one&emailVerified=false&role=support&createdFrom=2026-01-01&page=2&pageSize=10'
+      )
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          OR: [
+            { email: { contains: 'one', mode: 'insensitive' } },
+            { name: { contains: 'one', mode: 'insensitive' } },
+          ],
+          emailVerified: false,
+          roles: { some: { role: { name: 'support' } } },
+          createdAt: expect.objectContaining({ gte: new Date('2026-01-01') }),
+        }),
+        skip: 10,
+        take: 10,
+      }))
+    })
+
+    it('should treat the base role filter as users without any other role', async () => {
+      await APITestHelpers.testEndpoint(GET, 'GET', '/api/admin/users?role=user')
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { roles: { none: {} } },
+      }))
+    })
+
+    it('should reject invalid query parameters', async () => {
+      const { response, data } = await APITestHelpers.testEndpoint(
+        GET,
+        'GET',
+        '/api/admin/users?emailVerified=maybe&pageSize=500'
+      )
+
+      TestUtils.assertValidResponse(response, 400)
+      expect(data.details).toEqual(expect.arrayContaining([
+        expect.stringContaining('emailVerified'),
+        expect.stringContaining('pageSize'),
+      ]))
+      expect(mockPrisma.user.findMany).not.toHaveBeenCalled()
+    })
+
+    it('should refuse a user without users:read', async () => {
+      mockPrisma.userRole.findMany.mockResolvedValue([])
+
+      const { response, data } = await APITestHelpers.testEndpoint(GET, 'GET', '/api/admin/users')
+
+      TestUtils.assertValidResponse(response, 403)
+      expect(data.code).toBe('FORBIDDEN')
+      expect(mockPrisma.user.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST /api/admin/users/:id/disable', () => {
+    function disableRequest(id: string, body?: Record<string, unknown>) {
+      return APITestHelpers.testEndpoint(
+        (request) => disable(request, paramsFor(id)),
+        'POST',
+        `/api/admin/users/${id}/disable`,
+        body
+      )
+    }
+
+    it('should disable the account, end its sessions and log the action', async () => {
+      const { response, data } = await disableRequest('target-id', { reason: 'Chargeback fraud' })
+
+      TestUtils.assertValidResponse(response, 200)
+      expect(data.data.revokedSessions).toBe(2)
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'target-id' },
+        data: { disabledAt: expect.any(Date), disabledReason: 'Chargeback fraud' },
+      })
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ userId: 'target-id' }),
+      }))
+      expect(logAdminAction).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ userId: 'admin-id' }),
+        'disable_user',
+        expect.objectContaining({ id: 'target-id' }),
+        { reason: 'Chargeback fraud', revokedSessions: 2 }
+      )
+    })
+
+    it('should not let an administrator disable their own account', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...targetUser, id: 'admin-id' })
+
+      const { response } = await disableRequest('admin-id')
+
+      TestUtils.assertValidResponse(response, 400)
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('should only let a super admin act on a super admin', async () => {
+      givenTargetRoles(['super_admin'])
+
+      const { response } = await disableRequest('target-id')
+
+      TestUtils.assertValidResponse(response, 403)
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+      expect(logAdminAction).not.toHaveBeenCalled()
+    })
+
+    it('should return 404 for an unknown user', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null)
+
+      const { response } = await disableRequest('missing-id')
+
+      TestUtils.assertValidResponse(response, 404)
+    })
+  })
+
+  describe('POST /api/admin/users/:id/enable', () => {
+    it('should clear the disabled state', async () => {
+      const { response } = await APITestHelpers.testEndpoint(
+        (request) => enable(request, paramsFor('target-id')),
+        'POST',
+        '/api/admin/users/target-id/enable'
+      )
+
+      TestUtils.assertValidResponse(response, 200)
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'target-id' },
+        data: { disabledAt: null, disabledReason: null },
+      })
+      expect(logAdminAction).toHaveBeenCalledWith(expect.any(Object), expect.any(Object), 'enable_user', expect.any(Object))
+    })
+  })
+
+  describe('POST /api/admin/users/:id/password-reset', () => {
+    it('should require a new password, end sessions and email a reset link', async () => {
+      const { response, data } = await APITestHelpers.testEndpoint(
+        (request) => forceReset(request, paramsFor('target-id')),
+        'POST',
+        '/api/admin/users/target-id/password-reset'
+      )
+
+      TestUtils.assertValidResponse(response, 200)
+      expect(data.data).toEqual({ emailSent: true, revokedSessions: 2 })
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'target-id' },
+        data: expect.objectContaining({
+          passwordResetRequired: true,
+          passwordResetToken: expect.any(String),
+          passwordResetExpiresAt: expect.any(Date),
+        }),
+      })
+      expect(mockEmailService.sendPasswordResetEmail).toHaveBeenCalledWith(
+        'target@example.com',
+        'Target User',
+        expect.any(String),
+        60
+      )
+      expect(logAdminAction).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.any(Object),
+        'force_password_reset',
+        expect.any(Object),
+        expect.any(Object)
+      )
+    })
+  })
+
+  describe('POST /api/admin/users/:id/verification', () => {
+    function resendRequest() {
+      return APITestHelpers.testEndpoint(
+        (request) => resendVerification(request, paramsFor('target-id')),
+        'POST',
+        '/api/admin/users/target-id/verification'
+      )
+    }
+
+    it('should send a fresh verification email', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...targetUser, emailVerified: false })
+
+      const { response } = await resendRequest()
+
+      TestUtils.assertValidResponse(response, 200)
+      expect(mockEmailService.sendVerificationEmail).toHaveBeenCalledWith('target@example.com', 'Target User', expect.any(String))
+    })
+
+    it('should reject an already verified address', async () => {
+      const { response } = await resendRequest()
+
+      TestUtils.assertValidResponse(response, 400)
+      expect(mockEmailService.sendVerificationEmail).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('DELETE /api/admin/users/:id/sessions', () => {
+    it('should revoke every session of the user', async () => {
+      const { response, data } = await APITestHelpers.testEndpoint(
+        (request) => revokeSessions(request, paramsFor('target-id')),
+        'DELETE',
+        '/api/admin/users/target-id/sessions'
+      )
+
+      TestUtils.assertValidResponse(response, 200)
+      expect(data.revokedCount).toBe(2)
+      expect(logAdminAction).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.any(Object),
+        'revoke_sessions',
+        expect.any(Object),
+        { revokedCount: 2 }
+      )
+    })
+  })
+
+  describe('DELETE /api/admin/users/:id', () => {
+    function deleteRequest() {
+      return APITestHelpers.testEndpoint(
+        (request) => DELETE(request, paramsFor('target-id')),
+        'DELETE',
+        '/api/admin/users/target-id'
+      )
+    }
+
+    it('should delete the user and log it', async () => {
+      const { response } = await deleteRequest()
+
+      TestUtils.assertValidResponse(response, 200)
+      expect(mockPrisma.user.delete).toHaveBeenCalledWith({ where: { id: 'target-id' } })
+      expect(logAdminAction).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.any(Object),
+        'delete_user',
+        expect.objectContaining({ email: 'target@example.com' })
+      )
+    })
+
+    it('should anonymize the user\'s audit records before deleting them', async () => {
+      await deleteRequest()
+
+      expect(mockPrisma.authAuditLog.updateMany).toHaveBeenCalledWith({
+        where: { OR: [{ userId: 'target-id' }, { email: 'target@example.com' }] },
+        data: expect.objectContaining({ userId: null, email: null }),
+      })
+      expect(mockPrisma.authSecurityAlert.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { userId: 'target-id' },
+      }))
+      expect(mockPrisma.authAuditLog.updateMany.mock.invocationCallOrder[0])
+        .toBeLessThan(mockPrisma.user.delete.mock.invocationCallOrder[0])
+    })
+
+    it('should require users:delete', async () => {
+      mockPrisma.userRole.findMany.mockResolvedValue([
+        { role: { name: 'support', permissions: ['admin:access', 'users:read', 'users:write'] } },
+      ])
+
+      const { response } = await deleteRequest()
+
+      TestUtils.assertValidResponse(response, 403)
+      expect(mockPrisma.user.delete).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/rbac'
+import { PERMISSIONS } from '@/lib/permissions'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { validateAuditQuery } from '@/lib/validation'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { AUDIT_EXPORT_LIMIT, AuditLogService } from '@/lib/audit-log'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// ?kind=events|alerts&userId=&email=&ip=&event=a,b&success=&level=&type=&from=&to=&page=&pageSize=
+// Add format=csv or format=json to download every match (up to AUDIT_EXPORT_LIMIT) instead of one page
+export const GET = withRateLimit(async (request: NextRequest) => {
+  try {
+    const check = await requirePermission(request, PERMISSIONS.AUDIT_READ)
+    if (!check.authorized) {
+      return check.response
+    }
+
+    const validation = validateAuditQuery(request.nextUrl.searchParams)
+    if (!validation.isValid) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      ))
+    }
+
+    const query = validation.data!
+    const limit = query.format ? AUDIT_EXPORT_LIMIT : undefined
+    const { rows, total } = await AuditLogService.find(query, limit)
+
+    if (!query.format) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: true,
+          [query.kind]: rows,
+          pagination: {
+            page: query.page,
+            pageSize: query.pageSize,
+            total,
+            totalPages: Math.ceil(total / query.pageSize)
+          }
+        },
+        { status: 200 }
+      ))
+    }
+
+    // Exports leave the system, so who took what is part of the audit trail too
+    await logAuthEvent('admin_action', request, {
+      success: true,
+      userId: check.user.userId,
+      email: check.user.email,
+      sessionId: check.user.sessionId,
+      metadata: {
+        action: 'export_audit_log',
+        kind: query.kind,
+        format: query.format,
+        rows: rows.length,
+        filters: Object.fromEntries(request.nextUrl.searchParams)
+      }
+    })
+
+    const filename = `auth-${query.kind}-${new Date().toISOString().slice(0, 10)}.${query.format}`
+    const body = query.format === 'csv'
+      ? AuditLogService.toCsv(query.kind, rows)
+      : JSON.stringify(rows, null, 2)
+
+    return authSecurityHeaders.applyHeaders(new NextResponse(body, {
+      status: 200,
+      headers: {
+        'Content-Type': query.format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'X-Total-Count': String(total),
+        'X-Export-Truncated': String(total > rows.length)
+      }
+    }))
+
+  } catch (error) {
+    console.error('Admin audit log error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/rbac'
+import { PERMISSIONS } from '@/lib/permissions'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { authSanitizer } from '@/lib/sanitization'
+import { logAdminAction } from '@/lib/auth-logger'
+import { AdminUserService } from '@/lib/admin-users'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// Body: { reason? }. Ends every session; no sign-in method works until the account is enabled again
+export const POST = withRateLimit(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const check = await requirePermission(request, PERMISSIONS.USERS_WRITE)
+    if (!check.authorized) {
+      return check.response
+    }
+
+    const { id } = await params
+    const resolved = await AdminUserService.resolveTarget(check, id)
+    if ('response' in resolved) {
+      return resolved.response
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const reason = typeof body?.reason === 'string'
+      ? authSanitizer.sanitizeObject(body.reason.trim().slice(0, 500))
+      : undefined
+
+    const { revokedSessions } = await AdminUserService.disableUser(resolved.target.id, reason)
+
+    await logAdminAction(request, check.user, 'disable_user', resolved.target, { reason, revokedSessions })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'Account disabled',
+        data: { revokedSessions }
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Admin disable user error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/rbac'
+import { PERMISSIONS } from '@/lib/permissions'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAdminAction } from '@/lib/auth-logger'
+import { AdminUserService } from '@/lib/admin-users'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// Signs the user out and blocks password sign-in until they choose a new password from the emailed link
+export const POST = withRateLimit(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const check = await requirePermission(request, PERMISSIONS.USERS_WRITE)
+    if (!check.authorized) {
+      return check.response
+    }
+
+    const { id } = await params
+    const resolved = await AdminUserService.resolveTarget(check, id)
+    if ('response' in resolved) {
+      return resolved.response
+    }
+
+    const result = await AdminUserService.forcePasswordReset(resolved.target)
+
+    await logAdminAction(request, check.user, 'force_password_reset', resolved.target, result)
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'Password reset required. The user has been signed out everywhere.',
+        data: result
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Admin force password reset error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/rbac'
+import { PERMISSIONS } from '@/lib/permissions'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAdminAction } from '@/lib/auth-logger'
+import { AdminUserService } from '@/lib/admin-users'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+export const DELETE = withRateLimit(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const check = await requirePermission(request, PERMISSIONS.USERS_DELETE)
+    if (!check.authorized) {
+      return check.response
+    }
+
+    const { id } = await params
+    const resolved = await AdminUserService.resolveTarget(check, id)
+    if ('response' in resolved) {
+      return resolved.response
+    }
+
+    await AdminUserService.deleteUser(resolved.target)
+
+    await logAdminAction(request, check.user, 'delete_user', resolved.target)
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'User deleted'
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Admin delete user error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/rbac'
+import { PERMISSIONS } from '@/lib/permissions'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAdminAction } from '@/lib/auth-logger'
+import { AdminUserService } from '@/lib/admin-users'
+import { SessionService } from '@/lib/session'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// Signs the user out of every device
+export const DELETE = withRateLimit(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const check = await requirePermission(request, PERMISSIONS.SESSIONS_REVOKE)
+    if (!check.authorized) {
+      return check.response
+    }
+
+    const { id } = await params
+    const resolved = await AdminUserService.resolveTarget(check, id)
+    if ('response' in resolved) {
+      return resolved.response
+    }
+
+    const revokedCount = await SessionService.revokeAllSessions(resolved.target.id)
+
+    await logAdminAction(request, check.user, 'revoke_sessions', resolved.target, { revokedCount })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        revokedCount,
+        message: revokedCount === 1 ? 'Revoked 1 session' : `Revoked ${revokedCount} sessions`
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Admin revoke sessions error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
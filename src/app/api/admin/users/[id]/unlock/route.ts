@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/rbac'
+import { PERMISSIONS } from '@/lib/permissions'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAdminAction } from '@/lib/auth-logger'
+import { AccountLockoutService } from '@/lib/account-lockout'
+import { AdminUserService } from '@/lib/admin-users'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// Lifts a lockout for a user who can't reach the unlock email
+export const POST = withRateLimit(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const check = await requirePermission(request, PERMISSIONS.USERS_UNLOCK)
+    if (!check.authorized) {
+      return check.response
+    }
+
+    const { id } = await params
+    const resolved = await AdminUserService.resolveTarget(check, id)
+    if ('response' in resolved) {
+      return resolved.response
+    }
+
+    await AccountLockoutService.unlockAccount(resolved.target.id)
+
+    await logAdminAction(request, check.user, 'unlock_account', resolved.target)
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'Account unlocked'
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Admin account unlock error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
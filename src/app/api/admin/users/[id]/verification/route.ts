@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/rbac'
+import { PERMISSIONS } from '@/lib/permissions'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAdminAction } from '@/lib/auth-logger'
+import { AdminUserService } from '@/lib/admin-users'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// Sends a fresh verification link, replacing any earlier one
+export const POST = withRateLimit(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const check = await requirePermission(request, PERMISSIONS.USERS_WRITE)
+    if (!check.authorized) {
+      return check.response
+    }
+
+    const { id } = await params
+    const resolved = await AdminUserService.resolveTarget(check, id, { allowSelf: true })
+    if ('response' in resolved) {
+      return resolved.response
+    }
+
+    if (resolved.target.emailVerified) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Email already verified'
+        },
+        { status: 400 }
+      ))
+    }
+
+    const { emailSent } = await AdminUserService.resendVerification(resolved.target)
+
+    await logAdminAction(request, check.user, 'resend_verification', resolved.target, { emailSent })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: emailSent ? 'Verification email sent' : 'Verification link created, but the email could not be sent',
+        data: { emailSent }
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Admin resend verification error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
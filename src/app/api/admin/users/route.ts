@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/rbac'
+import { PERMISSIONS } from '@/lib/permissions'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { validateAdminUserQuery } from '@/lib/validation'
+import { AdminUserService } from '@/lib/admin-users'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// Search and filter accounts: ?search=&emailVerified=&role=&createdFrom=&createdTo=&page=&pageSize=
+export const GET = withRateLimit(async (request: NextRequest) => {
+  try {
+    const check = await requirePermission(request, PERMISSIONS.USERS_READ)
+    if (!check.authorized) {
+      return check.response
+    }
+
+    const validation = validateAdminUserQuery(request.nextUrl.searchParams)
+    if (!validation.isValid) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      ))
+    }
+
+    const query = validation.data!
+    const { users, total } = await AdminUserService.listUsers(query)
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        users,
+        pagination: {
+          page: query.page,
+          pageSize: query.pageSize,
+          total,
+          totalPages: Math.ceil(total / query.pageSize)
+        }
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Admin list users error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
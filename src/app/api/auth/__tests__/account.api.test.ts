@@ -0,0 +1,228 @@
+import bcrypt from 'bcryptjs'
+import { GET as exportData } from '../account/export/route'
+import { POST as requestDeletion, DELETE as cancelDeletion } from '../account/deletion/route'
+import { POST as cancelDeletionLink } from '../account/deletion/cancel/route'
+import { TestUtils, APITestHelpers } from '@/lib/test-utils'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { SessionService } from '@/lib/session'
+import { MfaService } from '@/lib/mfa'
+import { AuditLogService } from '@/lib/audit-log'
+import { AccountDeletionService } from '@/lib/account-deletion'
+
+// Mock external dependencies
+jest.mock('bcryptjs')
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/auth', () => ({
+  getCurrentUser: jest.fn(),
+}))
+
+jest.mock('@/lib/auth-logger', () => ({
+  logAuthEvent: jest.fn(),
+}))
+
+jest.mock('@/lib/session', () => ({
+  SessionService: {
+    revokeAllSessions: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/mfa', () => ({
+  MfaService: {
+    verifyCode: jest.fn(),
+    consumeRecoveryCode: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/audit-log', () => ({
+  AuditLogService: {
+    findForUser: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/account-deletion', () => ({
+  ACCOUNT_DELETION_GRACE_DAYS: 30,
+  AccountDeletionService: {
+    schedule: jest.fn(),
+    cancel: jest.fn(),
+    cancelWithToken: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/rate-limit', () => ({
+  accountExportRateLimit: {
+    middleware: jest.fn((request, handler) => handler()),
+  },
+  accountDeletionRateLimit: {
+    middleware: jest.fn((request, handler) => handler()),
+  },
+}))
+
+const mockBcrypt = bcrypt as jest.Mocked<typeof bcrypt>
+const mockPrisma = prisma as unknown as { user: { findUnique: jest.Mock } }
+const mockGetCurrentUser = getCurrentUser as jest.Mock
+const mockSessionService = SessionService as unknown as { revokeAllSessions: jest.Mock }
+const mockMfaService = MfaService as unknown as { verifyCode: jest.Mock; consumeRecoveryCode: jest.Mock }
+const mockAuditLogService = AuditLogService as unknown as { findForUser: jest.Mock }
+const mockDeletion = AccountDeletionService as unknown as {
+  schedule: jest.Mock
+  cancel: jest.Mock
+  cancelWithToken: jest.Mock
+}
+
+const scheduledFor = new Date('2026-11-18T00:00:00Z')
+
+describe('/api/auth/account', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetCurrentUser.mockResolvedValue({ userId: 'test-user-id', email: 'test@example.com', sessionId: 'session-current' })
+    ;(mockBcrypt.compare as jest.Mock).mockImplementation(async (candidate: string) => candidate === 'Correct-Password-1!')
+    mockSessionService.revokeAllSessions.mockResolvedValue(3)
+    mockDeletion.schedule.mockResolvedValue({ scheduledFor, emailSent: true })
+  })
+
+  describe('GET /export', () => {
+    beforeEach(() => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        ...TestUtils.mockPrismaUser(),
+        preferences: { theme: 'dark' },
+        sessions: [{ ipAddress: '203.0.113.9', userAgent: 'jest', createdAt: new Date() }],
+        knownDevices: [],
+        credentials: [{ name: 'Laptop', deviceType: 'multiDevice' }],
+        oauthAccounts: [],
+        roles: [{ assignedAt: new Date(), role: { name: 'support' } }],
+        recoveryCodes: [{ usedAt: null }, { usedAt: new Date() }],
+      })
+      mockAuditLogService.findForUser.mockResolvedValue({
+        events: [{ event: 'login_success' }, { event: 'login_failure' }],
+        alerts: [],
+      })
+    })
+
+    it('should download the account as a JSON attachment', async () => {
+      const { response, data } = await APITestHelpers.testEndpoint(exportData, 'GET', '/api/auth/account/export')
+
+      TestUtils.assertValidResponse(response, 200)
+      expect(response.headers.get('Content-Disposition')).toMatch(/^attachment; filename="hayl-account-\d{4}-\d{2}-\d{2}\.json"$/)
+      expect(data.profile.email).toBe('test@example.com')
+      expect(data.preferences.theme).toBe('dark')
+      expect(data.roles).toEqual([{ name: 'support', assignedAt: expect.any(String) }])
+      expect(data.security.recoveryCodesRemaining).toBe(1)
+      expect(data.activity.events).toHaveLength(2)
+      expect(mockAuditLogService.findForUser).toHaveBeenCalledWith('test-user-id', 'test@example.com')
+      expect(logAuthEvent).toHaveBeenCalledWith('data_exported', expect.anything(), expect.objectContaining({ userId: 'test-user-id' }))
+    })
+
+    it('should never ask the database for secrets', async () => {
+      await APITestHelpers.testEndpoint(exportData, 'GET', '/api/auth/account/export')
+
+      const { select } = mockPrisma.user.findUnique.mock.calls[0][0]
+      expect(select).not.toHaveProperty('password')
+      expect(select).not.toHaveProperty('mfaSecret')
+      expect(select.credentials.select).not.toHaveProperty('publicKey')
+      expect(select.recoveryCodes.select).not.toHaveProperty('codeHash')
+    })
+
+    it('should require authentication', async () => {
+      mockGetCurrentUser.mockResolvedValue(null)
+
+      const { response } = await APITestHelpers.testEndpoint(exportData, 'GET', '/api/auth/account/export')
+
+      TestUtils.assertValidResponse(response, 401)
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST /deletion', () => {
+    function deleteAccount(body: Record<string, unknown>) {
+      return APITestHelpers.testEndpoint(requestDeletion, 'POST', '/api/auth/account/deletion', body)
+    }
+
+    it('should schedule the deletion and end every other session', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...TestUtils.mockPrismaUser(), mfaEnabled: false, deletionScheduledFor: null })
+
+      const { response, data } = await deleteAccount({ password: 'Correct-Password-1!' })
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+      expect(data.data.scheduledFor).toBe(scheduledFor.toISOString())
+      expect(mockDeletion.schedule).toHaveBeenCalledWith(expect.objectContaining({ id: 'test-user-id' }))
+      expect(mockSessionService.revokeAllSessions).toHaveBeenCalledWith('test-user-id', 'session-current')
+      expect(logAuthEvent).toHaveBeenCalledWith('account_deletion_requested', expect.anything(), expect.objectContaining({ success: true }))
+    })
+
+    it('should reject a wrong password', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...TestUtils.mockPrismaUser(), mfaEnabled: false, deletionScheduledFor: null })
+
+      const { response, data } = await deleteAccount({ password: 'wrong' })
+
+      TestUtils.assertValidResponse(response, 400)
+      TestUtils.assertErrorResponse(data, 'Current password is incorrect')
+      expect(mockDeletion.schedule).not.toHaveBeenCalled()
+      expect(logAuthEvent).toHaveBeenCalledWith('account_deletion_requested', expect.anything(), expect.objectContaining({ success: false }))
+    })
+
+    it('should require a second factor when MFA is on', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...TestUtils.mockPrismaUser(), mfaEnabled: true, mfaSecret: 'SECRET', deletionScheduledFor: null })
+      mockMfaService.verifyCode.mockResolvedValue(false)
+      mockMfaService.consumeRecoveryCode.mockResolvedValue(false)
+
+      const { response, data } = await deleteAccount({ password: 'Correct-Password-1!', code: '000000' })
+
+      TestUtils.assertValidResponse(response, 400)
+      TestUtils.assertErrorResponse(data, 'Invalid authentication code')
+      expect(mockDeletion.schedule).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to schedule twice', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...TestUtils.mockPrismaUser(), mfaEnabled: false, deletionScheduledFor: scheduledFor })
+
+      const { response } = await deleteAccount({ password: 'Correct-Password-1!' })
+
+      TestUtils.assertValidResponse(response, 409)
+      expect(mockDeletion.schedule).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('cancelling', () => {
+    it('should cancel from settings', async () => {
+      mockDeletion.cancel.mockResolvedValue(true)
+
+      const { response, data } = await APITestHelpers.testEndpoint(cancelDeletion, 'DELETE', '/api/auth/account/deletion')
+
+      TestUtils.assertValidResponse(response, 200)
+      expect(data.message).toBe('Account deletion cancelled')
+      expect(mockDeletion.cancel).toHaveBeenCalledWith('test-user-id')
+      expect(logAuthEvent).toHaveBeenCalledWith('account_deletion_cancelled', expect.anything(), expect.objectContaining({
+        metadata: { method: 'settings' },
+      }))
+    })
+
+    it('should cancel from the emailed link without a session', async () => {
+      mockGetCurrentUser.mockResolvedValue(null)
+      mockDeletion.cancelWithToken.mockResolvedValue({ id: 'test-user-id', email: 'test@example.com' })
+
+      const { response } = await APITestHelpers.testEndpoint(cancelDeletionLink, 'POST', '/api/auth/account/deletion/cancel', { token: 'cancel-token' })
+
+      TestUtils.assertValidResponse(response, 200)
+      expect(mockDeletion.cancelWithToken).toHaveBeenCalledWith('cancel-token')
+    })
+
+    it('should reject an unknown link', async () => {
+      mockDeletion.cancelWithToken.mockResolvedValue(null)
+
+      const { response } = await APITestHelpers.testEndpoint(cancelDeletionLink, 'POST', '/api/auth/account/deletion/cancel', { token: 'nope' })
+
+      TestUtils.assertValidResponse(response, 400)
+      expect(logAuthEvent).toHaveBeenCalledWith('suspicious_activity', expect.anything(), expect.objectContaining({ success: false }))
+    })
+  })
+})
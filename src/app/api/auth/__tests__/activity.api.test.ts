@@ -0,0 +1,211 @@
+import { GET } from '../activity/route'
+import { POST as reportActivity } from '../activity/report/route'
+import { TestUtils, APITestHelpers } from '@/lib/test-utils'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { logSuspiciousActivity } from '@/lib/auth-logger'
+import { emailService } from '@/lib/email-service'
+
+// Mock external dependencies
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    session: {
+      updateMany: jest.fn(),
+    },
+    authAuditLog: {
+      findMany: jest.fn(),
+    },
+    authSecurityAlert: {
+      findMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/auth', () => ({
+  getCurrentUser: jest.fn(),
+}))
+
+jest.mock('@/lib/auth-logger', () => ({
+  logSuspiciousActivity: jest.fn(),
+}))
+
+jest.mock('@/lib/email-service', () => ({
+  emailService: {
+    sendPasswordResetEmail: jest.fn(),
+  },
+}))
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; update: jest.Mock }
+  session: { updateMany: jest.Mock }
+  authAuditLog: { findMany: jest.Mock }
+  authSecurityAlert: { findMany: jest.Mock }
+}
+const mockGetCurrentUser = getCurrentUser as jest.Mock
+const mockEmailService = emailService as unknown as { sendPasswordResetEmail: jest.Mock }
+
+const currentUser = {
+  userId: 'test-user-id',
+  email: 'test@example.com',
+  sessionId: 'session-current',
+}
+
+const chromeOnMac = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+
+function auditEvent(id: string, event: string, createdAt: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    event,
+    success: true,
+    userId: 'test-user-id',
+    email: 'test@example.com',
+    ip: '203.0.113.7',
+    userAgent: chromeOnMac,
+    metadata: null,
+    createdAt: new Date(createdAt),
+    ...overrides,
+  }
+}
+
+describe('/api/auth/activity', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetCurrentUser.mockResolvedValue(currentUser)
+    mockPrisma.authAuditLog.findMany.mockResolvedValue([])
+    mockPrisma.authSecurityAlert.findMany.mockResolvedValue([])
+  })
+
+  describe('GET /api/auth/activity', () => {
+    it('should merge events and alerts newest first', async () => {
+      mockPrisma.authAuditLog.findMany.mockResolvedValue([
+        auditEvent('e2', 'login_success', '2026-03-02T10:00:00Z', { metadata: { method: 'passkey' } }),
+        auditEvent('e1', 'login_failure', '2026-03-01T10:00:00Z', { success: false }),
+      ])
+      mockPrisma.authSecurityAlert.findMany.mockResolvedValue([
+        {
+          id: 'a1',
+          level: 'low',
+          type: 'new_device_login',
+          userId: 'test-user-id',
+          ip: '198.51.100.1',
+          metadata: { userAgent: chromeOnMac },
+          createdAt: new Date('2026-03-01T12:00:00Z'),
+        },
+      ])
+
+      const { response, data } = await APITestHelpers.testEndpoint(GET, 'GET', '/api/auth/activity')
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+      expect(data.activity.map((item: { id: string }) => item.id)).toEqual(['e2', 'a1', 'e1'])
+      expect(data.activity[0]).toEqual(expect.objectContaining({
+        kind: 'event',
+        type: 'login_success',
+        method: 'passkey',
+        device: expect.objectContaining({ browser: 'Chrome' }),
+      }))
+      expect(data.activity[1]).toEqual(expect.objectContaining({ kind: 'alert', type: 'new_device_login', level: 'low' }))
+      expect(data.nextCursor).toBeNull()
+    })
+
+    it('should only read the signed-in user\'s records', async () => {
+      await APITestHelpers.testEndpoint(GET, 'GET', '/api/auth/activity')
+
+      expect(mockPrisma.authAuditLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ userId: 'test-user-id' }),
+      }))
+      expect(mockPrisma.authSecurityAlert.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ userId: 'test-user-id' }),
+      }))
+    })
+
+    it('should page by time with a cursor', async () => {
+      mockPrisma.authAuditLog.findMany.mockResolvedValue([
+        auditEvent('e3', 'login_success', '2026-03-03T10:00:00Z'),
+        auditEvent('e2', 'login_success', '2026-03-02T10:00:00Z'),
+        auditEvent('e1', 'login_success', '2026-03-01T10:00:00Z'),
+      ])
+
+      const { data } = await APITestHelpers.testEndpoint(
+        GET,
+        'GET',
+        '/api/auth/activity?limit=2&before=2026-03-04T00:00:00Z'
+      )
+
+      expect(data.activity).toHaveLength(2)
+      expect(data.nextCursor).toBe('2026-03-02T10:00:00.000Z')
+      expect(mockPrisma.authAuditLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ createdAt: { lt: new Date('2026-03-04T00:00:00Z') } }),
+        take: 3,
+      }))
+    })
+
+    it('should reject an invalid cursor or limit', async () => {
+      const { response } = await APITestHelpers.testEndpoint(GET, 'GET', '/api/auth/activity?before=soon&limit=500')
+
+      TestUtils.assertValidResponse(response, 400)
+      expect(mockPrisma.authAuditLog.findMany).not.toHaveBeenCalled()
+    })
+
+    it('should require authentication', async () => {
+      mockGetCurrentUser.mockResolvedValue(null)
+
+      const { response } = await APITestHelpers.testEndpoint(GET, 'GET', '/api/auth/activity')
+
+      TestUtils.assertValidResponse(response, 401)
+    })
+  })
+
+  describe('POST /api/auth/activity/report', () => {
+    beforeEach(() => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'test-user-id', email: 'test@example.com', name: 'Test User' })
+      mockPrisma.user.update.mockResolvedValue({})
+      mockPrisma.session.updateMany.mockResolvedValue({ count: 3 })
+      mockEmailService.sendPasswordResetEmail.mockResolvedValue(true)
+    })
+
+    it('should revoke every session, require a new password and clear cookies', async () => {
+      const { response, data } = await APITestHelpers.testEndpoint(
+        reportActivity,
+        'POST',
+        '/api/auth/activity/report',
+        { activityId: 'e2' }
+      )
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { userId: 'test-user-id', revokedAt: null },
+      }))
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'test-user-id' },
+        data: expect.objectContaining({ passwordResetRequired: true, passwordResetToken: expect.any(String) }),
+      })
+      expect(mockEmailService.sendPasswordResetEmail).toHaveBeenCalledWith('test@example.com', 'Test User', expect.any(String), 60)
+      expect(response.cookies.get('access-token')?.value).toBe('')
+      expect(response.cookies.get('refresh-token')?.value).toBe('')
+    })
+
+    it('should record the report for the security team', async () => {
+      await APITestHelpers.testEndpoint(reportActivity, 'POST', '/api/auth/activity/report', { activityId: 'e2' })
+
+      expect(logSuspiciousActivity).toHaveBeenCalledWith(expect.any(Object), expect.any(String), expect.objectContaining({
+        userId: 'test-user-id',
+        metadata: expect.objectContaining({ reportedByUser: true, activityId: 'e2', revokedSessions: 3 }),
+      }))
+    })
+
+    it('should require authentication', async () => {
+      mockGetCurrentUser.mockResolvedValue(null)
+
+      const { response } = await APITestHelpers.testEndpoint(reportActivity, 'POST', '/api/auth/activity/report', {})
+
+      TestUtils.assertValidResponse(response, 401)
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,149 @@
+import bcrypt from 'bcryptjs'
+import { POST } from '../change-password/route'
+import { TestUtils, APITestHelpers } from '@/lib/test-utils'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { SessionService } from '@/lib/session'
+
+// Mock external dependencies
+jest.mock('bcryptjs')
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    refreshToken: {
+      create: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/auth', () => ({
+  getCurrentUser: jest.fn(),
+}))
+
+jest.mock('@/lib/auth-logger', () => ({
+  logAuthEvent: jest.fn(),
+}))
+
+jest.mock('@/lib/session', () => ({
+  SessionService: {
+    revokeAllSessions: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/rbac', () => ({
+  RbacService: {
+    getUserAccess: jest.fn().mockResolvedValue({ roles: ['user'], permissions: [] }),
+  },
+}))
+
+jest.mock('@/lib/rate-limit', () => ({
+  changePasswordRateLimit: {
+    middleware: jest.fn((request, handler) => handler()),
+  },
+}))
+
+const mockBcrypt = bcrypt as jest.Mocked<typeof bcrypt>
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; update: jest.Mock }
+  refreshToken: { create: jest.Mock }
+}
+const mockGetCurrentUser = getCurrentUser as jest.Mock
+const mockSessionService = SessionService as unknown as { revokeAllSessions: jest.Mock }
+
+const strongPassword = 'Violet-Harbor-93!'
+
+function changePassword(body: Record<string, unknown>) {
+  return APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/change-password', body)
+}
+
+describe('/api/auth/change-password', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetCurrentUser.mockResolvedValue({ userId: 'test-user-id', email: 'test@example.com', sessionId: 'session-current' })
+    mockPrisma.user.findUnique.mockResolvedValue(TestUtils.mockPrismaUser())
+    mockPrisma.user.update.mockResolvedValue({})
+    mockPrisma.refreshToken.create.mockResolvedValue({})
+    mockSessionService.revokeAllSessions.mockResolvedValue(2)
+    // Current password matches; the new one differs from it
+    ;(mockBcrypt.compare as jest.Mock).mockImplementation(async (candidate: string) => candidate === 'Old-Password-1!')
+    ;(mockBcrypt.hash as jest.Mock).mockResolvedValue('$2a$12$newhash')
+  })
+
+  it('should change the password, end other sessions and keep this one signed in', async () => {
+    const { response, data } = await changePassword({ currentPassword: 'Old-Password-1!', newPassword: strongPassword })
+
+    TestUtils.assertValidResponse(response, 200)
+    TestUtils.assertSuccessResponse(data)
+    expect(data.data.revokedSessions).toBe(2)
+    expect(mockPrisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'test-user-id' },
+      data: expect.objectContaining({ password: '$2a$12$newhash', passwordChangedAt: expect.any(Date) }),
+    })
+    expect(mockSessionService.revokeAllSessions).toHaveBeenCalledWith('test-user-id', 'session-current')
+    expect(mockPrisma.refreshToken.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ sessionId: 'session-current' }),
+    })
+    expect(response.cookies.get('access-token')?.value).toBeTruthy()
+    expect(response.cookies.get('refresh-token')?.value).toBeTruthy()
+    expect(logAuthEvent).toHaveBeenCalledWith('password_changed', expect.any(Object), expect.objectContaining({
+      success: true,
+      metadata: { revokedSessions: 2 },
+    }))
+  })
+
+  it('should reject a wrong current password', async () => {
+    const { response, data } = await changePassword({ currentPassword: 'guess', newPassword: strongPassword })
+
+    TestUtils.assertValidResponse(response, 400)
+    TestUtils.assertErrorResponse(data, 'Current password is incorrect')
+    expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    expect(logAuthEvent).toHaveBeenCalledWith('password_changed', expect.any(Object), expect.objectContaining({
+      success: false,
+    }))
+  })
+
+  it('should reject a weak new password with the checker\'s feedback', async () => {
+    const { response, data } = await changePassword({ currentPassword: 'Old-Password-1!', newPassword: 'password1' })
+
+    TestUtils.assertValidResponse(response, 400)
+    TestUtils.assertErrorResponse(data, 'Password is too weak')
+    expect(data.details).toEqual(expect.arrayContaining(['Password must contain at least one uppercase letter']))
+    expect(mockPrisma.user.update).not.toHaveBeenCalled()
+  })
+
+  it('should reject a password built from the email address', async () => {
+    const { response, data } = await changePassword({ currentPassword: 'Old-Password-1!', newPassword: 'Test-Example-91!' })
+
+    TestUtils.assertValidResponse(response, 400)
+    expect(data.details).toContain('Password should not contain personal information')
+  })
+
+  it('should reject reusing the current password', async () => {
+    ;(mockBcrypt.compare as jest.Mock).mockResolvedValue(true)
+
+    const { response, data } = await changePassword({ currentPassword: strongPassword, newPassword: strongPassword })
+
+    TestUtils.assertValidResponse(response, 400)
+    expect(data.details).toEqual(['New password must be different from your current password'])
+  })
+
+  it('should require both fields', async () => {
+    const { response, data } = await changePassword({ newPassword: strongPassword })
+
+    TestUtils.assertValidResponse(response, 400)
+    expect(data.details).toEqual(['Current password is required'])
+  })
+
+  it('should require authentication', async () => {
+    mockGetCurrentUser.mockResolvedValue(null)
+
+    const { response } = await changePassword({ currentPassword: 'Old-Password-1!', newPassword: strongPassword })
+
+    TestUtils.assertValidResponse(response, 401)
+    expect(mockPrisma.user.findUnique).not.toHaveBeenCalled()
+  })
+})
@@ -2,6 +2,13 @@ import { NextRequest, NextResponse } from 'next/server'
 import { POST } from '../login/route'
 import { TestUtils, TestDataFactory, DatabaseTestHelpers, APITestHelpers } from '@/lib/test-utils'
 import bcrypt from 'bcryptjs'
+import { prisma } from '@/lib/prisma'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { SessionService } from '@/lib/session'
+import { emailService } from '@/lib/email-service'
+import { LOCKOUT_THRESHOLD } from '@/lib/account-lockout'
+import { EMAIL_FAILURE_THRESHOLD } from '@/lib/credential-stuffing'
+import { solveProofOfWork } from '@/lib/proof-of-work'
 
 // Mock external dependencies
 jest.mock('bcryptjs')
@@ -9,10 +16,18 @@ jest.mock('@/lib/prisma', () => ({
   prisma: {
     user: {
       findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
     },
   },
 }))
 
+jest.mock('@/lib/email-service', () => ({
+  emailService: {
+    sendAccountLockedEmail: jest.fn().mockResolvedValue(true),
+  },
+}))
+
 jest.mock('@/lib/rate-limit', () => ({
   authRateLimit: {
     middleware: jest.fn((request, handler) => handler()),
@@ -40,13 +55,27 @@ jest.mock('@/lib/sanitization', () => ({
 
 jest.mock('@/lib/auth-logger', () => ({
   logLogin: jest.fn(),
+  logAuthEvent: jest.fn(),
+}))
+
+jest.mock('@/lib/session', () => ({
+  SessionService: {
+    startSession: jest.fn().mockResolvedValue({
+      sessionId: 'session-123',
+      tokens: { accessToken: 'mock.jwt.token', refreshToken: 'mock.jwt.token' },
+    }),
+  },
 }))
 
 const mockBcrypt = bcrypt as jest.Mocked<typeof bcrypt>;
+const mockPrisma = prisma as unknown as { user: { findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock } }
+const mockEmailService = emailService as unknown as { sendAccountLockedEmail: jest.Mock }
 
 describe('/api/auth/login', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    mockPrisma.user.update.mockResolvedValue({ failedLoginAttempts: 1 })
+    mockPrisma.user.updateMany.mockResolvedValue({ count: 1 })
   })
 
   describe('POST /api/auth/login', () => {
@@ -83,7 +112,14 @@ describe('/api/auth/login', () => {
           password: true,
           name: true,
           emailVerified: true,
-          createdAt: true
+          mfaEnabled: true,
+          createdAt: true,
+          disabledAt: true,
+          passwordResetRequired: true,
+          failedLoginAttempts: true,
+          lastFailedLoginAt: true,
+          lockedUntil: true,
+          _count: { select: { credentials: true } }
         }
       })
       expect(mockBcrypt.compare).toHaveBeenCalledWith(
@@ -141,6 +177,38 @@ describe('/api/auth/login', () => {
       )
     })
 
+    it('should require a second factor when MFA is enabled', async () => {
+      const loginData = TestDataFactory.loginRequest()
+      const mockUser = TestUtils.mockPrismaUser({
+        email: loginData.email,
+        password: '$2a$12$mockhashedpassword',
+        mfaEnabled: true,
+        _count: { credentials: 1 },
+      })
+
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser)
+      mockBcrypt.compare.mockResolvedValue(true as never)
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        POST,
+        'POST',
+        '/api/auth/login',
+        loginData
+      )
+
+      TestUtils.assertValidResponse(response, 401)
+      expect(data.success).toBe(false)
+      expect(data.code).toBe('MFA_REQUIRED')
+      expect(data.data.mfaToken).toBeDefined()
+      expect(data.data.methods).toEqual(['totp', 'recovery_code', 'passkey'])
+      expect(data.user).toBeUndefined()
+      expect(SessionService.startSession).not.toHaveBeenCalled()
+      expect(response.cookies.get('access-token')).toBeUndefined()
+      expect(logAuthEvent).toHaveBeenCalledWith('mfa_required', expect.anything(), expect.objectContaining({
+        userId: mockUser.id,
+      }))
+    })
+
     it('should validate email format', async () => {
       for (const invalidEmail of TestDataFactory.invalidEmails) {
         const loginData = TestDataFactory.loginRequest({ email: invalidEmail })
@@ -384,4 +452,219 @@ describe('/api/auth/login', () => {
       TestUtils.assertValidToken(data.token)
     })
   })
-})
\ No newline at end of file
+
+  describe('account lockout', () => {
+    const loginData = TestDataFactory.loginRequest()
+
+    it('should refuse a locked account without checking the password', async () => {
+      const lockedUntil = new Date(Date.now() + 10 * 60 * 1000)
+      mockPrisma.user.findUnique.mockResolvedValue(TestUtils.mockPrismaUser({
+        email: loginData.email,
+        failedLoginAttempts: LOCKOUT_THRESHOLD,
+        lastFailedLoginAt: new Date(),
+        lockedUntil,
+      }))
+
+      const { response, data } = await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/login', loginData)
+
+      TestUtils.assertValidResponse(response, 423)
+      expect(data.code).toBe('ACCOUNT_LOCKED')
+      expect(data.data.lockedUntil).toBe(lockedUntil.toISOString())
+      expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0)
+      expect(mockBcrypt.compare).not.toHaveBeenCalled()
+    })
+
+    it('should make repeated failures wait before the next attempt', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(TestUtils.mockPrismaUser({
+        email: loginData.email,
+        failedLoginAttempts: 6,
+        lastFailedLoginAt: new Date(),
+      }))
+
+      const { response, data } = await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/login', loginData)
+
+      TestUtils.assertValidResponse(response, 429)
+      expect(data.code).toBe('LOGIN_THROTTLED')
+      expect(data.data.retryAfter).toBeGreaterThan(0)
+      expect(mockBcrypt.compare).not.toHaveBeenCalled()
+    })
+
+    it('should count a wrong password against the account', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(TestUtils.mockPrismaUser({ email: loginData.email }))
+      mockBcrypt.compare.mockResolvedValue(false as never)
+
+      await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/login', loginData)
+
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ id: 'test-user-id', failedLoginAttempts: 0 }),
+        data: expect.objectContaining({ failedLoginAttempts: 1 }),
+      }))
+    })
+
+    it('should turn away an attempt that lost the race for the last free guess', async () => {
+      const lastFailedLoginAt = new Date()
+      mockPrisma.user.findUnique
+        .mockResolvedValueOnce(TestUtils.mockPrismaUser({ email: loginData.email, failedLoginAttempts: 2, lastFailedLoginAt }))
+        // What the concurrent attempt that claimed it left behind
+        .mockResolvedValueOnce({ id: 'test-user-id', failedLoginAttempts: 3, lastFailedLoginAt, lockedUntil: null })
+      mockPrisma.user.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      const { response, data } = await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/login', loginData)
+
+      TestUtils.assertValidResponse(response, 429)
+      expect(data.code).toBe('LOGIN_THROTTLED')
+      expect(mockBcrypt.compare).not.toHaveBeenCalled()
+    })
+
+    it('should lock the account and email an unlock link at the threshold', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(TestUtils.mockPrismaUser({
+        email: loginData.email,
+        failedLoginAttempts: LOCKOUT_THRESHOLD - 1,
+        lastFailedLoginAt: new Date(Date.now() - 10 * 60 * 1000),
+      }))
+      mockBcrypt.compare.mockResolvedValue(false as never)
+
+      const { response, data } = await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/login', loginData)
+
+      TestUtils.assertValidResponse(response, 423)
+      expect(data.code).toBe('ACCOUNT_LOCKED')
+      expect(mockPrisma.user.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'test-user-id', lockedUntil: null },
+        data: expect.objectContaining({ lockedUntil: expect.any(Date), unlockToken: expect.any(String) }),
+      })
+      expect(mockEmailService.sendAccountLockedEmail).toHaveBeenCalledWith(
+        loginData.email,
+        'Test User',
+        expect.any(String),
+        expect.any(Number)
+      )
+      expect(logAuthEvent).toHaveBeenCalledWith('account_locked', expect.any(Object), expect.objectContaining({
+        userId: 'test-user-id',
+      }))
+    })
+
+    it('should not lock or email again when another attempt already locked the account', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(TestUtils.mockPrismaUser({
+        email: loginData.email,
+        failedLoginAttempts: LOCKOUT_THRESHOLD - 1,
+        lastFailedLoginAt: new Date(Date.now() - 10 * 60 * 1000),
+      }))
+      mockPrisma.user.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 })
+      mockBcrypt.compare.mockResolvedValue(false as never)
+
+      const { response } = await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/login', loginData)
+
+      TestUtils.assertValidResponse(response, 401)
+      expect(mockEmailService.sendAccountLockedEmail).not.toHaveBeenCalled()
+    })
+
+    it('should keep earlier failures when the password leads on to a second factor', async () => {
+      const lastFailedLoginAt = new Date(Date.now() - 60 * 1000)
+      mockPrisma.user.findUnique.mockResolvedValue(TestUtils.mockPrismaUser({
+        email: loginData.email,
+        mfaEnabled: true,
+        _count: { credentials: 0 },
+        failedLoginAttempts: 2,
+        lastFailedLoginAt,
+      }))
+      mockBcrypt.compare.mockResolvedValue(true as never)
+
+      const { data } = await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/login', loginData)
+
+      expect(data.code).toBe('MFA_REQUIRED')
+      expect(mockPrisma.user.updateMany).toHaveBeenLastCalledWith(expect.objectContaining({
+        data: { failedLoginAttempts: 2, lastFailedLoginAt },
+      }))
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('should clear earlier failures after a successful login', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(TestUtils.mockPrismaUser({
+        email: loginData.email,
+        failedLoginAttempts: 2,
+        lastFailedLoginAt: new Date(Date.now() - 60 * 1000),
+      }))
+      mockBcrypt.compare.mockResolvedValue(true as never)
+
+      const { response } = await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/login', loginData)
+
+      TestUtils.assertValidResponse(response, 200)
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ failedLoginAttempts: 0, lockedUntil: null }),
+      }))
+    })
+  })
+
+  describe('administrator holds', () => {
+    const loginData = TestDataFactory.loginRequest()
+
+    beforeEach(() => {
+      mockBcrypt.compare.mockResolvedValue(true as never)
+    })
+
+    it('should refuse a disabled account even with the right password', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(TestUtils.mockPrismaUser({
+        email: loginData.email,
+        disabledAt: new Date(),
+      }))
+
+      const { response, data } = await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/login', loginData)
+
+      TestUtils.assertValidResponse(response, 403)
+      expect(data.code).toBe('ACCOUNT_DISABLED')
+      expect(SessionService.startSession).not.toHaveBeenCalled()
+    })
+
+    it('should refuse the old password after a forced reset', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(TestUtils.mockPrismaUser({
+        email: loginData.email,
+        passwordResetRequired: true,
+      }))
+
+      const { response, data } = await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/login', loginData)
+
+      TestUtils.assertValidResponse(response, 403)
+      expect(data.code).toBe('PASSWORD_RESET_REQUIRED')
+      expect(SessionService.startSession).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('credential stuffing', () => {
+    const loginData = TestDataFactory.loginRequest()
+
+    it('should ask for proof of work once an account keeps failing, before looking it up', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null)
+      for (let i = 0; i < EMAIL_FAILURE_THRESHOLD; i++) {
+        await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/login', loginData)
+      }
+      mockPrisma.user.findUnique.mockClear()
+
+      const { response, data } = await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/login', loginData)
+
+      TestUtils.assertValidResponse(response, 428)
+      expect(data.code).toBe('PROOF_OF_WORK_REQUIRED')
+      expect(data.data).toEqual({ challenge: expect.any(String), difficulty: 16, expiresAt: expect.any(Number) })
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('should check the password once the challenge is solved', async () => {
+      const mockUser = TestUtils.mockPrismaUser({ email: loginData.email })
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser)
+      mockBcrypt.compare.mockResolvedValue(true as never)
+
+      const { data: challenged } = await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/login', loginData)
+      const proofOfWork = await solveProofOfWork(challenged.data)
+
+      const { response } = await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/login', { ...loginData, proofOfWork })
+
+      TestUtils.assertValidResponse(response, 200)
+      expect(mockBcrypt.compare).toHaveBeenCalledWith(loginData.password, mockUser.password)
+
+      // A solution is good for one attempt
+      const { response: replayed } = await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/login', { ...loginData, proofOfWork })
+      TestUtils.assertValidResponse(replayed, 428)
+    })
+  })
+})
@@ -0,0 +1,250 @@
+import { POST as requestMagicLink } from '../magic-link/route'
+import { POST as verifyMagicLink } from '../magic-link/verify/route'
+import { TestUtils, APITestHelpers } from '@/lib/test-utils'
+import { hashToken } from '@/lib/secure-token'
+import { prisma } from '@/lib/prisma'
+import { emailService } from '@/lib/email-service'
+import { logAuthEvent, logLogin } from '@/lib/auth-logger'
+import { SessionService } from '@/lib/session'
+
+// Mock external dependencies
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/rate-limit', () => ({
+  magicLinkRateLimit: {
+    middleware: jest.fn((request, handler) => handler()),
+  },
+  magicLinkVerifyRateLimit: {
+    middleware: jest.fn((request, handler) => handler()),
+  },
+}))
+
+jest.mock('@/lib/email-service', () => ({
+  emailService: {
+    sendMagicLinkEmail: jest.fn().mockResolvedValue(true),
+  },
+}))
+
+jest.mock('@/lib/auth-logger', () => ({
+  logAuthEvent: jest.fn(),
+  logLogin: jest.fn(),
+}))
+
+jest.mock('@/lib/session', () => ({
+  SessionService: {
+    startSession: jest.fn(),
+  },
+}))
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock }
+}
+const mockEmailService = emailService as unknown as { sendMagicLinkEmail: jest.Mock }
+const mockSessionService = SessionService as unknown as { startSession: jest.Mock }
+
+const linkUser = {
+  id: 'test-user-id',
+  email: 'test@example.com',
+  name: 'Test User',
+  emailVerified: true,
+  mfaEnabled: false,
+  createdAt: new Date(),
+  _count: { credentials: 0 },
+}
+
+describe('magic link API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('POST /api/auth/magic-link', () => {
+    it('should store a hashed token and email the raw token', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(linkUser)
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        requestMagicLink,
+        'POST',
+        '/api/auth/magic-link',
+        { email: 'Test@Example.com', redirect: '/settings/security' }
+      )
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+
+      const [to, , rawToken, ttlMinutes, redirectTo] = mockEmailService.sendMagicLinkEmail.mock.calls[0]
+      const { data: updateData } = mockPrisma.user.update.mock.calls[0][0]
+      expect(to).toBe('test@example.com')
+      expect(updateData.magicLinkToken).toBe(hashToken(rawToken))
+      expect(updateData.magicLinkToken).not.toBe(rawToken)
+      expect(updateData.magicLinkExpiresAt.getTime()).toBeLessThanOrEqual(Date.now() + ttlMinutes * 60 * 1000)
+      expect(ttlMinutes).toBeLessThanOrEqual(15)
+      expect(redirectTo).toBe('/settings/security')
+    })
+
+    it('should not carry an off-site redirect into the email', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(linkUser)
+
+      await APITestHelpers.testEndpoint(
+        requestMagicLink,
+        'POST',
+        '/api/auth/magic-link',
+        { email: 'test@example.com', redirect: '//evil.example.com' }
+      )
+
+      expect(mockEmailService.sendMagicLinkEmail.mock.calls[0][4]).toBe('/dashboard')
+    })
+
+    // URL parsing drops tabs and newlines and reads `\\` as `/`, so each of these would leave the site
+    it.each([
+      '/\\evil.example.com',
+      '/\t/evil.example.com/x',
+      '/\n/evil.example.com',
+      '/\r\n/evil.example.com',
+    ])('should not carry the disguised off-site redirect %j into the email', async redirect => {
+      mockPrisma.user.findUnique.mockResolvedValue(linkUser)
+
+      await APITestHelpers.testEndpoint(
+        requestMagicLink,
+        'POST',
+        '/api/auth/magic-link',
+        { email: 'test@example.com', redirect }
+      )
+
+      expect(mockEmailService.sendMagicLinkEmail.mock.calls[0][4]).toBe('/dashboard')
+    })
+
+    it('should not reveal whether the email exists', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null)
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        requestMagicLink,
+        'POST',
+        '/api/auth/magic-link',
+        { email: 'nobody@example.com' }
+      )
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+      expect(mockEmailService.sendMagicLinkEmail).not.toHaveBeenCalled()
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('should reject an invalid email', async () => {
+      const { response } = await APITestHelpers.testEndpoint(
+        requestMagicLink,
+        'POST',
+        '/api/auth/magic-link',
+        { email: 'not-an-email' }
+      )
+
+      TestUtils.assertValidResponse(response, 400)
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST /api/auth/magic-link/verify', () => {
+    beforeEach(() => {
+      mockPrisma.user.findUnique.mockResolvedValue(linkUser)
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 })
+      mockSessionService.startSession.mockResolvedValue({
+        sessionId: 'session-123',
+        tokens: { accessToken: 'mock.jwt.token', refreshToken: 'mock.jwt.token' },
+      })
+    })
+
+    it('should sign in, set the login cookies and return the redirect', async () => {
+      const { response, data } = await APITestHelpers.testEndpoint(
+        verifyMagicLink,
+        'POST',
+        '/api/auth/magic-link/verify',
+        { token: 'raw-token', redirect: '/settings/security' }
+      )
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+      expect(data.user).toMatchObject({ id: 'test-user-id', email: 'test@example.com' })
+      expect(data.redirectTo).toBe('/settings/security')
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { magicLinkToken: hashToken('raw-token') },
+      }))
+      expect(mockSessionService.startSession).toHaveBeenCalledWith(linkUser, expect.any(Object))
+
+      const cookies = response.headers.get('set-cookie')
+      expect(cookies).toContain('access-token=')
+      expect(cookies).toContain('refresh-token=')
+      expect(logLogin).toHaveBeenCalledWith(expect.any(Object), true, expect.objectContaining({
+        sessionId: 'session-123',
+        metadata: { method: 'magic_link' },
+      }))
+    })
+
+    it('should clear the token so the link works only once', async () => {
+      await APITestHelpers.testEndpoint(
+        verifyMagicLink,
+        'POST',
+        '/api/auth/magic-link/verify',
+        { token: 'raw-token' }
+      )
+
+      const { where, data } = mockPrisma.user.updateMany.mock.calls[0][0]
+      expect(where).toMatchObject({ id: 'test-user-id', magicLinkToken: hashToken('raw-token') })
+      expect(where.magicLinkExpiresAt.gt).toBeInstanceOf(Date)
+      expect(data).toMatchObject({ magicLinkToken: null, magicLinkExpiresAt: null })
+    })
+
+    it('should reject a link that was already used or has expired', async () => {
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 0 })
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        verifyMagicLink,
+        'POST',
+        '/api/auth/magic-link/verify',
+        { token: 'raw-token' }
+      )
+
+      TestUtils.assertValidResponse(response, 400)
+      expect(data.code).toBe('MAGIC_LINK_INVALID')
+      expect(mockSessionService.startSession).not.toHaveBeenCalled()
+    })
+
+    it('should reject an unknown token', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null)
+
+      const { response } = await APITestHelpers.testEndpoint(
+        verifyMagicLink,
+        'POST',
+        '/api/auth/magic-link/verify',
+        { token: 'forged-token' }
+      )
+
+      TestUtils.assertValidResponse(response, 400)
+      expect(mockPrisma.user.updateMany).not.toHaveBeenCalled()
+      expect(logAuthEvent).toHaveBeenCalledWith('suspicious_activity', expect.any(Object), expect.any(Object))
+    })
+
+    it('should ask for the second factor when MFA is enabled', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...linkUser, mfaEnabled: true })
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        verifyMagicLink,
+        'POST',
+        '/api/auth/magic-link/verify',
+        { token: 'raw-token', redirect: '/settings' }
+      )
+
+      TestUtils.assertValidResponse(response, 401)
+      expect(data.code).toBe('MFA_REQUIRED')
+      expect(data.data.mfaToken).toBeTruthy()
+      expect(data.data.redirectTo).toBe('/settings')
+      expect(mockSessionService.startSession).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -1,12 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { GET } from '../me/route'
+import { GET, PATCH } from '../me/route'
 import { TestUtils, TestDataFactory, APITestHelpers } from '@/lib/test-utils'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
 
 // Mock external dependencies
 jest.mock('@/lib/prisma', () => ({
   prisma: {
     user: {
       findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    userRole: {
+      findMany: jest.fn().mockResolvedValue([]),
     },
   },
 }))
@@ -168,7 +174,7 @@ describe('/api/auth/me', () => {
       prisma.user.findUnique.mockResolvedValue(mockUser)
 
       const { accessToken } = await TestUtils.createTestTokens(mockUser.id, mockUser.email)
-      const headers = TestUtils.createCookieHeaders({ 'auth-token': accessToken })
+      const headers = TestUtils.createCookieHeaders({ 'access-token': accessToken })
 
       const { response, data } = await APITestHelpers.testEndpoint(
         GET,
@@ -297,4 +303,91 @@ describe('/api/auth/me', () => {
       expect(data.user.password).toBeUndefined()
     })
   })
-})
\ No newline at end of file
+
+  describe('PATCH /api/auth/me', () => {
+    const mockPrisma = prisma as unknown as { user: { findUnique: jest.Mock; update: jest.Mock } }
+    const mockGetCurrentUser = getCurrentUser as jest.Mock
+    const currentUser = { userId: 'test-user-id', email: 'test@example.com', sessionId: 'session-1' }
+
+    beforeEach(() => {
+      mockGetCurrentUser.mockResolvedValue(currentUser)
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'test-user-id',
+        email: 'test@example.com',
+        preferences: { theme: 'dark', productUpdates: true },
+      })
+      mockPrisma.user.update.mockImplementation(({ data }: { data: Record<string, unknown> }) => Promise.resolve({
+        id: 'test-user-id',
+        email: 'test@example.com',
+        name: 'Test User',
+        preferences: { theme: 'dark', productUpdates: true },
+        updatedAt: new Date('2026-01-01'),
+        ...data,
+      }))
+    })
+
+    it('should update the name', async () => {
+      const { response, data } = await APITestHelpers.testEndpoint(PATCH, 'PATCH', '/api/auth/me', { name: '  Ada Lovelace  ' })
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'test-user-id' },
+        data: { name: 'Ada Lovelace' },
+      }))
+      expect(data.user.name).toBe('Ada Lovelace')
+    })
+
+    it('should sanitize markup out of the name', async () => {
+      await APITestHelpers.testEndpoint(PATCH, 'PATCH', '/api/auth/me', { name: '<script>alert(1)</script>Ada' })
+
+      const { name } = mockPrisma.user.update.mock.calls[0][0].data
+      expect(name).not.toContain('<')
+      expect(name).toContain('Ada')
+    })
+
+    it('should merge preferences into the stored ones', async () => {
+      const { response, data } = await APITestHelpers.testEndpoint(PATCH, 'PATCH', '/api/auth/me', {
+        preferences: { energyUnit: 'MWh', timezone: 'Europe/Berlin' },
+      })
+
+      TestUtils.assertValidResponse(response, 200)
+      expect(mockPrisma.user.update.mock.calls[0][0].data.preferences).toEqual({
+        theme: 'dark',
+        energyUnit: 'MWh',
+        timezone: 'Europe/Berlin',
+        productUpdates: true,
+      })
+      expect(data.user.preferences.energyUnit).toBe('MWh')
+    })
+
+    it('should reject unknown or invalid preferences', async () => {
+      const { response, data } = await APITestHelpers.testEndpoint(PATCH, 'PATCH', '/api/auth/me', {
+        preferences: { theme: 'neon', timezone: 'Mars/Olympus', isAdmin: true },
+      })
+
+      TestUtils.assertValidResponse(response, 400)
+      TestUtils.assertErrorResponse(data, 'Validation failed')
+      expect(data.details).toEqual(expect.arrayContaining([
+        'Unknown preferences: isAdmin',
+        'theme must be one of system, light, dark',
+        'timezone must be an IANA time zone such as Europe/Berlin',
+      ]))
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('should reject an overlong name', async () => {
+      const { response } = await APITestHelpers.testEndpoint(PATCH, 'PATCH', '/api/auth/me', { name: 'a'.repeat(101) })
+
+      TestUtils.assertValidResponse(response, 400)
+    })
+
+    it('should require authentication', async () => {
+      mockGetCurrentUser.mockResolvedValue(null)
+
+      const { response } = await APITestHelpers.testEndpoint(PATCH, 'PATCH', '/api/auth/me', { name: 'Ada' })
+
+      TestUtils.assertValidResponse(response, 401)
+    })
+  })
+})
@@ -0,0 +1,369 @@
+import { jwtVerify } from 'jose'
+import { POST as setup } from '../mfa/setup/route'
+import { POST as enable } from '../mfa/enable/route'
+import { POST as challenge } from '../mfa/challenge/route'
+import { TestUtils, APITestHelpers } from '@/lib/test-utils'
+import { getCurrentUser } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logAuthEvent, logLogin, logMfa } from '@/lib/auth-logger'
+import { SessionService } from '@/lib/session'
+import { MfaService } from '@/lib/mfa'
+import { emailService } from '@/lib/email-service'
+import { LOCKOUT_THRESHOLD } from '@/lib/account-lockout'
+
+// Mock external dependencies
+jest.mock('@/lib/auth', () => ({
+  getCurrentUser: jest.fn(),
+}))
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/email-service', () => ({
+  emailService: {
+    sendAccountLockedEmail: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/auth-logger', () => ({
+  logAuthEvent: jest.fn(),
+  logLogin: jest.fn(),
+  logMfa: jest.fn(),
+}))
+
+jest.mock('@/lib/session', () => ({
+  SessionService: {
+    startSession: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/mfa', () => ({
+  MfaService: {
+    beginEnrollment: jest.fn(),
+    verifyCode: jest.fn(),
+    enable: jest.fn(),
+    consumeRecoveryCode: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/rate-limit', () => ({
+  mfaRateLimit: {
+    middleware: jest.fn((request, handler) => handler()),
+  },
+}))
+
+const mockGetCurrentUser = getCurrentUser as jest.Mock
+const mockJwtVerify = jwtVerify as jest.Mock
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock }
+}
+const mockSessionService = SessionService as unknown as {
+  startSession: jest.Mock
+}
+const mockMfaService = MfaService as unknown as {
+  beginEnrollment: jest.Mock
+  verifyCode: jest.Mock
+  enable: jest.Mock
+  consumeRecoveryCode: jest.Mock
+}
+
+const currentUser = {
+  userId: 'test-user-id',
+  email: 'test@example.com',
+  sessionId: 'session-current',
+  iat: Math.floor(Date.now() / 1000),
+  exp: Math.floor(Date.now() / 1000) + 900,
+}
+
+const mfaUser = {
+  id: 'test-user-id',
+  email: 'test@example.com',
+  name: 'Test User',
+  emailVerified: true,
+  createdAt: new Date(),
+  mfaEnabled: true,
+  mfaSecret: 'encrypted-secret',
+  mfaLastUsedStep: null,
+  disabledAt: null,
+  passwordResetRequired: false,
+  failedLoginAttempts: 0,
+  lastFailedLoginAt: null,
+  lockedUntil: null,
+}
+
+// Failures on a challenge are counted by its jti in a store shared by the whole file, so each test gets its own
+let nextChallenge = 1
+const challengeJti = () => `mfa-challenge-${nextChallenge++}`
+
+describe('/api/auth/mfa', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetCurrentUser.mockResolvedValue(currentUser)
+  })
+
+  describe('POST /api/auth/mfa/setup', () => {
+    it('should return a new secret and QR code', async () => {
+      const enrollment = {
+        secret: 'JBSWY3DPEHPK3PXP',
+        otpauthUri: 'otpauth://totp/test',
+        qrCode: 'data:image/png;base64,abc',
+      }
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'test-user-id', email: 'test@example.com', mfaEnabled: false })
+      mockMfaService.beginEnrollment.mockResolvedValue(enrollment)
+
+      const { response, data } = await APITestHelpers.testEndpoint(setup, 'POST', '/api/auth/mfa/setup')
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+      expect(data.data).toEqual(enrollment)
+    })
+
+    it('should refuse to start over when MFA is already enabled', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'test-user-id', email: 'test@example.com', mfaEnabled: true })
+
+      const { response, data } = await APITestHelpers.testEndpoint(setup, 'POST', '/api/auth/mfa/setup')
+
+      TestUtils.assertValidResponse(response, 409)
+      TestUtils.assertErrorResponse(data)
+      expect(mockMfaService.beginEnrollment).not.toHaveBeenCalled()
+    })
+
+    it('should require authentication', async () => {
+      mockGetCurrentUser.mockResolvedValue(null)
+
+      const { response } = await APITestHelpers.testEndpoint(setup, 'POST', '/api/auth/mfa/setup')
+
+      TestUtils.assertValidResponse(response, 401)
+    })
+  })
+
+  describe('POST /api/auth/mfa/enable', () => {
+    beforeEach(() => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...mfaUser, mfaEnabled: false })
+    })
+
+    it('should enable MFA and return recovery codes for a valid code', async () => {
+      mockMfaService.verifyCode.mockResolvedValue(true)
+      mockMfaService.enable.mockResolvedValue(['AAAAA-BBBBB', 'CCCCC-DDDDD'])
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        enable, 'POST', '/api/auth/mfa/enable', { code: '123456' }
+      )
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+      expect(data.data.recoveryCodes).toEqual(['AAAAA-BBBBB', 'CCCCC-DDDDD'])
+      expect(mockMfaService.enable).toHaveBeenCalledWith('test-user-id')
+      expect(logAuthEvent).toHaveBeenCalledWith('mfa_enabled', expect.any(Object), expect.objectContaining({
+        userId: 'test-user-id',
+      }))
+    })
+
+    it('should reject an invalid code without enabling MFA', async () => {
+      mockMfaService.verifyCode.mockResolvedValue(false)
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        enable, 'POST', '/api/auth/mfa/enable', { code: '000000' }
+      )
+
+      TestUtils.assertValidResponse(response, 400)
+      TestUtils.assertErrorResponse(data, 'Invalid authentication code')
+      expect(mockMfaService.enable).not.toHaveBeenCalled()
+      expect(logMfa).toHaveBeenCalledWith(expect.any(Object), false, expect.any(Object))
+    })
+
+    it('should require setup to have been started', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...mfaUser, mfaEnabled: false, mfaSecret: null })
+
+      const { response } = await APITestHelpers.testEndpoint(
+        enable, 'POST', '/api/auth/mfa/enable', { code: '123456' }
+      )
+
+      TestUtils.assertValidResponse(response, 400)
+      expect(mockMfaService.verifyCode).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST /api/auth/mfa/challenge', () => {
+    beforeEach(() => {
+      mockJwtVerify.mockResolvedValue({
+        payload: { userId: 'test-user-id', email: 'test@example.com', type: 'mfa', jti: challengeJti() },
+      })
+      mockPrisma.user.findUnique.mockResolvedValue(mfaUser)
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 })
+      mockSessionService.startSession.mockResolvedValue({
+        sessionId: 'session-123',
+        tokens: { accessToken: 'mock.jwt.token', refreshToken: 'mock.jwt.token' },
+      })
+    })
+
+    it('should complete the login with a valid authenticator code', async () => {
+      mockMfaService.verifyCode.mockResolvedValue(true)
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        challenge, 'POST', '/api/auth/mfa/challenge', { mfaToken: 'mock.jwt.token', code: '123456' }
+      )
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+      expect(data.user).toMatchObject({ id: 'test-user-id', email: 'test@example.com' })
+      expect(data.user).not.toHaveProperty('mfaSecret')
+      expect(mockSessionService.startSession).toHaveBeenCalledWith(mfaUser, expect.any(Object))
+      expect(response.headers.get('set-cookie')).toContain('access-token=')
+      expect(logLogin).toHaveBeenCalledWith(expect.any(Object), true, expect.objectContaining({
+        sessionId: 'session-123',
+      }))
+    })
+
+    it('should accept a recovery code instead of an authenticator code', async () => {
+      mockMfaService.consumeRecoveryCode.mockResolvedValue(true)
+
+      const { response } = await APITestHelpers.testEndpoint(
+        challenge, 'POST', '/api/auth/mfa/challenge', { mfaToken: 'mock.jwt.token', recoveryCode: 'AAAAA-BBBBB' }
+      )
+
+      TestUtils.assertValidResponse(response, 200)
+      expect(mockMfaService.consumeRecoveryCode).toHaveBeenCalledWith('test-user-id', 'AAAAA-BBBBB')
+      expect(mockMfaService.verifyCode).not.toHaveBeenCalled()
+    })
+
+    it('should reject a wrong code without starting a session', async () => {
+      mockMfaService.verifyCode.mockResolvedValue(false)
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        challenge, 'POST', '/api/auth/mfa/challenge', { mfaToken: 'mock.jwt.token', code: '000000' }
+      )
+
+      TestUtils.assertValidResponse(response, 401)
+      TestUtils.assertErrorResponse(data, 'Invalid authentication code')
+      expect(mockSessionService.startSession).not.toHaveBeenCalled()
+      expect(logMfa).toHaveBeenCalledWith(expect.any(Object), false, expect.objectContaining({
+        userId: 'test-user-id',
+      }))
+    })
+
+    it('should count a wrong code toward the account lockout', async () => {
+      mockMfaService.consumeRecoveryCode.mockResolvedValue(false)
+
+      const { response } = await APITestHelpers.testEndpoint(
+        challenge, 'POST', '/api/auth/mfa/challenge', { mfaToken: 'mock.jwt.token', recoveryCode: 'AAAAA-BBBBB' }
+      )
+
+      TestUtils.assertValidResponse(response, 401)
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ id: 'test-user-id' }),
+        data: expect.objectContaining({ failedLoginAttempts: 1 }),
+      }))
+      expect(mockMfaService.consumeRecoveryCode.mock.invocationCallOrder[0])
+        .toBeGreaterThan(mockPrisma.user.updateMany.mock.invocationCallOrder[0])
+    })
+
+    it('should clear earlier failures once the second factor checks out', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...mfaUser, failedLoginAttempts: 2, lastFailedLoginAt: new Date() })
+      mockMfaService.verifyCode.mockResolvedValue(true)
+
+      const { response } = await APITestHelpers.testEndpoint(
+        challenge, 'POST', '/api/auth/mfa/challenge', { mfaToken: 'mock.jwt.token', code: '123456' }
+      )
+
+      TestUtils.assertValidResponse(response, 200)
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ failedLoginAttempts: 0, lockedUntil: null }),
+      }))
+    })
+
+    it('should give up on a challenge after five wrong codes', async () => {
+      mockMfaService.verifyCode.mockResolvedValue(false)
+      const attempt = (code: string) => APITestHelpers.testEndpoint(
+        challenge, 'POST', '/api/auth/mfa/challenge', { mfaToken: 'mock.jwt.token', code }
+      )
+
+      for (let i = 0; i < 4; i++) {
+        TestUtils.assertErrorResponse((await attempt('000000')).data, 'Invalid authentication code')
+      }
+      const { response, data } = await attempt('000000')
+
+      TestUtils.assertValidResponse(response, 401)
+      expect(data.code).toBe('MFA_CHALLENGE_EXPIRED')
+
+      // Even the right code is refused now
+      mockMfaService.verifyCode.mockResolvedValue(true)
+      expect((await attempt('123456')).data.code).toBe('MFA_CHALLENGE_EXPIRED')
+      expect(mockMfaService.verifyCode).toHaveBeenCalledTimes(5)
+      expect(mockSessionService.startSession).not.toHaveBeenCalled()
+    })
+
+    it('should lock the account when a wrong code crosses the threshold', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        ...mfaUser,
+        failedLoginAttempts: LOCKOUT_THRESHOLD - 1,
+        lastFailedLoginAt: new Date(Date.now() - 10 * 60 * 1000),
+      })
+      mockMfaService.verifyCode.mockResolvedValue(false)
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        challenge, 'POST', '/api/auth/mfa/challenge', { mfaToken: 'mock.jwt.token', code: '000000' }
+      )
+
+      TestUtils.assertValidResponse(response, 423)
+      expect(data.code).toBe('ACCOUNT_LOCKED')
+      expect(emailService.sendAccountLockedEmail).toHaveBeenCalledWith(
+        'test@example.com', 'Test User', expect.any(String), expect.any(Number)
+      )
+      expect(logAuthEvent).toHaveBeenCalledWith('account_locked', expect.any(Object), expect.objectContaining({
+        userId: 'test-user-id',
+      }))
+    })
+
+    it.each([
+      ['locked', { lockedUntil: new Date(Date.now() + 60 * 1000) }, 423, 'ACCOUNT_LOCKED'],
+      ['cooling down', { failedLoginAttempts: 5, lastFailedLoginAt: new Date() }, 429, 'LOGIN_THROTTLED'],
+      ['disabled', { disabledAt: new Date() }, 403, 'ACCOUNT_DISABLED'],
+      ['due a password reset', { passwordResetRequired: true }, 403, 'PASSWORD_RESET_REQUIRED'],
+    ])('should not start a session for an account %s since the password step', async (_, changes, status, code) => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...mfaUser, ...changes })
+      mockMfaService.verifyCode.mockResolvedValue(true)
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        challenge, 'POST', '/api/auth/mfa/challenge', { mfaToken: 'mock.jwt.token', code: '123456' }
+      )
+
+      TestUtils.assertValidResponse(response, status)
+      expect(data.code).toBe(code)
+      expect(mockMfaService.verifyCode).not.toHaveBeenCalled()
+      expect(mockSessionService.startSession).not.toHaveBeenCalled()
+    })
+
+    it('should reject a challenge token that is not an MFA token', async () => {
+      mockJwtVerify.mockResolvedValue({
+        payload: { userId: 'test-user-id', email: 'test@example.com', type: 'access' },
+      })
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        challenge, 'POST', '/api/auth/mfa/challenge', { mfaToken: 'mock.jwt.token', code: '123456' }
+      )
+
+      TestUtils.assertValidResponse(response, 401)
+      expect(data.code).toBe('MFA_CHALLENGE_EXPIRED')
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('should reject an expired challenge token', async () => {
+      mockJwtVerify.mockRejectedValue(new Error('"exp" claim timestamp check failed'))
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        challenge, 'POST', '/api/auth/mfa/challenge', { mfaToken: 'expired.jwt.token', code: '123456' }
+      )
+
+      TestUtils.assertValidResponse(response, 401)
+      expect(data.code).toBe('MFA_CHALLENGE_EXPIRED')
+    })
+  })
+})
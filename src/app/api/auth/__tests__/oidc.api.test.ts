@@ -0,0 +1,291 @@
+import bcrypt from 'bcryptjs'
+import { NextResponse } from 'next/server'
+import { GET as listProviders } from '../oidc/providers/route'
+import { GET as startSignIn } from '../oidc/[provider]/route'
+import { GET as callback } from '../oidc/[provider]/callback/route'
+import { TestUtils, MockOidcProvider } from '@/lib/test-utils'
+import { prisma } from '@/lib/prisma'
+import { logAuthEvent, logLogin, logSignup } from '@/lib/auth-logger'
+import { SessionService } from '@/lib/session'
+
+// ID tokens are really signed and verified here, so use the real jose
+jest.unmock('jose')
+jest.mock('bcryptjs')
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    oAuthAccount: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/auth-logger', () => ({
+  logAuthEvent: jest.fn(),
+  logLogin: jest.fn(),
+  logSignup: jest.fn(),
+}))
+
+jest.mock('@/lib/session', () => ({
+  SessionService: {
+    startSession: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/rate-limit', () => ({
+  oidcRateLimit: {
+    middleware: jest.fn((request, handler) => handler()),
+  },
+}))
+
+const mockPrisma = prisma as unknown as {
+  user: Record<'findUnique' | 'create', jest.Mock>
+  oAuthAccount: Record<'findUnique' | 'create' | 'update', jest.Mock>
+}
+const mockSessionService = SessionService as unknown as {
+  startSession: jest.Mock
+}
+
+const existingUser = {
+  id: 'test-user-id',
+  email: 'oidc-user@example.com',
+  name: 'OIDC User',
+  emailVerified: true,
+  mfaEnabled: false,
+  createdAt: new Date(),
+  _count: { credentials: 0 },
+}
+
+const provider = new MockOidcProvider()
+const params = { params: Promise.resolve({ provider: 'mock' }) }
+
+// Start a sign-in and return where the browser is sent plus the state cookie it carries back
+async function beginSignIn(query = '') {
+  const response = await startSignIn(
+    TestUtils.createMockRequest('GET', `/api/auth/oidc/mock${query}`),
+    params
+  )
+  return {
+    response,
+    location: response.headers.get('location') || '',
+    stateCookie: response.cookies.get('oidc-state')?.value || '',
+  }
+}
+
+async function finishSignIn(callbackUrl: string, stateCookie: string): Promise<NextResponse> {
+  return callback(
+    TestUtils.createMockRequest('GET', callbackUrl, undefined, { cookie: `oidc-state=${stateCookie}` }),
+    params
+  )
+}
+
+async function signIn(claims: Record<string, unknown> = {}, query = '') {
+  const { location, stateCookie } = await beginSignIn(query)
+  return finishSignIn(provider.authorize(location, claims), stateCookie)
+}
+
+describe('/api/auth/oidc', () => {
+  beforeAll(async () => {
+    await provider.start()
+    process.env.OIDC_PROVIDERS = 'mock'
+    process.env.OIDC_MOCK_NAME = 'Mock IdP'
+    process.env.OIDC_MOCK_ISSUER = provider.issuer
+    process.env.OIDC_MOCK_CLIENT_ID = provider.clientId
+    process.env.OIDC_MOCK_CLIENT_SECRET = provider.clientSecret
+  })
+
+  afterAll(async () => {
+    await provider.stop()
+    delete process.env.OIDC_PROVIDERS
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(global.fetch as jest.Mock).mockImplementation(provider.fetch)
+    mockPrisma.oAuthAccount.findUnique.mockResolvedValue(null)
+    mockPrisma.user.findUnique.mockResolvedValue(existingUser)
+    ;(bcrypt.hash as jest.Mock).mockResolvedValue('hashed-random-password')
+    mockSessionService.startSession.mockResolvedValue({
+      sessionId: 'session-123',
+      tokens: { accessToken: 'access.jwt.token', refreshToken: 'refresh.jwt.token' },
+    })
+  })
+
+  describe('GET /api/auth/oidc/providers', () => {
+    it('should list configured providers without their credentials', async () => {
+      const response = await listProviders(TestUtils.createMockRequest('GET', '/api/auth/oidc/providers'))
+      const data = await TestUtils.extractResponseData(response)
+
+      TestUtils.assertValidResponse(response, 200)
+      expect(data.providers).toEqual([{ id: 'mock', name: 'Mock IdP' }])
+    })
+  })
+
+  describe('GET /api/auth/oidc/[provider]', () => {
+    it('should redirect to the provider with PKCE, state and nonce', async () => {
+      const { response, location, stateCookie } = await beginSignIn()
+      const url = new URL(location)
+
+      expect(response.status).toBe(307)
+      expect(url.origin + url.pathname).toBe(`${provider.issuer}/authorize`)
+      expect(url.searchParams.get('client_id')).toBe(provider.clientId)
+      expect(url.searchParams.get('redirect_uri')).toBe('http://localhost:3000/api/auth/oidc/mock/callback')
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256')
+      expect(url.searchParams.get('state')).toBeTruthy()
+      expect(url.searchParams.get('nonce')).toBeTruthy()
+      expect(stateCookie).toBeTruthy()
+      // Sealed, so the verifier never sits in the cookie in the clear
+      expect(stateCookie).not.toContain(url.searchParams.get('state'))
+    })
+
+    it('should refuse to start without a key for the state cookie', async () => {
+      const secret = process.env.OIDC_STATE_SECRET
+      delete process.env.OIDC_STATE_SECRET
+      jest.spyOn(console, 'error').mockImplementation()
+
+      try {
+        const { location, stateCookie } = await beginSignIn()
+
+        expect(location).toBe('http://localhost:3000/login?error=oidc_unavailable')
+        expect(stateCookie).toBe('')
+      } finally {
+        process.env.OIDC_STATE_SECRET = secret
+        jest.restoreAllMocks()
+      }
+    })
+
+    it('should return 404 for a provider that is not configured', async () => {
+      const response = await startSignIn(
+        TestUtils.createMockRequest('GET', '/api/auth/oidc/unknown'),
+        { params: Promise.resolve({ provider: 'unknown' }) }
+      )
+
+      TestUtils.assertValidResponse(response, 404)
+    })
+  })
+
+  describe('GET /api/auth/oidc/[provider]/callback', () => {
+    it('should sign in the user linked to the provider subject', async () => {
+      mockPrisma.oAuthAccount.findUnique.mockResolvedValue({ id: 'account-1', user: existingUser })
+
+      const response = await signIn({}, '?redirect=/settings')
+
+      expect(response.status).toBe(307)
+      expect(response.headers.get('location')).toBe('http://localhost:3000/settings')
+      expect(response.headers.get('set-cookie')).toContain('access-token=access.jwt.token')
+      expect(mockSessionService.startSession).toHaveBeenCalledWith(existingUser, expect.any(Object))
+      expect(mockPrisma.oAuthAccount.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { provider_providerAccountId: { provider: 'mock', providerAccountId: 'mock-subject' } },
+      }))
+      expect(logLogin).toHaveBeenCalledWith(expect.any(Object), true, expect.objectContaining({
+        sessionId: 'session-123',
+        metadata: { method: 'oidc', provider: 'mock' },
+      }))
+    })
+
+    it('should link an existing user by verified email', async () => {
+      const response = await signIn()
+
+      expect(response.headers.get('location')).toBe('http://localhost:3000/dashboard')
+      expect(mockPrisma.oAuthAccount.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'test-user-id',
+          provider: 'mock',
+          providerAccountId: 'mock-subject',
+          email: 'oidc-user@example.com',
+        },
+      })
+      expect(logAuthEvent).toHaveBeenCalledWith('oidc_account_linked', expect.any(Object), expect.objectContaining({
+        userId: 'test-user-id',
+      }))
+    })
+
+    it('should create a verified user when no account uses the email', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null)
+      mockPrisma.user.create.mockResolvedValue({ ...existingUser, id: 'new-user-id' })
+
+      const response = await signIn()
+
+      expect(response.headers.get('location')).toBe('http://localhost:3000/dashboard')
+      expect(mockPrisma.user.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          email: 'oidc-user@example.com',
+          emailVerified: true,
+          password: 'hashed-random-password',
+        }),
+      }))
+      expect(logSignup).toHaveBeenCalledWith(expect.any(Object), true, expect.objectContaining({
+        userId: 'new-user-id',
+      }))
+    })
+
+    it('should refuse to link when the provider has not verified the email', async () => {
+      const response = await signIn({ email_verified: false })
+
+      expect(response.headers.get('location')).toBe('http://localhost:3000/login?error=oidc_email_unverified')
+      expect(mockPrisma.oAuthAccount.create).not.toHaveBeenCalled()
+      expect(mockSessionService.startSession).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to link to a local account whose email is unverified', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...existingUser, emailVerified: false })
+
+      const response = await signIn()
+
+      expect(response.headers.get('location')).toBe('http://localhost:3000/login?error=oidc_account_unverified')
+      expect(mockPrisma.oAuthAccount.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject an ID token with the wrong nonce', async () => {
+      const response = await signIn({ nonce: 'attacker-nonce' })
+
+      expect(response.headers.get('location')).toBe('http://localhost:3000/login?error=oidc_invalid_id_token')
+      expect(mockSessionService.startSession).not.toHaveBeenCalled()
+    })
+
+    it('should reject an ID token issued to another client', async () => {
+      const response = await signIn({ aud: 'some-other-client' })
+
+      expect(response.headers.get('location')).toBe('http://localhost:3000/login?error=oidc_invalid_id_token')
+    })
+
+    it('should reject a callback whose state does not match the cookie', async () => {
+      const { location } = await beginSignIn()
+      const { stateCookie: otherBrowserCookie } = await beginSignIn()
+
+      const response = await finishSignIn(provider.authorize(location), otherBrowserCookie)
+
+      expect(response.headers.get('location')).toBe('http://localhost:3000/login?error=oidc_state_mismatch')
+      expect(mockPrisma.oAuthAccount.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('should hand off to the MFA step for users with two-factor enabled', async () => {
+      mockPrisma.oAuthAccount.findUnique.mockResolvedValue({
+        id: 'account-1',
+        user: { ...existingUser, mfaEnabled: true },
+      })
+
+      const response = await signIn()
+      const location = new URL(response.headers.get('location')!)
+      const fragment = new URLSearchParams(location.hash.slice(1))
+
+      expect(location.pathname).toBe('/login')
+      expect(location.searchParams.get('redirect')).toBe('/dashboard')
+      expect(fragment.get('mfa')).toBeTruthy()
+      expect(fragment.get('methods')).toBe('totp,recovery_code')
+      expect(mockSessionService.startSession).not.toHaveBeenCalled()
+    })
+
+    it('should redirect to the login page when the user cancels at the provider', async () => {
+      const response = await finishSignIn('/api/auth/oidc/mock/callback?error=access_denied', '')
+
+      expect(response.headers.get('location')).toBe('http://localhost:3000/login?error=oidc_cancelled')
+    })
+  })
+})
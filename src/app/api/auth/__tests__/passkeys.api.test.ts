@@ -0,0 +1,439 @@
+import { jwtVerify } from 'jose'
+import { NextRequest } from 'next/server'
+import { POST as registerOptions } from '../passkeys/register/options/route'
+import { POST as registerVerify } from '../passkeys/register/verify/route'
+import { POST as loginOptions } from '../passkeys/login/options/route'
+import { POST as loginVerify } from '../passkeys/login/verify/route'
+import { DELETE as deletePasskey } from '../passkeys/[id]/route'
+import { POST as mfaChallenge } from '../mfa/challenge/route'
+import { TestUtils, APITestHelpers, SoftwareAuthenticator } from '@/lib/test-utils'
+import { getCurrentUser } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logAuthEvent, logLogin } from '@/lib/auth-logger'
+import { SessionService } from '@/lib/session'
+
+// Mock external dependencies
+jest.mock('@/lib/auth', () => ({
+  getCurrentUser: jest.fn(),
+}))
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    credential: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    webAuthnChallenge: {
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/auth-logger', () => ({
+  logAuthEvent: jest.fn(),
+  logLogin: jest.fn(),
+  logMfa: jest.fn(),
+}))
+
+jest.mock('@/lib/session', () => ({
+  SessionService: {
+    startSession: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/rate-limit', () => ({
+  passkeyRateLimit: {
+    middleware: jest.fn((request, handler) => handler()),
+  },
+  mfaRateLimit: {
+    middleware: jest.fn((request, handler) => handler()),
+  },
+}))
+
+type Row = Record<string, unknown>
+
+const mockGetCurrentUser = getCurrentUser as jest.Mock
+const mockJwtVerify = jwtVerify as jest.Mock
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock }
+  credential: Record<'create' | 'findMany' | 'findUnique' | 'update' | 'deleteMany', jest.Mock>
+  webAuthnChallenge: Record<'create' | 'deleteMany', jest.Mock>
+}
+const mockSessionService = SessionService as unknown as {
+  startSession: jest.Mock
+}
+
+const user = {
+  id: 'test-user-id',
+  email: 'test@example.com',
+  name: 'Test User',
+  emailVerified: true,
+  createdAt: new Date(),
+  mfaEnabled: true,
+  mfaSecret: null,
+  mfaLastUsedStep: null,
+}
+
+const currentUser = {
+  userId: user.id,
+  email: user.email,
+  sessionId: 'session-current',
+  iat: Math.floor(Date.now() / 1000),
+  exp: Math.floor(Date.now() / 1000) + 900,
+}
+
+// Just enough of Prisma for the ceremonies to run end to end against real signatures
+let credentials: Row[]
+let challenges: Row[]
+
+interface ChallengeWhere {
+  challenge?: string
+  purpose?: string
+  userId?: string | null
+  expiresAt?: { gt?: Date; lt?: Date }
+}
+
+function matchesChallenge(row: Row, where: ChallengeWhere) {
+  const expiresAt = row.expiresAt as Date
+
+  return (where.challenge === undefined || row.challenge === where.challenge) &&
+    (where.purpose === undefined || row.purpose === where.purpose) &&
+    (!('userId' in where) || row.userId === where.userId) &&
+    (!where.expiresAt?.gt || expiresAt > where.expiresAt.gt) &&
+    (!where.expiresAt?.lt || expiresAt < where.expiresAt.lt)
+}
+
+function applySelect(row: Row, select?: Row) {
+  return select
+    ? Object.fromEntries(Object.keys(select).map(key => [key, row[key]]))
+    : row
+}
+
+function installInMemoryStore() {
+  credentials = []
+  challenges = []
+
+  mockPrisma.webAuthnChallenge.create.mockImplementation(async ({ data }) => {
+    challenges.push({ ...data })
+    return data
+  })
+  mockPrisma.webAuthnChallenge.deleteMany.mockImplementation(async ({ where }) => {
+    const before = challenges.length
+    challenges = challenges.filter(row => !matchesChallenge(row, where))
+    return { count: before - challenges.length }
+  })
+
+  mockPrisma.credential.create.mockImplementation(async ({ data, select }) => {
+    const row = { id: `passkey-${credentials.length + 1}`, createdAt: new Date(), lastUsedAt: null, ...data }
+    credentials.push(row)
+    return applySelect(row, select)
+  })
+  mockPrisma.credential.findMany.mockImplementation(async ({ where }) =>
+    credentials.filter(row => row.userId === where.userId)
+  )
+  mockPrisma.credential.findUnique.mockImplementation(async ({ where }) =>
+    credentials.find(row => row.credentialId === where.credentialId) ?? null
+  )
+  mockPrisma.credential.update.mockImplementation(async ({ where, data }) => {
+    const row = credentials.find(r => r.id === where.id)!
+    Object.assign(row, data)
+    return row
+  })
+  mockPrisma.credential.deleteMany.mockImplementation(async ({ where }) => {
+    const before = credentials.length
+    credentials = credentials.filter(row => !(row.id === where.id && row.userId === where.userId))
+    return { count: before - credentials.length }
+  })
+
+  mockPrisma.user.findUnique.mockResolvedValue(user)
+}
+
+async function registerPasskey(authenticator: SoftwareAuthenticator) {
+  const { data: options } = await APITestHelpers.testEndpoint(
+    registerOptions, 'POST', '/api/auth/passkeys/register/options'
+  )
+  const response = authenticator.createRegistrationResponse(options.data)
+
+  return APITestHelpers.testEndpoint(
+    registerVerify, 'POST', '/api/auth/passkeys/register/verify', { response, name: 'Test laptop' }
+  )
+}
+
+describe('/api/auth/passkeys', () => {
+  let authenticator: SoftwareAuthenticator
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    installInMemoryStore()
+    mockGetCurrentUser.mockResolvedValue(currentUser)
+    mockSessionService.startSession.mockResolvedValue({
+      sessionId: 'session-123',
+      tokens: { accessToken: 'mock.jwt.token', refreshToken: 'mock.jwt.token' },
+    })
+    authenticator = new SoftwareAuthenticator()
+  })
+
+  describe('registration', () => {
+    it('should register a passkey from a valid attestation', async () => {
+      const { response, data } = await registerPasskey(authenticator)
+
+      TestUtils.assertValidResponse(response, 201)
+      TestUtils.assertSuccessResponse(data)
+      expect(data.data).toMatchObject({ name: 'Test laptop', deviceType: 'singleDevice' })
+      expect(credentials).toHaveLength(1)
+      expect(credentials[0]).toMatchObject({
+        userId: user.id,
+        credentialId: authenticator.credentialId,
+        transports: ['internal'],
+      })
+      expect(challenges).toHaveLength(0)
+      expect(logAuthEvent).toHaveBeenCalledWith('passkey_registered', expect.any(Object), expect.objectContaining({
+        userId: user.id,
+      }))
+    })
+
+    it('should exclude passkeys the user already registered', async () => {
+      await registerPasskey(authenticator)
+
+      const { data } = await APITestHelpers.testEndpoint(
+        registerOptions, 'POST', '/api/auth/passkeys/register/options'
+      )
+
+      expect(data.data.excludeCredentials).toEqual([
+        expect.objectContaining({ id: authenticator.credentialId }),
+      ])
+    })
+
+    it('should not accept the same attestation twice', async () => {
+      const { data: options } = await APITestHelpers.testEndpoint(
+        registerOptions, 'POST', '/api/auth/passkeys/register/options'
+      )
+      const response = authenticator.createRegistrationResponse(options.data)
+
+      await APITestHelpers.testEndpoint(registerVerify, 'POST', '/api/auth/passkeys/register/verify', { response })
+      const replay = await APITestHelpers.testEndpoint(
+        registerVerify, 'POST', '/api/auth/passkeys/register/verify', { response }
+      )
+
+      TestUtils.assertValidResponse(replay.response, 400)
+      expect(credentials).toHaveLength(1)
+    })
+
+    it('should reject an attestation made for another origin', async () => {
+      const phishing = new SoftwareAuthenticator({ origin: 'https://hayl-energy.example.net' })
+
+      const { response } = await registerPasskey(phishing)
+
+      TestUtils.assertValidResponse(response, 400)
+      expect(credentials).toHaveLength(0)
+    })
+
+    it('should require authentication', async () => {
+      mockGetCurrentUser.mockResolvedValue(null)
+
+      const { response } = await APITestHelpers.testEndpoint(
+        registerOptions, 'POST', '/api/auth/passkeys/register/options'
+      )
+
+      TestUtils.assertValidResponse(response, 401)
+    })
+  })
+
+  describe('passwordless sign-in', () => {
+    beforeEach(async () => {
+      await registerPasskey(authenticator)
+      mockGetCurrentUser.mockResolvedValue(null)
+    })
+
+    it('should sign in with a registered passkey', async () => {
+      const { data: options } = await APITestHelpers.testEndpoint(
+        loginOptions, 'POST', '/api/auth/passkeys/login/options'
+      )
+      expect(options.data.userVerification).toBe('required')
+      expect(options.data.allowCredentials).toEqual([])
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        loginVerify, 'POST', '/api/auth/passkeys/login/verify',
+        { response: authenticator.createAuthenticationResponse(options.data) }
+      )
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+      expect(data.user).toMatchObject({ id: user.id, email: user.email })
+      expect(response.headers.get('set-cookie')).toContain('access-token=')
+      expect(mockSessionService.startSession).toHaveBeenCalledWith(
+        expect.objectContaining({ id: user.id }),
+        expect.any(Object)
+      )
+      expect(credentials[0].counter).toBe(BigInt(1))
+      expect(credentials[0].lastUsedAt).toBeInstanceOf(Date)
+      expect(logLogin).toHaveBeenCalledWith(expect.any(Object), true, expect.objectContaining({
+        metadata: expect.objectContaining({ method: 'passkey' }),
+      }))
+    })
+
+    it('should not accept the same assertion twice', async () => {
+      const { data: options } = await APITestHelpers.testEndpoint(
+        loginOptions, 'POST', '/api/auth/passkeys/login/options'
+      )
+      const assertion = authenticator.createAuthenticationResponse(options.data)
+
+      await APITestHelpers.testEndpoint(loginVerify, 'POST', '/api/auth/passkeys/login/verify', { response: assertion })
+      const replay = await APITestHelpers.testEndpoint(
+        loginVerify, 'POST', '/api/auth/passkeys/login/verify', { response: assertion }
+      )
+
+      TestUtils.assertValidResponse(replay.response, 401)
+      expect(mockSessionService.startSession).toHaveBeenCalledTimes(1)
+    })
+
+    it('should require user verification for passwordless sign-in', async () => {
+      const presenceOnly = new SoftwareAuthenticator({ userVerification: false })
+      mockGetCurrentUser.mockResolvedValue(currentUser)
+      await registerPasskey(presenceOnly)
+
+      const { data: options } = await APITestHelpers.testEndpoint(
+        loginOptions, 'POST', '/api/auth/passkeys/login/options'
+      )
+      const { response } = await APITestHelpers.testEndpoint(
+        loginVerify, 'POST', '/api/auth/passkeys/login/verify',
+        { response: presenceOnly.createAuthenticationResponse(options.data) }
+      )
+
+      TestUtils.assertValidResponse(response, 401)
+      expect(mockSessionService.startSession).not.toHaveBeenCalled()
+    })
+
+    it('should reject an assertion signed by a different key', async () => {
+      const { data: options } = await APITestHelpers.testEndpoint(
+        loginOptions, 'POST', '/api/auth/passkeys/login/options'
+      )
+      const forged = new SoftwareAuthenticator().createAuthenticationResponse(options.data)
+
+      const { response } = await APITestHelpers.testEndpoint(
+        loginVerify, 'POST', '/api/auth/passkeys/login/verify',
+        { response: { ...forged, id: authenticator.credentialId, rawId: authenticator.credentialId } }
+      )
+
+      TestUtils.assertValidResponse(response, 401)
+      expect(mockSessionService.startSession).not.toHaveBeenCalled()
+    })
+
+    it('should refuse users who have not verified their email', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...user, emailVerified: false })
+
+      const { data: options } = await APITestHelpers.testEndpoint(
+        loginOptions, 'POST', '/api/auth/passkeys/login/options'
+      )
+      const { response, data } = await APITestHelpers.testEndpoint(
+        loginVerify, 'POST', '/api/auth/passkeys/login/verify',
+        { response: authenticator.createAuthenticationResponse(options.data) }
+      )
+
+      TestUtils.assertValidResponse(response, 403)
+      expect(data.code).toBe('EMAIL_NOT_VERIFIED')
+    })
+  })
+
+  describe('passkey as a second factor', () => {
+    beforeEach(async () => {
+      await registerPasskey(authenticator)
+      mockJwtVerify.mockResolvedValue({
+        payload: { userId: user.id, email: user.email, type: 'mfa', jti: 'mfa-challenge-jti' },
+      })
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 })
+    })
+
+    afterEach(() => {
+      mockJwtVerify.mockResolvedValue({
+        payload: { userId: user.id, email: user.email, type: 'access' },
+      })
+    })
+
+    it('should complete an MFA challenge with the user\'s passkey', async () => {
+      const { data: options } = await APITestHelpers.testEndpoint(
+        loginOptions, 'POST', '/api/auth/passkeys/login/options', { mfaToken: 'mock.jwt.token' }
+      )
+      expect(options.data.allowCredentials).toEqual([
+        expect.objectContaining({ id: authenticator.credentialId }),
+      ])
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        mfaChallenge, 'POST', '/api/auth/mfa/challenge',
+        { mfaToken: 'mock.jwt.token', passkey: authenticator.createAuthenticationResponse(options.data) }
+      )
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+      expect(logLogin).toHaveBeenCalledWith(expect.any(Object), true, expect.objectContaining({
+        metadata: { mfa: 'passkey' },
+      }))
+    })
+
+    it('should not accept a passkey belonging to someone else', async () => {
+      credentials[0].userId = 'other-user-id'
+
+      const { data: options } = await APITestHelpers.testEndpoint(
+        loginOptions, 'POST', '/api/auth/passkeys/login/options', { mfaToken: 'mock.jwt.token' }
+      )
+      const { response } = await APITestHelpers.testEndpoint(
+        mfaChallenge, 'POST', '/api/auth/mfa/challenge',
+        { mfaToken: 'mock.jwt.token', passkey: authenticator.createAuthenticationResponse(options.data) }
+      )
+
+      TestUtils.assertValidResponse(response, 401)
+      expect(mockSessionService.startSession).not.toHaveBeenCalled()
+    })
+
+    it('should not let a passwordless challenge satisfy the second factor', async () => {
+      const { data: options } = await APITestHelpers.testEndpoint(
+        loginOptions, 'POST', '/api/auth/passkeys/login/options'
+      )
+
+      const { response } = await APITestHelpers.testEndpoint(
+        mfaChallenge, 'POST', '/api/auth/mfa/challenge',
+        { mfaToken: 'mock.jwt.token', passkey: authenticator.createAuthenticationResponse(options.data) }
+      )
+
+      TestUtils.assertValidResponse(response, 401)
+    })
+  })
+
+  describe('DELETE /api/auth/passkeys/:id', () => {
+    const deleteById = (id: string) =>
+      (request: NextRequest) => deletePasskey(request, { params: Promise.resolve({ id }) })
+
+    it('should remove the user\'s passkey', async () => {
+      await registerPasskey(authenticator)
+
+      const { response } = await APITestHelpers.testEndpoint(
+        deleteById(credentials[0].id as string), 'DELETE', '/api/auth/passkeys/passkey-1'
+      )
+
+      TestUtils.assertValidResponse(response, 200)
+      expect(credentials).toHaveLength(0)
+      expect(logAuthEvent).toHaveBeenCalledWith('passkey_removed', expect.any(Object), expect.any(Object))
+    })
+
+    it('should return 404 for a passkey the user does not own', async () => {
+      await registerPasskey(authenticator)
+      mockGetCurrentUser.mockResolvedValue({ ...currentUser, userId: 'other-user-id' })
+
+      const { response } = await APITestHelpers.testEndpoint(
+        deleteById(credentials[0].id as string), 'DELETE', '/api/auth/passkeys/passkey-1'
+      )
+
+      TestUtils.assertValidResponse(response, 404)
+      expect(credentials).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,221 @@
+import { POST as forgotPassword } from '../forgot-password/route'
+import { POST as resetPassword } from '../reset-password/route'
+import { TestUtils, APITestHelpers } from '@/lib/test-utils'
+import { hashToken } from '@/lib/secure-token'
+import { prisma } from '@/lib/prisma'
+import { emailService } from '@/lib/email-service'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { SessionService } from '@/lib/session'
+import bcrypt from 'bcryptjs'
+
+// Mock external dependencies
+jest.mock('bcryptjs')
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/rate-limit', () => ({
+  passwordResetRateLimit: {
+    middleware: jest.fn((request, handler) => handler()),
+  },
+}))
+
+jest.mock('@/lib/email-service', () => ({
+  emailService: {
+    sendPasswordResetEmail: jest.fn().mockResolvedValue(true),
+  },
+}))
+
+jest.mock('@/lib/auth-logger', () => ({
+  logAuthEvent: jest.fn(),
+}))
+
+jest.mock('@/lib/session', () => ({
+  SessionService: {
+    revokeAllSessions: jest.fn().mockResolvedValue(2),
+  },
+}))
+
+const mockBcrypt = bcrypt as jest.Mocked<typeof bcrypt>
+const mockPrisma = prisma as unknown as { user: { findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock } }
+const mockEmailService = emailService as unknown as { sendPasswordResetEmail: jest.Mock }
+
+describe('password reset API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockBcrypt.hash.mockResolvedValue('$2a$12$newhashedpassword' as never)
+  })
+
+  describe('POST /api/auth/forgot-password', () => {
+    it('should store a hashed token and email the raw token', async () => {
+      const mockUser = TestUtils.mockPrismaUser()
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser)
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        forgotPassword,
+        'POST',
+        '/api/auth/forgot-password',
+        { email: mockUser.email }
+      )
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+
+      const rawToken = mockEmailService.sendPasswordResetEmail.mock.calls[0][2]
+      const { data: updateData } = mockPrisma.user.update.mock.calls[0][0]
+      expect(updateData.passwordResetToken).toBe(hashToken(rawToken))
+      expect(updateData.passwordResetToken).not.toBe(rawToken)
+      expect(updateData.passwordResetExpiresAt.getTime()).toBeGreaterThan(Date.now())
+      expect(logAuthEvent).toHaveBeenCalledWith('password_reset_request', expect.anything(), expect.objectContaining({
+        success: true,
+        userId: mockUser.id,
+      }))
+    })
+
+    it('should not reveal whether the email exists', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null)
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        forgotPassword,
+        'POST',
+        '/api/auth/forgot-password',
+        { email: 'nobody@example.com' }
+      )
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+      expect(mockEmailService.sendPasswordResetEmail).not.toHaveBeenCalled()
+    })
+
+    it('should reject an invalid email', async () => {
+      const { response, data } = await APITestHelpers.testEndpoint(
+        forgotPassword,
+        'POST',
+        '/api/auth/forgot-password',
+        { email: 'invalid' }
+      )
+
+      TestUtils.assertValidResponse(response, 400)
+      TestUtils.assertErrorResponse(data, 'Validation failed')
+    })
+  })
+
+  describe('POST /api/auth/reset-password', () => {
+    const validPassword = 'NewPassword123!'
+
+    beforeEach(() => {
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 })
+    })
+
+    it('should reset the password and consume the token', async () => {
+      const mockUser = TestUtils.mockPrismaUser({
+        passwordResetExpiresAt: new Date(Date.now() + 60 * 1000),
+      })
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser)
+      mockBcrypt.compare.mockResolvedValue(false as never)
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        resetPassword,
+        'POST',
+        '/api/auth/reset-password',
+        { token: 'raw-token', password: validPassword }
+      )
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { passwordResetToken: hashToken('raw-token') },
+      }))
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: mockUser.id,
+          passwordResetToken: hashToken('raw-token'),
+          passwordResetExpiresAt: { gt: expect.any(Date) },
+        },
+        data: expect.objectContaining({
+          password: '$2a$12$newhashedpassword',
+          passwordResetToken: null,
+          passwordResetExpiresAt: null,
+          passwordChangedAt: expect.any(Date),
+        }),
+      })
+      expect(SessionService.revokeAllSessions).toHaveBeenCalledWith(mockUser.id)
+      expect(logAuthEvent).toHaveBeenCalledWith('password_reset_success', expect.anything(), expect.objectContaining({
+        success: true,
+        userId: mockUser.id,
+      }))
+    })
+
+    it('should reject an unknown or already used token', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null)
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        resetPassword,
+        'POST',
+        '/api/auth/reset-password',
+        { token: 'used-token', password: validPassword }
+      )
+
+      TestUtils.assertValidResponse(response, 400)
+      TestUtils.assertErrorResponse(data, 'Invalid reset link')
+      expect(mockPrisma.user.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should let only one of two concurrent resets with the same link through', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(TestUtils.mockPrismaUser({
+        passwordResetExpiresAt: new Date(Date.now() + 60 * 1000),
+      }))
+      mockBcrypt.compare.mockResolvedValue(false as never)
+      // Both read the token before either consumed it; the guarded update only matches once
+      mockPrisma.user.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 })
+
+      const [first, second] = await Promise.all([validPassword, 'OtherPassword456!'].map(password =>
+        APITestHelpers.testEndpoint(resetPassword, 'POST', '/api/auth/reset-password', { token: 'raw-token', password })
+      ))
+
+      expect([first.response.status, second.response.status].sort()).toEqual([200, 400])
+      expect(SessionService.revokeAllSessions).toHaveBeenCalledTimes(1)
+      expect(logAuthEvent).toHaveBeenCalledWith('suspicious_activity', expect.anything(), expect.objectContaining({
+        error: 'Password reset token used twice',
+      }))
+    })
+
+    it('should reject an expired token', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(TestUtils.mockPrismaUser({
+        passwordResetExpiresAt: new Date(Date.now() - 1000),
+      }))
+
+      const { response, data } = await APITestHelpers.testEndpoint(
+        resetPassword,
+        'POST',
+        '/api/auth/reset-password',
+        { token: 'expired-token', password: validPassword }
+      )
+
+      TestUtils.assertValidResponse(response, 400)
+      TestUtils.assertErrorResponse(data, 'Reset link expired')
+      expect(mockPrisma.user.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should reject a weak password', async () => {
+      const { response, data } = await APITestHelpers.testEndpoint(
+        resetPassword,
+        'POST',
+        '/api/auth/reset-password',
+        { token: 'raw-token', password: 'weak' }
+      )
+
+      TestUtils.assertValidResponse(response, 400)
+      TestUtils.assertErrorResponse(data, 'Validation failed')
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled()
+    })
+  })
+})
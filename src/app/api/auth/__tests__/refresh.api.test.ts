@@ -0,0 +1,194 @@
+import { jwtVerify, SignJWT } from 'jose'
+import { POST } from '../refresh/route'
+import { TestUtils, APITestHelpers } from '@/lib/test-utils'
+import { prisma } from '@/lib/prisma'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { SessionService } from '@/lib/session'
+
+// Mock external dependencies
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+    },
+    refreshToken: {
+      create: jest.fn(),
+      updateMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    userRole: {
+      findMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/auth-logger', () => ({
+  logAuthEvent: jest.fn(),
+}))
+
+jest.mock('@/lib/session', () => ({
+  SessionService: {
+    isSessionActive: jest.fn(),
+    touchSession: jest.fn(),
+    revokeSession: jest.fn(),
+  },
+}))
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock }
+  refreshToken: { create: jest.Mock; updateMany: jest.Mock; findUnique: jest.Mock }
+  userRole: { findMany: jest.Mock }
+}
+const mockJwtVerify = jwtVerify as jest.Mock
+const mockSessionService = SessionService as unknown as {
+  isSessionActive: jest.Mock
+  touchSession: jest.Mock
+  revokeSession: jest.Mock
+}
+
+const refreshPayload = (overrides: Record<string, unknown> = {}) => ({
+  userId: 'test-user-id',
+  email: 'test@example.com',
+  type: 'refresh',
+  sessionId: 'session-123',
+  jti: 'refresh-jti-1',
+  iat: Math.floor(Date.now() / 1000) - 60,
+  exp: Math.floor(Date.now() / 1000) + 3600,
+  ...overrides,
+})
+
+const refreshRequest = () => APITestHelpers.testEndpoint(
+  POST,
+  'POST',
+  '/api/auth/refresh',
+  undefined,
+  TestUtils.createCookieHeaders({ 'refresh-token': 'valid.refresh.token' })
+)
+
+describe('/api/auth/refresh', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockSessionService.isSessionActive.mockResolvedValue(true)
+    mockPrisma.refreshToken.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.userRole.findMany.mockResolvedValue([])
+  })
+
+  describe('POST /api/auth/refresh', () => {
+    it('should issue a new token pair for a valid refresh token', async () => {
+      const mockUser = TestUtils.mockPrismaUser({ passwordChangedAt: null })
+      mockJwtVerify.mockResolvedValueOnce({ payload: refreshPayload({ userId: mockUser.id }) })
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser)
+
+      const { response, data } = await refreshRequest()
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+      TestUtils.assertValidUser(data.user)
+      expect(data.accessTokenExpiresAt).toBeGreaterThan(Date.now())
+      expect(response.cookies.get('access-token')?.value).toBeTruthy()
+      expect(response.cookies.get('refresh-token')?.value).toBeTruthy()
+      expect(logAuthEvent).toHaveBeenCalledWith('token_refresh', expect.anything(), expect.objectContaining({
+        success: true,
+        userId: mockUser.id,
+        sessionId: 'session-123',
+      }))
+      expect(mockSessionService.touchSession).toHaveBeenCalledWith('session-123', expect.anything())
+      expect(mockPrisma.refreshToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ sessionId: 'session-123', parentJti: 'refresh-jti-1' }),
+      })
+    })
+
+    it('should put the user\'s current roles in the new access token', async () => {
+      const mockUser = TestUtils.mockPrismaUser({ passwordChangedAt: null })
+      mockJwtVerify.mockResolvedValueOnce({ payload: refreshPayload({ userId: mockUser.id }) })
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser)
+      mockPrisma.userRole.findMany.mockResolvedValue([
+        { role: { name: 'support', permissions: ['admin:access', 'users:unlock'] } },
+      ])
+
+      const { data } = await refreshRequest()
+
+      expect(data.user.roles).toEqual(['user', 'support'])
+      expect(data.user.permissions).toEqual(['admin:access', 'users:unlock'])
+
+      const signedPayloads = (SignJWT as unknown as jest.Mock).mock.calls.map(([payload]) => payload)
+      expect(signedPayloads).toContainEqual(expect.objectContaining({
+        type: 'access',
+        roles: ['user', 'support'],
+        permissions: ['admin:access', 'users:unlock'],
+      }))
+      // Refresh tokens stay free of authorization data
+      expect(signedPayloads.find(payload => payload.type === 'refresh')).not.toHaveProperty('roles')
+    })
+
+    it('should reject requests without a refresh token', async () => {
+      const { response, data } = await APITestHelpers.testEndpoint(
+        POST,
+        'POST',
+        '/api/auth/refresh'
+      )
+
+      TestUtils.assertValidResponse(response, 401)
+      TestUtils.assertErrorResponse(data)
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('should reject an access token presented as a refresh token', async () => {
+      mockJwtVerify.mockResolvedValueOnce({ payload: refreshPayload({ type: 'access' }) })
+
+      const { response, data } = await refreshRequest()
+
+      TestUtils.assertValidResponse(response, 401)
+      TestUtils.assertErrorResponse(data, 'Unauthorized - Invalid refresh token')
+      expect(response.cookies.get('refresh-token')?.value).toBe('')
+    })
+
+    it('should reject refresh tokens issued before a password change', async () => {
+      mockJwtVerify.mockResolvedValueOnce({ payload: refreshPayload() })
+      mockPrisma.user.findUnique.mockResolvedValue(TestUtils.mockPrismaUser({
+        passwordChangedAt: new Date(),
+      }))
+
+      const { response, data } = await refreshRequest()
+
+      TestUtils.assertValidResponse(response, 401)
+      TestUtils.assertErrorResponse(data, 'Unauthorized - Session has been revoked')
+    })
+
+    it('should reject refresh tokens for a revoked session', async () => {
+      mockJwtVerify.mockResolvedValueOnce({ payload: refreshPayload() })
+      mockPrisma.user.findUnique.mockResolvedValue(TestUtils.mockPrismaUser({ passwordChangedAt: null }))
+      mockSessionService.isSessionActive.mockResolvedValue(false)
+
+      const { response, data } = await refreshRequest()
+
+      TestUtils.assertValidResponse(response, 401)
+      TestUtils.assertErrorResponse(data, 'Unauthorized - Session has been revoked')
+      expect(mockSessionService.touchSession).not.toHaveBeenCalled()
+      expect(response.cookies.get('access-token')?.value).toBe('')
+    })
+
+    it('should revoke the session when a rotated refresh token is replayed', async () => {
+      const mockUser = TestUtils.mockPrismaUser({ passwordChangedAt: null })
+      mockJwtVerify.mockResolvedValueOnce({ payload: refreshPayload({ userId: mockUser.id }) })
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser)
+      mockPrisma.refreshToken.updateMany.mockResolvedValueOnce({ count: 0 })
+      mockPrisma.refreshToken.findUnique.mockResolvedValue({
+        sessionId: 'session-123',
+        rotatedAt: new Date(Date.now() - 60 * 1000),
+      })
+
+      const { response, data } = await refreshRequest()
+
+      TestUtils.assertValidResponse(response, 401)
+      TestUtils.assertErrorResponse(data, 'Unauthorized - Session has been revoked')
+      expect(mockSessionService.revokeSession).toHaveBeenCalledWith('session-123')
+      expect(logAuthEvent).toHaveBeenCalledWith('token_reuse', expect.anything(), expect.objectContaining({
+        success: false,
+        userId: mockUser.id,
+        sessionId: 'session-123',
+      }))
+      expect(response.cookies.get('refresh-token')?.value).toBe('')
+    })
+  })
+})
@@ -0,0 +1,120 @@
+import { POST } from '../secure-account/route'
+import { TestUtils, APITestHelpers } from '@/lib/test-utils'
+import { prisma } from '@/lib/prisma'
+import { logAuthEvent, logSuspiciousActivity } from '@/lib/auth-logger'
+import { emailService } from '@/lib/email-service'
+import { hashToken } from '@/lib/secure-token'
+
+// Mock external dependencies
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    knownDevice: {
+      findUnique: jest.fn(),
+      delete: jest.fn(),
+    },
+    user: {
+      update: jest.fn(),
+    },
+    session: {
+      updateMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/auth-logger', () => ({
+  logAuthEvent: jest.fn(),
+  logSuspiciousActivity: jest.fn(),
+}))
+
+jest.mock('@/lib/email-service', () => ({
+  emailService: {
+    sendPasswordResetEmail: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/rate-limit', () => ({
+  secureAccountRateLimit: {
+    middleware: jest.fn((request, handler) => handler()),
+  },
+}))
+
+const mockPrisma = prisma as unknown as {
+  knownDevice: { findUnique: jest.Mock; delete: jest.Mock }
+  user: { update: jest.Mock }
+  session: { updateMany: jest.Mock }
+}
+const mockEmailService = emailService as unknown as { sendPasswordResetEmail: jest.Mock }
+
+function knownDevice(expiresInMs: number) {
+  return {
+    id: 'device-1',
+    secureTokenExpiresAt: new Date(Date.now() + expiresInMs),
+    user: { id: 'test-user-id', email: 'test@example.com', name: 'Test User' },
+  }
+}
+
+describe('/api/auth/secure-account', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.knownDevice.delete.mockResolvedValue({})
+    mockPrisma.user.update.mockResolvedValue({})
+    mockPrisma.session.updateMany.mockResolvedValue({ count: 2 })
+    mockEmailService.sendPasswordResetEmail.mockResolvedValue(true)
+  })
+
+  it('should sign the owner out everywhere and require a new password', async () => {
+    mockPrisma.knownDevice.findUnique.mockResolvedValue(knownDevice(60 * 1000))
+
+    const { response, data } = await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/secure-account', {
+      token: 'emailed-token',
+    })
+
+    TestUtils.assertValidResponse(response, 200)
+    TestUtils.assertSuccessResponse(data)
+    expect(mockPrisma.knownDevice.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+      where: { secureToken: hashToken('emailed-token') },
+    }))
+    expect(mockPrisma.session.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: 'test-user-id', revokedAt: null },
+    }))
+    expect(mockPrisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'test-user-id' },
+      data: expect.objectContaining({ passwordResetRequired: true }),
+    })
+    expect(mockEmailService.sendPasswordResetEmail).toHaveBeenCalledWith('test@example.com', 'Test User', expect.any(String), 60)
+    expect(response.cookies.get('access-token')?.value).toBe('')
+  })
+
+  it('should record the report for the security team', async () => {
+    mockPrisma.knownDevice.findUnique.mockResolvedValue(knownDevice(60 * 1000))
+
+    await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/secure-account', { token: 'emailed-token' })
+
+    expect(logSuspiciousActivity).toHaveBeenCalledWith(expect.any(Object), expect.any(String), expect.objectContaining({
+      userId: 'test-user-id',
+      metadata: expect.objectContaining({ reportedByUser: true, method: 'new_device_email', revokedSessions: 2 }),
+    }))
+  })
+
+  it('should reject an expired link', async () => {
+    mockPrisma.knownDevice.findUnique.mockResolvedValue(knownDevice(-60 * 1000))
+
+    const { response, data } = await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/secure-account', {
+      token: 'emailed-token',
+    })
+
+    TestUtils.assertValidResponse(response, 400)
+    TestUtils.assertErrorResponse(data, 'Invalid link')
+    expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    expect(logAuthEvent).toHaveBeenCalledWith('suspicious_activity', expect.any(Object), expect.objectContaining({
+      success: false,
+    }))
+  })
+
+  it('should reject a missing token without a lookup', async () => {
+    const { response } = await APITestHelpers.testEndpoint(POST, 'POST', '/api/auth/secure-account', {})
+
+    TestUtils.assertValidResponse(response, 400)
+    expect(mockPrisma.knownDevice.findUnique).not.toHaveBeenCalled()
+  })
+})
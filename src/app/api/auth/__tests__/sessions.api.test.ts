@@ -0,0 +1,151 @@
+import { NextRequest } from 'next/server'
+import { GET, DELETE as revokeOtherSessions } from '../sessions/route'
+import { DELETE as revokeSession } from '../sessions/[id]/route'
+import { TestUtils, APITestHelpers } from '@/lib/test-utils'
+import { getCurrentUser } from '@/lib/auth'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { SessionService } from '@/lib/session'
+
+// Mock external dependencies
+jest.mock('@/lib/auth', () => ({
+  getCurrentUser: jest.fn(),
+}))
+
+jest.mock('@/lib/auth-logger', () => ({
+  logAuthEvent: jest.fn(),
+}))
+
+jest.mock('@/lib/session', () => ({
+  SessionService: {
+    listActiveSessions: jest.fn(),
+    revokeAllSessions: jest.fn(),
+    revokeUserSession: jest.fn(),
+  },
+}))
+
+const mockGetCurrentUser = getCurrentUser as jest.Mock
+const mockSessionService = SessionService as unknown as {
+  listActiveSessions: jest.Mock
+  revokeAllSessions: jest.Mock
+  revokeUserSession: jest.Mock
+}
+
+const currentUser = {
+  userId: 'test-user-id',
+  email: 'test@example.com',
+  sessionId: 'session-current',
+  iat: Math.floor(Date.now() / 1000),
+  exp: Math.floor(Date.now() / 1000) + 900,
+}
+
+const revokeSessionById = (id: string) =>
+  (request: NextRequest) => revokeSession(request, { params: Promise.resolve({ id }) })
+
+describe('/api/auth/sessions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetCurrentUser.mockResolvedValue(currentUser)
+  })
+
+  describe('GET /api/auth/sessions', () => {
+    it('should list active sessions with parsed devices and the current marker', async () => {
+      mockSessionService.listActiveSessions.mockResolvedValue([
+        {
+          id: 'row-1',
+          sessionId: 'session-current',
+          userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+          ipAddress: '203.0.113.7',
+          createdAt: new Date(),
+          lastSeenAt: new Date(),
+        },
+        {
+          id: 'row-2',
+          sessionId: 'session-phone',
+          userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+          ipAddress: '198.51.100.4',
+          createdAt: new Date(),
+          lastSeenAt: new Date(),
+        },
+      ])
+
+      const { response, data } = await APITestHelpers.testEndpoint(GET, 'GET', '/api/auth/sessions')
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+      expect(mockSessionService.listActiveSessions).toHaveBeenCalledWith('test-user-id')
+      expect(data.sessions).toHaveLength(2)
+      expect(data.sessions[0]).toMatchObject({
+        id: 'row-1',
+        current: true,
+        ipAddress: '203.0.113.7',
+        device: { browser: 'Chrome', os: 'macOS', deviceType: 'desktop' },
+      })
+      expect(data.sessions[1]).toMatchObject({
+        id: 'row-2',
+        current: false,
+        device: { browser: 'Safari', os: 'iOS', deviceType: 'mobile' },
+      })
+      expect(data.sessions[0].sessionId).toBeUndefined()
+    })
+
+    it('should require authentication', async () => {
+      mockGetCurrentUser.mockResolvedValue(null)
+
+      const { response, data } = await APITestHelpers.testEndpoint(GET, 'GET', '/api/auth/sessions')
+
+      TestUtils.assertValidResponse(response, 401)
+      TestUtils.assertErrorResponse(data)
+      expect(mockSessionService.listActiveSessions).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('DELETE /api/auth/sessions', () => {
+    it('should sign out every other session', async () => {
+      mockSessionService.revokeAllSessions.mockResolvedValue(2)
+
+      const { response, data } = await APITestHelpers.testEndpoint(revokeOtherSessions, 'DELETE', '/api/auth/sessions')
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+      expect(data.revokedCount).toBe(2)
+      expect(mockSessionService.revokeAllSessions).toHaveBeenCalledWith('test-user-id', 'session-current')
+      expect(logAuthEvent).toHaveBeenCalledWith('session_revoked', expect.anything(), expect.objectContaining({
+        success: true,
+        userId: 'test-user-id',
+      }))
+    })
+  })
+
+  describe('DELETE /api/auth/sessions/:id', () => {
+    it('should revoke another session of the current user', async () => {
+      mockSessionService.revokeUserSession.mockResolvedValue({ sessionId: 'session-phone' })
+
+      const { response, data } = await APITestHelpers.testEndpoint(revokeSessionById('row-2'), 'DELETE', '/api/auth/sessions/row-2')
+
+      TestUtils.assertValidResponse(response, 200)
+      TestUtils.assertSuccessResponse(data)
+      expect(data.current).toBe(false)
+      expect(mockSessionService.revokeUserSession).toHaveBeenCalledWith('test-user-id', 'row-2')
+      expect(response.cookies.get('access-token')).toBeUndefined()
+    })
+
+    it('should clear cookies when the current session is revoked', async () => {
+      mockSessionService.revokeUserSession.mockResolvedValue({ sessionId: 'session-current' })
+
+      const { response, data } = await APITestHelpers.testEndpoint(revokeSessionById('row-1'), 'DELETE', '/api/auth/sessions/row-1')
+
+      TestUtils.assertValidResponse(response, 200)
+      expect(data.current).toBe(true)
+      expect(response.cookies.get('access-token')?.value).toBe('')
+    })
+
+    it('should return 404 for sessions the user does not own', async () => {
+      mockSessionService.revokeUserSession.mockResolvedValue(null)
+
+      const { response, data } = await APITestHelpers.testEndpoint(revokeSessionById('row-9'), 'DELETE', '/api/auth/sessions/row-9')
+
+      TestUtils.assertValidResponse(response, 404)
+      TestUtils.assertErrorResponse(data, 'Session not found')
+    })
+  })
+})
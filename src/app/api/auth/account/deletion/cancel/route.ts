@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { AccountDeletionService } from '@/lib/account-deletion'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// Redeems the link from the deletion email; the /cancel-account-deletion page POSTs here
+export const POST = withRateLimit(async (request: NextRequest) => {
+  try {
+    const body = await request.json()
+    const token = typeof body?.token === 'string' ? body.token.trim() : ''
+
+    const user = token ? await AccountDeletionService.cancelWithToken(token) : null
+
+    if (!user) {
+      await logAuthEvent('suspicious_activity', request, {
+        success: false,
+        error: 'Invalid account deletion cancel token used'
+      })
+
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid link',
+          message: 'This link is invalid, or the deletion was already cancelled.'
+        },
+        { status: 400 }
+      ))
+    }
+
+    await logAuthEvent('account_deletion_cancelled', request, {
+      success: true,
+      userId: user.id,
+      email: user.email,
+      metadata: { method: 'email_link' }
+    })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'Your account will not be deleted. If you didn\'t ask for the deletion, change your password now.'
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Account deletion cancel error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server'
+import bcrypt from 'bcryptjs'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { SessionService } from '@/lib/session'
+import { MfaService } from '@/lib/mfa'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { ACCOUNT_DELETION_GRACE_DAYS, AccountDeletionService } from '@/lib/account-deletion'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+function unauthorized() {
+  return authSecurityHeaders.applyHeaders(NextResponse.json(
+    {
+      success: false,
+      error: 'Unauthorized - No valid token provided'
+    },
+    { status: 401 }
+  ))
+}
+
+// Body: { password, code? }. `code` is required when MFA is on, so a hijacked session alone can't delete the account
+export const POST = withRateLimit(async (request: NextRequest) => {
+  try {
+    const currentUser = await getCurrentUser(request)
+
+    if (!currentUser) {
+      return unauthorized()
+    }
+
+    const body = await request.json().catch(() => null)
+    const password = typeof body?.password === 'string' ? body.password : ''
+    const code = typeof body?.code === 'string' ? body.code : ''
+
+    const user = await prisma.user.findUnique({
+      where: { id: currentUser.userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        password: true,
+        mfaEnabled: true,
+        mfaSecret: true,
+        mfaLastUsedStep: true,
+        deletionScheduledFor: true
+      }
+    })
+
+    if (!user) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'User not found'
+        },
+        { status: 404 }
+      ))
+    }
+
+    if (user.deletionScheduledFor) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Account deletion is already scheduled',
+          data: { scheduledFor: user.deletionScheduledFor }
+        },
+        { status: 409 }
+      ))
+    }
+
+    const isPasswordValid = !!password && await bcrypt.compare(password, user.password)
+    const isCodeValid = isPasswordValid && (!user.mfaEnabled || (
+      await MfaService.verifyCode(user, code) ||
+      await MfaService.consumeRecoveryCode(user.id, code)
+    ))
+
+    if (!isCodeValid) {
+      await logAuthEvent('account_deletion_requested', request, {
+        success: false,
+        userId: user.id,
+        email: user.email,
+        sessionId: currentUser.sessionId,
+        error: isPasswordValid ? 'Invalid MFA code' : 'Invalid password'
+      })
+
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: isPasswordValid ? 'Invalid authentication code' : 'Current password is incorrect'
+        },
+        { status: 400 }
+      ))
+    }
+
+    const { scheduledFor, emailSent } = await AccountDeletionService.schedule(user)
+    // This browser stays signed in so the owner can still cancel from settings
+    const revokedSessions = await SessionService.revokeAllSessions(user.id, currentUser.sessionId)
+
+    await logAuthEvent('account_deletion_requested', request, {
+      success: true,
+      userId: user.id,
+      email: user.email,
+      sessionId: currentUser.sessionId,
+      metadata: { scheduledFor: scheduledFor.toISOString(), revokedSessions, emailSent }
+    })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: `Your account will be deleted on ${scheduledFor.toDateString()}. You can cancel until then; we emailed you a link too.`,
+        data: { scheduledFor, graceDays: ACCOUNT_DELETION_GRACE_DAYS, revokedSessions }
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Account deletion error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
+
+// Cancels a scheduled deletion from settings
+export const DELETE = withRateLimit(async (request: NextRequest) => {
+  try {
+    const currentUser = await getCurrentUser(request)
+
+    if (!currentUser) {
+      return unauthorized()
+    }
+
+    const cancelled = await AccountDeletionService.cancel(currentUser.userId)
+
+    if (cancelled) {
+      await logAuthEvent('account_deletion_cancelled', request, {
+        success: true,
+        userId: currentUser.userId,
+        email: currentUser.email,
+        sessionId: currentUser.sessionId,
+        metadata: { method: 'settings' }
+      })
+    }
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: cancelled ? 'Account deletion cancelled' : 'No account deletion was scheduled'
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Account deletion cancel error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
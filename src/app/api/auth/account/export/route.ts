@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { buildAccountExport } from '@/lib/account-export'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// Downloads everything stored about the signed-in user as one JSON file
+export const GET = withRateLimit(async (request: NextRequest) => {
+  try {
+    const currentUser = await getCurrentUser(request)
+
+    if (!currentUser) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Unauthorized - No valid token provided'
+        },
+        { status: 401 }
+      ))
+    }
+
+    const data = await buildAccountExport(currentUser.userId)
+
+    if (!data) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'User not found'
+        },
+        { status: 404 }
+      ))
+    }
+
+    await logAuthEvent('data_exported', request, {
+      success: true,
+      userId: currentUser.userId,
+      email: currentUser.email,
+      sessionId: currentUser.sessionId,
+      metadata: { events: data.activity.events.length, alerts: data.activity.securityAlerts.length }
+    })
+
+    const filename = `hayl-account-${new Date().toISOString().slice(0, 10)}.json`
+
+    return authSecurityHeaders.applyHeaders(new NextResponse(JSON.stringify(data, null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    }))
+
+  } catch (error) {
+    console.error('Account export error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
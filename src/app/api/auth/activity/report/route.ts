@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logSuspiciousActivity } from '@/lib/auth-logger'
+import { clearAuthCookies } from '@/lib/auth-cookies'
+import { requirePasswordReset } from '@/lib/password-reset'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// "This wasn't me". Body: { activityId? } naming the timeline entry the user didn't recognize
+export const POST = withRateLimit(async (request: NextRequest) => {
+  try {
+    const currentUser = await getCurrentUser(request)
+
+    if (!currentUser) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Unauthorized - No valid token provided'
+        },
+        { status: 401 }
+      ))
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: currentUser.userId },
+      select: { id: true, email: true, name: true }
+    })
+
+    if (!user) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'User not found'
+        },
+        { status: 404 }
+      ))
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const activityId = typeof body?.activityId === 'string' ? body.activityId.slice(0, 64) : undefined
+
+    // Whoever else is in the account loses it now; the owner gets back in through the emailed link
+    const { emailSent, revokedSessions } = await requirePasswordReset(user)
+
+    await logSuspiciousActivity(request, 'Account owner reported activity they did not recognize', {
+      userId: user.id,
+      email: user.email,
+      sessionId: currentUser.sessionId,
+      metadata: { reportedByUser: true, activityId, revokedSessions, emailSent }
+    })
+
+    const response = authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'You have been signed out everywhere. Check your email for a link to choose a new password.',
+        data: { emailSent }
+      },
+      { status: 200 }
+    ))
+
+    return clearAuthCookies(response)
+
+  } catch (error) {
+    console.error('Report activity error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
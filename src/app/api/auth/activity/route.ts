@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { validateActivityQuery } from '@/lib/validation'
+import { ACTIVITY_MAX_PAGE_SIZE, SecurityActivityService } from '@/lib/security-activity'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// The signed-in user's security timeline: ?before=<nextCursor>&limit=
+export const GET = withRateLimit(async (request: NextRequest) => {
+  try {
+    const currentUser = await getCurrentUser(request)
+
+    if (!currentUser) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Unauthorized - No valid token provided'
+        },
+        { status: 401 }
+      ))
+    }
+
+    const validation = validateActivityQuery(request.nextUrl.searchParams, ACTIVITY_MAX_PAGE_SIZE)
+    if (!validation.isValid) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      ))
+    }
+
+    const { activity, nextCursor } = await SecurityActivityService.listActivity(currentUser.userId, validation.data)
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        activity,
+        nextCursor
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Security activity error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server'
+import bcrypt from 'bcryptjs'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { JWTService } from '@/lib/jwt'
+import { RbacService } from '@/lib/rbac'
+import { SessionService } from '@/lib/session'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { setAuthCookies } from '@/lib/auth-cookies'
+import { passwordChecker } from '@/lib/password-strength'
+import { validateChangePasswordData } from '@/lib/validation'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// Body: { currentPassword, newPassword }. Other sessions end; this one continues with fresh tokens
+export const POST = withRateLimit(async (request: NextRequest) => {
+  try {
+    const currentUser = await getCurrentUser(request)
+
+    if (!currentUser) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Unauthorized - No valid token provided'
+        },
+        { status: 401 }
+      ))
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = validateChangePasswordData(body)
+
+    if (!validation.isValid || !validation.data) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      ))
+    }
+
+    const { currentPassword, newPassword } = validation.data
+
+    const user = await prisma.user.findUnique({
+      where: { id: currentUser.userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        password: true
+      }
+    })
+
+    if (!user) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'User not found'
+        },
+        { status: 404 }
+      ))
+    }
+
+    const isPasswordValid = await bcrypt.compare(currentPassword, user.password)
+    if (!isPasswordValid) {
+      await logAuthEvent('password_changed', request, {
+        success: false,
+        userId: user.id,
+        email: user.email,
+        sessionId: currentUser.sessionId,
+        error: 'Invalid current password'
+      })
+
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Current password is incorrect'
+        },
+        { status: 400 }
+      ))
+    }
+
+    const strength = passwordChecker.checkPassword(newPassword, [user.email.split('@')[0], user.name || ''])
+    if (!strength.isValid) {
+      // The checker prepends praise for high scores even when a rule failed
+      const problems = strength.feedback.filter(message => message !== 'Good password strength!')
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Password is too weak',
+          details: problems.length > 0
+            ? problems
+            : ['Choose a longer password with a mix of letters, numbers and symbols']
+        },
+        { status: 400 }
+      ))
+    }
+
+    if (await bcrypt.compare(newPassword, user.password)) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: ['New password must be different from your current password']
+        },
+        { status: 400 }
+      ))
+    }
+
+    const saltRounds = 12
+    const hashedPassword = await bcrypt.hash(newPassword, saltRounds)
+
+    // Bumping passwordChangedAt invalidates every token issued before now,
+    // including this request's; the session gets a new pair below
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: hashedPassword,
+        passwordChangedAt: new Date(),
+        passwordResetToken: null,
+        passwordResetExpiresAt: null,
+        updatedAt: new Date()
+      }
+    })
+
+    const revokedSessions = await SessionService.revokeAllSessions(user.id, currentUser.sessionId)
+    const access = await RbacService.getUserAccess(user.id)
+    const tokens = await JWTService.createTokenPair({
+      userId: user.id,
+      email: user.email,
+      sessionId: currentUser.sessionId,
+      ...access
+    })
+
+    await logAuthEvent('password_changed', request, {
+      success: true,
+      userId: user.id,
+      email: user.email,
+      sessionId: currentUser.sessionId,
+      metadata: { revokedSessions }
+    })
+
+    const response = authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: revokedSessions > 0
+          ? `Password changed. You were signed out on ${revokedSessions} other ${revokedSessions === 1 ? 'device' : 'devices'}.`
+          : 'Password changed.',
+        data: { revokedSessions }
+      },
+      { status: 200 }
+    ))
+
+    return setAuthCookies(response, tokens)
+
+  } catch (error) {
+    console.error('Change password error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
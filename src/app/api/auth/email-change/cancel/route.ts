@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { EmailChangeService } from '@/lib/email-change'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// Redeems the cancel link sent to the old address; the /cancel-email-change page POSTs here
+export const POST = withRateLimit(async (request: NextRequest) => {
+  try {
+    const body = await request.json()
+    const token = typeof body?.token === 'string' ? body.token.trim() : ''
+
+    const user = token ? await EmailChangeService.cancelWithToken(token) : null
+
+    if (!user) {
+      await logAuthEvent('suspicious_activity', request, {
+        success: false,
+        error: 'Invalid email change cancel token used'
+      })
+
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid link',
+          message: 'This link is invalid, or the change was already confirmed or cancelled.'
+        },
+        { status: 400 }
+      ))
+    }
+
+    await logAuthEvent('email_change_cancelled', request, {
+      success: true,
+      userId: user.id,
+      email: user.email,
+      metadata: { method: 'email_link', pendingEmail: user.pendingEmail }
+    })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'The email change was cancelled. If you didn\'t ask for it, change your password now.'
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Email change cancel error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { JWTService } from '@/lib/jwt'
+import { RbacService } from '@/lib/rbac'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { setAuthCookies } from '@/lib/auth-cookies'
+import { EmailChangeService } from '@/lib/email-change'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// Redeems the link sent to the new address; the /confirm-email-change page POSTs here
+export const POST = withRateLimit(async (request: NextRequest) => {
+  try {
+    const body = await request.json()
+    const token = typeof body?.token === 'string' ? body.token.trim() : ''
+
+    // Confirming from the browser that asked keeps that session; every other one ends
+    const currentUser = await getCurrentUser(request)
+    const result = token
+      ? await EmailChangeService.confirm(token, currentUser?.sessionId)
+      : { status: 'invalid' as const }
+
+    if (result.status === 'invalid') {
+      await logAuthEvent('suspicious_activity', request, {
+        success: false,
+        error: 'Invalid email change token used'
+      })
+
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid link',
+          message: 'This confirmation link is invalid or has already been used.'
+        },
+        { status: 400 }
+      ))
+    }
+
+    if (result.status === 'expired') {
+      await logAuthEvent('email_changed', request, {
+        success: false,
+        userId: result.userId,
+        error: 'Expired email change token used'
+      })
+
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Link expired',
+          message: 'This confirmation link has expired. Request the change again from your profile settings.'
+        },
+        { status: 400 }
+      ))
+    }
+
+    if (result.status === 'email_taken') {
+      await logAuthEvent('email_changed', request, {
+        success: false,
+        userId: result.userId,
+        error: 'New email address registered by another account'
+      })
+
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'That email address is already in use',
+          code: 'EMAIL_IN_USE',
+          message: 'Another account started using this address after you asked for the change. Your email was not changed.'
+        },
+        { status: 409 }
+      ))
+    }
+
+    const { user, revokedSessions } = result
+
+    await logAuthEvent('email_changed', request, {
+      success: true,
+      userId: user.id,
+      email: user.email,
+      metadata: { previousEmail: user.previousEmail, revokedSessions }
+    })
+
+    const response = authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: `Your email address is now ${user.email}. Use it the next time you sign in.`,
+        data: { email: user.email }
+      },
+      { status: 200 }
+    ))
+
+    // Tokens carry the email, so the surviving session needs a fresh pair
+    if (currentUser?.sessionId && currentUser.userId === user.id) {
+      const access = await RbacService.getUserAccess(user.id)
+      const tokens = await JWTService.createTokenPair({
+        userId: user.id,
+        email: user.email,
+        sessionId: currentUser.sessionId,
+        ...access
+      })
+      return setAuthCookies(response, tokens)
+    }
+
+    return response
+
+  } catch (error) {
+    console.error('Email change confirm error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
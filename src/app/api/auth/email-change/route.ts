@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server'
+import bcrypt from 'bcryptjs'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { validateEmailChangeData } from '@/lib/validation'
+import { EMAIL_CHANGE_TTL_HOURS, EmailChangeService } from '@/lib/email-change'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+function unauthorized() {
+  return authSecurityHeaders.applyHeaders(NextResponse.json(
+    {
+      success: false,
+      error: 'Unauthorized - No valid token provided'
+    },
+    { status: 401 }
+  ))
+}
+
+// Body: { newEmail, password }. Nothing changes until the new address confirms
+export const POST = withRateLimit(async (request: NextRequest) => {
+  try {
+    const currentUser = await getCurrentUser(request)
+
+    if (!currentUser) {
+      return unauthorized()
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = validateEmailChangeData(body)
+
+    if (!validation.isValid || !validation.data) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      ))
+    }
+
+    const { newEmail, password } = validation.data
+
+    const user = await prisma.user.findUnique({
+      where: { id: currentUser.userId },
+      select: { id: true, email: true, name: true, password: true }
+    })
+
+    if (!user) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'User not found'
+        },
+        { status: 404 }
+      ))
+    }
+
+    if (!(await bcrypt.compare(password, user.password))) {
+      await logAuthEvent('email_change_requested', request, {
+        success: false,
+        userId: user.id,
+        email: user.email,
+        sessionId: currentUser.sessionId,
+        error: 'Invalid password'
+      })
+
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Current password is incorrect'
+        },
+        { status: 400 }
+      ))
+    }
+
+    const result = await EmailChangeService.request(user, newEmail)
+
+    if (result.status === 'unchanged') {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'That is already your email address'
+        },
+        { status: 400 }
+      ))
+    }
+
+    if (result.status === 'email_taken') {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'That email address is already in use',
+          code: 'EMAIL_IN_USE'
+        },
+        { status: 409 }
+      ))
+    }
+
+    await logAuthEvent('email_change_requested', request, {
+      success: true,
+      userId: user.id,
+      email: user.email,
+      sessionId: currentUser.sessionId,
+      metadata: { pendingEmail: newEmail, confirmationSent: result.confirmationSent, noticeSent: result.noticeSent }
+    })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: `We sent a confirmation link to ${newEmail}. Your email changes once you open it (within ${EMAIL_CHANGE_TTL_HOURS} hours).`,
+        data: { pendingEmail: newEmail }
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Email change request error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
+
+// Withdraws the signed-in user's pending change
+export const DELETE = withRateLimit(async (request: NextRequest) => {
+  try {
+    const currentUser = await getCurrentUser(request)
+
+    if (!currentUser) {
+      return unauthorized()
+    }
+
+    const cancelled = await EmailChangeService.cancelForUser(currentUser.userId)
+
+    if (cancelled) {
+      await logAuthEvent('email_change_cancelled', request, {
+        success: true,
+        userId: currentUser.userId,
+        email: currentUser.email,
+        sessionId: currentUser.sessionId,
+        metadata: { method: 'settings' }
+      })
+    }
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: cancelled ? 'Email change cancelled' : 'No email change was pending'
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Email change cancel error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
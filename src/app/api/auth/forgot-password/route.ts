@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { validateEmail } from '@/lib/validation'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { emailService } from '@/lib/email-service'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { createExpiringToken } from '@/lib/secure-token'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+const RESET_TOKEN_TTL_MINUTES = 60
+
+const GENERIC_RESPONSE = {
+  success: true,
+  message: 'If an account with that email exists, a password reset link has been sent.'
+}
+
+export const POST = withRateLimit(async (request: NextRequest) => {
+  try {
+    const body = await request.json()
+    const email = typeof body?.email === 'string' ? body.email.toLowerCase().trim() : ''
+
+    if (!email || !validateEmail(email)) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: [email ? 'Invalid email format' : 'Email is required']
+        },
+        { status: 400 }
+      ))
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: {
+        id: true,
+        email: true,
+        name: true
+      }
+    })
+
+    if (!user) {
+      await logAuthEvent('password_reset_request', request, {
+        success: false,
+        email,
+        error: 'User not found'
+      })
+
+      // Don't reveal if email exists or not for security
+      return authSecurityHeaders.applyHeaders(NextResponse.json(GENERIC_RESPONSE, { status: 200 }))
+    }
+
+    const { token, tokenHash, expiresAt } = createExpiringToken(RESET_TOKEN_TTL_MINUTES * 60 * 1000)
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        passwordResetToken: tokenHash,
+        passwordResetExpiresAt: expiresAt,
+        updatedAt: new Date()
+      }
+    })
+
+    let emailSent = false
+    try {
+      emailSent = await emailService.sendPasswordResetEmail(
+        user.email,
+        user.name,
+        token,
+        RESET_TOKEN_TTL_MINUTES
+      )
+    } catch (emailError) {
+      console.error('Password reset email failed:', emailError)
+    }
+
+    await logAuthEvent('password_reset_request', request, {
+      success: true,
+      userId: user.id,
+      email: user.email,
+      metadata: { emailSent }
+    })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(GENERIC_RESPONSE, { status: 200 }))
+
+  } catch (error) {
+    console.error('Forgot password error:', error)
+
+    await logAuthEvent('password_reset_request', request, {
+      success: false,
+      error: 'Internal server error',
+      metadata: {
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      }
+    })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
@@ -3,36 +3,40 @@ import bcrypt from 'bcryptjs'
 import { prisma } from '@/lib/prisma'
 import { validateLoginData } from '@/lib/validation'
 import { JWTService } from '@/lib/jwt'
-import { authRateLimit } from '@/lib/rate-limit'
-import { authCors } from '@/lib/cors'
 import { authSecurityHeaders } from '@/lib/security-headers'
 import { authSanitizer } from '@/lib/sanitization'
-import { logLogin } from '@/lib/auth-logger'
+import { logLogin, logAuthEvent } from '@/lib/auth-logger'
+import { setAuthCookies } from '@/lib/auth-cookies'
+import { SessionService } from '@/lib/session'
+import { AccountLockoutService, lockoutSelect } from '@/lib/account-lockout'
+import {
+  accountJustLockedResponse,
+  accountLockedResponse,
+  loginThrottledResponse,
+  passwordResetRequiredResponse
+} from '@/lib/sign-in-responses'
+import { accountDisabledResponse } from '@/lib/admin-users'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+import { CredentialStuffingDefense } from '@/lib/credential-stuffing'
+import { ProofOfWorkChallenge } from '@/lib/proof-of-work'
 
-export async function POST(request: NextRequest) {
+// The login page solves the challenge and sends the form again with `proofOfWork`
+function proofOfWorkRequiredResponse(challenge: ProofOfWorkChallenge): NextResponse {
+  return authSecurityHeaders.applyHeaders(NextResponse.json(
+    {
+      success: false,
+      error: 'We need to verify your browser before checking this sign-in. Please try again.',
+      code: 'PROOF_OF_WORK_REQUIRED',
+      data: challenge
+    },
+    { status: 428 }
+  ))
+}
+
+export const POST = withRateLimit(async (request: NextRequest) => {
   const startTime = Date.now()
   
   try {
-    // Apply rate limiting
-    const rateLimitResult = await authRateLimit.middleware(request, async () => {
-      // Apply CORS and security headers
-      const corsHandler = authCors.middleware(async (req) => {
-        const securityHandler = authSecurityHeaders.middleware(async (secReq) => {
-          return NextResponse.json({ success: true })
-        })
-        return await securityHandler(req)
-      })
-      return await corsHandler(request)
-    })
-
-    if (rateLimitResult.status === 429) {
-      await logLogin(request, false, { 
-        error: 'Rate limit exceeded',
-        duration: Date.now() - startTime 
-      })
-      return rateLimitResult
-    }
-
     const body = await request.json()
     const sanitizedBody = authSanitizer.sanitizeObject(body)
     
@@ -54,6 +58,19 @@ export async function POST(request: NextRequest) {
     }
     
     const { email, password } = validation.data!
+
+    // Before anything touches the account, so a bot can't learn which emails exist without paying for each guess.
+    // The solution is read unsanitized: it's checked byte for byte against the signed challenge
+    const risk = await CredentialStuffingDefense.assess(request, email)
+    if (risk.challengeRequired && !(await CredentialStuffingDefense.verifySolution(body.proofOfWork, email, risk.difficulty))) {
+      await logLogin(request, false, {
+        email,
+        error: 'Proof of work required',
+        metadata: { reasons: risk.reasons, solutionProvided: Boolean(body.proofOfWork) },
+        duration: Date.now() - startTime
+      })
+      return proofOfWorkRequiredResponse(CredentialStuffingDefense.issueChallenge(email, risk.difficulty))
+    }
     
     const user = await prisma.user.findUnique({
       where: { email },
@@ -63,11 +80,17 @@ export async function POST(request: NextRequest) {
         password: true,
         name: true,
         emailVerified: true,
-        createdAt: true
+        mfaEnabled: true,
+        createdAt: true,
+        disabledAt: true,
+        passwordResetRequired: true,
+        ...lockoutSelect,
+        _count: { select: { credentials: true } }
       }
     })
     
     if (!user) {
+      await CredentialStuffingDefense.recordFailure(request, email)
       await logLogin(request, false, { 
         email,
         error: 'User not found',
@@ -82,15 +105,54 @@ export async function POST(request: NextRequest) {
       ))
     }
     
+    // Claimed before the password is checked, so a locked or cooling-down account can't be used as a guessing
+    // oracle, and concurrent attempts can't all slip through on the same look at the row
+    const claim = await AccountLockoutService.claimAttempt(user)
+
+    if (claim.state === 'locked') {
+      await logLogin(request, false, {
+        userId: user.id,
+        email: user.email,
+        error: 'Account locked',
+        duration: Date.now() - startTime
+      })
+      return accountLockedResponse(claim.lockedUntil, claim.retryAfter)
+    }
+
+    if (claim.state === 'throttled') {
+      await logLogin(request, false, {
+        userId: user.id,
+        email: user.email,
+        error: 'Login throttled',
+        metadata: { retryAfter: claim.retryAfter },
+        duration: Date.now() - startTime
+      })
+      return loginThrottledResponse(claim.retryAfter)
+    }
+
     const isPasswordValid = await bcrypt.compare(password, user.password)
     
     if (!isPasswordValid) {
+      const failure = await AccountLockoutService.recordFailure(user, claim)
+      await CredentialStuffingDefense.recordFailure(request, email)
+
       await logLogin(request, false, { 
         userId: user.id,
         email: user.email,
         error: 'Invalid password',
+        metadata: { failedAttempts: failure.failedAttempts },
         duration: Date.now() - startTime 
       })
+
+      // This failure crossed the threshold: lock, and email the owner a way back in
+      if (failure.lockedUntil && failure.unlockToken) {
+        return accountJustLockedResponse(request, user, {
+          failedAttempts: failure.failedAttempts,
+          lockedUntil: failure.lockedUntil,
+          unlockToken: failure.unlockToken
+        })
+      }
+
       return authSecurityHeaders.applyHeaders(NextResponse.json(
         { 
           success: false, 
@@ -100,6 +162,35 @@ export async function POST(request: NextRequest) {
       ))
     }
 
+    // The password was right, so earlier failures no longer count toward a lockout. With MFA on the sign-in
+    // isn't over: only this attempt is taken back, and the challenge clears the rest once the second factor checks out
+    if (user.mfaEnabled) {
+      await AccountLockoutService.releaseAttempt(user, claim)
+    } else {
+      await AccountLockoutService.recordSuccess(user)
+    }
+
+    if (user.disabledAt) {
+      await logLogin(request, false, {
+        userId: user.id,
+        email: user.email,
+        error: 'Account disabled',
+        duration: Date.now() - startTime
+      })
+      return accountDisabledResponse()
+    }
+
+    // An administrator invalidated this password; only a reset link gets the user back in
+    if (user.passwordResetRequired) {
+      await logLogin(request, false, {
+        userId: user.id,
+        email: user.email,
+        error: 'Password reset required',
+        duration: Date.now() - startTime
+      })
+      return passwordResetRequiredResponse()
+    }
+
     // Check if email is verified
     if (!user.emailVerified) {
       await logLogin(request, false, { 
@@ -122,24 +213,54 @@ export async function POST(request: NextRequest) {
       ))
     }
     
-    // Create token pair with new JWT service
-    const { accessToken, refreshToken } = await JWTService.createTokenPair({ 
-      userId: user.id, 
-      email: user.email 
-    })
+    // Password is right but a second factor is required: hand back a short-lived challenge instead of a session
+    if (user.mfaEnabled) {
+      const mfaToken = await JWTService.signMfaChallengeToken({
+        userId: user.id,
+        email: user.email
+      })
+
+      await logAuthEvent('mfa_required', request, {
+        success: true,
+        userId: user.id,
+        email: user.email,
+        duration: Date.now() - startTime
+      })
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Enter the code from your authenticator app to finish signing in',
+          code: 'MFA_REQUIRED',
+          data: {
+            mfaToken,
+            expiresIn: JWTService.MFA_CHALLENGE_MAX_AGE,
+            methods: user._count.credentials > 0
+              ? ['totp', 'recovery_code', 'passkey']
+              : ['totp', 'recovery_code']
+          }
+        },
+        { status: 401 }
+      ))
+    }
+
+    // Persist the session so it can be listed and revoked later
+    const { sessionId, tokens, access } = await SessionService.startSession(user, request)
+    const { accessToken, refreshToken } = tokens
     
     const userResponse = {
       id: user.id,
       email: user.email,
       name: user.name,
       emailVerified: user.emailVerified,
-      createdAt: user.createdAt
+      createdAt: user.createdAt,
+      ...access
     }
     
     // Log successful login
     await logLogin(request, true, { 
       userId: user.id,
       email: user.email,
+      sessionId,
       duration: Date.now() - startTime 
     })
     
@@ -148,33 +269,14 @@ export async function POST(request: NextRequest) {
         success: true,
         message: 'Login successful',
         user: userResponse,
-        token: accessToken // Keep backward compatibility
+        token: accessToken, // Keep backward compatibility
+        accessTokenExpiresAt: JWTService.getAccessTokenExpiresAt()
       },
       { status: 200 }
     ))
     
-    // Set both access and refresh tokens
-    response.cookies.set('access-token', accessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 15 * 60 // 15 minutes
-    })
-    
-    response.cookies.set('refresh-token', refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 7 // 7 days
-    })
-    
-    // Keep legacy cookie for backward compatibility
-    response.cookies.set('auth-token', accessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 15 * 60 // 15 minutes
-    })
+    // Set the access and refresh token cookies
+    setAuthCookies(response, { accessToken, refreshToken })
     
     return response
     
@@ -193,4 +295,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     ))
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,7 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { JWTService } from '@/lib/jwt'
+import { logLogout } from '@/lib/auth-logger'
+import { clearAuthCookies } from '@/lib/auth-cookies'
+import { SessionService } from '@/lib/session'
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE } from '@/lib/auth-tokens'
+import { withRateLimit } from '@/lib/rate-limit-policies'
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit(async (request: NextRequest) => {
   try {
+    const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value
+    const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value
+
+    // The refresh token outlives the access token, so prefer it to find the session
+    let payload = refreshToken ? await JWTService.verifyRefreshToken(refreshToken) : null
+    if (!payload && accessToken) {
+      payload = await JWTService.verifyAccessToken(accessToken)
+    }
+
+    if (payload?.sessionId) {
+      await SessionService.revokeSession(payload.sessionId)
+    }
+
+    await logLogout(request, {
+      success: true,
+      userId: payload?.userId,
+      email: payload?.email,
+      sessionId: payload?.sessionId
+    })
+
     const response = NextResponse.json(
       {
         success: true,
@@ -10,14 +36,7 @@ export async function POST(request: NextRequest) {
       { status: 200 }
     )
     
-    response.cookies.set('auth-token', '', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 0 // Expire immediately
-    })
-    
-    return response
+    return clearAuthCookies(response)
     
   } catch (error) {
     console.error('Logout error:', error)
@@ -29,4 +48,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
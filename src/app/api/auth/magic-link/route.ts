@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { sanitizeRedirectPath, validateEmail } from '@/lib/validation'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { emailService } from '@/lib/email-service'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { createExpiringToken } from '@/lib/secure-token'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+const MAGIC_LINK_TTL_MINUTES = 15
+
+const GENERIC_RESPONSE = {
+  success: true,
+  message: 'If an account with that email exists, a sign-in link has been sent.'
+}
+
+export const POST = withRateLimit(async (request: NextRequest) => {
+  try {
+    const body = await request.json()
+    const email = typeof body?.email === 'string' ? body.email.toLowerCase().trim() : ''
+
+    if (!email || !validateEmail(email)) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: [email ? 'Invalid email format' : 'Email is required']
+        },
+        { status: 400 }
+      ))
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: {
+        id: true,
+        email: true,
+        name: true
+      }
+    })
+
+    if (!user) {
+      await logAuthEvent('magic_link_request', request, {
+        success: false,
+        email,
+        error: 'User not found'
+      })
+
+      // Don't reveal if email exists or not for security
+      return authSecurityHeaders.applyHeaders(NextResponse.json(GENERIC_RESPONSE, { status: 200 }))
+    }
+
+    // Issuing a new link replaces any earlier one, so only the latest email works
+    const { token, tokenHash, expiresAt } = createExpiringToken(MAGIC_LINK_TTL_MINUTES * 60 * 1000)
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        magicLinkToken: tokenHash,
+        magicLinkExpiresAt: expiresAt
+      }
+    })
+
+    const redirectTo = body?.redirect ? sanitizeRedirectPath(body.redirect) : undefined
+
+    let emailSent = false
+    try {
+      emailSent = await emailService.sendMagicLinkEmail(
+        user.email,
+        user.name,
+        token,
+        MAGIC_LINK_TTL_MINUTES,
+        redirectTo
+      )
+    } catch (emailError) {
+      console.error('Magic link email failed:', emailError)
+    }
+
+    await logAuthEvent('magic_link_request', request, {
+      success: true,
+      userId: user.id,
+      email: user.email,
+      metadata: { emailSent }
+    })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(GENERIC_RESPONSE, { status: 200 }))
+
+  } catch (error) {
+    console.error('Magic link request error:', error)
+
+    await logAuthEvent('magic_link_request', request, {
+      success: false,
+      error: 'Internal server error',
+      metadata: {
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      }
+    })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
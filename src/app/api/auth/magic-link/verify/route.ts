@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { JWTService } from '@/lib/jwt'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logLogin, logAuthEvent } from '@/lib/auth-logger'
+import { setAuthCookies } from '@/lib/auth-cookies'
+import { SessionService } from '@/lib/session'
+import { hashToken } from '@/lib/secure-token'
+import { sanitizeRedirectPath } from '@/lib/validation'
+import { accountDisabledResponse } from '@/lib/admin-users'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+const INVALID_LINK_RESPONSE = {
+  success: false,
+  error: 'Invalid sign-in link',
+  code: 'MAGIC_LINK_INVALID',
+  message: 'This sign-in link is invalid, expired or has already been used. Please request a new one.'
+}
+
+/**
+ * Redeems a sign-in link. The email points at the /magic-link page, which
+ * POSTs here, so link scanners that prefetch URLs can't burn the token.
+ */
+export const POST = withRateLimit(async (request: NextRequest) => {
+  const startTime = Date.now()
+
+  try {
+    const body = await request.json()
+    const token = typeof body?.token === 'string' ? body.token.trim() : ''
+    const redirectTo = sanitizeRedirectPath(body?.redirect)
+
+    const user = token
+      ? await prisma.user.findUnique({
+          where: { magicLinkToken: hashToken(token) },
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            emailVerified: true,
+            mfaEnabled: true,
+            createdAt: true,
+            disabledAt: true,
+            _count: { select: { credentials: true } }
+          }
+        })
+      : null
+
+    if (!user) {
+      await logAuthEvent('suspicious_activity', request, {
+        success: false,
+        error: 'Invalid magic link token used'
+      })
+      return authSecurityHeaders.applyHeaders(NextResponse.json(INVALID_LINK_RESPONSE, { status: 400 }))
+    }
+
+    // Clearing the token only if it is still stored and unexpired makes redemption single-use even under a race
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        magicLinkToken: hashToken(token),
+        magicLinkExpiresAt: { gt: new Date() }
+      },
+      data: {
+        magicLinkToken: null,
+        magicLinkExpiresAt: null,
+        // Following the link proves the user controls the mailbox
+        emailVerified: true,
+        verificationToken: null,
+        tokenExpiresAt: null
+      }
+    })
+
+    if (count !== 1) {
+      await logLogin(request, false, {
+        userId: user.id,
+        email: user.email,
+        error: 'Magic link expired or already used',
+        metadata: { method: 'magic_link' },
+        duration: Date.now() - startTime
+      })
+      return authSecurityHeaders.applyHeaders(NextResponse.json(INVALID_LINK_RESPONSE, { status: 400 }))
+    }
+
+    if (user.disabledAt) {
+      await logLogin(request, false, {
+        userId: user.id,
+        email: user.email,
+        error: 'Account disabled',
+        metadata: { method: 'magic_link' },
+        duration: Date.now() - startTime
+      })
+      return accountDisabledResponse()
+    }
+
+    // The link stands in for the password only; a second factor is still required
+    if (user.mfaEnabled) {
+      const mfaToken = await JWTService.signMfaChallengeToken({
+        userId: user.id,
+        email: user.email
+      })
+
+      await logAuthEvent('mfa_required', request, {
+        success: true,
+        userId: user.id,
+        email: user.email,
+        metadata: { method: 'magic_link' },
+        duration: Date.now() - startTime
+      })
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Enter the code from your authenticator app to finish signing in',
+          code: 'MFA_REQUIRED',
+          data: {
+            mfaToken,
+            expiresIn: JWTService.MFA_CHALLENGE_MAX_AGE,
+            methods: user._count.credentials > 0
+              ? ['totp', 'recovery_code', 'passkey']
+              : ['totp', 'recovery_code'],
+            redirectTo
+          }
+        },
+        { status: 401 }
+      ))
+    }
+
+    const { sessionId, tokens, access } = await SessionService.startSession(user, request)
+    const { accessToken, refreshToken } = tokens
+
+    await logLogin(request, true, {
+      userId: user.id,
+      email: user.email,
+      sessionId,
+      metadata: { method: 'magic_link' },
+      duration: Date.now() - startTime
+    })
+
+    const response = authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'Login successful',
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          emailVerified: true,
+          createdAt: user.createdAt,
+          ...access
+        },
+        accessTokenExpiresAt: JWTService.getAccessTokenExpiresAt(),
+        redirectTo
+      },
+      { status: 200 }
+    ))
+
+    setAuthCookies(response, { accessToken, refreshToken })
+
+    return response
+
+  } catch (error) {
+    console.error('Magic link verification error:', error)
+    await logLogin(request, false, {
+      error: 'Internal server error',
+      metadata: {
+        method: 'magic_link',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      },
+      duration: Date.now() - startTime
+    })
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
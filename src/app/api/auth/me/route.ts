@@ -1,8 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getCurrentUser } from '@/lib/auth'
+import { JWTService } from '@/lib/jwt'
+import { RbacService } from '@/lib/rbac'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { authSanitizer } from '@/lib/sanitization'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { validateProfileUpdate } from '@/lib/validation'
+import { resolvePreferences } from '@/lib/user-preferences'
+import { withRateLimit } from '@/lib/rate-limit-policies'
 
-export async function GET(request: NextRequest) {
+export const GET = withRateLimit(async (request: NextRequest) => {
   try {
     const currentUser = await getCurrentUser(request)
     
@@ -23,7 +31,11 @@ export async function GET(request: NextRequest) {
         email: true,
         name: true,
         createdAt: true,
-        updatedAt: true
+        updatedAt: true,
+        preferences: true,
+        pendingEmail: true,
+        deletionScheduledFor: true,
+        passwordChangedAt: true
       }
     })
     
@@ -37,10 +49,25 @@ export async function GET(request: NextRequest) {
       )
     }
     
+    // Tokens issued before the last password change belong to revoked sessions
+    const { passwordChangedAt, preferences, ...userData } = user
+    if (JWTService.isTokenIssuedBefore(currentUser, passwordChangedAt)) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Unauthorized - Session has been revoked' 
+        },
+        { status: 401 }
+      )
+    }
+    
+    const access = await RbacService.getUserAccess(user.id)
+
     return NextResponse.json(
       {
         success: true,
-        user
+        user: { ...userData, preferences: resolvePreferences(preferences), ...access },
+        accessTokenExpiresAt: currentUser.exp ? currentUser.exp * 1000 : undefined
       },
       { status: 200 }
     )
@@ -55,4 +82,98 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
+
+// Body: { name?, preferences? }; preferences are merged into what is stored
+export const PATCH = withRateLimit(async (request: NextRequest) => {
+  try {
+    const currentUser = await getCurrentUser(request)
+
+    if (!currentUser) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Unauthorized - No valid token provided'
+        },
+        { status: 401 }
+      ))
+    }
+
+    const body = await request.json().catch(() => null)
+    const validation = validateProfileUpdate(body)
+
+    if (!validation.isValid || !validation.data) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      ))
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: currentUser.userId },
+      select: { id: true, email: true, preferences: true }
+    })
+
+    if (!user) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'User not found'
+        },
+        { status: 404 }
+      ))
+    }
+
+    const { name, preferences } = validation.data
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        ...(name !== undefined ? { name: name && authSanitizer.sanitizeString(name) } : {}),
+        ...(preferences ? { preferences: { ...resolvePreferences(user.preferences), ...preferences } } : {})
+      },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        preferences: true,
+        updatedAt: true
+      }
+    })
+
+    await logAuthEvent('profile_updated', request, {
+      success: true,
+      userId: user.id,
+      email: user.email,
+      sessionId: currentUser.sessionId,
+      metadata: {
+        fields: [
+          ...(name !== undefined ? ['name'] : []),
+          ...Object.keys(preferences || {}).map(key => `preferences.${key}`)
+        ]
+      }
+    })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'Profile updated',
+        user: { ...updated, preferences: resolvePreferences(updated.preferences) }
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Update profile error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { JWTService } from '@/lib/jwt'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logLogin, logMfa } from '@/lib/auth-logger'
+import { setAuthCookies } from '@/lib/auth-cookies'
+import { SessionService } from '@/lib/session'
+import { MfaService } from '@/lib/mfa'
+import { WebAuthnService } from '@/lib/webauthn'
+import { accountDisabledResponse } from '@/lib/admin-users'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+import { getRateLimitStore } from '@/lib/rate-limit-store'
+import { AccountLockoutService, lockoutSelect } from '@/lib/account-lockout'
+import {
+  accountJustLockedResponse,
+  accountLockedResponse,
+  loginThrottledResponse,
+  passwordResetRequiredResponse
+} from '@/lib/sign-in-responses'
+
+// Wrong codes one challenge token survives; after that it's spent and the password has to be entered again
+const MFA_CHALLENGE_MAX_FAILURES = 5
+
+const challengeFailuresKey = (jti: string) => `mfa_challenge:failures:${jti}`
+
+function challengeExpiredResponse(error = 'Your sign-in attempt expired. Please sign in again.'): NextResponse {
+  return authSecurityHeaders.applyHeaders(NextResponse.json(
+    {
+      success: false,
+      error,
+      code: 'MFA_CHALLENGE_EXPIRED'
+    },
+    { status: 401 }
+  ))
+}
+
+// Second step of a login that returned MFA_REQUIRED: trade the challenge token plus a code or passkey for a session
+export const POST = withRateLimit(async (request: NextRequest) => {
+  const startTime = Date.now()
+
+  try {
+    const body = await request.json()
+    const mfaToken = typeof body?.mfaToken === 'string' ? body.mfaToken : ''
+    const code = typeof body?.code === 'string' ? body.code.trim() : ''
+    const recoveryCode = typeof body?.recoveryCode === 'string' ? body.recoveryCode.trim() : ''
+    const passkey = body?.passkey && typeof body.passkey === 'object' ? body.passkey : null
+
+    const challenge = mfaToken ? await JWTService.verifyMfaChallengeToken(mfaToken) : null
+
+    if (!challenge?.jti) {
+      await logMfa(request, false, {
+        error: 'Invalid or expired MFA challenge',
+        duration: Date.now() - startTime
+      })
+      return challengeExpiredResponse()
+    }
+
+    if (!code && !recoveryCode && !passkey) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: ['Authentication code is required']
+        },
+        { status: 400 }
+      ))
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: challenge.userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        emailVerified: true,
+        createdAt: true,
+        mfaEnabled: true,
+        mfaSecret: true,
+        mfaLastUsedStep: true,
+        disabledAt: true,
+        passwordResetRequired: true,
+        ...lockoutSelect
+      }
+    })
+
+    if (!user || !user.mfaEnabled) {
+      return challengeExpiredResponse()
+    }
+
+    const store = getRateLimitStore()
+    if (await store.get(challengeFailuresKey(challenge.jti)) >= MFA_CHALLENGE_MAX_FAILURES) {
+      return challengeExpiredResponse()
+    }
+
+    // The account may have changed since the password step: disabled, locked by other failures, or flagged for a reset
+    if (user.disabledAt) {
+      return accountDisabledResponse()
+    }
+
+    if (user.passwordResetRequired) {
+      return passwordResetRequiredResponse()
+    }
+
+    // Counted before the code is checked, like a password, so parallel guesses each take a turn
+    const claim = await AccountLockoutService.claimAttempt(user)
+    if (claim.state === 'locked') {
+      return accountLockedResponse(claim.lockedUntil, claim.retryAfter)
+    }
+    if (claim.state === 'throttled') {
+      return loginThrottledResponse(claim.retryAfter)
+    }
+
+    const method = passkey ? 'passkey' : recoveryCode ? 'recovery_code' : 'totp'
+    const isValid = passkey
+      ? !!(await WebAuthnService.verifyAuthentication(passkey, user.id))
+      : recoveryCode
+        ? await MfaService.consumeRecoveryCode(user.id, recoveryCode)
+        : await MfaService.verifyCode(user, code)
+
+    if (!isValid) {
+      // Wrong codes count toward the account lockout like wrong passwords, and wear out this challenge
+      const failure = await AccountLockoutService.recordFailure(user, claim)
+      const { count: challengeFailures } = await store.increment(
+        challengeFailuresKey(challenge.jti),
+        JWTService.MFA_CHALLENGE_MAX_AGE * 1000
+      )
+
+      await logMfa(request, false, {
+        userId: user.id,
+        email: user.email,
+        error: 'Invalid authentication code',
+        metadata: { method, failedAttempts: failure.failedAttempts },
+        duration: Date.now() - startTime
+      })
+
+      if (failure.lockedUntil && failure.unlockToken) {
+        return accountJustLockedResponse(request, user, {
+          failedAttempts: failure.failedAttempts,
+          lockedUntil: failure.lockedUntil,
+          unlockToken: failure.unlockToken
+        })
+      }
+
+      if (challengeFailures >= MFA_CHALLENGE_MAX_FAILURES) {
+        return challengeExpiredResponse('Too many incorrect codes. Please sign in again.')
+      }
+
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: passkey
+            ? 'That passkey could not be verified'
+            : recoveryCode ? 'Invalid or already used recovery code' : 'Invalid authentication code'
+        },
+        { status: 401 }
+      ))
+    }
+
+    await AccountLockoutService.recordSuccess(user)
+
+    const { sessionId, tokens, access } = await SessionService.startSession(user, request)
+
+    await logMfa(request, true, {
+      userId: user.id,
+      email: user.email,
+      sessionId,
+      metadata: { method }
+    })
+    await logLogin(request, true, {
+      userId: user.id,
+      email: user.email,
+      sessionId,
+      metadata: { mfa: method },
+      duration: Date.now() - startTime
+    })
+
+    const userResponse = {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      emailVerified: user.emailVerified,
+      createdAt: user.createdAt,
+      ...access
+    }
+
+    const response = authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'Login successful',
+        user: userResponse,
+        accessTokenExpiresAt: JWTService.getAccessTokenExpiresAt()
+      },
+      { status: 200 }
+    ))
+
+    return setAuthCookies(response, tokens)
+
+  } catch (error) {
+    console.error('MFA challenge error:', error)
+    await logMfa(request, false, {
+      error: 'Internal server error',
+      metadata: { errorMessage: error instanceof Error ? error.message : 'Unknown error' },
+      duration: Date.now() - startTime
+    })
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAuthEvent, logMfa } from '@/lib/auth-logger'
+import { MfaService } from '@/lib/mfa'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// Step two of enrollment: the first code proves the authenticator app holds the secret
+export const POST = withRateLimit(async (request: NextRequest) => {
+  try {
+    const currentUser = await getCurrentUser(request)
+
+    if (!currentUser) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Unauthorized - No valid token provided'
+        },
+        { status: 401 }
+      ))
+    }
+
+    const body = await request.json()
+    const code = typeof body?.code === 'string' ? body.code : ''
+
+    const user = await prisma.user.findUnique({
+      where: { id: currentUser.userId },
+      select: {
+        id: true,
+        email: true,
+        mfaEnabled: true,
+        mfaSecret: true,
+        mfaLastUsedStep: true
+      }
+    })
+
+    if (!user || !user.mfaSecret) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Start two-factor setup before verifying a code'
+        },
+        { status: 400 }
+      ))
+    }
+
+    if (user.mfaEnabled) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Two-factor authentication is already enabled'
+        },
+        { status: 409 }
+      ))
+    }
+
+    if (!(await MfaService.verifyCode(user, code))) {
+      await logMfa(request, false, {
+        userId: user.id,
+        email: user.email,
+        error: 'Invalid code during enrollment'
+      })
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid authentication code'
+        },
+        { status: 400 }
+      ))
+    }
+
+    const recoveryCodes = await MfaService.enable(user.id)
+
+    await logAuthEvent('mfa_enabled', request, {
+      success: true,
+      userId: user.id,
+      email: user.email,
+      sessionId: currentUser.sessionId
+    })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'Two-factor authentication enabled',
+        data: { recoveryCodes }
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('MFA enable error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
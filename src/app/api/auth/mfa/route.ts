@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server'
+import bcrypt from 'bcryptjs'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAuthEvent, logMfa } from '@/lib/auth-logger'
+import { MfaService } from '@/lib/mfa'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+function unauthorized() {
+  return authSecurityHeaders.applyHeaders(NextResponse.json(
+    {
+      success: false,
+      error: 'Unauthorized - No valid token provided'
+    },
+    { status: 401 }
+  ))
+}
+
+export const GET = withRateLimit(async (request: NextRequest) => {
+  try {
+    const currentUser = await getCurrentUser(request)
+
+    if (!currentUser) {
+      return unauthorized()
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: currentUser.userId },
+      select: { mfaEnabled: true }
+    })
+
+    const recoveryCodesRemaining = user?.mfaEnabled
+      ? await MfaService.countRemainingRecoveryCodes(currentUser.userId)
+      : 0
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        data: {
+          enabled: !!user?.mfaEnabled,
+          recoveryCodesRemaining
+        }
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('MFA status error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
+
+// Turning MFA off needs both factors, so a hijacked session alone can't downgrade the account
+export const DELETE = withRateLimit(async (request: NextRequest) => {
+  try {
+    const currentUser = await getCurrentUser(request)
+
+    if (!currentUser) {
+      return unauthorized()
+    }
+
+    const body = await request.json()
+    const password = typeof body?.password === 'string' ? body.password : ''
+    const code = typeof body?.code === 'string' ? body.code : ''
+
+    const user = await prisma.user.findUnique({
+      where: { id: currentUser.userId },
+      select: {
+        id: true,
+        email: true,
+        password: true,
+        mfaEnabled: true,
+        mfaSecret: true,
+        mfaLastUsedStep: true
+      }
+    })
+
+    if (!user || !user.mfaEnabled) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Two-factor authentication is not enabled'
+        },
+        { status: 400 }
+      ))
+    }
+
+    const isPasswordValid = !!password && await bcrypt.compare(password, user.password)
+    const isCodeValid = isPasswordValid && (
+      await MfaService.verifyCode(user, code) ||
+      await MfaService.consumeRecoveryCode(user.id, code)
+    )
+
+    if (!isCodeValid) {
+      await logMfa(request, false, {
+        userId: user.id,
+        email: user.email,
+        error: isPasswordValid ? 'Invalid code while disabling MFA' : 'Invalid password while disabling MFA'
+      })
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: isPasswordValid ? 'Invalid authentication code' : 'Current password is incorrect'
+        },
+        { status: 400 }
+      ))
+    }
+
+    await MfaService.disable(user.id)
+
+    await logAuthEvent('mfa_disabled', request, {
+      success: true,
+      userId: user.id,
+      email: user.email,
+      sessionId: currentUser.sessionId
+    })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'Two-factor authentication disabled'
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('MFA disable error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { JWTService } from '@/lib/jwt'
+import { logLogin, logAuthEvent, logSignup } from '@/lib/auth-logger'
+import { setAuthCookies } from '@/lib/auth-cookies'
+import { SessionService } from '@/lib/session'
+import { OidcError, OidcService, OIDC_STATE_COOKIE } from '@/lib/oidc'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+import { sanitizeRedirectPath } from '@/lib/validation'
+
+// The browser arrives here by redirect, so every outcome is a redirect too; errors land on the login page
+function redirectToLogin(request: NextRequest, error: string): NextResponse {
+  const response = NextResponse.redirect(new URL(`/login?error=${error}`, request.url))
+  response.cookies.delete({ name: OIDC_STATE_COOKIE, path: '/api/auth/oidc' })
+  return response
+}
+
+export const GET = withRateLimit(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) => {
+  const startTime = Date.now()
+  const { provider: providerId } = await params
+
+  try {
+    const provider = OidcService.getProvider(providerId)
+    if (!provider) {
+      return redirectToLogin(request, 'oidc_unavailable')
+    }
+
+    const searchParams = request.nextUrl.searchParams
+
+    // The user cancelled or the provider refused; there is no code to exchange
+    if (searchParams.get('error')) {
+      await logLogin(request, false, {
+        error: `Provider returned ${searchParams.get('error')}`,
+        metadata: { method: 'oidc', provider: provider.id },
+        duration: Date.now() - startTime
+      })
+      return redirectToLogin(request, 'oidc_cancelled')
+    }
+
+    const state = await OidcService.openState(
+      request.cookies.get(OIDC_STATE_COOKIE)?.value,
+      provider.id,
+      searchParams.get('state')
+    )
+
+    const identity = await OidcService.exchangeCode(
+      provider,
+      searchParams.get('code') || '',
+      OidcService.getRedirectUri(provider.id, request.nextUrl.origin),
+      state
+    )
+
+    const { user, linked, created } = await OidcService.findOrLinkUser(provider.id, identity)
+
+    if (created) {
+      await logSignup(request, true, {
+        userId: user.id,
+        email: user.email,
+        metadata: { method: 'oidc', provider: provider.id }
+      })
+    } else if (linked) {
+      await logAuthEvent('oidc_account_linked', request, {
+        success: true,
+        userId: user.id,
+        email: user.email,
+        metadata: { provider: provider.id }
+      })
+    }
+
+    if (user.disabledAt) {
+      await logLogin(request, false, {
+        userId: user.id,
+        email: user.email,
+        error: 'Account disabled',
+        metadata: { method: 'oidc', provider: provider.id },
+        duration: Date.now() - startTime
+      })
+      return redirectToLogin(request, 'account_disabled')
+    }
+
+    // The provider stands in for the password only; accounts with MFA still owe a second factor
+    if (user.mfaEnabled) {
+      const mfaToken = await JWTService.signMfaChallengeToken({
+        userId: user.id,
+        email: user.email
+      })
+      const methods = user._count.credentials > 0
+        ? ['totp', 'recovery_code', 'passkey']
+        : ['totp', 'recovery_code']
+
+      await logAuthEvent('mfa_required', request, {
+        success: true,
+        userId: user.id,
+        email: user.email,
+        metadata: { method: 'oidc', provider: provider.id },
+        duration: Date.now() - startTime
+      })
+
+      // The challenge rides in the fragment so it never reaches server logs or Referer headers
+      const loginUrl = new URL('/login', request.url)
+      loginUrl.searchParams.set('redirect', state.redirectTo)
+      loginUrl.hash = new URLSearchParams({ mfa: mfaToken, methods: methods.join(',') }).toString()
+
+      const response = NextResponse.redirect(loginUrl)
+      response.cookies.delete({ name: OIDC_STATE_COOKIE, path: '/api/auth/oidc' })
+      return response
+    }
+
+    const { sessionId, tokens } = await SessionService.startSession(user, request)
+
+    await logLogin(request, true, {
+      userId: user.id,
+      email: user.email,
+      sessionId,
+      metadata: { method: 'oidc', provider: provider.id },
+      duration: Date.now() - startTime
+    })
+
+    // Already checked when the state was sealed; checked again since this is where the browser is sent
+    const response = NextResponse.redirect(new URL(sanitizeRedirectPath(state.redirectTo), request.url))
+    response.cookies.delete({ name: OIDC_STATE_COOKIE, path: '/api/auth/oidc' })
+    return setAuthCookies(response, tokens)
+
+  } catch (error) {
+    const code = error instanceof OidcError ? error.code : 'oidc_failed'
+    if (!(error instanceof OidcError)) {
+      console.error('OIDC callback error:', error)
+    }
+
+    await logLogin(request, false, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      metadata: { method: 'oidc', provider: providerId, code },
+      duration: Date.now() - startTime
+    })
+    return redirectToLogin(request, code)
+  }
+})
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { OidcService, OIDC_STATE_COOKIE, OIDC_STATE_MAX_AGE } from '@/lib/oidc'
+import { sanitizeRedirectPath } from '@/lib/validation'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+/**
+ * Starts an OpenID Connect sign-in: remembers state, nonce and the PKCE
+ * verifier in an encrypted cookie, then sends the browser to the provider.
+ */
+export const GET = withRateLimit(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) => {
+  try {
+    const { provider: providerId } = await params
+    const provider = OidcService.getProvider(providerId)
+
+    if (!provider) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Unknown sign-in provider'
+        },
+        { status: 404 }
+      ))
+    }
+
+    const { url, state } = await OidcService.createAuthorizationRequest(
+      provider,
+      OidcService.getRedirectUri(provider.id, request.nextUrl.origin),
+      sanitizeRedirectPath(request.nextUrl.searchParams.get('redirect'))
+    )
+
+    const response = NextResponse.redirect(url)
+    response.cookies.set(OIDC_STATE_COOKIE, await OidcService.sealState(state), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      // lax so the cookie survives the top-level redirect back from the provider
+      sameSite: 'lax',
+      path: '/api/auth/oidc',
+      maxAge: OIDC_STATE_MAX_AGE
+    })
+
+    return response
+
+  } catch (error) {
+    console.error('OIDC authorization error:', error)
+    return NextResponse.redirect(new URL('/login?error=oidc_unavailable', request.url))
+  }
+})
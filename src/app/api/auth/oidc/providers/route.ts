@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { OidcService } from '@/lib/oidc'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// Public list of configured sign-in providers for the login page; never exposes client credentials
+export const GET = withRateLimit(async () => {
+  try {
+    const providers = OidcService.getProviders().map(({ id, name }) => ({ id, name }))
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        providers
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('List OIDC providers error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { WebAuthnService } from '@/lib/webauthn'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+export const DELETE = withRateLimit(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const currentUser = await getCurrentUser(request)
+
+    if (!currentUser) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Unauthorized - No valid token provided'
+        },
+        { status: 401 }
+      ))
+    }
+
+    const { id } = await params
+    const deleted = await WebAuthnService.deletePasskey(currentUser.userId, id)
+
+    if (!deleted) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Passkey not found'
+        },
+        { status: 404 }
+      ))
+    }
+
+    await logAuthEvent('passkey_removed', request, {
+      success: true,
+      userId: currentUser.userId,
+      email: currentUser.email,
+      sessionId: currentUser.sessionId,
+      metadata: { credentialId: id }
+    })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'Passkey removed'
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Remove passkey error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { JWTService } from '@/lib/jwt'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { WebAuthnService } from '@/lib/webauthn'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+/**
+ * Request options for navigator.credentials.get(). With no body this starts a
+ * passwordless sign-in; with the `mfaToken` from a login that returned
+ * MFA_REQUIRED it asks for one of that user's passkeys as the second factor.
+ */
+export const POST = withRateLimit(async (request: NextRequest) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const mfaToken = typeof body?.mfaToken === 'string' ? body.mfaToken : ''
+
+    let userId: string | undefined
+
+    if (mfaToken) {
+      const challenge = await JWTService.verifyMfaChallengeToken(mfaToken)
+      const user = challenge
+        ? await prisma.user.findUnique({
+            where: { id: challenge.userId },
+            select: { id: true, mfaEnabled: true }
+          })
+        : null
+
+      if (!user || !user.mfaEnabled) {
+        return authSecurityHeaders.applyHeaders(NextResponse.json(
+          {
+            success: false,
+            error: 'Your sign-in attempt expired. Please sign in again.',
+            code: 'MFA_CHALLENGE_EXPIRED'
+          },
+          { status: 401 }
+        ))
+      }
+
+      userId = user.id
+    }
+
+    const options = await WebAuthnService.createAuthenticationOptions(userId)
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        data: options
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Passkey login options error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
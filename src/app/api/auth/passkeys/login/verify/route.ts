@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { JWTService } from '@/lib/jwt'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logLogin } from '@/lib/auth-logger'
+import { setAuthCookies } from '@/lib/auth-cookies'
+import { SessionService } from '@/lib/session'
+import { WebAuthnService } from '@/lib/webauthn'
+import { accountDisabledResponse } from '@/lib/admin-users'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// Passwordless sign-in: a user-verified passkey stands in for both the password and the second factor
+export const POST = withRateLimit(async (request: NextRequest) => {
+  const startTime = Date.now()
+
+  try {
+    const body = await request.json()
+
+    if (!body?.response || typeof body.response !== 'object') {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: ['Passkey response is required']
+        },
+        { status: 400 }
+      ))
+    }
+
+    const verified = await WebAuthnService.verifyAuthentication(body.response)
+
+    if (!verified) {
+      await logLogin(request, false, {
+        error: 'Invalid passkey assertion',
+        metadata: { method: 'passkey' },
+        duration: Date.now() - startTime
+      })
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'That passkey could not be verified. Try again or sign in with your password.'
+        },
+        { status: 401 }
+      ))
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: verified.userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        emailVerified: true,
+        createdAt: true,
+        disabledAt: true
+      }
+    })
+
+    if (!user) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'That passkey could not be verified. Try again or sign in with your password.'
+        },
+        { status: 401 }
+      ))
+    }
+
+    if (user.disabledAt) {
+      await logLogin(request, false, {
+        userId: user.id,
+        email: user.email,
+        error: 'Account disabled',
+        metadata: { method: 'passkey' },
+        duration: Date.now() - startTime
+      })
+      return accountDisabledResponse()
+    }
+
+    if (!user.emailVerified) {
+      await logLogin(request, false, {
+        userId: user.id,
+        email: user.email,
+        error: 'Email not verified',
+        metadata: { method: 'passkey' },
+        duration: Date.now() - startTime
+      })
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Please verify your email before logging in',
+          code: 'EMAIL_NOT_VERIFIED',
+          data: {
+            email: user.email,
+            requiresVerification: true
+          }
+        },
+        { status: 403 }
+      ))
+    }
+
+    const { sessionId, tokens, access } = await SessionService.startSession(user, request)
+
+    await logLogin(request, true, {
+      userId: user.id,
+      email: user.email,
+      sessionId,
+      metadata: { method: 'passkey', credentialId: verified.credentialId },
+      duration: Date.now() - startTime
+    })
+
+    const response = authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'Login successful',
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          emailVerified: user.emailVerified,
+          createdAt: user.createdAt,
+          ...access
+        },
+        accessTokenExpiresAt: JWTService.getAccessTokenExpiresAt()
+      },
+      { status: 200 }
+    ))
+
+    return setAuthCookies(response, tokens)
+
+  } catch (error) {
+    console.error('Passkey login error:', error)
+    await logLogin(request, false, {
+      error: 'Internal server error',
+      metadata: { method: 'passkey', errorMessage: error instanceof Error ? error.message : 'Unknown error' },
+      duration: Date.now() - startTime
+    })
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { authSanitizer } from '@/lib/sanitization'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { WebAuthnService } from '@/lib/webauthn'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+const MAX_NAME_LENGTH = 64
+
+// Step two of registration: verify the attestation and store the new credential
+export const POST = withRateLimit(async (request: NextRequest) => {
+  try {
+    const currentUser = await getCurrentUser(request)
+
+    if (!currentUser) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Unauthorized - No valid token provided'
+        },
+        { status: 401 }
+      ))
+    }
+
+    const body = await request.json()
+    const name = typeof body?.name === 'string'
+      ? authSanitizer.sanitizeString(body.name).slice(0, MAX_NAME_LENGTH)
+      : undefined
+
+    if (!body?.response || typeof body.response !== 'object') {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: ['Passkey response is required']
+        },
+        { status: 400 }
+      ))
+    }
+
+    const passkey = await WebAuthnService.verifyRegistration(currentUser.userId, body.response, name)
+
+    if (!passkey) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Passkey registration could not be verified. Please try again.'
+        },
+        { status: 400 }
+      ))
+    }
+
+    await logAuthEvent('passkey_registered', request, {
+      success: true,
+      userId: currentUser.userId,
+      email: currentUser.email,
+      sessionId: currentUser.sessionId,
+      metadata: { credentialId: passkey.id, deviceType: passkey.deviceType }
+    })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'Passkey added',
+        data: passkey
+      },
+      { status: 201 }
+    ))
+
+  } catch (error) {
+    console.error('Passkey registration error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
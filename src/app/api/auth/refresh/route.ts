@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { JWTService } from '@/lib/jwt'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { setAuthCookies, clearAuthCookies } from '@/lib/auth-cookies'
+import { SessionService } from '@/lib/session'
+import { RbacService } from '@/lib/rbac'
+import { REFRESH_TOKEN_COOKIE } from '@/lib/auth-tokens'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+function unauthorized(error: string) {
+  const response = authSecurityHeaders.applyHeaders(NextResponse.json(
+    {
+      success: false,
+      error
+    },
+    { status: 401 }
+  ))
+
+  return clearAuthCookies(response)
+}
+
+export const POST = withRateLimit(async (request: NextRequest) => {
+  try {
+    const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value
+
+    if (!refreshToken) {
+      return unauthorized('Unauthorized - No refresh token provided')
+    }
+
+    const payload = await JWTService.verifyRefreshToken(refreshToken)
+
+    if (!payload) {
+      await logAuthEvent('invalid_token', request, {
+        success: false,
+        error: 'Invalid or expired refresh token'
+      })
+      return unauthorized('Unauthorized - Invalid refresh token')
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        emailVerified: true,
+        createdAt: true,
+        passwordChangedAt: true
+      }
+    })
+
+    if (!user || JWTService.isTokenIssuedBefore(payload, user.passwordChangedAt)) {
+      await logAuthEvent('token_refresh', request, {
+        success: false,
+        userId: payload.userId,
+        sessionId: payload.sessionId,
+        error: user ? 'Session revoked by password change' : 'User not found'
+      })
+      return unauthorized('Unauthorized - Session has been revoked')
+    }
+
+    if (!payload.sessionId || !(await SessionService.isSessionActive(payload.sessionId))) {
+      await logAuthEvent('token_refresh', request, {
+        success: false,
+        userId: user.id,
+        sessionId: payload.sessionId,
+        error: 'Session revoked or expired'
+      })
+      return unauthorized('Unauthorized - Session has been revoked')
+    }
+
+    // Re-read roles on every refresh so grants and removals reach the access token within its lifetime
+    const access = await RbacService.getUserAccess(user.id)
+    const rotation = await JWTService.rotateRefreshToken(payload, access)
+
+    if (rotation.status === 'reused') {
+      await logAuthEvent('token_reuse', request, {
+        success: false,
+        userId: user.id,
+        email: user.email,
+        sessionId: payload.sessionId,
+        error: 'Rotated refresh token presented again',
+        metadata: { jti: payload.jti }
+      })
+      return unauthorized('Unauthorized - Session has been revoked')
+    }
+
+    if (rotation.status === 'unknown') {
+      await logAuthEvent('invalid_token', request, {
+        success: false,
+        userId: user.id,
+        sessionId: payload.sessionId,
+        error: 'Refresh token not recognized'
+      })
+      return unauthorized('Unauthorized - Invalid refresh token')
+    }
+
+    await SessionService.touchSession(payload.sessionId, request)
+
+    await logAuthEvent('token_refresh', request, {
+      success: true,
+      userId: user.id,
+      email: user.email,
+      sessionId: payload.sessionId
+    })
+
+    const userResponse = {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      emailVerified: user.emailVerified,
+      createdAt: user.createdAt,
+      ...access
+    }
+
+    const response = authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        user: userResponse,
+        accessTokenExpiresAt: JWTService.getAccessTokenExpiresAt()
+      },
+      { status: 200 }
+    ))
+
+    return setAuthCookies(response, rotation.tokens)
+
+  } catch (error) {
+    console.error('Token refresh error:', error)
+
+    await logAuthEvent('token_refresh', request, {
+      success: false,
+      error: 'Internal server error',
+      metadata: {
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      }
+    })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
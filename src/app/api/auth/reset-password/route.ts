@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server'
+import bcrypt from 'bcryptjs'
+import { prisma } from '@/lib/prisma'
+import { validatePassword } from '@/lib/validation'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { hashToken } from '@/lib/secure-token'
+import { clearAuthCookies } from '@/lib/auth-cookies'
+import { SessionService } from '@/lib/session'
+import { clearedLockout } from '@/lib/account-lockout'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+function invalidLinkResponse() {
+  return authSecurityHeaders.applyHeaders(NextResponse.json(
+    {
+      success: false,
+      error: 'Invalid reset link',
+      message: 'This password reset link is invalid or has already been used'
+    },
+    { status: 400 }
+  ))
+}
+
+export const POST = withRateLimit(async (request: NextRequest) => {
+  try {
+    const body = await request.json()
+    const token = typeof body?.token === 'string' ? body.token.trim() : ''
+    const password = typeof body?.password === 'string' ? body.password : ''
+
+    if (!token) {
+      await logAuthEvent('suspicious_activity', request, {
+        success: false,
+        error: 'Password reset attempted without token'
+      })
+
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid reset link',
+          message: 'Password reset token is required'
+        },
+        { status: 400 }
+      ))
+    }
+
+    const passwordValidation = validatePassword(password)
+    if (!password || !passwordValidation.isValid) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: password ? passwordValidation.errors : ['Password is required']
+        },
+        { status: 400 }
+      ))
+    }
+
+    const tokenHash = hashToken(token)
+    const user = await prisma.user.findUnique({
+      where: { passwordResetToken: tokenHash },
+      select: {
+        id: true,
+        email: true,
+        password: true,
+        passwordResetExpiresAt: true
+      }
+    })
+
+    if (!user) {
+      await logAuthEvent('suspicious_activity', request, {
+        success: false,
+        error: 'Invalid password reset token used'
+      })
+
+      return invalidLinkResponse()
+    }
+
+    if (!user.passwordResetExpiresAt || new Date() > user.passwordResetExpiresAt) {
+      await logAuthEvent('suspicious_activity', request, {
+        success: false,
+        error: 'Expired password reset token used',
+        userId: user.id
+      })
+
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Reset link expired',
+          message: 'This password reset link has expired. Please request a new one.'
+        },
+        { status: 400 }
+      ))
+    }
+
+    const isSamePassword = await bcrypt.compare(password, user.password)
+    if (isSamePassword) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: ['New password must be different from your current password']
+        },
+        { status: 400 }
+      ))
+    }
+
+    const saltRounds = 12
+    const hashedPassword = await bcrypt.hash(password, saltRounds)
+
+    // Clearing the token only if it is still stored and unexpired makes the link single-use even
+    // under a race; bumping passwordChangedAt invalidates every token issued before this moment
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        passwordResetToken: tokenHash,
+        passwordResetExpiresAt: { gt: new Date() }
+      },
+      data: {
+        password: hashedPassword,
+        passwordResetToken: null,
+        passwordResetExpiresAt: null,
+        passwordChangedAt: new Date(),
+        passwordResetRequired: false,
+        updatedAt: new Date(),
+        // Proving control of the mailbox also lifts a lockout
+        ...clearedLockout
+      }
+    })
+
+    if (count === 0) {
+      await logAuthEvent('suspicious_activity', request, {
+        success: false,
+        error: 'Password reset token used twice',
+        userId: user.id
+      })
+
+      return invalidLinkResponse()
+    }
+
+    const revokedSessions = await SessionService.revokeAllSessions(user.id)
+
+    await logAuthEvent('password_reset_success', request, {
+      success: true,
+      userId: user.id,
+      email: user.email,
+      metadata: { revokedSessions }
+    })
+
+    const response = authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'Password reset successfully. Please sign in with your new password.'
+      },
+      { status: 200 }
+    ))
+
+    return clearAuthCookies(response)
+
+  } catch (error) {
+    console.error('Reset password error:', error)
+
+    await logAuthEvent('password_reset_success', request, {
+      success: false,
+      error: 'Internal server error',
+      metadata: {
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      }
+    })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAuthEvent, logSuspiciousActivity } from '@/lib/auth-logger'
+import { clearAuthCookies } from '@/lib/auth-cookies'
+import { KnownDeviceService } from '@/lib/known-devices'
+import { requirePasswordReset } from '@/lib/password-reset'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// Redeems the "secure my account" link from the new-device email; the /secure-account page POSTs here
+export const POST = withRateLimit(async (request: NextRequest) => {
+  try {
+    const body = await request.json()
+    const token = typeof body?.token === 'string' ? body.token.trim() : ''
+
+    const user = token ? await KnownDeviceService.redeemSecureToken(token) : null
+
+    if (!user) {
+      await logAuthEvent('suspicious_activity', request, {
+        success: false,
+        error: 'Invalid secure account token used'
+      })
+
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid link',
+          message: 'This link is invalid or has expired. Sign in and use "This wasn\'t me" on the security activity page instead.'
+        },
+        { status: 400 }
+      ))
+    }
+
+    // Same lockdown as "This wasn't me": every session ends and the owner picks a new password by email
+    const { emailSent, revokedSessions } = await requirePasswordReset(user)
+
+    await logSuspiciousActivity(request, 'Account owner did not recognize a new-device sign-in', {
+      userId: user.id,
+      email: user.email,
+      metadata: { reportedByUser: true, method: 'new_device_email', revokedSessions, emailSent }
+    })
+
+    const response = authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'Your account is secured. We signed you out everywhere and emailed you a link to choose a new password.',
+        data: { emailSent }
+      },
+      { status: 200 }
+    ))
+
+    return clearAuthCookies(response)
+
+  } catch (error) {
+    console.error('Secure account error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
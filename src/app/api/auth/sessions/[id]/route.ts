@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { clearAuthCookies } from '@/lib/auth-cookies'
+import { SessionService } from '@/lib/session'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+export const DELETE = withRateLimit(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const currentUser = await getCurrentUser(request)
+
+    if (!currentUser) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Unauthorized - No valid token provided'
+        },
+        { status: 401 }
+      ))
+    }
+
+    const { id } = await params
+    const revoked = await SessionService.revokeUserSession(currentUser.userId, id)
+
+    if (!revoked) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Session not found'
+        },
+        { status: 404 }
+      ))
+    }
+
+    const isCurrentSession = revoked.sessionId === currentUser.sessionId
+
+    await logAuthEvent('session_revoked', request, {
+      success: true,
+      userId: currentUser.userId,
+      email: currentUser.email,
+      sessionId: currentUser.sessionId,
+      metadata: { scope: isCurrentSession ? 'current' : 'single', revokedSessionId: revoked.sessionId }
+    })
+
+    const response = authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        current: isCurrentSession,
+        message: 'Session signed out'
+      },
+      { status: 200 }
+    ))
+
+    // Revoking the session you're using is a logout
+    return isCurrentSession ? clearAuthCookies(response) : response
+
+  } catch (error) {
+    console.error('Revoke session error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { SessionService } from '@/lib/session'
+import { parseUserAgent } from '@/lib/user-agent'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+function unauthorized() {
+  return authSecurityHeaders.applyHeaders(NextResponse.json(
+    {
+      success: false,
+      error: 'Unauthorized - No valid token provided'
+    },
+    { status: 401 }
+  ))
+}
+
+export const GET = withRateLimit(async (request: NextRequest) => {
+  try {
+    const currentUser = await getCurrentUser(request)
+
+    if (!currentUser) {
+      return unauthorized()
+    }
+
+    const sessions = await SessionService.listActiveSessions(currentUser.userId)
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        sessions: sessions.map(session => ({
+          id: session.id,
+          device: parseUserAgent(session.userAgent),
+          ipAddress: session.ipAddress,
+          createdAt: session.createdAt,
+          lastSeenAt: session.lastSeenAt,
+          current: session.sessionId === currentUser.sessionId
+        }))
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('List sessions error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
+
+// "Sign out everywhere else": revokes every session except the one making the request
+export const DELETE = withRateLimit(async (request: NextRequest) => {
+  try {
+    const currentUser = await getCurrentUser(request)
+
+    if (!currentUser) {
+      return unauthorized()
+    }
+
+    const revokedCount = await SessionService.revokeAllSessions(currentUser.userId, currentUser.sessionId)
+
+    await logAuthEvent('session_revoked', request, {
+      success: true,
+      userId: currentUser.userId,
+      email: currentUser.email,
+      sessionId: currentUser.sessionId,
+      metadata: { scope: 'others', revokedCount }
+    })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        revokedCount,
+        message: revokedCount === 1
+          ? 'Signed out of 1 other session'
+          : `Signed out of ${revokedCount} other sessions`
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Revoke sessions error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
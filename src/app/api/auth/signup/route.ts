@@ -4,8 +4,9 @@ import { prisma } from '@/lib/prisma'
 import { validateSignupData } from '@/lib/validation'
 import { emailService } from '@/lib/email-service'
 import { logAuthEvent } from '@/lib/auth-logger'
+import { withRateLimit } from '@/lib/rate-limit-policies'
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit(async (request: NextRequest) => {
   try {
     const body = await request.json()
     
@@ -137,4 +138,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
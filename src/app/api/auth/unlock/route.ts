@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { logAuthEvent } from '@/lib/auth-logger'
+import { AccountLockoutService } from '@/lib/account-lockout'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// Redeems the link from the account locked email; the /unlock-account page POSTs here
+export const POST = withRateLimit(async (request: NextRequest) => {
+  try {
+    const body = await request.json()
+    const token = typeof body?.token === 'string' ? body.token.trim() : ''
+
+    const user = token ? await AccountLockoutService.unlockWithToken(token) : null
+
+    if (!user) {
+      await logAuthEvent('suspicious_activity', request, {
+        success: false,
+        error: 'Invalid account unlock token used'
+      })
+
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid unlock link',
+          message: 'This unlock link is invalid or has expired. Your account unlocks by itself when the lockout ends.'
+        },
+        { status: 400 }
+      ))
+    }
+
+    await logAuthEvent('account_unlocked', request, {
+      success: true,
+      userId: user.id,
+      email: user.email,
+      metadata: { method: 'email' }
+    })
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: true,
+        message: 'Your account has been unlocked. You can sign in again.'
+      },
+      { status: 200 }
+    ))
+
+  } catch (error) {
+    console.error('Account unlock error:', error)
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    ))
+  }
+})
@@ -0,0 +1,101 @@
+import { GET } from '../maintenance/route'
+import { APITestHelpers } from '@/lib/test-utils'
+import { AuditLogService } from '@/lib/audit-log'
+import { AccountDeletionService } from '@/lib/account-deletion'
+import { getRateLimitStore } from '@/lib/rate-limit-store'
+
+// Mock external dependencies
+jest.mock('@/lib/audit-log', () => ({
+  AuditLogService: {
+    prune: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/account-deletion', () => ({
+  AccountDeletionService: {
+    purgeDue: jest.fn(),
+  },
+}))
+
+const mockPrune = AuditLogService.prune as jest.Mock
+const mockPurgeDue = AccountDeletionService.purgeDue as jest.Mock
+
+const cronSecret = 'test-cron-secret-for-testing-only-32-characters'
+
+function maintenanceRequest(authorization?: string) {
+  return APITestHelpers.testEndpoint(
+    GET,
+    'GET',
+    '/api/cron/maintenance',
+    undefined,
+    authorization ? { authorization } : {}
+  )
+}
+
+describe('GET /api/cron/maintenance', () => {
+  const originalSecret = process.env.CRON_SECRET
+  let storePrune: jest.Mock
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env.CRON_SECRET = cronSecret
+    mockPrune.mockResolvedValue({ entries: 12, alerts: 3 })
+    mockPurgeDue.mockResolvedValue(2)
+    storePrune = jest.fn().mockResolvedValue(undefined)
+    Object.assign(getRateLimitStore(), { prune: storePrune })
+  })
+
+  afterAll(() => {
+    process.env.CRON_SECRET = originalSecret
+  })
+
+  it('should prune, purge and clear rate limits for the cron caller', async () => {
+    const { response, data } = await maintenanceRequest(`Bearer ${cronSecret}`)
+
+    expect(response.status).toBe(200)
+    expect(data).toEqual({
+      success: true,
+      prunedAuditEntries: 12,
+      prunedSecurityAlerts: 3,
+      purgedAccounts: 2,
+      prunedRateLimits: true
+    })
+    expect(mockPrune).toHaveBeenCalledTimes(1)
+    expect(mockPurgeDue).toHaveBeenCalledTimes(1)
+    expect(storePrune).toHaveBeenCalledTimes(1)
+  })
+
+  it.each([
+    ['no authorization', undefined],
+    ['a wrong secret', 'Bearer not-the-cron-secret-but-just-as-long-as-it'],
+    ['the bare secret', cronSecret],
+  ])('should refuse %s', async (_, authorization) => {
+    const { response, data } = await maintenanceRequest(authorization)
+
+    expect(response.status).toBe(401)
+    expect(data.success).toBe(false)
+    expect(mockPrune).not.toHaveBeenCalled()
+    expect(mockPurgeDue).not.toHaveBeenCalled()
+  })
+
+  it('should refuse everyone when CRON_SECRET is not set', async () => {
+    delete process.env.CRON_SECRET
+    jest.spyOn(console, 'error').mockImplementation()
+
+    const { response } = await maintenanceRequest('Bearer ')
+
+    expect(response.status).toBe(500)
+    expect(mockPrune).not.toHaveBeenCalled()
+  })
+
+  it('should run every step and report a failure when one fails', async () => {
+    mockPrune.mockRejectedValue(new Error('connection refused'))
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation()
+
+    const { response, data } = await maintenanceRequest(`Bearer ${cronSecret}`)
+
+    expect(response.status).toBe(500)
+    expect(data).toMatchObject({ success: false, prunedAuditEntries: null, purgedAccounts: 2, prunedRateLimits: true })
+    expect(consoleSpy).toHaveBeenCalledWith('Failed to prune audit logs:', expect.any(Error))
+  })
+})
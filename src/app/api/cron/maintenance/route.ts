@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { timingSafeEqual } from 'crypto'
+import { authSecurityHeaders } from '@/lib/security-headers'
+import { MaintenanceService } from '@/lib/maintenance'
+import { requireSecret } from '@/lib/secure-token'
+import { withRateLimit } from '@/lib/rate-limit-policies'
+
+// Vercel Cron sends `Authorization: Bearer $CRON_SECRET`; anything else scheduling this has to do the same
+function isAuthorized(request: NextRequest): boolean {
+  const given = Buffer.from(request.headers.get('authorization') || '')
+  const expected = Buffer.from(`Bearer ${requireSecret('CRON_SECRET')}`)
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+// Scheduled daily in vercel.json: audit retention, due account purges and expired rate-limit counters
+export const GET = withRateLimit(async (request: NextRequest) => {
+  try {
+    if (!isAuthorized(request)) {
+      return authSecurityHeaders.applyHeaders(NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      ))
+    }
+
+    const report = await MaintenanceService.run()
+    const succeeded = MaintenanceService.succeeded(report)
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      { success: succeeded, ...report },
+      { status: succeeded ? 200 : 500 }
+    ))
+  } catch (error) {
+    console.error('Maintenance error:', error)
+
+    return authSecurityHeaders.applyHeaders(NextResponse.json(
+      { success: false, error: 'Maintenance failed' },
+      { status: 500 }
+    ))
+  }
+})
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { initializeDatabase } from '@/lib/db-init'
+import { withRateLimit } from '@/lib/rate-limit-policies'
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit(async (request: NextRequest) => {
   try {
     // Allow database initialization (temporary for setup)
     console.log('Database initialization requested from:', request.headers.get('user-agent'))
@@ -33,11 +34,11 @@ export async function POST(request: NextRequest) {
       timestamp: new Date().toISOString()
     }, { status: 500 })
   }
-}
+})
 
-export async function GET() {
+export const GET = withRateLimit(async () => {
   return NextResponse.json({
     message: 'Database initialization endpoint. Use POST to initialize.',
     environment: process.env.NODE_ENV
   })
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,8 +1,9 @@
 import { NextResponse } from 'next/server'
 import { checkDatabaseHealth } from '@/lib/db-init'
 import { monitoring } from '@/lib/monitoring'
+import { withRateLimit } from '@/lib/rate-limit-policies'
 
-export async function GET() {
+export const GET = withRateLimit(async () => {
   try {
     const startTime = Date.now()
 
@@ -70,4 +71,4 @@ export async function GET() {
       environment: process.env.NODE_ENV
     }, { status: 503 })
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
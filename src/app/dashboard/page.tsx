@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react'
 import Image from 'next/image'
+import Link from 'next/link'
 import { useAuth } from '@/contexts/AuthContext'
 import { useRouter } from 'next/navigation'
 
@@ -85,6 +86,12 @@ export default function DashboardPage() {
               <div className="text-sm text-neutral-600">
                 Welcome, <span className="font-medium text-neutral-900">{user.name || user.email}</span>
               </div>
+              <Link
+                href="/settings"
+                className="text-sm font-medium text-neutral-600 hover:text-neutral-900 transition-colors duration-200"
+              >
+                Settings
+              </Link>
               <button
                 onClick={handleLogout}
                 className="bg-neutral-200 hover:bg-neutral-300 text-neutral-700 px-4 py-2 rounded-md text-sm font-medium transition-colors duration-200"
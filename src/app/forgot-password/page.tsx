@@ -11,6 +11,22 @@ export default function ForgotPasswordPage() {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
 
+  const requestPasswordReset = async () => {
+    const response = await fetch('/api/auth/forgot-password', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email })
+    })
+    const data = await response.json()
+
+    if (!data.success) {
+      if (response.status === 429) {
+        throw new Error('Too many reset requests. Please wait a while before trying again.')
+      }
+      throw new Error(data.details?.join(', ') || data.error || '')
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -22,11 +38,12 @@ export default function ForgotPasswordPage() {
     setError('')
     
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000))
+      await requestPasswordReset()
       setStep('sent')
     } catch (err) {
-      setError('Failed to send reset email. Please try again.')
+      setError(err instanceof Error && err.message
+        ? err.message
+        : 'Failed to send reset email. Please try again.')
     } finally {
       setIsSubmitting(false)
     }
@@ -37,11 +54,12 @@ export default function ForgotPasswordPage() {
     setError('')
     
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000))
+      await requestPasswordReset()
       setStep('sent')
     } catch (err) {
-      setError('Failed to resend email. Please try again.')
+      setError(err instanceof Error && err.message
+        ? err.message
+        : 'Failed to resend email. Please try again.')
     } finally {
       setIsSubmitting(false)
     }
@@ -119,6 +137,13 @@ export default function ForgotPasswordPage() {
         </p>
       </div>
 
+      {/* Error Alert */}
+      {error && (
+        <Alert variant="error" title="Error" closable onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
       <div className="space-y-4">
         {/* Continue Button */}
         <Link href="/login">
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import { useRouter, useSearchParams } from 'next/navigation'
+import { browserSupportsWebAuthn } from '@simplewebauthn/browser'
 import Link from 'next/link'
 import Image from 'next/image'
 import { Button } from '@/components/ui/Button'
@@ -11,6 +12,16 @@ import { Alert } from '@/components/ui/Alert'
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
 import { cn } from '@/lib/utils'
 
+// Reasons the provider sign-in callback sends back in `?error=`
+const OIDC_ERROR_MESSAGES: Record<string, string> = {
+  oidc_cancelled: 'Sign-in was cancelled at the provider.',
+  oidc_email_unverified: 'Your provider account has no verified email address.',
+  oidc_account_unverified: 'An account with this email exists but is not verified yet. Verify it or sign in with your password first.',
+  oidc_state_mismatch: 'Your sign-in attempt expired. Please try again.',
+  rate_limited: 'Too many sign-in attempts. Please try again later.',
+  account_disabled: 'This account has been disabled. Contact support if you think this is a mistake.',
+}
+
 export default function LoginPage() {
   const [formData, setFormData] = useState({
     email: '',
@@ -18,13 +29,36 @@ export default function LoginPage() {
   })
   const [rememberMe, setRememberMe] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [mfaCode, setMfaCode] = useState('')
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [supportsPasskeys, setSupportsPasskeys] = useState(false)
+  const [providers, setProviders] = useState<{ id: string; name: string }[]>([])
+  const [magicLinkSentTo, setMagicLinkSentTo] = useState('')
+  const [magicLinkError, setMagicLinkError] = useState('')
   
-  const { login, loading, error, clearError, user } = useAuth()
+  const {
+    login,
+    loginWithPasskey,
+    verifyMfa,
+    verifyMfaWithPasskey,
+    cancelMfa,
+    mfaRequired,
+    mfaMethods,
+    loading,
+    error,
+    errorCode,
+    solvingChallenge,
+    clearError,
+    user
+  } = useAuth()
   const router = useRouter()
   const searchParams = useSearchParams()
   
   const isVerified = searchParams?.get('verified') === 'true'
   const signupSuccess = searchParams?.get('signup') === 'success'
+  const accountSecured = searchParams?.get('secured') === 'true'
+  const providerError = searchParams?.get('error')
+  const redirectParam = searchParams?.get('redirect')
 
   useEffect(() => {
     if (user) {
@@ -32,6 +66,18 @@ export default function LoginPage() {
     }
   }, [user, router])
 
+  // Checked after mount; the server render can't know what the browser supports
+  useEffect(() => {
+    setSupportsPasskeys(browserSupportsWebAuthn())
+  }, [])
+
+  useEffect(() => {
+    fetch('/api/auth/oidc/providers')
+      .then(response => response.json())
+      .then(data => setProviders(data.providers || []))
+      .catch(() => setProviders([]))
+  }, [])
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -49,6 +95,89 @@ export default function LoginPage() {
     }
   }
 
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!mfaCode || isSubmitting) {
+      return
+    }
+
+    setIsSubmitting(true)
+    clearError()
+
+    try {
+      const verified = await verifyMfa(mfaCode, { recoveryCode: useRecoveryCode })
+      if (!verified) {
+        setMfaCode('')
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handlePasskeyLogin = async () => {
+    if (isSubmitting) return
+
+    setIsSubmitting(true)
+    clearError()
+
+    try {
+      await loginWithPasskey()
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // Only the email field is needed; the server answers the same whether or not the account exists
+  const handleMagicLinkRequest = async () => {
+    if (!formData.email || isSubmitting) return
+
+    setIsSubmitting(true)
+    setMagicLinkError('')
+    clearError()
+
+    try {
+      const response = await fetch('/api/auth/magic-link', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: formData.email, redirect: redirectParam || undefined })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setMagicLinkSentTo(formData.email)
+      } else if (response.status === 429) {
+        setMagicLinkError('Too many sign-in link requests. Please wait a while before trying again.')
+      } else {
+        setMagicLinkError(data.details?.join(', ') || data.error || 'Failed to send sign-in link. Please try again.')
+      }
+    } catch {
+      setMagicLinkError('Failed to send sign-in link. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleMfaPasskey = async () => {
+    if (isSubmitting) return
+
+    setIsSubmitting(true)
+    clearError()
+
+    try {
+      await verifyMfaWithPasskey()
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleMfaCancel = () => {
+    setMfaCode('')
+    setUseRecoveryCode(false)
+    setFormData(prev => ({ ...prev, password: '' }))
+    cancelMfa()
+  }
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target
     setFormData(prev => ({ ...prev, [name]: value }))
@@ -120,10 +249,14 @@ export default function LoginPage() {
             </div>
             
             <h1 className="text-2xl font-bold text-neutral-900 mb-2">
-              Welcome back
+              {mfaRequired ? 'Two-factor authentication' : 'Welcome back'}
             </h1>
             <p className="text-neutral-600 text-sm mb-8">
-              Enter your account details.
+              {mfaRequired
+                ? useRecoveryCode
+                  ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+                  : 'Enter the 6-digit code from your authenticator app.'
+                : 'Enter your account details.'}
             </p>
           </div>
 
@@ -140,15 +273,120 @@ export default function LoginPage() {
             </Alert>
           )}
 
-          {/* Login Form */}
+          {accountSecured && (
+            <Alert variant="info" title="Account secured" className="animate-fade-in mb-6">
+              You&apos;ve been signed out on every device. Use the link we emailed you to choose a new password, then sign in again.
+            </Alert>
+          )}
+
+          {magicLinkSentTo && !mfaRequired && (
+            <Alert variant="success" title="Check your email" closable onClose={() => setMagicLinkSentTo('')} className="animate-fade-in mb-6">
+              If an account exists for {magicLinkSentTo}, we sent it a sign-in link. It expires in 15 minutes.
+            </Alert>
+          )}
+
+          {mfaRequired ? (
+          /* Second Factor Form */
+          <form className="space-y-6" onSubmit={handleMfaSubmit}>
+            {error && (
+              <Alert variant="error" title="Verification failed" closable onClose={clearError}>
+                {error}
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <label htmlFor="mfaCode" className="block text-sm font-medium text-neutral-700">
+                {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+              </label>
+              <input
+                id="mfaCode"
+                name="mfaCode"
+                type="text"
+                value={mfaCode}
+                onChange={(e) => {
+                  setMfaCode(e.target.value)
+                  if (error) clearError()
+                }}
+                placeholder={useRecoveryCode ? 'XXXXX-XXXXX' : '123456'}
+                autoComplete="one-time-code"
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                maxLength={useRecoveryCode ? 11 : 6}
+                autoFocus
+                required
+                className="block w-full px-3 py-3 border border-neutral-300 rounded-lg shadow-sm placeholder-neutral-400 tracking-widest focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors duration-200"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={!mfaCode || isSubmitting}
+              className="w-full bg-neutral-900 text-white py-3 px-4 rounded-lg font-medium hover:bg-neutral-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-neutral-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              {isSubmitting ? 'Verifying...' : 'Verify'}
+            </button>
+
+            {supportsPasskeys && mfaMethods.includes('passkey') && (
+              <button
+                type="button"
+                onClick={handleMfaPasskey}
+                disabled={isSubmitting}
+                className="w-full bg-white text-neutral-900 py-3 px-4 rounded-lg font-medium border border-neutral-300 hover:bg-neutral-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-neutral-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              >
+                Use a passkey instead
+              </button>
+            )}
+
+            <div className="flex justify-between text-sm">
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode(prev => !prev)
+                  setMfaCode('')
+                  clearError()
+                }}
+                className="text-neutral-600 hover:text-primary-600 transition-colors duration-200"
+              >
+                {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+              </button>
+              <button
+                type="button"
+                onClick={handleMfaCancel}
+                className="text-neutral-600 hover:text-primary-600 transition-colors duration-200"
+              >
+                Back to sign in
+              </button>
+            </div>
+          </form>
+          ) : (
+          /* Login Form */
           <form className="space-y-6" onSubmit={handleSubmit}>
             {/* Error Alert */}
-            {error && (
+            {error && errorCode === 'ACCOUNT_LOCKED' ? (
+              <Alert variant="warning" title="Account temporarily locked" closable onClose={clearError}>
+                {error} We&apos;ve emailed you a link to unlock it now. Otherwise, try again later or{' '}
+                <Link href="/forgot-password" className="font-medium underline">
+                  reset your password
+                </Link>
+                .
+              </Alert>
+            ) : error && (
               <Alert variant="error" title="Sign in failed" closable onClose={clearError}>
                 {error}
               </Alert>
             )}
 
+            {magicLinkError && (
+              <Alert variant="error" title="Sign-in link not sent" closable onClose={() => setMagicLinkError('')}>
+                {magicLinkError}
+              </Alert>
+            )}
+
+            {!error && providerError && (
+              <Alert variant="error" title="Sign in failed">
+                {OIDC_ERROR_MESSAGES[providerError] || 'We couldn\'t sign you in with that provider. Please try again.'}
+              </Alert>
+            )}
+
             {/* Email Input */}
             <div className="space-y-2">
               <label htmlFor="email" className="block text-sm font-medium text-neutral-700">
@@ -212,9 +450,62 @@ export default function LoginPage() {
               disabled={!formData.email || !formData.password || isSubmitting}
               className="w-full bg-neutral-900 text-white py-3 px-4 rounded-lg font-medium hover:bg-neutral-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-neutral-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
             >
-              {isSubmitting ? 'Signing in...' : 'Log in'}
+              {solvingChallenge ? 'Verifying your browser...' : isSubmitting ? 'Signing in...' : 'Log in'}
             </button>
 
+            {/* Passwordless: email a one-time sign-in link */}
+            <button
+              type="button"
+              onClick={handleMagicLinkRequest}
+              disabled={!formData.email || isSubmitting}
+              className="w-full text-sm font-medium text-neutral-700 hover:text-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              Email me a sign-in link
+            </button>
+
+            {/* Passkey Sign In */}
+            {supportsPasskeys && (
+              <>
+                <div className="flex items-center">
+                  <div className="flex-1 border-t border-neutral-200" />
+                  <span className="px-3 text-sm text-neutral-500">or</span>
+                  <div className="flex-1 border-t border-neutral-200" />
+                </div>
+
+                <button
+                  type="button"
+                  onClick={handlePasskeyLogin}
+                  disabled={isSubmitting}
+                  className="w-full bg-white text-neutral-900 py-3 px-4 rounded-lg font-medium border border-neutral-300 hover:bg-neutral-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-neutral-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  Sign in with passkey
+                </button>
+              </>
+            )}
+
+            {/* External identity providers (OpenID Connect) */}
+            {providers.length > 0 && (
+              <div className="space-y-3">
+                {!supportsPasskeys && (
+                  <div className="flex items-center">
+                    <div className="flex-1 border-t border-neutral-200" />
+                    <span className="px-3 text-sm text-neutral-500">or</span>
+                    <div className="flex-1 border-t border-neutral-200" />
+                  </div>
+                )}
+
+                {providers.map(provider => (
+                  <a
+                    key={provider.id}
+                    href={`/api/auth/oidc/${provider.id}${redirectParam ? `?redirect=${encodeURIComponent(redirectParam)}` : ''}`}
+                    className="block w-full text-center bg-white text-neutral-900 py-3 px-4 rounded-lg font-medium border border-neutral-300 hover:bg-neutral-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-neutral-900 transition-colors duration-200"
+                  >
+                    Continue with {provider.name}
+                  </a>
+                ))}
+              </div>
+            )}
+
             {/* Signup Link */}
             <div className="text-center">
               <span className="text-sm text-neutral-600">
@@ -228,6 +519,7 @@ export default function LoginPage() {
               </span>
             </div>
           </form>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,78 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { useAuth } from '@/contexts/AuthContext'
+
+// Landing page for emailed sign-in links: redeems the token with a POST so prefetching scanners can't use it up
+export default function MagicLinkPage() {
+  const searchParams = useSearchParams()
+  const { loginWithMagicLink, error } = useAuth()
+  const attemptedRef = useRef(false)
+
+  const token = searchParams.get('token')
+
+  useEffect(() => {
+    // Tokens are single-use; guard against the effect running twice in development
+    if (!token || attemptedRef.current) return
+    attemptedRef.current = true
+
+    loginWithMagicLink(token, searchParams.get('redirect') || undefined)
+  }, [token, searchParams, loginWithMagicLink])
+
+  const failed = !token || !!error
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50 flex items-center justify-center px-4">
+      <div className="max-w-md w-full space-y-8">
+        <div className="bg-white rounded-lg shadow-xl p-8">
+          <div className="text-center">
+            {/* Header */}
+            <div className="mb-6">
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">
+                ⚡ Hayl Energy AI
+              </h1>
+              <p className="text-sm text-gray-600">Smart Energy Management Solutions</p>
+            </div>
+
+            {/* Status Icon */}
+            <div className="mb-6">
+              {failed ? (
+                <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-red-100">
+                  <svg className="h-8 w-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+                  </svg>
+                </div>
+              ) : (
+                <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-blue-600 mx-auto"></div>
+              )}
+            </div>
+
+            {/* Status Message */}
+            <div className="mb-6">
+              <h2 className={`text-xl font-semibold mb-2 ${failed ? 'text-red-800' : 'text-gray-800'}`}>
+                {failed ? 'Sign-in Link Not Valid' : 'Signing You In...'}
+              </h2>
+
+              <p className="text-gray-600">
+                {!token
+                  ? 'Invalid sign-in link. Please check your email for the correct link.'
+                  : error || 'Hold on while we check your sign-in link.'}
+              </p>
+            </div>
+
+            {failed && (
+              <Link
+                href="/login"
+                className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition duration-200 inline-block text-center"
+              >
+                Back to Login
+              </Link>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -30,6 +30,11 @@ export default function ResetPasswordPage() {
   }
 
   const validateForm = () => {
+    if (!token) {
+      setError('This reset link is invalid. Please request a new password reset email.')
+      return false
+    }
+
     if (!formData.password) {
       setError('Password is required')
       return false
@@ -59,10 +64,21 @@ export default function ResetPasswordPage() {
     setError('')
     
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      setSuccess(true)
-    } catch (err) {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password: formData.password })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setSuccess(true)
+      } else if (data.details && Array.isArray(data.details)) {
+        setError(data.details.join(', '))
+      } else {
+        setError(data.message || data.error || 'Failed to reset password. Please try again.')
+      }
+    } catch {
       setError('Failed to reset password. Please try again.')
     } finally {
       setIsSubmitting(false)
@@ -201,6 +217,16 @@ export default function ResetPasswordPage() {
               </p>
             </div>
 
+            {/* Missing token */}
+            {!token && !error && (
+              <Alert variant="warning" title="Invalid reset link">
+                This page must be opened from the link in your password reset email.{' '}
+                <Link href="/forgot-password" className="font-medium underline">
+                  Request a new link
+                </Link>
+              </Alert>
+            )}
+
             {/* Error Alert */}
             {error && (
               <Alert variant="error" title="Error" closable onClose={() => setError('')}>
@@ -0,0 +1,130 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+
+interface SecureState {
+  status: 'loading' | 'success' | 'error'
+  message: string
+}
+
+// Landing page for the new-device email; secures with a POST so prefetching scanners can't trigger it
+export default function SecureAccountPage() {
+  const searchParams = useSearchParams()
+  const attemptedRef = useRef(false)
+  const [state, setState] = useState<SecureState>({
+    status: 'loading',
+    message: 'Securing your account...'
+  })
+
+  useEffect(() => {
+    const token = searchParams.get('token')
+
+    if (!token) {
+      setState({
+        status: 'error',
+        message: 'Invalid link. Please check your email for the correct link.'
+      })
+      return
+    }
+
+    if (attemptedRef.current) return
+    attemptedRef.current = true
+
+    const secure = async () => {
+      try {
+        const response = await fetch('/api/auth/secure-account', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token })
+        })
+        const data = await response.json()
+
+        setState({
+          status: data.success ? 'success' : 'error',
+          message: data.message || data.error || 'Unable to secure your account'
+        })
+      } catch (error) {
+        console.error('Secure account error:', error)
+        setState({
+          status: 'error',
+          message: 'An error occurred while securing your account. Please try again.'
+        })
+      }
+    }
+
+    secure()
+  }, [searchParams])
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50 flex items-center justify-center px-4">
+      <div className="max-w-md w-full space-y-8">
+        <div className="bg-white rounded-lg shadow-xl p-8">
+          <div className="text-center">
+            {/* Header */}
+            <div className="mb-6">
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">
+                ⚡ Hayl Energy AI
+              </h1>
+              <p className="text-sm text-gray-600">Smart Energy Management Solutions</p>
+            </div>
+
+            {/* Status Icon */}
+            <div className="mb-6">
+              {state.status === 'loading' && (
+                <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-blue-600 mx-auto"></div>
+              )}
+              {state.status === 'success' && (
+                <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-green-100">
+                  <svg className="h-8 w-8 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7"></path>
+                  </svg>
+                </div>
+              )}
+              {state.status === 'error' && (
+                <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-red-100">
+                  <svg className="h-8 w-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+                  </svg>
+                </div>
+              )}
+            </div>
+
+            {/* Status Message */}
+            <div className="mb-6">
+              <h2 className={`text-xl font-semibold mb-2 ${
+                state.status === 'success' ? 'text-green-800' : state.status === 'error' ? 'text-red-800' : 'text-gray-800'
+              }`}>
+                {state.status === 'loading' && 'Securing Account...'}
+                {state.status === 'success' && 'Account Secured'}
+                {state.status === 'error' && 'Link Not Valid'}
+              </h2>
+
+              <p className="text-gray-600">
+                {state.message}
+              </p>
+            </div>
+
+            {state.status !== 'loading' && (
+              <div className="space-y-3">
+                <Link
+                  href="/login"
+                  className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition duration-200 inline-block text-center"
+                >
+                  Go to Login
+                </Link>
+                <Link
+                  href="/forgot-password"
+                  className="block text-sm text-gray-600 hover:text-blue-600"
+                >
+                  Didn&apos;t get the email? Reset your password
+                </Link>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
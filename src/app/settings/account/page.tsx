@@ -0,0 +1,227 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Alert } from '@/components/ui/Alert'
+import { Button } from '@/components/ui/Button'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+
+const inputClassName = 'block w-full px-3 py-3 border border-neutral-300 rounded-lg shadow-sm placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors duration-200'
+
+function filenameFrom(disposition: string | null): string {
+  return disposition?.match(/filename="([^"]+)"/)?.[1] || 'hayl-account.json'
+}
+
+export default function AccountDataPage() {
+  const [scheduledFor, setScheduledFor] = useState<string | null>(null)
+  const [mfaEnabled, setMfaEnabled] = useState(false)
+  const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [isExporting, setIsExporting] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [meResponse, mfaResponse] = await Promise.all([
+          fetch('/api/auth/me', { credentials: 'include', headers: { 'Cache-Control': 'no-cache' } }),
+          fetch('/api/auth/mfa', { credentials: 'include', headers: { 'Cache-Control': 'no-cache' } }),
+        ])
+        const [me, mfa] = await Promise.all([meResponse.json(), mfaResponse.json()])
+
+        if (!meResponse.ok || !me.success) {
+          setError(me.error || 'Unable to load your account')
+          return
+        }
+
+        setScheduledFor(me.user.deletionScheduledFor || null)
+        setMfaEnabled(!!mfa.data?.enabled)
+      } catch {
+        setError('Network error. Please try again.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    load()
+  }, [])
+
+  const downloadData = async () => {
+    setIsExporting(true)
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/auth/account/export', { credentials: 'include' })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        setError(data.error || 'Unable to export your data')
+        return
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filenameFrom(response.headers.get('Content-Disposition'))
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const deleteAccount = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/auth/account/deletion', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password, code: mfaEnabled ? code : undefined }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Unable to delete your account')
+        return
+      }
+
+      setPassword('')
+      setCode('')
+      setScheduledFor(data.data.scheduledFor)
+      setMessage(data.message)
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const keepAccount = async () => {
+    setIsSubmitting(true)
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/auth/account/deletion', {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Unable to cancel the deletion')
+        return
+      }
+
+      setScheduledFor(null)
+      setMessage(data.message)
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-neutral-200">
+        <h1 className="text-lg font-medium text-neutral-900">Your data</h1>
+        <p className="text-sm text-neutral-500">
+          Download everything we store about you, or delete your account.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && (
+          <Alert variant="error" closable onClose={() => setError('')}>
+            {error}
+          </Alert>
+        )}
+        {message && (
+          <Alert variant="success" closable onClose={() => setMessage('')}>
+            {message}
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <h2 className="text-base font-medium text-neutral-900">Download your data</h2>
+              <p className="text-sm text-neutral-500">
+                A JSON file with your profile, preferences, sessions, devices, passkeys, linked accounts and security history.
+              </p>
+              <Button type="button" variant="outline" loading={isExporting} onClick={downloadData}>
+                Download my data
+              </Button>
+            </div>
+
+            <div className="pt-6 border-t border-neutral-200 space-y-4">
+              <h2 className="text-base font-medium text-neutral-900">Delete account</h2>
+
+              {scheduledFor ? (
+                <Alert variant="warning">
+                  <div className="flex items-center justify-between gap-4">
+                    <span>Your account will be deleted on <strong>{new Date(scheduledFor).toLocaleDateString()}</strong>.</span>
+                    <Button type="button" variant="outline" size="sm" onClick={keepAccount} disabled={isSubmitting}>
+                      Keep my account
+                    </Button>
+                  </div>
+                </Alert>
+              ) : (
+                <>
+                  <p className="text-sm text-neutral-500">
+                    You&apos;ll be signed out everywhere else and have a few weeks to change your mind. After that your account is removed for good and your security history is kept only without anything that identifies you.
+                  </p>
+                  <form className="space-y-4" onSubmit={deleteAccount}>
+                    <input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="Current password"
+                      autoComplete="current-password"
+                      required
+                      className={inputClassName}
+                    />
+                    {mfaEnabled && (
+                      <input
+                        type="text"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        placeholder="Authentication or recovery code"
+                        autoComplete="one-time-code"
+                        required
+                        className={inputClassName}
+                      />
+                    )}
+                    <Button
+                      type="submit"
+                      variant="destructive"
+                      loading={isSubmitting}
+                      disabled={!password || (mfaEnabled && !code)}
+                    >
+                      Delete my account
+                    </Button>
+                  </form>
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
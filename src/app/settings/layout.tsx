@@ -0,0 +1,67 @@
+'use client'
+
+import { ReactNode } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { usePathname } from 'next/navigation'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import { cn } from '@/lib/utils'
+
+const settingsTabs = [
+  { href: '/settings/profile', label: 'Profile' },
+  { href: '/settings/password', label: 'Password' },
+  { href: '/settings/sessions', label: 'Sessions' },
+  { href: '/settings/two-factor', label: 'Two-factor authentication' },
+  { href: '/settings/passkeys', label: 'Passkeys' },
+  { href: '/settings/security', label: 'Security activity' },
+  { href: '/settings/account', label: 'Your data' },
+]
+
+export default function SettingsLayout({ children }: { children: ReactNode }) {
+  const pathname = usePathname()
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen relative">
+        {/* Background Image with Overlay */}
+        <div className="absolute inset-0">
+          <Image
+            src="/background.png"
+            alt="Clean energy background"
+            fill
+            className="object-cover opacity-10"
+            priority
+          />
+          <div className="absolute inset-0 bg-gradient-to-br from-primary-50/95 via-white/98 to-secondary-50/95"></div>
+        </div>
+
+        <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 relative z-10">
+          <div className="mb-6">
+            <Link href="/dashboard" className="text-sm font-medium text-primary-600 hover:text-primary-500 transition-colors">
+              ← Back to dashboard
+            </Link>
+          </div>
+
+          <nav className="flex space-x-2 mb-6 border-b border-neutral-200">
+            {settingsTabs.map(tab => (
+              <Link
+                key={tab.href}
+                href={tab.href}
+                className={cn(
+                  'px-4 py-2 -mb-px text-sm font-medium border-b-2 transition-colors duration-200',
+                  pathname === tab.href
+                    ? 'border-primary-600 text-primary-700'
+                    : 'border-transparent text-neutral-600 hover:text-neutral-900'
+                )}
+              >
+                {tab.label}
+              </Link>
+            ))}
+          </nav>
+
+          {children}
+        </main>
+      </div>
+    </ProtectedRoute>
+  )
+}
@@ -0,0 +1,216 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { browserSupportsWebAuthn, startRegistration } from '@simplewebauthn/browser'
+import { Alert } from '@/components/ui/Alert'
+import { Button } from '@/components/ui/Button'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { formatDate, formatRelativeTime } from '@/lib/utils'
+
+interface Passkey {
+  id: string
+  name: string | null
+  deviceType: string
+  backedUp: boolean
+  createdAt: string
+  lastUsedAt: string | null
+}
+
+export default function PasskeysPage() {
+  const [passkeys, setPasskeys] = useState<Passkey[]>([])
+  const [loading, setLoading] = useState(true)
+  const [supported, setSupported] = useState(true)
+  const [name, setName] = useState('')
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  const loadPasskeys = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/passkeys', {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Unable to load your passkeys')
+        return
+      }
+
+      setPasskeys(data.passkeys)
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    setSupported(browserSupportsWebAuthn())
+    loadPasskeys()
+  }, [loadPasskeys])
+
+  const addPasskey = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setPendingId('new')
+    setError('')
+    setMessage('')
+
+    try {
+      const optionsResponse = await fetch('/api/auth/passkeys/register/options', {
+        method: 'POST',
+        credentials: 'include',
+      })
+      const options = await optionsResponse.json()
+
+      if (!options.success) {
+        setError(options.error || 'Unable to start passkey registration')
+        return
+      }
+
+      const registration = await startRegistration({ optionsJSON: options.data })
+
+      const response = await fetch('/api/auth/passkeys/register/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ response: registration, name: name || undefined }),
+      })
+      const data = await response.json()
+
+      if (!data.success) {
+        setError(data.error || 'Unable to add that passkey')
+        return
+      }
+
+      setPasskeys(prev => [...prev, data.data])
+      setName('')
+      setMessage(data.message)
+    } catch (err) {
+      // Dismissing the browser prompt isn't an error worth shouting about
+      if (err instanceof Error && err.name === 'NotAllowedError') {
+        return
+      }
+      if (err instanceof Error && err.name === 'InvalidStateError') {
+        setError('This authenticator is already registered.')
+        return
+      }
+      setError('Network error. Please try again.')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const removePasskey = async (passkey: Passkey) => {
+    setPendingId(passkey.id)
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch(`/api/auth/passkeys/${encodeURIComponent(passkey.id)}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Unable to remove that passkey')
+        return
+      }
+
+      setPasskeys(prev => prev.filter(p => p.id !== passkey.id))
+      setMessage(data.message)
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-neutral-200">
+        <h1 className="text-lg font-medium text-neutral-900">Passkeys</h1>
+        <p className="text-sm text-neutral-500">
+          Sign in with your fingerprint, face or device PIN instead of a password. Passkeys also work as a second factor.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && (
+          <Alert variant="error" closable onClose={() => setError('')}>
+            {error}
+          </Alert>
+        )}
+        {message && (
+          <Alert variant="success" closable onClose={() => setMessage('')}>
+            {message}
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : passkeys.length === 0 ? (
+          <p className="text-sm text-neutral-500">You haven&apos;t added any passkeys yet.</p>
+        ) : (
+          <ul className="divide-y divide-neutral-200">
+            {passkeys.map(passkey => (
+              <li key={passkey.id} className="py-4 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-neutral-900">
+                    {passkey.name || 'Passkey'}
+                    {passkey.backedUp && (
+                      <span className="ml-2 inline-flex items-center rounded-full bg-primary-50 px-2 py-0.5 text-xs font-medium text-primary-700">
+                        Synced
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-neutral-500">
+                    {passkey.lastUsedAt ? `Last used ${formatRelativeTime(passkey.lastUsedAt)}` : 'Never used'}
+                  </p>
+                  <p className="text-xs text-neutral-400">
+                    Added {formatDate(passkey.createdAt)}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  loading={pendingId === passkey.id}
+                  disabled={pendingId !== null}
+                  onClick={() => removePasskey(passkey)}
+                >
+                  Remove
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {supported ? (
+          <form className="flex space-x-3" onSubmit={addPasskey}>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name (e.g. Work laptop)"
+              maxLength={64}
+              className="block flex-1 px-3 py-2 border border-neutral-300 rounded-lg shadow-sm placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors duration-200"
+            />
+            <Button type="submit" loading={pendingId === 'new'} disabled={pendingId !== null}>
+              Add a passkey
+            </Button>
+          </form>
+        ) : (
+          <Alert variant="info">
+            This browser doesn&apos;t support passkeys.
+          </Alert>
+        )}
+      </div>
+    </div>
+  )
+}
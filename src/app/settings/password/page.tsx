@@ -0,0 +1,125 @@
+'use client'
+
+import { useState } from 'react'
+import { Alert } from '@/components/ui/Alert'
+import { Button } from '@/components/ui/Button'
+import { PasswordStrength } from '@/components/ui/PasswordStrength'
+
+const inputClassName = 'block w-full px-3 py-3 border border-neutral-300 rounded-lg shadow-sm placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors duration-200'
+
+export default function ChangePasswordPage() {
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [errors, setErrors] = useState<string[]>([])
+  const [message, setMessage] = useState('')
+
+  const mismatch = confirmPassword.length > 0 && newPassword !== confirmPassword
+
+  const changePassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (mismatch) return
+
+    setIsSubmitting(true)
+    setErrors([])
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/auth/change-password', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currentPassword, newPassword }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setErrors(data.details || [data.message || data.error || 'Unable to change your password'])
+        return
+      }
+
+      setCurrentPassword('')
+      setNewPassword('')
+      setConfirmPassword('')
+      setMessage(data.message)
+    } catch {
+      setErrors(['Network error. Please try again.'])
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-neutral-200">
+        <h1 className="text-lg font-medium text-neutral-900">Password</h1>
+        <p className="text-sm text-neutral-500">
+          Changing your password signs you out on every other device.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {errors.length > 0 && (
+          <Alert variant="error" closable onClose={() => setErrors([])}>
+            {errors.length === 1 ? errors[0] : (
+              <ul className="list-disc list-inside space-y-1">
+                {errors.map(error => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+          </Alert>
+        )}
+        {message && (
+          <Alert variant="success" closable onClose={() => setMessage('')}>
+            {message}
+          </Alert>
+        )}
+
+        <form className="space-y-4" onSubmit={changePassword}>
+          <input
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            placeholder="Current password"
+            autoComplete="current-password"
+            required
+            className={inputClassName}
+          />
+          <div className="space-y-2">
+            <input
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              placeholder="New password"
+              autoComplete="new-password"
+              required
+              className={inputClassName}
+            />
+            {newPassword && <PasswordStrength password={newPassword} />}
+          </div>
+          <div>
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              placeholder="Confirm new password"
+              autoComplete="new-password"
+              required
+              className={inputClassName}
+            />
+            {mismatch && <p className="mt-1 text-sm text-error-600">Passwords do not match</p>}
+          </div>
+          <Button
+            type="submit"
+            loading={isSubmitting}
+            disabled={!currentPassword || !newPassword || newPassword !== confirmPassword}
+          >
+            Change password
+          </Button>
+        </form>
+      </div>
+    </div>
+  )
+}
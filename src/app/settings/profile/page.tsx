@@ -0,0 +1,311 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Alert } from '@/components/ui/Alert'
+import { Button } from '@/components/ui/Button'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useAuth } from '@/contexts/AuthContext'
+import { DEFAULT_PREFERENCES, ENERGY_UNITS, THEMES, UserPreferences } from '@/lib/user-preferences'
+import { MAX_NAME_LENGTH } from '@/lib/validation'
+
+const inputClassName = 'block w-full px-3 py-3 border border-neutral-300 rounded-lg shadow-sm placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors duration-200'
+
+const THEME_LABELS: Record<UserPreferences['theme'], string> = {
+  system: 'Match my device',
+  light: 'Light',
+  dark: 'Dark',
+}
+
+export default function ProfileSettingsPage() {
+  const { updateUser } = useAuth()
+  const [email, setEmail] = useState('')
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null)
+  const [newEmail, setNewEmail] = useState('')
+  const [emailPassword, setEmailPassword] = useState('')
+  const [isChangingEmail, setIsChangingEmail] = useState(false)
+  const [name, setName] = useState('')
+  const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_PREFERENCES)
+  const [loading, setLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    const loadProfile = async () => {
+      try {
+        const response = await fetch('/api/auth/me', {
+          credentials: 'include',
+          headers: {
+            'Cache-Control': 'no-cache',
+          },
+        })
+        const data = await response.json()
+
+        if (!response.ok || !data.success) {
+          setError(data.error || 'Unable to load your profile')
+          return
+        }
+
+        setEmail(data.user.email)
+        setPendingEmail(data.user.pendingEmail || null)
+        setName(data.user.name || '')
+        setPreferences(data.user.preferences || DEFAULT_PREFERENCES)
+      } catch {
+        setError('Network error. Please try again.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadProfile()
+  }, [])
+
+  const setPreference = <K extends keyof UserPreferences>(key: K, value: UserPreferences[K]) => {
+    setPreferences(prev => ({ ...prev, [key]: value }))
+  }
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/auth/me', {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, preferences }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.details?.join(' ') || data.error || 'Unable to save your profile')
+        return
+      }
+
+      setName(data.user.name || '')
+      setPreferences(data.user.preferences)
+      updateUser({ name: data.user.name || undefined, preferences: data.user.preferences })
+      setMessage(data.message)
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const requestEmailChange = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsChangingEmail(true)
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/auth/email-change', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ newEmail, password: emailPassword }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.details?.join(' ') || data.error || 'Unable to change your email')
+        return
+      }
+
+      setPendingEmail(data.data.pendingEmail)
+      setNewEmail('')
+      setEmailPassword('')
+      setMessage(data.message)
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setIsChangingEmail(false)
+    }
+  }
+
+  const cancelEmailChange = async () => {
+    setIsChangingEmail(true)
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/auth/email-change', {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Unable to cancel the email change')
+        return
+      }
+
+      setPendingEmail(null)
+      setMessage(data.message)
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setIsChangingEmail(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-neutral-200">
+        <h1 className="text-lg font-medium text-neutral-900">Profile</h1>
+        <p className="text-sm text-neutral-500">
+          Your name and how Hayl Energy AI looks and talks to you.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && (
+          <Alert variant="error" closable onClose={() => setError('')}>
+            {error}
+          </Alert>
+        )}
+        {message && (
+          <Alert variant="success" closable onClose={() => setMessage('')}>
+            {message}
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <form className="space-y-5" onSubmit={save}>
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-neutral-700 mb-1">Email</label>
+              <input id="email" type="email" value={email} disabled className={`${inputClassName} bg-neutral-50 text-neutral-500`} />
+            </div>
+
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-neutral-700 mb-1">Name</label>
+              <input
+                id="name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={MAX_NAME_LENGTH}
+                autoComplete="name"
+                placeholder="Your name"
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="theme" className="block text-sm font-medium text-neutral-700 mb-1">Theme</label>
+                <select
+                  id="theme"
+                  value={preferences.theme}
+                  onChange={(e) => setPreference('theme', e.target.value as UserPreferences['theme'])}
+                  className={inputClassName}
+                >
+                  {THEMES.map(theme => (
+                    <option key={theme} value={theme}>{THEME_LABELS[theme]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="energyUnit" className="block text-sm font-medium text-neutral-700 mb-1">Energy unit</label>
+                <select
+                  id="energyUnit"
+                  value={preferences.energyUnit}
+                  onChange={(e) => setPreference('energyUnit', e.target.value as UserPreferences['energyUnit'])}
+                  className={inputClassName}
+                >
+                  {ENERGY_UNITS.map(unit => (
+                    <option key={unit} value={unit}>{unit}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="timezone" className="block text-sm font-medium text-neutral-700 mb-1">Time zone</label>
+              <input
+                id="timezone"
+                type="text"
+                value={preferences.timezone || ''}
+                onChange={(e) => setPreference('timezone', e.target.value.trim() || null)}
+                placeholder={`Match my device (${Intl.DateTimeFormat().resolvedOptions().timeZone})`}
+                className={inputClassName}
+              />
+              <p className="mt-1 text-xs text-neutral-500">An IANA name such as Europe/Berlin. Leave empty to use your device&apos;s time zone.</p>
+            </div>
+
+            <label className="flex items-start space-x-3">
+              <input
+                type="checkbox"
+                checked={preferences.productUpdates}
+                onChange={(e) => setPreference('productUpdates', e.target.checked)}
+                className="mt-1 h-4 w-4 rounded border-neutral-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span className="text-sm text-neutral-700">
+                Email me product news and energy-saving tips
+                <span className="block text-xs text-neutral-500">Security emails are always sent.</span>
+              </span>
+            </label>
+
+            <Button type="submit" loading={isSubmitting}>
+              Save changes
+            </Button>
+          </form>
+        )}
+
+        {!loading && (
+          <div className="pt-6 border-t border-neutral-200 space-y-4">
+            <div>
+              <h2 className="text-base font-medium text-neutral-900">Change email</h2>
+              <p className="text-sm text-neutral-500">
+                We&apos;ll email a confirmation link to the new address. Your email only changes once you open it, and you&apos;ll be signed out on other devices.
+              </p>
+            </div>
+
+            {pendingEmail && (
+              <Alert variant="info">
+                <div className="flex items-center justify-between gap-4">
+                  <span>Waiting for you to confirm <strong>{pendingEmail}</strong>.</span>
+                  <Button type="button" variant="outline" size="sm" onClick={cancelEmailChange} disabled={isChangingEmail}>
+                    Cancel change
+                  </Button>
+                </div>
+              </Alert>
+            )}
+
+            <form className="space-y-4" onSubmit={requestEmailChange}>
+              <input
+                type="email"
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+                placeholder="New email address"
+                autoComplete="email"
+                required
+                className={inputClassName}
+              />
+              <input
+                type="password"
+                value={emailPassword}
+                onChange={(e) => setEmailPassword(e.target.value)}
+                placeholder="Current password"
+                autoComplete="current-password"
+                required
+                className={inputClassName}
+              />
+              <Button type="submit" loading={isChangingEmail} disabled={!newEmail || !emailPassword}>
+                Send confirmation link
+              </Button>
+            </form>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,237 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Alert } from '@/components/ui/Alert'
+import { Button } from '@/components/ui/Button'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useAuth } from '@/contexts/AuthContext'
+import { cn, formatRelativeTime } from '@/lib/utils'
+import type { ParsedUserAgent } from '@/lib/user-agent'
+
+interface ActivityItem {
+  id: string
+  kind: 'event' | 'alert'
+  type: string
+  success: boolean
+  level?: string
+  method?: string
+  ip: string
+  device: ParsedUserAgent
+  createdAt: string
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  passkey: 'with a passkey',
+  magic_link: 'with an email link',
+  oidc: 'with single sign-on',
+}
+
+const DESCRIPTIONS: Record<string, (item: ActivityItem) => string> = {
+  login_success: item => `Signed in ${item.method ? METHOD_LABELS[item.method] || '' : 'with your password'}`.trim(),
+  login_failure: () => 'Failed sign-in attempt',
+  account_locked: () => 'Account locked after too many failed sign-ins',
+  account_unlocked: () => 'Account unlocked',
+  password_reset_request: () => 'Password reset requested',
+  password_reset_success: () => 'Password changed with a reset link',
+  password_changed: item => item.success ? 'Password changed' : 'Wrong current password entered while changing password',
+  email_change_requested: () => 'Email address change requested',
+  email_changed: () => 'Email address changed',
+  email_change_cancelled: () => 'Email address change cancelled',
+  data_exported: () => 'Account data downloaded',
+  account_deletion_requested: item => item.success ? 'Account deletion scheduled' : 'Wrong password entered while deleting the account',
+  account_deletion_cancelled: () => 'Account deletion cancelled',
+  mfa_enabled: () => 'Two-factor authentication turned on',
+  mfa_disabled: () => 'Two-factor authentication turned off',
+  mfa_failure: () => 'Wrong two-factor code entered',
+  passkey_registered: () => 'Passkey added',
+  passkey_removed: () => 'Passkey removed',
+  oidc_account_linked: () => 'Single sign-on account linked',
+  session_revoked: () => 'Signed out of a session',
+  token_reuse: () => 'An old sign-in was replayed; that session was ended',
+  suspicious_activity: () => 'You reported activity you didn\'t recognize',
+  new_device_login: () => 'Sign-in from a new device or location',
+  mfa_brute_force: () => 'Repeated wrong two-factor codes: your password may be known to someone else',
+}
+
+// Entries where someone else could have been in the account
+const REPORTABLE = new Set([
+  'login_success',
+  'new_device_login',
+  'password_reset_success',
+  'password_changed',
+  'email_change_requested',
+  'email_changed',
+  'data_exported',
+  'account_deletion_requested',
+  'mfa_enabled',
+  'mfa_disabled',
+  'passkey_registered',
+  'passkey_removed',
+  'oidc_account_linked',
+])
+
+function describe(item: ActivityItem): string {
+  return DESCRIPTIONS[item.type]?.(item) || item.type.replace(/_/g, ' ')
+}
+
+function isWarning(item: ActivityItem): boolean {
+  return item.kind === 'alert' || !item.success || item.type === 'account_locked' || item.type === 'token_reuse'
+}
+
+export default function SecurityActivityPage() {
+  const { logout } = useAuth()
+  const [activity, setActivity] = useState<ActivityItem[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [reporting, setReporting] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const loadActivity = useCallback(async (before?: string) => {
+    try {
+      const query = before ? `?before=${encodeURIComponent(before)}` : ''
+      const response = await fetch(`/api/auth/activity${query}`, {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Unable to load your security activity')
+        return
+      }
+
+      setActivity(prev => before ? [...prev, ...data.activity] : data.activity)
+      setNextCursor(data.nextCursor)
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setLoading(false)
+      setLoadingMore(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadActivity()
+  }, [loadActivity])
+
+  const loadMore = () => {
+    if (!nextCursor) return
+    setLoadingMore(true)
+    loadActivity(nextCursor)
+  }
+
+  const reportActivity = async (item?: ActivityItem) => {
+    const confirmed = window.confirm(
+      'We will sign you out on every device, including this one, and email you a link to choose a new password. Continue?'
+    )
+    if (!confirmed) return
+
+    setReporting(item?.id || 'all')
+    setError('')
+
+    try {
+      const response = await fetch('/api/auth/activity/report', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ activityId: item?.id }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Unable to secure your account')
+        setReporting(null)
+        return
+      }
+
+      await logout('/login?secured=true')
+    } catch {
+      setError('Network error. Please try again.')
+      setReporting(null)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-neutral-200 flex items-center justify-between">
+        <div>
+          <h1 className="text-lg font-medium text-neutral-900">Security activity</h1>
+          <p className="text-sm text-neutral-500">
+            Sign-ins and changes to your account. If something here wasn&apos;t you, secure your account.
+          </p>
+        </div>
+        <Button
+          variant="destructive"
+          size="sm"
+          loading={reporting === 'all'}
+          disabled={reporting !== null}
+          onClick={() => reportActivity()}
+        >
+          This wasn&apos;t me
+        </Button>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {error && (
+          <Alert variant="error" closable onClose={() => setError('')}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : activity.length === 0 ? (
+          <p className="text-sm text-neutral-500">No security activity recorded yet.</p>
+        ) : (
+          <ul className="divide-y divide-neutral-200">
+            {activity.map(item => (
+              <li key={`${item.kind}-${item.id}`} className="py-4 flex items-center justify-between">
+                <div className="flex items-start space-x-3">
+                  <span
+                    className={cn(
+                      'mt-1.5 w-2.5 h-2.5 rounded-full flex-shrink-0',
+                      isWarning(item) ? 'bg-warning-500' : 'bg-success-500'
+                    )}
+                  />
+                  <div>
+                    <p className="text-sm font-medium text-neutral-900">{describe(item)}</p>
+                    <p className="text-sm text-neutral-500">
+                      {item.device.label} · {item.ip}
+                    </p>
+                    <p className="text-xs text-neutral-400" title={new Date(item.createdAt).toLocaleString()}>
+                      {formatRelativeTime(item.createdAt)}
+                    </p>
+                  </div>
+                </div>
+                {REPORTABLE.has(item.type) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    loading={reporting === item.id}
+                    disabled={reporting !== null}
+                    onClick={() => reportActivity(item)}
+                  >
+                    Not you?
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {nextCursor && (
+          <div className="flex justify-center pt-2">
+            <Button variant="outline" size="sm" loading={loadingMore} onClick={loadMore}>
+              Show older activity
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,213 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Alert } from '@/components/ui/Alert'
+import { Button } from '@/components/ui/Button'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useAuth } from '@/contexts/AuthContext'
+import { formatDate, formatRelativeTime } from '@/lib/utils'
+import type { ParsedUserAgent } from '@/lib/user-agent'
+
+interface ActiveSession {
+  id: string
+  device: ParsedUserAgent
+  ipAddress: string | null
+  createdAt: string
+  lastSeenAt: string
+  current: boolean
+}
+
+function DeviceIcon({ deviceType }: { deviceType: ParsedUserAgent['deviceType'] }) {
+  if (deviceType === 'mobile' || deviceType === 'tablet') {
+    return (
+      <svg className="w-5 h-5 text-primary-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 18h.01M8 21h8a2 2 0 002-2V5a2 2 0 00-2-2H8a2 2 0 00-2 2v14a2 2 0 002 2z" />
+      </svg>
+    )
+  }
+
+  return (
+    <svg className="w-5 h-5 text-primary-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+    </svg>
+  )
+}
+
+export default function SessionsPage() {
+  const { logout } = useAuth()
+  const [sessions, setSessions] = useState<ActiveSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/sessions', {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Unable to load your sessions')
+        return
+      }
+
+      setSessions(data.sessions)
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  const revokeSession = async (session: ActiveSession) => {
+    setPendingId(session.id)
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch(`/api/auth/sessions/${encodeURIComponent(session.id)}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Unable to sign out that session')
+        return
+      }
+
+      if (data.current) {
+        await logout()
+        return
+      }
+
+      setSessions(prev => prev.filter(s => s.id !== session.id))
+      setMessage(`Signed out of ${session.device.label}`)
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const revokeOtherSessions = async () => {
+    setPendingId('others')
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/auth/sessions', {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Unable to sign out other sessions')
+        return
+      }
+
+      setSessions(prev => prev.filter(s => s.current))
+      setMessage(data.message)
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const otherSessions = sessions.filter(s => !s.current)
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-neutral-200 flex items-center justify-between">
+        <div>
+          <h1 className="text-lg font-medium text-neutral-900">Where you&apos;re signed in</h1>
+          <p className="text-sm text-neutral-500">
+            Sign out of any session you don&apos;t recognize, then change your password.
+          </p>
+        </div>
+        {otherSessions.length > 0 && (
+          <Button
+            variant="destructive"
+            size="sm"
+            loading={pendingId === 'others'}
+            disabled={pendingId !== null}
+            onClick={revokeOtherSessions}
+          >
+            Sign out everywhere else
+          </Button>
+        )}
+      </div>
+
+      <div className="p-6 space-y-4">
+        {error && (
+          <Alert variant="error" closable onClose={() => setError('')}>
+            {error}
+          </Alert>
+        )}
+        {message && (
+          <Alert variant="success" closable onClose={() => setMessage('')}>
+            {message}
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-neutral-500">No active sessions found.</p>
+        ) : (
+          <ul className="divide-y divide-neutral-200">
+            {sessions.map(session => (
+              <li key={session.id} className="py-4 flex items-center justify-between">
+                <div className="flex items-start space-x-3">
+                  <div className="w-9 h-9 bg-primary-50 rounded-md flex items-center justify-center flex-shrink-0">
+                    <DeviceIcon deviceType={session.device.deviceType} />
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-neutral-900">
+                      {session.device.label}
+                      {session.current && (
+                        <span className="ml-2 inline-flex items-center rounded-full bg-success-100 px-2 py-0.5 text-xs font-medium text-success-800">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-neutral-500">
+                      {session.ipAddress || 'Unknown IP'} · Last active {formatRelativeTime(session.lastSeenAt)}
+                    </p>
+                    <p className="text-xs text-neutral-400">
+                      Signed in {formatDate(session.createdAt)}
+                    </p>
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    loading={pendingId === session.id}
+                    disabled={pendingId !== null}
+                    onClick={() => revokeSession(session)}
+                  >
+                    Sign out
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,243 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Alert } from '@/components/ui/Alert'
+import { Button } from '@/components/ui/Button'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+
+interface MfaStatus {
+  enabled: boolean
+  recoveryCodesRemaining: number
+}
+
+interface MfaEnrollment {
+  secret: string
+  otpauthUri: string
+  qrCode: string
+}
+
+const inputClassName = 'block w-full px-3 py-3 border border-neutral-300 rounded-lg shadow-sm placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors duration-200'
+
+async function postJson(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  return response.json()
+}
+
+export default function TwoFactorPage() {
+  const [status, setStatus] = useState<MfaStatus | null>(null)
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/mfa', {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Unable to load two-factor settings')
+        return
+      }
+
+      setStatus(data.data)
+    } catch {
+      setError('Network error. Please try again.')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadStatus()
+  }, [loadStatus])
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsSubmitting(true)
+    setError('')
+    setMessage('')
+
+    try {
+      await action()
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const startSetup = () => runAction(async () => {
+    const data = await postJson('/api/auth/mfa/setup', 'POST')
+
+    if (!data.success) {
+      setError(data.error || 'Unable to start two-factor setup')
+      return
+    }
+
+    setEnrollment(data.data)
+    setCode('')
+  })
+
+  const confirmSetup = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    runAction(async () => {
+      const data = await postJson('/api/auth/mfa/enable', 'POST', { code })
+
+      if (!data.success) {
+        setError(data.error || 'Unable to verify that code')
+        setCode('')
+        return
+      }
+
+      setEnrollment(null)
+      setCode('')
+      setRecoveryCodes(data.data.recoveryCodes)
+      setStatus({ enabled: true, recoveryCodesRemaining: data.data.recoveryCodes.length })
+    })
+  }
+
+  const disable = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    runAction(async () => {
+      const data = await postJson('/api/auth/mfa', 'DELETE', { password, code })
+
+      if (!data.success) {
+        setError(data.error || 'Unable to disable two-factor authentication')
+        return
+      }
+
+      setPassword('')
+      setCode('')
+      setRecoveryCodes(null)
+      setStatus({ enabled: false, recoveryCodesRemaining: 0 })
+      setMessage(data.message)
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-neutral-200">
+        <h1 className="text-lg font-medium text-neutral-900">Two-factor authentication</h1>
+        <p className="text-sm text-neutral-500">
+          Require a code from an authenticator app in addition to your password when you sign in.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && (
+          <Alert variant="error" closable onClose={() => setError('')}>
+            {error}
+          </Alert>
+        )}
+        {message && (
+          <Alert variant="success" closable onClose={() => setMessage('')}>
+            {message}
+          </Alert>
+        )}
+
+        {!status ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : recoveryCodes ? (
+          <div className="space-y-4">
+            <Alert variant="warning" title="Save your recovery codes">
+              Each code can be used once to sign in if you lose your authenticator. They won&apos;t be shown again.
+            </Alert>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-neutral-50 rounded-lg p-4">
+              {recoveryCodes.map(recoveryCode => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+            <Button variant="outline" onClick={() => setRecoveryCodes(null)}>
+              I&apos;ve saved these codes
+            </Button>
+          </div>
+        ) : status.enabled ? (
+          <form className="space-y-4" onSubmit={disable}>
+            <p className="text-sm text-neutral-700">
+              Two-factor authentication is <span className="font-medium text-success-700">on</span>.
+              You have {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'}.
+            </p>
+            <p className="text-sm text-neutral-500">
+              To turn it off, confirm your password and a current code (or a recovery code).
+            </p>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Current password"
+              autoComplete="current-password"
+              required
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Authentication or recovery code"
+              autoComplete="one-time-code"
+              required
+              className={inputClassName}
+            />
+            <Button type="submit" variant="destructive" loading={isSubmitting} disabled={!password || !code}>
+              Turn off two-factor authentication
+            </Button>
+          </form>
+        ) : enrollment ? (
+          <form className="space-y-4" onSubmit={confirmSetup}>
+            <p className="text-sm text-neutral-700">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            {/* eslint-disable-next-line @next/next/no-img-element -- data URL, nothing for next/image to optimize */}
+            <img src={enrollment.qrCode} alt="Two-factor authentication QR code" width={192} height={192} className="border border-neutral-200 rounded-lg" />
+            <p className="text-xs text-neutral-500">
+              Can&apos;t scan it? Enter this key manually: <code className="font-mono break-all">{enrollment.secret}</code>
+            </p>
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              autoComplete="one-time-code"
+              inputMode="numeric"
+              maxLength={6}
+              required
+              className={inputClassName}
+            />
+            <div className="flex space-x-3">
+              <Button type="submit" loading={isSubmitting} disabled={code.length !== 6}>
+                Verify and turn on
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setEnrollment(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-neutral-700">
+              Two-factor authentication is <span className="font-medium">off</span>.
+            </p>
+            <Button onClick={startSetup} loading={isSubmitting}>
+              Set up two-factor authentication
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
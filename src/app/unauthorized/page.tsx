@@ -0,0 +1,46 @@
+import Link from 'next/link'
+
+// Where middleware and role guards send signed-in users who lack the permission a page needs
+export default function UnauthorizedPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50 flex items-center justify-center px-4">
+      <div className="max-w-md w-full space-y-8">
+        <div className="bg-white rounded-lg shadow-xl p-8">
+          <div className="text-center">
+            {/* Header */}
+            <div className="mb-6">
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">
+                ⚡ Hayl Energy AI
+              </h1>
+              <p className="text-sm text-gray-600">Smart Energy Management Solutions</p>
+            </div>
+
+            {/* Status Icon */}
+            <div className="mb-6">
+              <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-red-100">
+                <svg className="h-8 w-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"></path>
+                </svg>
+              </div>
+            </div>
+
+            {/* Status Message */}
+            <div className="mb-6">
+              <h2 className="text-xl font-semibold mb-2 text-red-800">Access Denied</h2>
+              <p className="text-gray-600">
+                Your account doesn&apos;t have permission to view this page. If you think it should, ask an administrator.
+              </p>
+            </div>
+
+            <Link
+              href="/dashboard"
+              className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition duration-200 inline-block text-center"
+            >
+              Back to Dashboard
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
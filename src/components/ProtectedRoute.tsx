@@ -3,6 +3,7 @@
 import { useEffect, useState, ReactNode } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import { useRouter } from 'next/navigation'
+import { ADMIN_ROLES, hasAnyRole } from '@/lib/permissions'
 
 interface ProtectedRouteProps {
   children: ReactNode
@@ -40,14 +41,9 @@ export default function ProtectedRoute({
       }
 
       // Check role-based access if roles are specified
-      if (roles.length > 0 && user) {
-        // Note: This assumes user object has a 'role' property
-        // You'll need to add role support to your user model and JWT payload
-        const userRole = (user as any).role || 'user'
-        if (!roles.includes(userRole)) {
-          router.push('/unauthorized')
-          return
-        }
+      if (roles.length > 0 && user && !hasAnyRole(user, roles)) {
+        router.push('/unauthorized')
+        return
       }
 
       setIsAuthorized(true)
@@ -163,25 +159,21 @@ export function useRequireRole(requiredRoles: string[], redirectTo = '/unauthori
   const { user, loading } = useAuth()
   const router = useRouter()
 
+  const hasRequiredRole = hasAnyRole(user, requiredRoles)
+
   useEffect(() => {
-    if (!loading && user) {
-      const userRole = (user as any).role || 'user'
-      if (!requiredRoles.includes(userRole)) {
-        router.push(redirectTo)
-      }
+    if (!loading && user && !hasRequiredRole) {
+      router.push(redirectTo)
     }
-  }, [user, loading, requiredRoles, router, redirectTo])
-
-  const userRole = user ? (user as any).role || 'user' : null
-  const hasRequiredRole = userRole ? requiredRoles.includes(userRole) : false
+  }, [user, loading, hasRequiredRole, router, redirectTo])
 
-  return { user, loading, hasRequiredRole, userRole }
+  return { user, loading, hasRequiredRole, userRoles: user?.roles ?? [] }
 }
 
 // Protected route variants for specific use cases
 export function AdminProtectedRoute({ children }: { children: ReactNode }) {
   return (
-    <ProtectedRoute roles={['admin', 'super_admin']}>
+    <ProtectedRoute roles={ADMIN_ROLES}>
       {children}
     </ProtectedRoute>
   )
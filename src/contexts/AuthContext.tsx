@@ -7,9 +7,13 @@ import {
   useContext, 
   ReactNode, 
   useCallback,
-  useMemo 
+  useMemo,
+  useRef
 } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
+import { startAuthentication } from '@simplewebauthn/browser'
+import type { UserPreferences } from '@/lib/user-preferences'
+import { ProofOfWorkSolution, solveProofOfWork } from '@/lib/proof-of-work'
 
 interface User {
   id: string
@@ -18,18 +22,38 @@ interface User {
   emailVerified?: boolean
   createdAt: string
   updatedAt?: string
+  // Only from /api/auth/me and PATCH /api/auth/me
+  preferences?: UserPreferences
+  pendingEmail?: string | null
+  deletionScheduledFor?: string | null
+  // From the server on sign-in, refresh and /api/auth/me; see src/lib/permissions.ts
+  roles: string[]
+  permissions: string[]
 }
 
 interface AuthState {
   user: User | null
   loading: boolean
   error: string | null
+  // Machine-readable reason for the last failed login, e.g. 'ACCOUNT_LOCKED' or 'LOGIN_THROTTLED'
+  errorCode: string | null
   isAuthenticated: boolean
   isInitialized: boolean
+  // Password accepted; waiting for an authenticator or recovery code
+  mfaRequired: boolean
+  // Second factors the pending login accepts: 'totp', 'recovery_code' and, if registered, 'passkey'
+  mfaMethods: string[]
+  // Working out a proof-of-work challenge the server asked for before it checks the password
+  solvingChallenge: boolean
 }
 
 interface AuthActions {
   login: (email: string, password: string, redirectTo?: string) => Promise<boolean>
+  loginWithPasskey: (redirectTo?: string) => Promise<boolean>
+  loginWithMagicLink: (token: string, redirectTo?: string) => Promise<boolean>
+  verifyMfa: (code: string, options?: { recoveryCode?: boolean }) => Promise<boolean>
+  verifyMfaWithPasskey: () => Promise<boolean>
+  cancelMfa: () => void
   signup: (email: string, password: string, name?: string, redirectTo?: string) => Promise<boolean>
   logout: (redirectTo?: string) => Promise<void>
   refreshAuth: () => Promise<void>
@@ -39,6 +63,49 @@ interface AuthActions {
 
 type AuthContextType = AuthState & AuthActions
 
+interface AuthSessionResponse {
+  success: boolean
+  user?: User
+  accessTokenExpiresAt?: number
+}
+
+// Refresh this long before the access token expires
+const REFRESH_BUFFER_MS = 60 * 1000
+// Never schedule refreshes closer together than this
+const MIN_REFRESH_DELAY_MS = 10 * 1000
+
+class PasskeyOptionsError extends Error {}
+
+// Fetch assertion options; pass the MFA challenge token to use a passkey as the second factor
+async function requestPasskeyOptions(body: { mfaToken?: string } = {}) {
+  const response = await fetch('/api/auth/passkeys/login/options', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify(body),
+  })
+  const data = await response.json()
+
+  if (!data.success) {
+    throw new PasskeyOptionsError(data.error || 'Unable to start passkey sign-in')
+  }
+
+  return data.data
+}
+
+function describeRequestError(error: unknown): string {
+  // The browser rejects with NotAllowedError when the user dismisses the passkey prompt
+  if (error instanceof Error && error.name === 'NotAllowedError') {
+    return 'Passkey request was cancelled.'
+  }
+  if (error instanceof PasskeyOptionsError) {
+    return error.message
+  }
+  return 'Network error. Please try again.'
+}
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 interface AuthProviderProps {
@@ -51,8 +118,12 @@ export function AuthProvider({ children, onAuthChange }: AuthProviderProps) {
     user: null,
     loading: true,
     error: null,
+    errorCode: null,
     isAuthenticated: false,
     isInitialized: false,
+    mfaRequired: false,
+    mfaMethods: [],
+    solvingChallenge: false,
   })
 
   const router = useRouter()
@@ -66,7 +137,7 @@ export function AuthProvider({ children, onAuthChange }: AuthProviderProps) {
 
   // Clear error function
   const clearError = useCallback(() => {
-    setState(prev => ({ ...prev, error: null }))
+    setState(prev => ({ ...prev, error: null, errorCode: null }))
   }, [])
 
   // Update user data
@@ -77,95 +148,187 @@ export function AuthProvider({ children, onAuthChange }: AuthProviderProps) {
     }))
   }, [])
 
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Challenge token from a login that returned MFA_REQUIRED; kept out of state so it never renders
+  const mfaChallengeRef = useRef<{ mfaToken: string; redirectTo?: string } | null>(null)
+  const refreshAuthRef = useRef<() => Promise<void>>(async () => {})
+
+  const clearRefreshTimer = useCallback(() => {
+    if (refreshTimerRef.current) {
+      clearTimeout(refreshTimerRef.current)
+      refreshTimerRef.current = null
+    }
+  }, [])
+
+  // Schedule a silent refresh shortly before the access token expires
+  const scheduleRefresh = useCallback((accessTokenExpiresAt?: number) => {
+    clearRefreshTimer()
+    if (!accessTokenExpiresAt) return
+
+    const delay = Math.max(
+      accessTokenExpiresAt - Date.now() - REFRESH_BUFFER_MS,
+      MIN_REFRESH_DELAY_MS
+    )
+    refreshTimerRef.current = setTimeout(() => {
+      refreshAuthRef.current()
+    }, delay)
+  }, [clearRefreshTimer])
+
+  // Exchange the refresh-token cookie for a new token pair
+  const requestTokenRefresh = useCallback(async (): Promise<AuthSessionResponse | null> => {
+    try {
+      const response = await fetch('/api/auth/refresh', {
+        method: 'POST',
+        credentials: 'include',
+      })
+
+      if (!response.ok) return null
+
+      const data: AuthSessionResponse = await response.json()
+      return data.success && data.user ? data : null
+    } catch (error) {
+      console.error('Token refresh failed:', error)
+      return null
+    }
+  }, [])
+
+  const setAuthenticated = useCallback((data: AuthSessionResponse) => {
+    setState(prev => ({
+      ...prev,
+      user: data.user!,
+      error: null,
+      loading: false,
+      isInitialized: true,
+      mfaRequired: false,
+      mfaMethods: [],
+    }))
+    scheduleRefresh(data.accessTokenExpiresAt)
+    onAuthChange?.(true, data.user!)
+  }, [scheduleRefresh, onAuthChange])
+
+  const setUnauthenticated = useCallback(() => {
+    clearRefreshTimer()
+    setState(prev => ({
+      ...prev,
+      user: null,
+      error: null,
+      loading: false,
+      isInitialized: true,
+    }))
+    onAuthChange?.(false, null)
+  }, [clearRefreshTimer, onAuthChange])
+
   // Check authentication status
   const checkAuthStatus = useCallback(async () => {
     try {
       setState(prev => ({ ...prev, loading: true }))
       
-      const response = await fetch('/api/auth/me', {
+      const fetchCurrentUser = () => fetch('/api/auth/me', {
         credentials: 'include',
         headers: {
           'Cache-Control': 'no-cache',
         },
       })
+
+      let response = await fetchCurrentUser()
+
+      // Access token expired or missing - refresh once and retry
+      if (response.status === 401 && await requestTokenRefresh()) {
+        response = await fetchCurrentUser()
+      }
       
       if (response.ok) {
-        const data = await response.json()
+        const data: AuthSessionResponse = await response.json()
         if (data.success && data.user) {
-          setState(prev => ({
-            ...prev,
-            user: data.user,
-            error: null,
-            loading: false,
-            isInitialized: true,
-          }))
-          onAuthChange?.(true, data.user)
+          setAuthenticated(data)
           return
         }
       }
       
       // Authentication failed or user not found
-      setState(prev => ({
-        ...prev,
-        user: null,
-        error: null,
-        loading: false,
-        isInitialized: true,
-      }))
-      onAuthChange?.(false, null)
+      setUnauthenticated()
       
     } catch (error) {
       console.error('Auth check failed:', error)
-      setState(prev => ({
-        ...prev,
-        user: null,
-        error: null,
-        loading: false,
-        isInitialized: true,
-      }))
-      onAuthChange?.(false, null)
+      setUnauthenticated()
     }
-  }, [onAuthChange])
+  }, [requestTokenRefresh, setAuthenticated, setUnauthenticated])
 
   // Refresh authentication
   const refreshAuth = useCallback(async () => {
-    await checkAuthStatus()
-  }, [checkAuthStatus])
+    const data = await requestTokenRefresh()
+
+    if (data) {
+      setAuthenticated(data)
+    } else {
+      setUnauthenticated()
+    }
+  }, [requestTokenRefresh, setAuthenticated, setUnauthenticated])
+
+  useEffect(() => {
+    refreshAuthRef.current = refreshAuth
+  }, [refreshAuth])
+
+  // Stop pending refreshes when the provider unmounts
+  useEffect(() => clearRefreshTimer, [clearRefreshTimer])
 
   // Initial auth check
   useEffect(() => {
     checkAuthStatus()
   }, [checkAuthStatus])
 
+  // A provider sign-in that still needs a second factor lands on /login with the challenge in the URL fragment
+  useEffect(() => {
+    if (typeof window === 'undefined' || !window.location.hash.startsWith('#mfa=')) return
+
+    const fragment = new URLSearchParams(window.location.hash.slice(1))
+    const mfaToken = fragment.get('mfa')
+    window.history.replaceState(null, '', window.location.pathname + window.location.search)
+    if (!mfaToken) return
+
+    mfaChallengeRef.current = { mfaToken }
+    setState(prev => ({
+      ...prev,
+      mfaRequired: true,
+      mfaMethods: (fragment.get('methods') || 'totp,recovery_code').split(','),
+    }))
+  }, [])
+
   // Login function
   const login = useCallback(async (
     email: string, 
     password: string, 
     redirectTo?: string
   ): Promise<boolean> => {
-    setState(prev => ({ ...prev, loading: true, error: null }))
+    setState(prev => ({ ...prev, loading: true, error: null, errorCode: null }))
     
     try {
-      const response = await fetch('/api/auth/login', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify({ email, password }),
-      })
+      const submit = async (proofOfWork?: ProofOfWorkSolution) => {
+        const response = await fetch('/api/auth/login', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          credentials: 'include',
+          body: JSON.stringify({ email, password, proofOfWork }),
+        })
+        return response.json()
+      }
 
-      const data = await response.json()
+      let data = await submit()
+
+      // Many recent failures for this account or from this network: solve the challenge and send the form once more
+      if (data.code === 'PROOF_OF_WORK_REQUIRED' && data.data?.challenge) {
+        setState(prev => ({ ...prev, solvingChallenge: true }))
+        try {
+          data = await submit(await solveProofOfWork(data.data))
+        } finally {
+          setState(prev => ({ ...prev, solvingChallenge: false }))
+        }
+      }
 
       if (data.success && data.user) {
-        setState(prev => ({
-          ...prev,
-          user: data.user,
-          error: null,
-          loading: false,
-        }))
-        
-        onAuthChange?.(true, data.user)
+        setAuthenticated(data)
         
         // Handle redirect
         const targetPath = redirectTo || 
@@ -175,6 +338,20 @@ export function AuthProvider({ children, onAuthChange }: AuthProviderProps) {
         router.push(targetPath)
         return true
       } else {
+        // Password accepted but a second factor is needed - the login page shows the code step
+        if (data.code === 'MFA_REQUIRED' && data.data?.mfaToken) {
+          mfaChallengeRef.current = { mfaToken: data.data.mfaToken, redirectTo }
+          setState(prev => ({
+            ...prev,
+            user: null,
+            error: null,
+            loading: false,
+            mfaRequired: true,
+            mfaMethods: data.data.methods || ['totp', 'recovery_code'],
+          }))
+          return false
+        }
+
         // Handle email verification required
         if (data.code === 'EMAIL_NOT_VERIFIED') {
           const errorMessage = data.error + ' Check your email for a verification link.'
@@ -210,6 +387,7 @@ export function AuthProvider({ children, onAuthChange }: AuthProviderProps) {
           ...prev,
           user: null,
           error: errorMessage,
+          errorCode: data.code || null,
           loading: false,
         }))
         return false
@@ -224,7 +402,199 @@ export function AuthProvider({ children, onAuthChange }: AuthProviderProps) {
       }))
       return false
     }
-  }, [router, searchParams, onAuthChange])
+  }, [router, searchParams, setAuthenticated])
+
+  // Second login step: submit a code, recovery code or passkey assertion for the pending challenge
+  const submitMfaChallenge = useCallback(async (
+    buildProof: (mfaToken: string) => Promise<Record<string, unknown>>
+  ): Promise<boolean> => {
+    const challenge = mfaChallengeRef.current
+    if (!challenge) {
+      setState(prev => ({
+        ...prev,
+        mfaRequired: false,
+        error: 'Your sign-in attempt expired. Please sign in again.',
+      }))
+      return false
+    }
+
+    setState(prev => ({ ...prev, loading: true, error: null, errorCode: null }))
+
+    try {
+      const response = await fetch('/api/auth/mfa/challenge', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          mfaToken: challenge.mfaToken,
+          ...(await buildProof(challenge.mfaToken)),
+        }),
+      })
+
+      const data = await response.json()
+
+      if (data.success && data.user) {
+        mfaChallengeRef.current = null
+        setAuthenticated(data)
+
+        const targetPath = challenge.redirectTo ||
+                          searchParams?.get('redirect') ||
+                          '/dashboard'
+
+        router.push(targetPath)
+        return true
+      }
+
+      // The challenge expired or ran out of tries, or the account was locked, disabled or flagged
+      // for a reset - start over from the password step. A wrong code or a cooldown keeps it
+      const challengeOver = !!data.code && data.code !== 'LOGIN_THROTTLED'
+      if (challengeOver) {
+        mfaChallengeRef.current = null
+      }
+
+      setState(prev => ({
+        ...prev,
+        error: data.error || 'Verification failed',
+        errorCode: data.code || null,
+        loading: false,
+        mfaRequired: !challengeOver,
+      }))
+      return false
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: describeRequestError(error),
+        loading: false,
+      }))
+      return false
+    }
+  }, [router, searchParams, setAuthenticated])
+
+  const verifyMfa = useCallback((
+    code: string,
+    options: { recoveryCode?: boolean } = {}
+  ): Promise<boolean> => {
+    return submitMfaChallenge(async () => (
+      options.recoveryCode ? { recoveryCode: code } : { code }
+    ))
+  }, [submitMfaChallenge])
+
+  const verifyMfaWithPasskey = useCallback((): Promise<boolean> => {
+    return submitMfaChallenge(async (mfaToken) => {
+      const optionsJSON = await requestPasskeyOptions({ mfaToken })
+      return { passkey: await startAuthentication({ optionsJSON }) }
+    })
+  }, [submitMfaChallenge])
+
+  // Passwordless sign-in with a discoverable passkey; no email or password needed
+  const loginWithPasskey = useCallback(async (redirectTo?: string): Promise<boolean> => {
+    setState(prev => ({ ...prev, loading: true, error: null, errorCode: null }))
+
+    try {
+      const optionsJSON = await requestPasskeyOptions()
+      const passkey = await startAuthentication({ optionsJSON })
+
+      const response = await fetch('/api/auth/passkeys/login/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ response: passkey }),
+      })
+
+      const data = await response.json()
+
+      if (data.success && data.user) {
+        setAuthenticated(data)
+
+        const targetPath = redirectTo ||
+                          searchParams?.get('redirect') ||
+                          '/dashboard'
+
+        router.push(targetPath)
+        return true
+      }
+
+      setState(prev => ({
+        ...prev,
+        user: null,
+        error: data.error || 'Passkey sign-in failed',
+        loading: false,
+      }))
+      return false
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        user: null,
+        error: describeRequestError(error),
+        loading: false,
+      }))
+      return false
+    }
+  }, [router, searchParams, setAuthenticated])
+
+  // Redeem an emailed sign-in link; the server validates `redirectTo` and echoes back where to go
+  const loginWithMagicLink = useCallback(async (token: string, redirectTo?: string): Promise<boolean> => {
+    setState(prev => ({ ...prev, loading: true, error: null, errorCode: null }))
+
+    try {
+      const response = await fetch('/api/auth/magic-link/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ token, redirect: redirectTo }),
+      })
+
+      const data = await response.json()
+
+      if (data.success && data.user) {
+        setAuthenticated(data)
+        router.push(data.redirectTo || '/dashboard')
+        return true
+      }
+
+      // The link replaced the password only - finish with the second factor on the login page
+      if (data.code === 'MFA_REQUIRED' && data.data?.mfaToken) {
+        mfaChallengeRef.current = { mfaToken: data.data.mfaToken, redirectTo: data.data.redirectTo }
+        setState(prev => ({
+          ...prev,
+          user: null,
+          error: null,
+          loading: false,
+          mfaRequired: true,
+          mfaMethods: data.data.methods || ['totp', 'recovery_code'],
+        }))
+        router.push('/login')
+        return false
+      }
+
+      setState(prev => ({
+        ...prev,
+        user: null,
+        error: data.message || data.error || 'Sign-in link is invalid',
+        loading: false,
+      }))
+      return false
+    } catch {
+      setState(prev => ({
+        ...prev,
+        user: null,
+        error: 'Network error. Please try again.',
+        loading: false,
+      }))
+      return false
+    }
+  }, [router, setAuthenticated])
+
+  const cancelMfa = useCallback(() => {
+    mfaChallengeRef.current = null
+    setState(prev => ({ ...prev, mfaRequired: false, error: null }))
+  }, [])
 
   // Signup function
   const signup = useCallback(async (
@@ -233,7 +603,7 @@ export function AuthProvider({ children, onAuthChange }: AuthProviderProps) {
     name?: string,
     redirectTo?: string
   ): Promise<boolean> => {
-    setState(prev => ({ ...prev, loading: true, error: null }))
+    setState(prev => ({ ...prev, loading: true, error: null, errorCode: null }))
     
     try {
       const response = await fetch('/api/auth/signup', {
@@ -310,7 +680,8 @@ export function AuthProvider({ children, onAuthChange }: AuthProviderProps) {
 
   // Logout function
   const logout = useCallback(async (redirectTo?: string) => {
-    setState(prev => ({ ...prev, loading: true, error: null }))
+    clearRefreshTimer()
+    setState(prev => ({ ...prev, loading: true, error: null, errorCode: null }))
     
     try {
       await fetch('/api/auth/logout', {
@@ -334,18 +705,23 @@ export function AuthProvider({ children, onAuthChange }: AuthProviderProps) {
     // Handle redirect
     const targetPath = redirectTo || '/login'
     router.push(targetPath)
-  }, [router, onAuthChange])
+  }, [router, onAuthChange, clearRefreshTimer])
 
   // Context value
   const contextValue = useMemo<AuthContextType>(() => ({
     ...authState,
     login,
+    loginWithPasskey,
+    loginWithMagicLink,
+    verifyMfa,
+    verifyMfaWithPasskey,
+    cancelMfa,
     signup,
     logout,
     refreshAuth,
     clearError,
     updateUser,
-  }), [authState, login, signup, logout, refreshAuth, clearError, updateUser])
+  }), [authState, login, loginWithPasskey, loginWithMagicLink, verifyMfa, verifyMfaWithPasskey, cancelMfa, signup, logout, refreshAuth, clearError, updateUser])
 
   return (
     <AuthContext.Provider value={contextValue}>
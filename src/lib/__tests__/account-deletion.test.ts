@@ -0,0 +1,132 @@
+import { AccountDeletionService, ACCOUNT_DELETION_GRACE_DAYS } from '../account-deletion'
+import { prisma } from '../prisma'
+import { emailService } from '../email-service'
+import { AuditLogService } from '../audit-log'
+import { hashToken } from '../secure-token'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('../email-service', () => ({
+  emailService: {
+    sendAccountDeletionEmail: jest.fn(),
+  },
+}))
+
+jest.mock('../audit-log', () => ({
+  AuditLogService: {
+    anonymizeUser: jest.fn(),
+  },
+}))
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; findMany: jest.Mock; update: jest.Mock; updateMany: jest.Mock; delete: jest.Mock }
+}
+const mockEmailService = emailService as unknown as { sendAccountDeletionEmail: jest.Mock }
+const mockAnonymizeUser = AuditLogService.anonymizeUser as jest.Mock
+
+const user = { id: 'test-user-id', email: 'test@example.com', name: 'Test User' }
+const cleared = { deletionRequestedAt: null, deletionScheduledFor: null, deletionCancelToken: null }
+
+describe('AccountDeletionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockEmailService.sendAccountDeletionEmail.mockResolvedValue(true)
+    mockAnonymizeUser.mockResolvedValue({ entries: 4, alerts: 1 })
+  })
+
+  describe('schedule', () => {
+    it('sets the deletion date after the grace period and emails a cancel link', async () => {
+      const before = Date.now()
+
+      const { scheduledFor, emailSent } = await AccountDeletionService.schedule(user)
+
+      const graceMs = ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000
+      expect(scheduledFor.getTime()).toBeGreaterThanOrEqual(before + graceMs)
+      expect(emailSent).toBe(true)
+
+      const { data } = mockPrisma.user.update.mock.calls[0][0]
+      const [to, , date, cancelToken] = mockEmailService.sendAccountDeletionEmail.mock.calls[0]
+      expect(to).toBe('test@example.com')
+      expect(date).toBe(scheduledFor)
+      expect(data.deletionScheduledFor).toBe(scheduledFor)
+      expect(data.deletionCancelToken).toBe(hashToken(cancelToken))
+    })
+
+    it('still schedules when the email fails', async () => {
+      mockEmailService.sendAccountDeletionEmail.mockRejectedValue(new Error('SMTP down'))
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      const { emailSent } = await AccountDeletionService.schedule(user)
+
+      expect(emailSent).toBe(false)
+      expect(mockPrisma.user.update).toHaveBeenCalled()
+    })
+  })
+
+  describe('cancel', () => {
+    it('clears a scheduled deletion from the emailed link', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: user.id, email: user.email, deletionScheduledFor: new Date() })
+
+      const result = await AccountDeletionService.cancelWithToken('cancel-token')
+
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { deletionCancelToken: hashToken('cancel-token') },
+      }))
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({ where: { id: user.id }, data: cleared })
+      expect(result).toEqual({ id: user.id, email: user.email })
+    })
+
+    it('returns null for unknown links', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null)
+
+      expect(await AccountDeletionService.cancelWithToken('unknown')).toBeNull()
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('reports whether a signed-in cancel removed anything', async () => {
+      mockPrisma.user.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 })
+
+      expect(await AccountDeletionService.cancel(user.id)).toBe(true)
+      expect(await AccountDeletionService.cancel(user.id)).toBe(false)
+    })
+  })
+
+  describe('purgeDue', () => {
+    it('anonymizes audit records before deleting each due account', async () => {
+      const now = new Date('2026-11-18T00:00:00Z')
+      mockPrisma.user.findMany.mockResolvedValue([{ id: 'a', email: 'a@example.com' }, { id: 'b', email: 'b@example.com' }])
+      const order: string[] = []
+      mockAnonymizeUser.mockImplementation(async (id: string) => { order.push(`anonymize:${id}`) })
+      mockPrisma.user.delete.mockImplementation(async ({ where }: { where: { id: string } }) => { order.push(`delete:${where.id}`) })
+
+      const purged = await AccountDeletionService.purgeDue(now)
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith({
+        where: { deletionScheduledFor: { lte: now } },
+        select: { id: true, email: true },
+      })
+      expect(mockAnonymizeUser).toHaveBeenCalledWith('a', 'a@example.com')
+      expect(order).toEqual(['anonymize:a', 'delete:a', 'anonymize:b', 'delete:b'])
+      expect(purged).toBe(2)
+    })
+
+    it('keeps going when one account fails', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([{ id: 'a', email: 'a@example.com' }, { id: 'b', email: 'b@example.com' }])
+      mockPrisma.user.delete.mockRejectedValueOnce(new Error('deadlock')).mockResolvedValueOnce({})
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      expect(await AccountDeletionService.purgeDue()).toBe(1)
+      expect(mockPrisma.user.delete).toHaveBeenCalledTimes(2)
+    })
+  })
+})
@@ -0,0 +1,158 @@
+import { AccountLockoutService, FREE_LOGIN_ATTEMPTS, LOCKOUT_THRESHOLD, getBackoffSeconds, LockoutFields } from '../account-lockout'
+import { prisma } from '../prisma'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}))
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock }
+}
+
+const NOW = new Date('2026-01-01T12:00:00Z')
+
+function secondsAgo(seconds: number): Date {
+  return new Date(NOW.getTime() - seconds * 1000)
+}
+
+function account(overrides: Partial<LockoutFields> = {}): LockoutFields {
+  return {
+    id: 'test-user-id',
+    failedLoginAttempts: 0,
+    lastFailedLoginAt: null,
+    lockedUntil: null,
+    ...overrides,
+  }
+}
+
+describe('account lockout', () => {
+  describe('getBackoffSeconds', () => {
+    it('should not delay the first few failures', () => {
+      for (let attempts = 0; attempts < FREE_LOGIN_ATTEMPTS; attempts++) {
+        expect(getBackoffSeconds(attempts)).toBe(0)
+      }
+    })
+
+    it('should double the delay after each further failure', () => {
+      expect(getBackoffSeconds(FREE_LOGIN_ATTEMPTS)).toBe(1)
+      expect(getBackoffSeconds(FREE_LOGIN_ATTEMPTS + 1)).toBe(2)
+      expect(getBackoffSeconds(FREE_LOGIN_ATTEMPTS + 4)).toBe(16)
+    })
+
+    it('should cap the delay at five minutes', () => {
+      expect(getBackoffSeconds(50)).toBe(300)
+    })
+  })
+
+  describe('getLockStatus', () => {
+    it('should be open for an account with no failures', () => {
+      expect(AccountLockoutService.getLockStatus(account(), NOW)).toEqual({ state: 'open' })
+    })
+
+    it('should throttle until the backoff has passed', () => {
+      const user = account({ failedLoginAttempts: FREE_LOGIN_ATTEMPTS + 2, lastFailedLoginAt: secondsAgo(1) })
+
+      expect(AccountLockoutService.getLockStatus(user, NOW)).toEqual({ state: 'throttled', retryAfter: 3 })
+      expect(AccountLockoutService.getLockStatus({ ...user, lastFailedLoginAt: secondsAgo(5) }, NOW))
+        .toEqual({ state: 'open' })
+    })
+
+    it('should report a lock with the time left on it', () => {
+      const lockedUntil = new Date(NOW.getTime() + 90 * 1000)
+      const user = account({ failedLoginAttempts: 10, lastFailedLoginAt: secondsAgo(1), lockedUntil })
+
+      expect(AccountLockoutService.getLockStatus(user, NOW)).toEqual({ state: 'locked', lockedUntil, retryAfter: 90 })
+    })
+
+    it('should open once the lock has expired', () => {
+      const user = account({ failedLoginAttempts: 10, lastFailedLoginAt: secondsAgo(1), lockedUntil: secondsAgo(1) })
+
+      expect(AccountLockoutService.getLockStatus(user, NOW)).toEqual({ state: 'open' })
+    })
+
+    it('should forget failures older than a day', () => {
+      const user = account({ failedLoginAttempts: 9, lastFailedLoginAt: secondsAgo(25 * 60 * 60) })
+
+      expect(AccountLockoutService.getLockStatus(user, NOW)).toEqual({ state: 'open' })
+    })
+  })
+
+  describe('claimAttempt', () => {
+    beforeEach(() => {
+      jest.clearAllMocks()
+      jest.useFakeTimers({ now: NOW })
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('should count the attempt only if the row is still what the check saw', async () => {
+      const user = account({ failedLoginAttempts: 1, lastFailedLoginAt: secondsAgo(60) })
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 })
+
+      const claim = await AccountLockoutService.claimAttempt(user)
+
+      expect(claim).toMatchObject({ state: 'claimed', failedAttempts: 2 })
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'test-user-id', failedLoginAttempts: 1, lastFailedLoginAt: secondsAgo(60), lockedUntil: null },
+        data: { failedLoginAttempts: 2, lastFailedLoginAt: NOW },
+      })
+    })
+
+    it('should hold back an attempt that lost the race until the backoff has passed', async () => {
+      const user = account({ failedLoginAttempts: FREE_LOGIN_ATTEMPTS, lastFailedLoginAt: secondsAgo(60) })
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 0 })
+      mockPrisma.user.findUnique.mockResolvedValue({ ...user, failedLoginAttempts: FREE_LOGIN_ATTEMPTS + 1, lastFailedLoginAt: NOW })
+
+      expect(await AccountLockoutService.claimAttempt(user)).toEqual({ state: 'throttled', retryAfter: 2 })
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not claim anything for a locked account', async () => {
+      const lockedUntil = new Date(NOW.getTime() + 60 * 1000)
+
+      expect(await AccountLockoutService.claimAttempt(account({ lockedUntil })))
+        .toEqual({ state: 'locked', lockedUntil, retryAfter: 60 })
+      expect(mockPrisma.user.updateMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('recordFailure', () => {
+    const claim = (failedAttempts: number) => ({
+      state: 'claimed' as const,
+      failedAttempts,
+      claimedAt: NOW,
+      previous: { failedLoginAttempts: failedAttempts - 1, lastFailedLoginAt: secondsAgo(600) },
+    })
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+    })
+
+    it('should leave the account open below the threshold', async () => {
+      expect(await AccountLockoutService.recordFailure(account(), claim(LOCKOUT_THRESHOLD - 1)))
+        .toEqual({ failedAttempts: LOCKOUT_THRESHOLD - 1 })
+      expect(mockPrisma.user.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should lock once, for the attempt that crossed the threshold', async () => {
+      mockPrisma.user.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 })
+
+      const first = await AccountLockoutService.recordFailure(account(), claim(LOCKOUT_THRESHOLD))
+      const second = await AccountLockoutService.recordFailure(account(), claim(LOCKOUT_THRESHOLD))
+
+      expect(first).toEqual({ failedAttempts: LOCKOUT_THRESHOLD, lockedUntil: expect.any(Date), unlockToken: expect.any(String) })
+      expect(second).toEqual({ failedAttempts: LOCKOUT_THRESHOLD })
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'test-user-id', lockedUntil: null },
+      }))
+    })
+  })
+})
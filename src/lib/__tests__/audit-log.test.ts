@@ -0,0 +1,193 @@
+import { NextRequest } from 'next/server'
+import { AuditLogService } from '../audit-log'
+import { AuthLogger } from '../auth-logger'
+import { prisma } from '../prisma'
+import { AuditQuery } from '../validation'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    authAuditLog: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      deleteMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    authSecurityAlert: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      deleteMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}))
+
+const mockPrisma = prisma as unknown as {
+  authAuditLog: { createMany: jest.Mock; findMany: jest.Mock; count: jest.Mock; deleteMany: jest.Mock; updateMany: jest.Mock }
+  authSecurityAlert: { createMany: jest.Mock; findMany: jest.Mock; count: jest.Mock; deleteMany: jest.Mock; updateMany: jest.Mock }
+}
+
+// AuthLogger only reads headers from the request
+function fakeRequest(ip: string): NextRequest {
+  const headers: Record<string, string> = { 'x-forwarded-for': ip, 'user-agent': 'jest' }
+  return { headers: { get: (name: string) => headers[name] ?? null } } as unknown as NextRequest
+}
+
+function query(overrides: Partial<AuditQuery> = {}): AuditQuery {
+  return { kind: 'events', page: 1, pageSize: 20, ...overrides }
+}
+
+describe('audit log', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.authAuditLog.findMany.mockResolvedValue([])
+    mockPrisma.authAuditLog.count.mockResolvedValue(0)
+    mockPrisma.authAuditLog.deleteMany.mockResolvedValue({ count: 0 })
+    mockPrisma.authSecurityAlert.findMany.mockResolvedValue([])
+    mockPrisma.authSecurityAlert.count.mockResolvedValue(0)
+    mockPrisma.authSecurityAlert.deleteMany.mockResolvedValue({ count: 0 })
+  })
+
+  describe('AuditLogService.find', () => {
+    it('should filter events and page newest first', async () => {
+      const from = new Date('2026-01-01')
+
+      await AuditLogService.find(query({ userId: 'user-1', event: ['login_failure', 'account_locked'], success: false, from, page: 3 }))
+
+      expect(mockPrisma.authAuditLog.findMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          userId: 'user-1',
+          event: { in: ['login_failure', 'account_locked'] },
+          success: false,
+          createdAt: { gte: from, lte: undefined },
+        }),
+        orderBy: { createdAt: 'desc' },
+        skip: 40,
+        take: 20,
+      })
+    })
+
+    it('should read alerts for kind=alerts', async () => {
+      await AuditLogService.find(query({ kind: 'alerts', level: 'critical' }))
+
+      expect(mockPrisma.authSecurityAlert.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ level: 'critical' }),
+      }))
+      expect(mockPrisma.authAuditLog.findMany).not.toHaveBeenCalled()
+    })
+
+    it('should ignore paging when exporting', async () => {
+      await AuditLogService.find(query({ page: 5 }), 10000)
+
+      expect(mockPrisma.authAuditLog.findMany).toHaveBeenCalledWith(expect.objectContaining({ skip: 0, take: 10000 }))
+    })
+  })
+
+  describe('AuditLogService.prune', () => {
+    it('should delete events and alerts older than the retention window', async () => {
+      jest.useFakeTimers({ now: new Date('2026-06-30T00:00:00Z') })
+      mockPrisma.authAuditLog.deleteMany.mockResolvedValue({ count: 12 })
+      mockPrisma.authSecurityAlert.deleteMany.mockResolvedValue({ count: 3 })
+
+      const result = await AuditLogService.prune(30)
+
+      const cutoff = new Date('2026-05-31T00:00:00Z')
+      expect(mockPrisma.authAuditLog.deleteMany).toHaveBeenCalledWith({ where: { createdAt: { lt: cutoff } } })
+      expect(mockPrisma.authSecurityAlert.deleteMany).toHaveBeenCalledWith({ where: { createdAt: { lt: cutoff } } })
+      expect(result).toEqual({ entries: 12, alerts: 3 })
+      jest.useRealTimers()
+    })
+  })
+
+  describe('AuditLogService.anonymizeUser', () => {
+    it('should strip identifying fields but keep the rows', async () => {
+      mockPrisma.authAuditLog.updateMany.mockResolvedValue({ count: 7 })
+      mockPrisma.authSecurityAlert.updateMany.mockResolvedValue({ count: 2 })
+
+      const result = await AuditLogService.anonymizeUser('user-1', 'a@example.com')
+
+      expect(mockPrisma.authAuditLog.updateMany).toHaveBeenCalledWith({
+        where: { OR: [{ userId: 'user-1' }, { email: 'a@example.com' }] },
+        data: expect.objectContaining({ userId: null, email: null, ip: 'anonymized', userAgent: 'anonymized', sessionId: null }),
+      })
+      expect(mockPrisma.authSecurityAlert.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        data: expect.objectContaining({ userId: null, ip: 'anonymized' }),
+      })
+      expect(mockPrisma.authAuditLog.deleteMany).not.toHaveBeenCalled()
+      expect(result).toEqual({ entries: 7, alerts: 2 })
+    })
+  })
+
+  describe('AuditLogService.toCsv', () => {
+    it('should write a header row and quote cells that need it', () => {
+      const csv = AuditLogService.toCsv('events', [{
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+        event: 'login_failure',
+        success: false,
+        email: 'a@example.com',
+        ip: '10.0.0.1',
+        userAgent: 'Agent "X", v1',
+        metadata: { reason: 'bad password' },
+      }])
+
+      const [header, row] = csv.trim().split('\r\n')
+      expect(header).toBe('createdAt,event,success,userId,email,ip,userAgent,sessionId,error,duration,metadata')
+      expect(row).toBe('2026-01-01T00:00:00.000Z,login_failure,false,,a@example.com,10.0.0.1,"Agent ""X"", v1",,,,"{""reason"":""bad password""}"')
+    })
+
+    it('should defuse values a spreadsheet would treat as formulas', () => {
+      const csv = AuditLogService.toCsv('events', [{ event: 'login_failure', email: '=HYPERLINK("http://evil")' }])
+
+      expect(csv).toContain(`"'=HYPERLINK(""http://evil"")"`)
+    })
+  })
+
+  describe('AuthLogger persistence', () => {
+    it('should write each event, with the alerts it raised, before returning', async () => {
+      const logger = new AuthLogger({ persist: true })
+      const request = fakeRequest('10.0.0.9')
+
+      await logger.logAuthEvent('login_attempt', request, { success: false, email: 'a@example.com' })
+
+      expect(mockPrisma.authAuditLog.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ event: 'login_attempt', ip: '10.0.0.9', email: 'a@example.com', createdAt: expect.any(Date) }),
+        ],
+      })
+
+      await logger.logAuthEvent('token_reuse', request, { success: false, userId: 'user-1' })
+
+      expect(mockPrisma.authAuditLog.createMany).toHaveBeenLastCalledWith({
+        data: [expect.objectContaining({ event: 'token_reuse', userId: 'user-1' })],
+      })
+      expect(mockPrisma.authSecurityAlert.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ level: 'critical', type: 'refresh_token_reuse', userId: 'user-1' })],
+      })
+    })
+
+    it('should keep entries for the next flush when the write fails', async () => {
+      const logger = new AuthLogger({ persist: true })
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      mockPrisma.authAuditLog.createMany.mockRejectedValueOnce(new Error('db down'))
+
+      await logger.logAuthEvent('logout', fakeRequest('10.0.0.9'), { success: true })
+      await logger.flushLogs()
+
+      expect(mockPrisma.authAuditLog.createMany).toHaveBeenCalledTimes(2)
+      expect(mockPrisma.authAuditLog.createMany.mock.calls[1][0].data).toEqual([
+        expect.objectContaining({ event: 'logout' }),
+      ])
+    })
+
+    it('should not write anything when persistence is off', async () => {
+      const logger = new AuthLogger({ persist: false })
+
+      await logger.logAuthEvent('logout', fakeRequest('10.0.0.9'), { success: true })
+      await logger.destroy()
+
+      expect(mockPrisma.authAuditLog.createMany).not.toHaveBeenCalled()
+    })
+  })
+})
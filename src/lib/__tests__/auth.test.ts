@@ -1,5 +1,8 @@
-import { getCurrentUser, verifyToken, getTokenFromRequest, signToken } from '../auth'
+import { getCurrentUser, getServerUser } from '../auth'
 import { NextRequest } from 'next/server'
+import { jwtVerify } from 'jose'
+import { cookies } from 'next/headers'
+import { SessionService } from '../session'
 
 // Mock jose library is already mocked globally
 // Mock next/headers
@@ -7,6 +10,24 @@ jest.mock('next/headers', () => ({
   cookies: jest.fn(),
 }))
 
+jest.mock('../session', () => ({
+  SessionService: {
+    isSessionActive: jest.fn().mockResolvedValue(true),
+  },
+}))
+
+const mockJwtVerify = jwtVerify as jest.Mock
+const mockSessionService = SessionService as unknown as { isSessionActive: jest.Mock }
+
+const sessionPayload = () => ({
+  userId: 'test-user-id',
+  email: 'test@example.com',
+  type: 'access',
+  sessionId: 'session-123',
+  iat: Math.floor(Date.now() / 1000),
+  exp: Math.floor(Date.now() / 1000) + 900,
+})
+
 describe('Auth Library', () => {
   beforeEach(() => {
     jest.clearAllMocks()
@@ -20,14 +41,15 @@ describe('Auth Library', () => {
         },
       } as unknown as NextRequest
 
-      // The global jose mock will return this payload
+      mockJwtVerify.mockResolvedValueOnce({ payload: sessionPayload() })
+
       const result = await getCurrentUser(mockRequest)
 
-      // Based on global mock in jest.setup.js, it returns the mocked payload
       expect(result).toEqual({
         userId: 'test-user-id',
         email: 'test@example.com',
         type: 'access',
+        sessionId: 'session-123',
         iat: expect.any(Number),
         exp: expect.any(Number),
       })
@@ -35,44 +57,99 @@ describe('Auth Library', () => {
     })
 
     it('should return user data for valid token in cookies', async () => {
-      const { cookies } = require('next/headers')
-      
       const mockRequest = {
         headers: {
           get: jest.fn().mockReturnValue(null),
         },
+        cookies: {
+          get: jest.fn().mockReturnValue({ value: 'cookie.jwt.token' }),
+        },
       } as unknown as NextRequest
 
-      // Mock cookies function to return cookie value
-      cookies.mockResolvedValue({
-        get: jest.fn().mockReturnValue({ value: 'cookie.jwt.token' }),
-      })
+      mockJwtVerify.mockResolvedValueOnce({ payload: sessionPayload() })
 
       const result = await getCurrentUser(mockRequest)
 
-      // Should return the mocked payload from global jose mock
       expect(result).toEqual({
         userId: 'test-user-id',
         email: 'test@example.com',
         type: 'access',
+        sessionId: 'session-123',
         iat: expect.any(Number),
         exp: expect.any(Number),
       })
+      expect(mockRequest.cookies.get).toHaveBeenCalledWith('access-token')
     })
 
-    it('should return null for missing token', async () => {
-      const { cookies } = require('next/headers')
-      
+    it('should ignore the retired auth-token cookie', async () => {
       const mockRequest = {
         headers: {
           get: jest.fn().mockReturnValue(null),
         },
+        cookies: {
+          get: jest.fn((name: string) => name === 'auth-token' ? { value: 'legacy.jwt.token' } : undefined),
+        },
       } as unknown as NextRequest
 
-      // Mock cookies to return no auth token
-      cookies.mockResolvedValue({
-        get: jest.fn().mockReturnValue(null),
-      })
+      const result = await getCurrentUser(mockRequest)
+
+      expect(result).toBeNull()
+      expect(mockJwtVerify).not.toHaveBeenCalled()
+    })
+
+    it('should reject a refresh token presented as an access token', async () => {
+      const mockRequest = {
+        headers: {
+          get: jest.fn().mockReturnValue('Bearer refresh.jwt.token'),
+        },
+      } as unknown as NextRequest
+
+      mockJwtVerify.mockResolvedValueOnce({ payload: { ...sessionPayload(), type: 'refresh' } })
+
+      const result = await getCurrentUser(mockRequest)
+
+      expect(result).toBeNull()
+      expect(mockSessionService.isSessionActive).not.toHaveBeenCalled()
+    })
+
+    it('should return null for a revoked session', async () => {
+      const mockRequest = {
+        headers: {
+          get: jest.fn().mockReturnValue('Bearer valid.jwt.token'),
+        },
+      } as unknown as NextRequest
+
+      mockJwtVerify.mockResolvedValueOnce({ payload: sessionPayload() })
+      mockSessionService.isSessionActive.mockResolvedValueOnce(false)
+
+      const result = await getCurrentUser(mockRequest)
+
+      expect(result).toBeNull()
+      expect(mockSessionService.isSessionActive).toHaveBeenCalledWith('session-123')
+    })
+
+    it('should return null for tokens without a session', async () => {
+      const mockRequest = {
+        headers: {
+          get: jest.fn().mockReturnValue('Bearer valid.jwt.token'),
+        },
+      } as unknown as NextRequest
+
+      // The global jose mock returns a payload without a sessionId
+      const result = await getCurrentUser(mockRequest)
+
+      expect(result).toBeNull()
+    })
+
+    it('should return null for missing token', async () => {
+      const mockRequest = {
+        headers: {
+          get: jest.fn().mockReturnValue(null),
+        },
+        cookies: {
+          get: jest.fn().mockReturnValue(undefined),
+        },
+      } as unknown as NextRequest
 
       const result = await getCurrentUser(mockRequest)
 
@@ -151,4 +228,26 @@ describe('Auth Library', () => {
       expect(result).toBeNull()
     })
   })
+
+  describe('getServerUser', () => {
+    it('should read the access-token cookie in server components', async () => {
+      const cookieStore = { get: jest.fn().mockReturnValue({ value: 'cookie.jwt.token' }) }
+      ;(cookies as jest.Mock).mockResolvedValue(cookieStore)
+      mockJwtVerify.mockResolvedValueOnce({ payload: sessionPayload() })
+
+      const result = await getServerUser()
+
+      expect(result).toEqual(expect.objectContaining({ userId: 'test-user-id', sessionId: 'session-123' }))
+      expect(cookieStore.get).toHaveBeenCalledWith('access-token')
+    })
+
+    it('should return null without a cookie', async () => {
+      ;(cookies as jest.Mock).mockResolvedValue({ get: jest.fn().mockReturnValue(undefined) })
+
+      const result = await getServerUser()
+
+      expect(result).toBeNull()
+      expect(mockJwtVerify).not.toHaveBeenCalled()
+    })
+  })
 })
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { NextRequest } from 'next/server'
+import { getClientIp, getTrustedProxyConfig, ipMatches, normalizeIp, resolveClientIp } from '../client-ip'
+
+const request = (headers: Record<string, string>) => ({
+  headers: { get: (name: string) => headers[name] ?? null },
+}) as unknown as NextRequest
+
+const forwardedFor = (value: string) => ({ get: (name: string) => (name === 'x-forwarded-for' ? value : null) })
+
+describe('client-ip', () => {
+  const originalProxies = process.env.TRUSTED_PROXIES
+  const originalHops = process.env.TRUSTED_PROXY_HOPS
+
+  beforeEach(() => {
+    delete process.env.TRUSTED_PROXIES
+    delete process.env.TRUSTED_PROXY_HOPS
+  })
+
+  afterAll(() => {
+    if (originalProxies !== undefined) process.env.TRUSTED_PROXIES = originalProxies
+    if (originalHops !== undefined) process.env.TRUSTED_PROXY_HOPS = originalHops
+  })
+
+  describe('getClientIp', () => {
+    it('should take the address the proxy in front of the app appended', () => {
+      expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7')
+      expect(getClientIp(request({ 'x-forwarded-for': '10.0.0.1, 203.0.113.7' }))).toBe('203.0.113.7')
+      expect(getClientIp(request({}))).toBe('unknown')
+    })
+
+    it('should ignore addresses a client prepends to X-Forwarded-For', () => {
+      // The client sent "X-Forwarded-For: 192.0.2.1" and the proxy appended the real address
+      expect(getClientIp(request({ 'x-forwarded-for': '192.0.2.1, 203.0.113.7' }))).toBe('203.0.113.7')
+      expect(getClientIp(request({ 'x-forwarded-for': '192.0.2.1, 192.0.2.2, 192.0.2.3, 203.0.113.7' }))).toBe('203.0.113.7')
+    })
+
+    it('should never trust X-Real-IP or X-Client-IP', () => {
+      expect(getClientIp(request({ 'x-real-ip': '198.51.100.2' }))).toBe('unknown')
+      expect(getClientIp(request({ 'x-client-ip': '198.51.100.2', 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7')
+    })
+
+    it('should report junk in the client entry as unknown', () => {
+      expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.7, <script>' }))).toBe('unknown')
+      expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.7, 999.1.1.1' }))).toBe('unknown')
+      expect(getClientIp(request({ 'x-forwarded-for': ' , ' }))).toBe('unknown')
+    })
+
+    it('should read the configured number of hops from the right', () => {
+      process.env.TRUSTED_PROXY_HOPS = '2'
+
+      expect(getClientIp(request({ 'x-forwarded-for': '192.0.2.1, 203.0.113.7, 10.0.0.2' }))).toBe('203.0.113.7')
+      // Fewer entries than hops: the leftmost is what the next proxy in saw
+      expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7')
+    })
+  })
+
+  describe('resolveClientIp', () => {
+    it('should skip Cloudflare edges behind the cloudflare preset', () => {
+      process.env.TRUSTED_PROXIES = 'cloudflare'
+
+      expect(resolveClientIp(forwardedFor('192.0.2.1, 203.0.113.7, 172.68.1.1'))).toBe('203.0.113.7')
+      expect(resolveClientIp(forwardedFor('203.0.113.7, 2606:4700::6810:84e5'))).toBe('203.0.113.7')
+      // Not a Cloudflare address, so whoever sent it is the client
+      expect(resolveClientIp(forwardedFor('203.0.113.7, 198.51.100.9'))).toBe('198.51.100.9')
+    })
+
+    it('should skip private hops behind the nginx preset', () => {
+      process.env.TRUSTED_PROXIES = 'nginx'
+
+      expect(resolveClientIp(forwardedFor('192.0.2.1, 203.0.113.7, 10.1.2.3, 127.0.0.1'))).toBe('203.0.113.7')
+      // A client can't pass itself off as a private address to get skipped: only entries right of it are trusted
+      expect(resolveClientIp(forwardedFor('10.0.0.5, 203.0.113.7'))).toBe('203.0.113.7')
+      // Every hop is internal
+      expect(resolveClientIp(forwardedFor('10.0.0.5, 10.0.0.6'))).toBe('10.0.0.5')
+    })
+
+    it('should combine presets with CIDR blocks', () => {
+      process.env.TRUSTED_PROXIES = 'cloudflare, 198.51.100.0/24'
+
+      expect(resolveClientIp(forwardedFor('203.0.113.7, 104.16.0.1, 198.51.100.20'))).toBe('203.0.113.7')
+    })
+
+    it('should use one hop for Vercel', () => {
+      process.env.TRUSTED_PROXIES = 'vercel'
+
+      expect(getTrustedProxyConfig()).toEqual({ ranges: [], hops: 1 })
+      expect(resolveClientIp(forwardedFor('192.0.2.1, 203.0.113.7'))).toBe('203.0.113.7')
+    })
+
+    it('should normalize the address it picks', () => {
+      expect(resolveClientIp(forwardedFor('[2001:DB8:0:0:0:0:0:1]:443'))).toBe('2001:db8::1')
+      expect(resolveClientIp(forwardedFor('::ffff:203.0.113.7'))).toBe('203.0.113.7')
+      expect(resolveClientIp(forwardedFor('203.0.113.7:51234'))).toBe('203.0.113.7')
+    })
+  })
+
+  describe('getTrustedProxyConfig', () => {
+    it('should refuse settings it does not understand', () => {
+      process.env.TRUSTED_PROXIES = 'cloudflair'
+      expect(() => getTrustedProxyConfig()).toThrow('Invalid TRUSTED_PROXIES entry: cloudflair')
+
+      process.env.TRUSTED_PROXIES = '10.0.0.0/33'
+      expect(() => getTrustedProxyConfig()).toThrow('Invalid TRUSTED_PROXIES entry: 10.0.0.0/33')
+
+      delete process.env.TRUSTED_PROXIES
+      process.env.TRUSTED_PROXY_HOPS = '0'
+      expect(() => getTrustedProxyConfig()).toThrow('Invalid TRUSTED_PROXY_HOPS: 0')
+    })
+  })
+
+  describe('normalizeIp', () => {
+    it('should write IPv6 the same way every time', () => {
+      expect(normalizeIp('2001:0DB8:0000:0000:0000:0000:0000:0001')).toBe('2001:db8::1')
+      expect(normalizeIp('2001:db8:0:0:1:0:0:1')).toBe('2001:db8::1:0:0:1')
+      expect(normalizeIp('2001:db8:0:1:1:1:1:1')).toBe('2001:db8:0:1:1:1:1:1')
+      expect(normalizeIp('0:0:0:0:0:0:0:0')).toBe('::')
+      expect(normalizeIp('0:0:0:0:0:0:0:1')).toBe('::1')
+      expect(normalizeIp('fe80::1%eth0')).toBe('fe80::1')
+    })
+
+    it('should write IPv4-mapped IPv6 as IPv4', () => {
+      expect(normalizeIp('::ffff:203.0.113.7')).toBe('203.0.113.7')
+      expect(normalizeIp('::ffff:cb00:7107')).toBe('203.0.113.7')
+      expect(normalizeIp('[::ffff:203.0.113.7]:8080')).toBe('203.0.113.7')
+    })
+
+    it('should reject anything that is not an address', () => {
+      expect(normalizeIp('unknown')).toBeNull()
+      expect(normalizeIp('203.0.113')).toBeNull()
+      expect(normalizeIp('2001:db8::1::1')).toBeNull()
+      expect(normalizeIp('')).toBeNull()
+    })
+  })
+
+  describe('ipMatches', () => {
+    it('should match single addresses', () => {
+      expect(ipMatches('203.0.113.7', '203.0.113.7')).toBe(true)
+      expect(ipMatches('203.0.113.8', '203.0.113.7')).toBe(false)
+      expect(ipMatches('2001:db8::1', '2001:0db8:0:0::1')).toBe(true)
+    })
+
+    it('should match IPv4 and IPv6 CIDR blocks', () => {
+      expect(ipMatches('203.0.113.200', '203.0.113.0/24')).toBe(true)
+      expect(ipMatches('203.0.114.1', '203.0.113.0/24')).toBe(false)
+      expect(ipMatches('10.20.30.40', '0.0.0.0/0')).toBe(true)
+      expect(ipMatches('2001:db8:1234::42', '2001:db8::/32')).toBe(true)
+      expect(ipMatches('2001:db9::1', '2001:db8::/32')).toBe(false)
+    })
+
+    it('should treat IPv4-mapped IPv6 addresses as IPv4', () => {
+      expect(ipMatches('::ffff:203.0.113.7', '203.0.113.0/24')).toBe(true)
+      expect(ipMatches('[::ffff:203.0.113.7]:443', '203.0.113.0/24')).toBe(true)
+    })
+
+    it('should never match malformed addresses or prefixes', () => {
+      expect(ipMatches('unknown', '0.0.0.0/0')).toBe(false)
+      expect(ipMatches('203.0.113.7', '203.0.113.0/')).toBe(false)
+      expect(ipMatches('203.0.113.7', '203.0.113.0/33')).toBe(false)
+      expect(ipMatches('203.0.113.7', '203.0.113.0/-1')).toBe(false)
+      expect(ipMatches('203.0.113.7', 'office')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,222 @@
+import { NextRequest } from 'next/server'
+import { webcrypto } from 'crypto'
+import {
+  CredentialStuffingDefense,
+  EMAIL_FAILURE_THRESHOLD,
+  IP_FAILURE_THRESHOLD,
+  POW_DIFFICULTY,
+  SPRAYING_POW_DIFFICULTY,
+  getSubnet
+} from '../credential-stuffing'
+import { hasLeadingZeroBits, solveProofOfWork } from '../proof-of-work'
+import { getRateLimitStore } from '../rate-limit-store'
+import { logSuspiciousActivity } from '../auth-logger'
+
+jest.mock('../auth-logger', () => ({
+  logSuspiciousActivity: jest.fn(),
+}))
+
+const request = (ip?: string) => ({
+  headers: { get: (name: string) => (name === 'x-forwarded-for' ? ip ?? null : null) },
+}) as unknown as NextRequest
+
+// Counters are shared through the store for the whole file, so each test signs in from its own network and accounts
+let nextNetwork = 1
+const network = () => `10.${nextNetwork++}.0`
+let nextAccount = 1
+const account = () => `victim${nextAccount++}@example.com`
+
+async function fail(times: number, ip: (i: number) => string | undefined, email: (i: number) => string) {
+  for (let i = 0; i < times; i++) {
+    await CredentialStuffingDefense.recordFailure(request(ip(i)), email(i))
+  }
+}
+
+describe('CredentialStuffingDefense', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('assess', () => {
+    it('should let a few typos through', async () => {
+      const subnet = network()
+      const email = account()
+      await fail(2, () => `${subnet}.1`, () => email)
+
+      expect(await CredentialStuffingDefense.assess(request(`${subnet}.1`), email)).toEqual({
+        challengeRequired: false, reasons: [], difficulty: POW_DIFFICULTY
+      })
+    })
+
+    it('should challenge an account failing from many addresses', async () => {
+      const email = account()
+      // A botnet: every attempt from a different network
+      await fail(EMAIL_FAILURE_THRESHOLD, () => `${network()}.1`, () => email)
+
+      const risk = await CredentialStuffingDefense.assess(request(`${network()}.1`), email)
+
+      expect(risk).toMatchObject({ challengeRequired: true, reasons: ['email_failures'] })
+      // Other accounts aren't affected
+      expect((await CredentialStuffingDefense.assess(request(`${network()}.1`), account())).challengeRequired).toBe(false)
+    })
+
+    it('should challenge one address failing against a few accounts', async () => {
+      const ip = `${network()}.1`
+      const emails = [account(), account()]
+      await fail(IP_FAILURE_THRESHOLD, () => ip, i => emails[i % 2])
+
+      const risk = await CredentialStuffingDefense.assess(request(ip), account())
+
+      expect(risk.reasons).toEqual(['ip_failures'])
+      expect(risk.difficulty).toBe(POW_DIFFICULTY)
+    })
+
+    it('should count a subnet together when its addresses rotate', async () => {
+      const subnet = network()
+      const emails = Array.from({ length: 5 }, account)
+      // 25 failures, 5 per account, each from a fresh address in the same /24
+      await fail(25, i => `${subnet}.${i + 1}`, i => emails[i % 5])
+
+      const risk = await CredentialStuffingDefense.assess(request(`${subnet}.200`), account())
+
+      expect(risk.reasons).toEqual(['subnet_failures'])
+    })
+
+    it('should detect spraying: many accounts, one guess each', async () => {
+      const ip = `${network()}.1`
+      await fail(5, () => ip, () => account())
+
+      const risk = await CredentialStuffingDefense.assess(request(ip), account())
+
+      expect(risk.reasons).toEqual(['ip_spraying'])
+      expect(risk.difficulty).toBe(SPRAYING_POW_DIFFICULTY)
+      expect(logSuspiciousActivity).toHaveBeenCalledTimes(1)
+      expect(logSuspiciousActivity).toHaveBeenCalledWith(expect.anything(), expect.any(String), {
+        metadata: { passwordSpraying: true, source: 'ip', ip, accounts: 5, failures: 5 }
+      })
+    })
+
+    it('should only count each account once toward spraying', async () => {
+      const ip = `${network()}.1`
+      const email = account()
+      await fail(4, () => ip, () => email)
+
+      expect((await CredentialStuffingDefense.assess(request(ip), account())).challengeRequired).toBe(false)
+    })
+
+    it('should detect spraying across a subnet', async () => {
+      const subnet = network()
+      await fail(15, i => `${subnet}.${i + 1}`, () => account())
+
+      expect((await CredentialStuffingDefense.assess(request(`${subnet}.99`), account())).reasons).toEqual(['subnet_spraying'])
+    })
+
+    it('should not pool clients whose address is unknown', async () => {
+      await fail(IP_FAILURE_THRESHOLD, () => undefined, () => account())
+
+      expect((await CredentialStuffingDefense.assess(request(), account())).challengeRequired).toBe(false)
+    })
+
+    it('should let sign-ins through when the store is down', async () => {
+      jest.spyOn(getRateLimitStore(), 'get').mockRejectedValue(new Error('connection refused'))
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation()
+
+      expect((await CredentialStuffingDefense.assess(request('192.0.2.1'), account())).challengeRequired).toBe(false)
+      expect(consoleSpy).toHaveBeenCalledWith('Credential stuffing check error:', expect.any(Error))
+    })
+  })
+
+  describe('getSubnet', () => {
+    it('should group IPv4 by /24 and IPv6 by /64', () => {
+      expect(getSubnet('203.0.113.7')).toBe('203.0.113.0/24')
+      expect(getSubnet('2001:db8:a:b:1:2:3:4')).toBe('2001:db8:a:b::/64')
+      expect(getSubnet('2001:db8::1')).toBe('2001:db8:0:0::/64')
+    })
+  })
+
+  describe('proof of work', () => {
+    const difficulty = 8
+    const originalCrypto = globalThis.crypto
+
+    // jsdom's crypto has no `subtle`; the solver runs on Web Crypto as it does in the browser
+    beforeAll(() => {
+      Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true })
+    })
+
+    afterAll(() => {
+      Object.defineProperty(globalThis, 'crypto', { value: originalCrypto, configurable: true })
+    })
+
+    it('should accept a solved challenge once', async () => {
+      const email = account()
+      const solution = await solveProofOfWork(CredentialStuffingDefense.issueChallenge(email, difficulty))
+
+      expect(await CredentialStuffingDefense.verifySolution(solution, email, difficulty)).toBe(true)
+      expect(await CredentialStuffingDefense.verifySolution(solution, email, difficulty)).toBe(false)
+    })
+
+    it('should refuse a solution for another account', async () => {
+      const solution = await solveProofOfWork(CredentialStuffingDefense.issueChallenge(account(), difficulty))
+
+      expect(await CredentialStuffingDefense.verifySolution(solution, account(), difficulty)).toBe(false)
+    })
+
+    it('should refuse a challenge easier than the risk now calls for', async () => {
+      const email = account()
+      const solution = await solveProofOfWork(CredentialStuffingDefense.issueChallenge(email, difficulty))
+
+      expect(await CredentialStuffingDefense.verifySolution(solution, email, difficulty + 2)).toBe(false)
+    })
+
+    it('should refuse a challenge whose difficulty was edited', async () => {
+      const email = account()
+      const { challenge } = CredentialStuffingDefense.issueChallenge(email, difficulty)
+      const easier = challenge.replace(`.${difficulty}.`, '.1.')
+      const solution = await solveProofOfWork({ challenge: easier, difficulty: 1, expiresAt: 0 })
+
+      expect(await CredentialStuffingDefense.verifySolution(solution, email, 1)).toBe(false)
+    })
+
+    it('should refuse an expired challenge', async () => {
+      const email = account()
+      const solution = await solveProofOfWork(CredentialStuffingDefense.issueChallenge(email, difficulty))
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 6 * 60 * 1000)
+
+      expect(await CredentialStuffingDefense.verifySolution(solution, email, difficulty)).toBe(false)
+    })
+
+    it('should refuse a nonce that does not solve it', async () => {
+      const email = account()
+      const issued = CredentialStuffingDefense.issueChallenge(email, 20)
+
+      expect(await CredentialStuffingDefense.verifySolution({ challenge: issued.challenge, nonce: '0' }, email, 20)).toBe(false)
+      expect(await CredentialStuffingDefense.verifySolution(undefined, email, 20)).toBe(false)
+      expect(await CredentialStuffingDefense.verifySolution({ challenge: 'a.b.c', nonce: 1 }, email, 20)).toBe(false)
+    })
+
+    it('should refuse to issue or check challenges without a signing key', async () => {
+      const secret = process.env.LOGIN_CHALLENGE_SECRET
+      const email = account()
+      const solution = await solveProofOfWork(CredentialStuffingDefense.issueChallenge(email, difficulty))
+      process.env.LOGIN_CHALLENGE_SECRET = ''
+
+      try {
+        expect(() => CredentialStuffingDefense.issueChallenge(email, difficulty)).toThrow('LOGIN_CHALLENGE_SECRET')
+        await expect(CredentialStuffingDefense.verifySolution(solution, email, difficulty)).rejects.toThrow('LOGIN_CHALLENGE_SECRET')
+      } finally {
+        process.env.LOGIN_CHALLENGE_SECRET = secret
+      }
+    })
+
+    it('should count leading zero bits', () => {
+      expect(hasLeadingZeroBits(new Uint8Array([0, 0x0f, 0xff]), 12)).toBe(true)
+      expect(hasLeadingZeroBits(new Uint8Array([0, 0x1f, 0xff]), 12)).toBe(false)
+      expect(hasLeadingZeroBits(new Uint8Array([0, 0, 0xff]), 16)).toBe(true)
+      expect(hasLeadingZeroBits(new Uint8Array([0x80]), 0)).toBe(true)
+    })
+  })
+})
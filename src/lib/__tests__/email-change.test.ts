@@ -0,0 +1,209 @@
+import { Prisma } from '@prisma/client'
+import { EmailChangeService } from '../email-change'
+import { prisma } from '../prisma'
+import { emailService } from '../email-service'
+import { SessionService } from '../session'
+import { hashToken } from '../secure-token'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('../email-service', () => ({
+  emailService: {
+    sendEmailChangeConfirmationEmail: jest.fn(),
+    sendEmailChangeNoticeEmail: jest.fn(),
+  },
+}))
+
+jest.mock('../session', () => ({
+  SessionService: {
+    revokeAllSessions: jest.fn(),
+  },
+}))
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock }
+}
+const mockEmailService = emailService as unknown as {
+  sendEmailChangeConfirmationEmail: jest.Mock
+  sendEmailChangeNoticeEmail: jest.Mock
+}
+const mockRevokeAllSessions = SessionService.revokeAllSessions as jest.Mock
+
+const user = { id: 'test-user-id', email: 'old@example.com', name: 'Test User' }
+const cleared = {
+  pendingEmail: null,
+  emailChangeToken: null,
+  emailChangeCancelToken: null,
+  emailChangeExpiresAt: null,
+}
+
+describe('EmailChangeService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockEmailService.sendEmailChangeConfirmationEmail.mockResolvedValue(true)
+    mockEmailService.sendEmailChangeNoticeEmail.mockResolvedValue(true)
+  })
+
+  describe('request', () => {
+    it('stores the pending address and mails both inboxes', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null)
+
+      const result = await EmailChangeService.request(user, 'new@example.com')
+
+      expect(result).toEqual({ status: 'requested', confirmationSent: true, noticeSent: true })
+
+      const { data } = mockPrisma.user.update.mock.calls[0][0]
+      expect(data.pendingEmail).toBe('new@example.com')
+      expect(data.emailChangeExpiresAt.getTime()).toBeGreaterThan(Date.now())
+
+      // Only hashes are stored; the raw tokens go out by email
+      const [to, , confirmToken] = mockEmailService.sendEmailChangeConfirmationEmail.mock.calls[0]
+      const [noticeTo, , newEmail, cancelToken] = mockEmailService.sendEmailChangeNoticeEmail.mock.calls[0]
+      expect(to).toBe('new@example.com')
+      expect(noticeTo).toBe('old@example.com')
+      expect(newEmail).toBe('new@example.com')
+      expect(data.emailChangeToken).toBe(hashToken(confirmToken))
+      expect(data.emailChangeCancelToken).toBe(hashToken(cancelToken))
+    })
+
+    it('refuses an address another account uses', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'other-user' })
+
+      const result = await EmailChangeService.request(user, 'taken@example.com')
+
+      expect(result).toEqual({ status: 'email_taken' })
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+      expect(mockEmailService.sendEmailChangeConfirmationEmail).not.toHaveBeenCalled()
+    })
+
+    it('ignores a request for the current address', async () => {
+      const result = await EmailChangeService.request(user, 'old@example.com')
+
+      expect(result).toEqual({ status: 'unchanged' })
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('confirm', () => {
+    const pending = {
+      id: user.id,
+      email: 'old@example.com',
+      pendingEmail: 'new@example.com',
+      emailChangeExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    }
+
+    beforeEach(() => {
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 })
+    })
+
+    it('swaps the address and revokes every other session', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(pending)
+      mockRevokeAllSessions.mockResolvedValue(2)
+
+      const result = await EmailChangeService.confirm('raw-token', 'current-session')
+
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { emailChangeToken: hashToken('raw-token') },
+      }))
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: user.id,
+          emailChangeToken: hashToken('raw-token'),
+          pendingEmail: 'new@example.com',
+          emailChangeExpiresAt: { gt: expect.any(Date) },
+        },
+        data: { email: 'new@example.com', emailVerified: true, ...cleared },
+      })
+      expect(mockRevokeAllSessions).toHaveBeenCalledWith(user.id, 'current-session')
+      expect(result).toEqual({
+        status: 'confirmed',
+        user: { id: user.id, email: 'new@example.com', previousEmail: 'old@example.com' },
+        revokedSessions: 2,
+      })
+    })
+
+    it('rejects unknown tokens', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null)
+
+      expect(await EmailChangeService.confirm('unknown')).toEqual({ status: 'invalid' })
+      expect(mockPrisma.user.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('keeps the old address when the change was cancelled after the lookup', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(pending)
+      // The cancel link from the old inbox cleared the request in between
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 0 })
+
+      expect(await EmailChangeService.confirm('raw-token')).toEqual({ status: 'invalid' })
+      expect(mockRevokeAllSessions).not.toHaveBeenCalled()
+    })
+
+    it('clears an expired request without changing the address', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...pending, emailChangeExpiresAt: new Date(Date.now() - 1000) })
+
+      const result = await EmailChangeService.confirm('raw-token')
+
+      expect(result).toEqual({ status: 'expired', userId: user.id })
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: user.id, emailChangeToken: hashToken('raw-token') },
+        data: cleared,
+      })
+      expect(mockRevokeAllSessions).not.toHaveBeenCalled()
+    })
+
+    it('reports the address as taken when someone registered it in the meantime', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(pending)
+      mockPrisma.user.updateMany
+        .mockRejectedValueOnce(new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: '6.12.0',
+        }))
+        .mockResolvedValueOnce({ count: 1 })
+
+      const result = await EmailChangeService.confirm('raw-token')
+
+      expect(result).toEqual({ status: 'email_taken', userId: user.id })
+      expect(mockPrisma.user.updateMany).toHaveBeenLastCalledWith({
+        where: { id: user.id, emailChangeToken: hashToken('raw-token') },
+        data: cleared,
+      })
+      expect(mockRevokeAllSessions).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('cancel', () => {
+    it('clears the pending change from the old-address link', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: user.id, email: 'old@example.com', pendingEmail: 'new@example.com' })
+
+      const result = await EmailChangeService.cancelWithToken('cancel-token')
+
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { emailChangeCancelToken: hashToken('cancel-token') },
+      }))
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({ where: { id: user.id }, data: cleared })
+      expect(result).toEqual({ id: user.id, email: 'old@example.com', pendingEmail: 'new@example.com' })
+    })
+
+    it('returns null once the change is no longer pending', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: user.id, email: 'new@example.com', pendingEmail: null })
+
+      expect(await EmailChangeService.cancelWithToken('cancel-token')).toBeNull()
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('reports whether a signed-in cancel removed anything', async () => {
+      mockPrisma.user.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 })
+
+      expect(await EmailChangeService.cancelForUser(user.id)).toBe(true)
+      expect(await EmailChangeService.cancelForUser(user.id)).toBe(false)
+    })
+  })
+})
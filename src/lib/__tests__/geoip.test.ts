@@ -0,0 +1,74 @@
+import { formatLocation, GeoIpDatabase, ipToBigInt } from '../geoip'
+
+const COUNTRY_CSV = [
+  '1.0.0.0,1.0.0.255,AU',
+  '81.2.69.0,81.2.69.255,GB',
+  '2001:db8::,2001:db8:ffff:ffff:ffff:ffff:ffff:ffff,NL',
+].join('\n')
+
+const CITY_CSV = [
+  'ip_start,ip_end,continent,country,stateprov,city,latitude,longitude',
+  '203.0.113.0,203.0.113.255,NA,US,District of Columbia,"Washington, D.C.",38.9,-77.0',
+  '198.51.100.0,198.51.100.127,EU,DE,Berlin,Berlin,52.5,13.4',
+].join('\r\n')
+
+describe('geoip', () => {
+  describe('ipToBigInt', () => {
+    it('should place IPv4 addresses in the IPv4-mapped IPv6 range', () => {
+      expect(ipToBigInt('0.0.0.1')).toBe(ipToBigInt('::ffff:0:1'))
+      expect(ipToBigInt('::ffff:1.2.3.4')).toBe(ipToBigInt('1.2.3.4'))
+    })
+
+    it('should reject values that are not addresses', () => {
+      expect(ipToBigInt('unknown')).toBeNull()
+      expect(ipToBigInt('ip_start')).toBeNull()
+    })
+  })
+
+  describe('GeoIpDatabase', () => {
+    it('should resolve addresses from a country dataset', () => {
+      const db = GeoIpDatabase.fromCsv(COUNTRY_CSV)
+
+      expect(db.size).toBe(3)
+      expect(db.lookup('81.2.69.160')).toEqual({ country: 'GB' })
+      expect(db.lookup('1.0.0.0')).toEqual({ country: 'AU' })
+      expect(db.lookup('2001:db8:1234::1')).toEqual({ country: 'NL' })
+    })
+
+    it('should read city datasets with quoted fields and skip the header', () => {
+      const db = GeoIpDatabase.fromCsv(CITY_CSV)
+
+      expect(db.size).toBe(2)
+      expect(db.lookup('203.0.113.7')).toEqual({
+        country: 'US',
+        region: 'District of Columbia',
+        city: 'Washington, D.C.',
+      })
+    })
+
+    it('should return null for addresses between or outside ranges', () => {
+      const db = GeoIpDatabase.fromCsv(CITY_CSV)
+
+      expect(db.lookup('198.51.100.200')).toBeNull()
+      expect(db.lookup('8.8.8.8')).toBeNull()
+      expect(db.lookup('not-an-ip')).toBeNull()
+    })
+
+    it('should label private and loopback addresses as the local network', () => {
+      const db = GeoIpDatabase.fromCsv('')
+
+      expect(db.lookup('192.168.1.20')).toEqual({ country: 'Local network' })
+      expect(db.lookup('127.0.0.1')).toEqual({ country: 'Local network' })
+      expect(db.lookup('::1')).toEqual({ country: 'Local network' })
+      expect(db.lookup('fd12:3456::1')).toEqual({ country: 'Local network' })
+    })
+  })
+
+  describe('formatLocation', () => {
+    it('should join the known parts without repeating city-states', () => {
+      expect(formatLocation({ country: 'DE', region: 'Berlin', city: 'Berlin' })).toBe('Berlin, DE')
+      expect(formatLocation({ country: 'GB' })).toBe('GB')
+      expect(formatLocation(null)).toBeNull()
+    })
+  })
+})
@@ -1,4 +1,6 @@
 import { JWTService, TokenPayload } from '../jwt'
+import { prisma } from '../prisma'
+import { SessionService } from '../session'
 
 // Mock jose library
 jest.mock('jose', () => {
@@ -19,6 +21,26 @@ jest.mock('jose', () => {
   }
 })
 
+jest.mock('../prisma', () => ({
+  prisma: {
+    refreshToken: {
+      create: jest.fn(),
+      updateMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('../session', () => ({
+  SessionService: {
+    revokeSession: jest.fn(),
+  },
+}))
+
+const mockPrisma = prisma as unknown as {
+  refreshToken: { create: jest.Mock; updateMany: jest.Mock; findUnique: jest.Mock }
+}
+
 // Mock crypto
 Object.defineProperty(global, 'crypto', {
   value: {
@@ -149,6 +171,109 @@ describe('JWT Service', () => {
         refreshToken: 'test.jwt.token',
       })
     })
+
+    it('should record the refresh token of a persisted session', async () => {
+      await JWTService.createTokenPair({
+        userId: 'user-123',
+        email: 'test@example.com',
+        sessionId: 'session-456',
+      }, 'parent-jti')
+
+      expect(mockPrisma.refreshToken.create).toHaveBeenCalledWith({
+        data: {
+          jti: 'test-uuid-123',
+          sessionId: 'session-456',
+          parentJti: 'parent-jti',
+          expiresAt: expect.any(Date),
+        },
+      })
+    })
+
+    it('should not record refresh tokens without a session', async () => {
+      await JWTService.createTokenPair({
+        userId: 'user-123',
+        email: 'test@example.com',
+      })
+
+      expect(mockPrisma.refreshToken.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('rotateRefreshToken', () => {
+    const refreshPayload: TokenPayload = {
+      userId: 'user-123',
+      email: 'test@example.com',
+      type: 'refresh',
+      sessionId: 'session-456',
+      jti: 'jti-1',
+    }
+
+    it('should rotate an unused refresh token into a new pair', async () => {
+      mockPrisma.refreshToken.updateMany.mockResolvedValue({ count: 1 })
+
+      const result = await JWTService.rotateRefreshToken(refreshPayload)
+
+      expect(result).toEqual({
+        status: 'rotated',
+        tokens: { accessToken: 'test.jwt.token', refreshToken: 'test.jwt.token' },
+      })
+      expect(mockPrisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { jti: 'jti-1', sessionId: 'session-456', rotatedAt: null },
+        data: { rotatedAt: expect.any(Date) },
+      })
+      expect(mockPrisma.refreshToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ sessionId: 'session-456', parentJti: 'jti-1' }),
+      })
+      expect(SessionService.revokeSession).not.toHaveBeenCalled()
+    })
+
+    it('should revoke the whole family when a rotated token is replayed', async () => {
+      mockPrisma.refreshToken.updateMany.mockResolvedValueOnce({ count: 0 })
+      mockPrisma.refreshToken.findUnique.mockResolvedValue({
+        sessionId: 'session-456',
+        rotatedAt: new Date(Date.now() - 60 * 1000),
+      })
+
+      const result = await JWTService.rotateRefreshToken(refreshPayload)
+
+      expect(result).toEqual({ status: 'reused' })
+      expect(mockPrisma.refreshToken.updateMany).toHaveBeenLastCalledWith({
+        where: { sessionId: 'session-456', rotatedAt: null },
+        data: { rotatedAt: expect.any(Date) },
+      })
+      expect(SessionService.revokeSession).toHaveBeenCalledWith('session-456')
+      expect(mockPrisma.refreshToken.create).not.toHaveBeenCalled()
+    })
+
+    it('should tolerate a concurrent refresh within the grace period', async () => {
+      mockPrisma.refreshToken.updateMany.mockResolvedValue({ count: 0 })
+      mockPrisma.refreshToken.findUnique.mockResolvedValue({
+        sessionId: 'session-456',
+        rotatedAt: new Date(),
+      })
+
+      const result = await JWTService.rotateRefreshToken(refreshPayload)
+
+      expect(result.status).toBe('rotated')
+      expect(SessionService.revokeSession).not.toHaveBeenCalled()
+    })
+
+    it('should reject refresh tokens that were never recorded', async () => {
+      mockPrisma.refreshToken.updateMany.mockResolvedValue({ count: 0 })
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(null)
+
+      const result = await JWTService.rotateRefreshToken(refreshPayload)
+
+      expect(result).toEqual({ status: 'unknown' })
+      expect(mockPrisma.refreshToken.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject refresh tokens without a jti', async () => {
+      const result = await JWTService.rotateRefreshToken({ ...refreshPayload, jti: undefined })
+
+      expect(result).toEqual({ status: 'unknown' })
+      expect(mockPrisma.refreshToken.updateMany).not.toHaveBeenCalled()
+    })
   })
 
   describe('verifyAccessToken', () => {
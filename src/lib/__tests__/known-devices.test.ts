@@ -0,0 +1,181 @@
+import { NextRequest } from 'next/server'
+import { deviceFamily, ipPrefix, KnownDeviceService } from '../known-devices'
+import { prisma } from '../prisma'
+import { emailService } from '../email-service'
+import { logAuthEvent } from '../auth-logger'
+import { hashToken } from '../secure-token'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    knownDevice: {
+      updateMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      delete: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('../email-service', () => ({
+  emailService: {
+    sendNewDeviceEmail: jest.fn(),
+  },
+}))
+
+jest.mock('../auth-logger', () => ({
+  ...jest.requireActual('../auth-logger'),
+  logAuthEvent: jest.fn(),
+}))
+
+jest.mock('../geoip', () => ({
+  ...jest.requireActual('../geoip'),
+  lookupLocation: jest.fn(() => ({ country: 'DE', region: 'Berlin', city: 'Berlin' })),
+}))
+
+const mockPrisma = prisma as unknown as {
+  knownDevice: {
+    updateMany: jest.Mock
+    count: jest.Mock
+    create: jest.Mock
+    findUnique: jest.Mock
+    delete: jest.Mock
+  }
+  user: { findUnique: jest.Mock }
+}
+const mockEmailService = emailService as unknown as { sendNewDeviceEmail: jest.Mock }
+
+const chromeOnMac = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+const user = { id: 'test-user-id', email: 'test@example.com' }
+
+// KnownDeviceService only reads headers from the request
+function fakeRequest(ip: string, userAgent = chromeOnMac): NextRequest {
+  const headers: Record<string, string> = { 'x-forwarded-for': ip, 'user-agent': userAgent }
+  return { headers: { get: (name: string) => headers[name] ?? null } } as unknown as NextRequest
+}
+
+describe('known devices', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.knownDevice.updateMany.mockResolvedValue({ count: 0 })
+    mockPrisma.knownDevice.count.mockResolvedValue(1)
+    mockPrisma.knownDevice.create.mockResolvedValue({})
+    mockPrisma.user.findUnique.mockResolvedValue({ name: 'Test User' })
+    mockEmailService.sendNewDeviceEmail.mockResolvedValue(true)
+  })
+
+  describe('fingerprints', () => {
+    it('should ignore browser versions', () => {
+      const newer = chromeOnMac.replace('Chrome/120.0.0.0', 'Chrome/126.0.0.0')
+      expect(deviceFamily(newer)).toBe(deviceFamily(chromeOnMac))
+      expect(deviceFamily(chromeOnMac)).toBe('Chrome|macOS|desktop')
+    })
+
+    it('should group addresses by network', () => {
+      expect(ipPrefix('203.0.113.7')).toBe('203.0.113.0/24')
+      expect(ipPrefix('::ffff:203.0.113.99')).toBe('203.0.113.0/24')
+      expect(ipPrefix('2001:db8:abcd:12::1')).toBe('2001:db8:abcd::/48')
+      expect(ipPrefix('2001:0db8::1')).toBe('2001:db8:0::/48')
+      expect(ipPrefix('unknown')).toBe('unknown')
+    })
+  })
+
+  describe('recordSignIn', () => {
+    it('should only touch a device the user has used before', async () => {
+      mockPrisma.knownDevice.updateMany.mockResolvedValue({ count: 1 })
+
+      const result = await KnownDeviceService.recordSignIn(user, fakeRequest('203.0.113.7'))
+
+      expect(result).toEqual({ newDevice: false })
+      expect(mockPrisma.knownDevice.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'test-user-id', family: 'Chrome|macOS|desktop', ipPrefix: '203.0.113.0/24' },
+        data: { lastSeenAt: expect.any(Date) },
+      })
+      expect(mockPrisma.knownDevice.create).not.toHaveBeenCalled()
+      expect(mockEmailService.sendNewDeviceEmail).not.toHaveBeenCalled()
+    })
+
+    it('should remember the first device without warning', async () => {
+      mockPrisma.knownDevice.count.mockResolvedValue(0)
+
+      const result = await KnownDeviceService.recordSignIn(user, fakeRequest('203.0.113.7'))
+
+      expect(result).toEqual({ newDevice: false })
+      expect(mockPrisma.knownDevice.create).toHaveBeenCalledWith({
+        data: expect.not.objectContaining({ secureToken: expect.anything() }),
+      })
+      expect(mockEmailService.sendNewDeviceEmail).not.toHaveBeenCalled()
+      expect(logAuthEvent).not.toHaveBeenCalled()
+    })
+
+    it('should email the owner about a new device with a secure link', async () => {
+      const result = await KnownDeviceService.recordSignIn(user, fakeRequest('198.51.100.4'))
+
+      expect(result).toEqual({ newDevice: true })
+      const stored = mockPrisma.knownDevice.create.mock.calls[0][0].data
+      expect(stored).toEqual(expect.objectContaining({
+        ipPrefix: '198.51.100.0/24',
+        location: 'Berlin, DE',
+        secureTokenExpiresAt: expect.any(Date),
+      }))
+
+      expect(mockEmailService.sendNewDeviceEmail).toHaveBeenCalledWith('test@example.com', 'Test User', {
+        signedInAt: expect.any(Date),
+        device: 'Chrome on macOS',
+        ip: '198.51.100.4',
+        location: 'Berlin, DE',
+        secureToken: expect.any(String),
+      })
+      // Only the hash of the emailed token is stored
+      const { secureToken } = mockEmailService.sendNewDeviceEmail.mock.calls[0][2]
+      expect(stored.secureToken).toBe(hashToken(secureToken))
+      expect(logAuthEvent).toHaveBeenCalledWith('new_device_login', expect.any(Object), expect.objectContaining({
+        userId: 'test-user-id',
+        metadata: expect.objectContaining({ ipPrefix: '198.51.100.0/24' }),
+      }))
+    })
+
+    it('should still record the device when the email fails', async () => {
+      mockEmailService.sendNewDeviceEmail.mockRejectedValue(new Error('SMTP down'))
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await KnownDeviceService.recordSignIn(user, fakeRequest('198.51.100.4'))
+
+      expect(result).toEqual({ newDevice: true })
+      expect(mockPrisma.knownDevice.create).toHaveBeenCalled()
+      consoleError.mockRestore()
+    })
+  })
+
+  describe('redeemSecureToken', () => {
+    it('should forget the device and return its owner', async () => {
+      mockPrisma.knownDevice.findUnique.mockResolvedValue({
+        id: 'device-1',
+        secureTokenExpiresAt: new Date(Date.now() + 60 * 1000),
+        user: { id: 'test-user-id', email: 'test@example.com', name: 'Test User' },
+      })
+
+      const owner = await KnownDeviceService.redeemSecureToken('raw-token')
+
+      expect(owner).toEqual({ id: 'test-user-id', email: 'test@example.com', name: 'Test User' })
+      expect(mockPrisma.knownDevice.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { secureToken: hashToken('raw-token') },
+      }))
+      expect(mockPrisma.knownDevice.delete).toHaveBeenCalledWith({ where: { id: 'device-1' } })
+    })
+
+    it('should reject expired links', async () => {
+      mockPrisma.knownDevice.findUnique.mockResolvedValue({
+        id: 'device-1',
+        secureTokenExpiresAt: new Date(Date.now() - 60 * 1000),
+        user: { id: 'test-user-id', email: 'test@example.com', name: null },
+      })
+
+      expect(await KnownDeviceService.redeemSecureToken('raw-token')).toBeNull()
+      expect(mockPrisma.knownDevice.delete).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,229 @@
+import fs from 'fs'
+import path from 'path'
+import { NextResponse } from 'next/server'
+import { RATE_LIMIT_POLICIES, findRateLimitPolicy, withRateLimit } from '../rate-limit-policies'
+import { verifyAccessToken } from '../auth-tokens'
+import { logLogin, logRateLimit } from '../auth-logger'
+import { TestUtils } from '../test-utils'
+
+jest.mock('../auth-logger', () => ({
+  logAuthEvent: jest.fn(),
+  logLogin: jest.fn(),
+  logMfa: jest.fn(),
+  logRateLimit: jest.fn(),
+}))
+
+jest.mock('../auth-tokens', () => ({
+  getTokenFromRequest: jest.fn(request => request.headers.get('authorization')?.replace('Bearer ', '') || null),
+  verifyAccessToken: jest.fn(),
+}))
+
+const mockVerifyAccessToken = verifyAccessToken as jest.Mock
+
+const API_DIR = path.join(process.cwd(), 'src/app/api')
+
+// Every route.ts under src/app/api, as its URL path
+function apiRoutes(dir = API_DIR): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(dir, entry.name)
+    if (entry.isDirectory()) return apiRoutes(full)
+    return entry.name === 'route.ts' ? ['/api/' + path.relative(API_DIR, dir).split(path.sep).join('/')] : []
+  })
+}
+
+// Each test gets its own client address, so counts don't carry over through the shared store
+let nextAddress = 1
+const from = () => ({ 'x-forwarded-for': `198.51.100.${nextAddress++}` })
+
+const respond = async () => NextResponse.json({ success: true })
+
+describe('rate limit policies', () => {
+  const originalAllowlist = process.env.RATE_LIMIT_ALLOWLIST
+  let ok: jest.Mock
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ok = jest.fn(respond)
+    delete process.env.RATE_LIMIT_ALLOWLIST
+    jest.spyOn(console, 'warn').mockImplementation()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  afterAll(() => {
+    process.env.RATE_LIMIT_ALLOWLIST = originalAllowlist
+  })
+
+  describe('findRateLimitPolicy', () => {
+    it('should pick the most specific policy for a route and method', () => {
+      expect(findRateLimitPolicy('/api/auth/login', 'POST')?.limiter?.name).toBe('login')
+      expect(findRateLimitPolicy('/api/auth/oidc/google/callback', 'GET')?.limiter?.name).toBe('oidc')
+      expect(findRateLimitPolicy('/api/auth/email-change/confirm', 'POST')?.limiter?.name).toBe('email-change-verify')
+      expect(findRateLimitPolicy('/api/auth/email-change', 'DELETE')?.limiter?.name).toBe('api')
+      expect(findRateLimitPolicy('/api/auth/me', 'GET')?.limiter?.name).toBe('api')
+    })
+
+    it('should exempt the health check', () => {
+      expect(findRateLimitPolicy('/api/health', 'GET')?.limiter).toBeNull()
+    })
+
+    it('should cover every API route and export each handler through withRateLimit', () => {
+      const routes = apiRoutes()
+      expect(routes).toContain('/api/auth/signup')
+
+      for (const route of routes) {
+        const source = fs.readFileSync(path.join(process.cwd(), 'src/app', route, 'route.ts'), 'utf8')
+        expect(source).not.toMatch(/export (async )?function (GET|POST|PUT|PATCH|DELETE)\b/)
+
+        const methods = Array.from(source.matchAll(/export const (GET|POST|PUT|PATCH|DELETE) = withRateLimit\(/g), match => match[1])
+        expect(methods.length).toBeGreaterThan(0)
+        methods.forEach(method => expect(findRateLimitPolicy(route, method)).toBeDefined())
+      }
+    })
+
+    it('should only use limiters that are defined', () => {
+      RATE_LIMIT_POLICIES.forEach(policy => expect(policy.limiter).not.toBeUndefined())
+    })
+  })
+
+  describe('withRateLimit', () => {
+    it('should refuse with the standard headers once the limit is reached', async () => {
+      const login = withRateLimit(ok)
+      const headers = from()
+
+      for (let i = 0; i < 5; i++) {
+        const response = await login(TestUtils.createMockRequest('POST', '/api/auth/login', {}, headers))
+        expect(response.status).toBe(200)
+        expect(response.headers.get('RateLimit-Remaining')).toBe(String(4 - i))
+      }
+
+      const refused = await login(TestUtils.createMockRequest('POST', '/api/auth/login', {}, headers))
+
+      expect(refused.status).toBe(429)
+      expect(refused.headers.get('RateLimit-Limit')).toBe('5')
+      expect(refused.headers.get('RateLimit-Remaining')).toBe('0')
+      expect(refused.headers.get('RateLimit-Policy')).toBe('5;w=900')
+      expect(Number(refused.headers.get('Retry-After'))).toBeGreaterThan(0)
+      expect(refused.headers.get('Retry-After')).toBe(refused.headers.get('RateLimit-Reset'))
+      expect(ok).toHaveBeenCalledTimes(5)
+      expect(logLogin).toHaveBeenCalledWith(expect.anything(), false, { error: 'Rate limit exceeded' })
+    })
+
+    it('should log other refusals as rate_limit_exceeded', async () => {
+      const signup = withRateLimit(ok)
+      const headers = from()
+
+      for (let i = 0; i < 4; i++) {
+        await signup(TestUtils.createMockRequest('POST', '/api/auth/signup', {}, headers))
+      }
+
+      expect(logRateLimit).toHaveBeenCalledTimes(1)
+      expect(logRateLimit).toHaveBeenCalledWith(expect.anything(), {
+        metadata: { limiter: 'signup', route: '/api/auth/signup' }
+      })
+    })
+
+    it('should pass the route context through to the handler', async () => {
+      const handler = jest.fn(async (_request: unknown, context: { params: Promise<{ id: string }> }) => {
+        return NextResponse.json({ id: (await context.params).id })
+      })
+      const route = withRateLimit(handler)
+
+      const response = await route(
+        TestUtils.createMockRequest('DELETE', '/api/auth/sessions/abc', undefined, from()),
+        { params: Promise.resolve({ id: 'abc' }) }
+      )
+
+      expect(await response.json()).toEqual({ id: 'abc' })
+    })
+
+    it('should skip addresses on the allowlist', async () => {
+      process.env.RATE_LIMIT_ALLOWLIST = '192.0.2.0/24, 2001:db8::/32'
+      const login = withRateLimit(ok)
+
+      for (let i = 0; i < 8; i++) {
+        const response = await login(TestUtils.createMockRequest('POST', '/api/auth/login', {}, { 'x-forwarded-for': '192.0.2.10' }))
+        expect(response.status).toBe(200)
+        expect(response.headers.get('RateLimit-Limit')).toBeFalsy()
+      }
+    })
+
+    it('should never limit the health check', async () => {
+      const health = withRateLimit(ok)
+      const headers = from()
+
+      for (let i = 0; i < 120; i++) {
+        await health(TestUtils.createMockRequest('GET', '/api/health', undefined, headers))
+      }
+
+      expect(ok).toHaveBeenCalledTimes(120)
+    })
+
+    it('should count signed-in users separately behind one address', async () => {
+      const changePassword = withRateLimit(ok)
+      const headers = from()
+      mockVerifyAccessToken.mockImplementation(async (token: string) => ({ userId: token }))
+
+      for (let i = 0; i < 5; i++) {
+        await changePassword(TestUtils.createMockRequest('POST', '/api/auth/change-password', {}, { ...headers, authorization: 'Bearer alice' }))
+      }
+      const alice = await changePassword(TestUtils.createMockRequest('POST', '/api/auth/change-password', {}, { ...headers, authorization: 'Bearer alice' }))
+      const bob = await changePassword(TestUtils.createMockRequest('POST', '/api/auth/change-password', {}, { ...headers, authorization: 'Bearer bob' }))
+
+      expect(alice.status).toBe(429)
+      expect(bob.status).toBe(200)
+    })
+
+    it('should count resends per email address and leave the body readable', async () => {
+      const resend = withRateLimit(async request => NextResponse.json(await request.json()))
+
+      const responses = []
+      for (let i = 0; i < 4; i++) {
+        // A different address each time: the limit follows the inbox, not the client
+        responses.push(await resend(TestUtils.createMockRequest('POST', '/api/auth/verify-email', { email: ' Victim@Example.com' }, from())))
+      }
+      const other = await resend(TestUtils.createMockRequest('POST', '/api/auth/verify-email', { email: 'someone@example.com' }, from()))
+
+      expect(await responses[0].json()).toEqual({ email: ' Victim@Example.com' })
+      expect(responses.map(response => response.status)).toEqual([200, 200, 200, 429])
+      expect(other.status).toBe(200)
+    })
+
+    it('should also count resends per client, whatever the address', async () => {
+      const resend = withRateLimit(ok)
+      const headers = from()
+
+      const responses = []
+      for (let i = 0; i < 11; i++) {
+        responses.push(await resend(TestUtils.createMockRequest('POST', '/api/auth/verify-email', { email: `inbox${i}@example.com` }, headers)))
+      }
+
+      expect(responses.slice(0, 10).every(response => response.status === 200)).toBe(true)
+      // The inbox's own budget is what a client sees while both allow it
+      expect(responses[0].headers.get('RateLimit-Limit')).toBe('3')
+      expect(responses[10].status).toBe(429)
+      expect(logRateLimit).toHaveBeenCalledWith(expect.anything(), {
+        metadata: { limiter: 'verification-email-ip', route: '/api/auth/verify-email' }
+      })
+    })
+
+    it('should send a refused provider callback back to the login page', async () => {
+      const callback = withRateLimit(ok)
+      const headers = from()
+
+      let response = await callback(TestUtils.createMockRequest('GET', '/api/auth/oidc/google/callback', undefined, headers))
+      for (let i = 0; i < 10; i++) {
+        response = await callback(TestUtils.createMockRequest('GET', '/api/auth/oidc/google/callback', undefined, headers))
+      }
+
+      expect(response.status).toBe(307)
+      expect(response.headers.get('location')).toBe('http://localhost:3000/login?error=rate_limited')
+      expect(logLogin).toHaveBeenCalledWith(expect.anything(), false, {
+        error: 'Rate limit exceeded',
+        metadata: { method: 'oidc', provider: 'google' }
+      })
+    })
+  })
+})
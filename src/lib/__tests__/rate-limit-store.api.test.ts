@@ -0,0 +1,545 @@
+import net from 'net'
+import { Prisma } from '@prisma/client'
+import { NextRequest } from 'next/server'
+import {
+  MemoryRateLimitStore,
+  PrismaRateLimitStore,
+  RedisRateLimitStore,
+  RateLimitStore,
+  REDIS_SCRIPTS,
+  createRateLimitStore
+} from '../rate-limit-store'
+import { RedisClient } from '../redis-client'
+import { createRateLimit } from '../rate-limit'
+import { prisma } from '../prisma'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    $executeRaw: jest.fn(),
+    rateLimitCounter: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}))
+
+const mockPrisma = prisma as unknown as {
+  $queryRaw: jest.Mock
+  $executeRaw: jest.Mock
+  rateLimitCounter: { findUnique: jest.Mock; updateMany: jest.Mock; deleteMany: jest.Mock }
+}
+
+const request = (ip = '203.0.113.7') => ({
+  headers: { get: (name: string) => (name === 'x-forwarded-for' ? ip : null) },
+}) as unknown as NextRequest
+
+// Speaks enough RESP for RedisRateLimitStore: AUTH, SELECT, GET, SET NX PX, INCR, PTTL, MULTI/EXEC,
+// and EVAL of the store's own scripts, reimplemented here since there's no Lua
+function startFakeRedis(): Promise<{ url: string; commands: string[][]; close: () => Promise<void> }> {
+  const data = new Map<string, { value: string; expiresAt: number | null }>()
+  const commands: string[][] = []
+  const sockets = new Set<net.Socket>()
+
+  const live = (key: string) => {
+    const entry = data.get(key)
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      data.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  const run = ([name, ...args]: string[]): string => {
+    switch (name.toUpperCase()) {
+      case 'AUTH':
+      case 'SELECT':
+        return '+OK\r\n'
+      case 'SET': {
+        const [key, value] = args
+        const px = args.indexOf('PX')
+        if (args.includes('NX') && live(key)) return '$-1\r\n'
+        data.set(key, { value, expiresAt: px === -1 ? null : Date.now() + Number(args[px + 1]) })
+        return '+OK\r\n'
+      }
+      case 'GET': {
+        const entry = live(args[0])
+        return entry ? `$${entry.value.length}\r\n${entry.value}\r\n` : '$-1\r\n'
+      }
+      case 'EVAL': {
+        const [script, , key, ...argv] = args
+        const entry = live(key)
+        if (script === REDIS_SCRIPTS.decrement) {
+          if (entry && Number(entry.value) >= Number(argv[0])) {
+            entry.value = String(Number(entry.value) - Number(argv[0]))
+          }
+          return `:${entry ? entry.value : 0}\r\n`
+        }
+        if (script === REDIS_SCRIPTS.consumeToken) {
+          const [now, interval, burst] = argv.map(Number)
+          const current = entry ? Number(entry.value) : now
+          const tat = Math.max(current, now) + interval
+          if (tat - now > burst) return `*2\r\n:0\r\n:${current}\r\n`
+          data.set(key, { value: String(tat), expiresAt: tat })
+          return `*2\r\n:1\r\n:${tat}\r\n`
+        }
+        return '-NOSCRIPT unknown script\r\n'
+      }
+      case 'INCR': {
+        const entry = live(args[0]) || { value: '0', expiresAt: null }
+        if (!/^-?\d+$/.test(entry.value)) return '-ERR value is not an integer or out of range\r\n'
+        entry.value = String(Number(entry.value) + 1)
+        data.set(args[0], entry)
+        return `:${entry.value}\r\n`
+      }
+      case 'PTTL': {
+        const entry = live(args[0])
+        if (!entry) return ':-2\r\n'
+        return entry.expiresAt === null ? ':-1\r\n' : `:${entry.expiresAt - Date.now()}\r\n`
+      }
+      default:
+        return `-ERR unknown command '${name}'\r\n`
+    }
+  }
+
+  const server = net.createServer(socket => {
+    sockets.add(socket)
+    socket.on('close', () => sockets.delete(socket))
+
+    let buffer = ''
+    let queued: string[][] | null = null
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString()
+      const lines = buffer.split('\r\n')
+
+      // Commands arrive as arrays of bulk strings: *N, then $len / value pairs
+      let index = 0
+      while (index < lines.length && lines[index].startsWith('*')) {
+        const count = Number(lines[index].slice(1))
+        if (index + 1 + count * 2 > lines.length - 1) break
+        const command = Array.from({ length: count }, (_, i) => lines[index + 2 + i * 2])
+        index += 1 + count * 2
+        commands.push(command)
+
+        const name = command[0].toUpperCase()
+        if (name === 'MULTI') {
+          queued = []
+          socket.write('+OK\r\n')
+        } else if (name === 'EXEC') {
+          const replies = (queued || []).map(run)
+          queued = null
+          socket.write(`*${replies.length}\r\n${replies.join('')}`)
+        } else if (queued) {
+          queued.push(command)
+          socket.write('+QUEUED\r\n')
+        } else {
+          socket.write(run(command))
+        }
+      }
+      buffer = lines.slice(index).join('\r\n')
+    })
+  })
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo
+      resolve({
+        url: `redis://127.0.0.1:${port}`,
+        commands,
+        close: () => new Promise(done => {
+          sockets.forEach(socket => socket.destroy())
+          server.close(() => done())
+        }),
+      })
+    })
+  })
+}
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should count hits within a window', async () => {
+    const store = new MemoryRateLimitStore()
+
+    await store.increment('rate_limit:ip', 60000)
+    const hit = await store.increment('rate_limit:ip', 60000)
+
+    expect(hit.count).toBe(2)
+    expect(hit.resetTime).toBeGreaterThan(Date.now())
+  })
+
+  it('should start over once the window ends', async () => {
+    const store = new MemoryRateLimitStore()
+    const now = Date.now()
+    jest.spyOn(Date, 'now').mockReturnValue(now)
+    await store.increment('rate_limit:ip', 1000)
+    await store.increment('rate_limit:ip', 1000)
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 1001)
+    const hit = await store.increment('rate_limit:ip', 1000)
+
+    expect(hit).toEqual({ count: 1, resetTime: now + 2001 })
+  })
+
+  it('should give hits back without going below zero', async () => {
+    const store = new MemoryRateLimitStore()
+    await store.increment('rate_limit:ip', 60000)
+
+    await store.decrement('rate_limit:ip')
+    await store.decrement('rate_limit:ip')
+
+    expect(await store.get('rate_limit:ip')).toBe(0)
+    expect(await store.get('rate_limit:other')).toBe(0)
+  })
+
+  it('should take tokens up to the burst and refill them over time', async () => {
+    const store = new MemoryRateLimitStore()
+    const now = 1000000
+
+    const first = await store.consumeToken('bucket', 100, 200, now)
+    const second = await store.consumeToken('bucket', 100, 200, now)
+    const third = await store.consumeToken('bucket', 100, 200, now)
+    const later = await store.consumeToken('bucket', 100, 200, now + 100)
+
+    expect([first.allowed, second.allowed, third.allowed, later.allowed]).toEqual([true, true, false, true])
+    expect(second.tat).toBe(now + 200)
+    expect(third.tat).toBe(now + 200)
+  })
+
+  it('should put refunded tokens back', async () => {
+    const store = new MemoryRateLimitStore()
+    const now = Date.now()
+    await store.consumeToken('bucket', 100000, 100000, now)
+
+    await store.refundToken('bucket', 100000)
+
+    expect((await store.consumeToken('bucket', 100000, 100000, now)).allowed).toBe(true)
+  })
+
+  it('should expire old keys without scanning the rest', async () => {
+    const store = new MemoryRateLimitStore()
+    const entries = (store as unknown as { entries: Map<string, unknown> }).entries
+    const now = Date.now()
+    jest.spyOn(Date, 'now').mockReturnValue(now)
+    await store.increment('rate_limit:a', 1000)
+    await store.increment('rate_limit:b', 60000)
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 1001)
+    await store.increment('rate_limit:c', 1000)
+
+    expect([...entries.keys()].sort()).toEqual(['rate_limit:b', 'rate_limit:c'])
+  })
+
+  it('should queue each key once and expire keys by their own expiry', async () => {
+    const store = new MemoryRateLimitStore()
+    const internals = store as unknown as { entries: Map<string, unknown>; expiryHeap: unknown[] }
+    const now = 1000000
+
+    // Every allowed token moves the bucket's expiry further out
+    for (let i = 0; i < 50; i++) {
+      await store.consumeToken('bucket', 100, 60000, now + i)
+    }
+    await store.consumeToken('short', 100, 60000, now + 50)
+    await store.consumeToken('bucket', 100, 60000, now + 100)
+
+    expect(internals.expiryHeap).toHaveLength(2)
+
+    // 'short' expires long before 'bucket', which must not hold it back
+    await store.consumeToken('other', 100, 60000, now + 1000)
+
+    expect([...internals.entries.keys()].sort()).toEqual(['bucket', 'other'])
+    expect(internals.expiryHeap).toHaveLength(2)
+  })
+})
+
+describe('PrismaRateLimitStore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should increment atomically and return the window', async () => {
+    const resetAt = new Date(Date.now() + 60000)
+    mockPrisma.$queryRaw.mockResolvedValue([{ count: 3, resetAt }])
+
+    const hit = await new PrismaRateLimitStore().increment('rate_limit:ip', 60000)
+
+    expect(hit).toEqual({ count: 3, resetTime: resetAt.getTime() })
+    expect(mockPrisma.$queryRaw).toHaveBeenCalledTimes(1)
+    const [sql, key] = mockPrisma.$queryRaw.mock.calls[0]
+    expect(sql.join('?')).toContain('ON CONFLICT ("key") DO UPDATE')
+    expect(key).toBe('rate_limit:ip')
+  })
+
+  it('should only count live windows', async () => {
+    mockPrisma.rateLimitCounter.findUnique
+      .mockResolvedValueOnce({ key: 'k', count: 4, resetAt: new Date(Date.now() + 1000) })
+      .mockResolvedValueOnce({ key: 'k', count: 4, resetAt: new Date(Date.now() - 1000) })
+      .mockResolvedValueOnce(null)
+
+    const store = new PrismaRateLimitStore()
+
+    expect(await store.get('k')).toBe(4)
+    expect(await store.get('k')).toBe(0)
+    expect(await store.get('k')).toBe(0)
+  })
+
+  it('should decrement only live, positive counters', async () => {
+    await new PrismaRateLimitStore().decrement('k')
+
+    expect(mockPrisma.rateLimitCounter.updateMany).toHaveBeenCalledWith({
+      where: { key: 'k', count: { gt: 0 }, resetAt: { gt: expect.any(Date) } },
+      data: { count: { decrement: 1 } },
+    })
+  })
+
+  it('should take a token in one statement', async () => {
+    const now = Date.now()
+    mockPrisma.$queryRaw.mockResolvedValueOnce([{ count: 1, resetAt: new Date(now + 200) }])
+      .mockResolvedValueOnce([{ count: 0, resetAt: new Date(now + 200) }])
+
+    const store = new PrismaRateLimitStore()
+
+    expect(await store.consumeToken('bucket', 100, 200, now)).toEqual({ allowed: true, tat: now + 200 })
+    expect(await store.consumeToken('bucket', 100, 200, now)).toEqual({ allowed: false, tat: now + 200 })
+    const [strings, ...values] = mockPrisma.$queryRaw.mock.calls[0]
+    expect(Prisma.sql(strings, ...values).sql).toContain('GREATEST("auth_rate_limits"."resetAt"')
+  })
+
+  it('should prune expired counters', async () => {
+    const now = new Date()
+
+    await new PrismaRateLimitStore().prune(now)
+
+    expect(mockPrisma.rateLimitCounter.deleteMany).toHaveBeenCalledWith({ where: { resetAt: { lte: now } } })
+  })
+})
+
+describe('RedisRateLimitStore', () => {
+  let redis: Awaited<ReturnType<typeof startFakeRedis>>
+  const clients: RedisClient[] = []
+  const connect = (url = redis.url) => {
+    const client = new RedisClient(url)
+    clients.push(client)
+    return client
+  }
+
+  beforeEach(async () => {
+    redis = await startFakeRedis()
+  })
+
+  afterEach(async () => {
+    clients.splice(0).forEach(client => client.close())
+    await redis.close()
+  })
+
+  it('should share counts between instances', async () => {
+    const first = new RedisRateLimitStore(connect())
+    const second = new RedisRateLimitStore(connect())
+
+    await first.increment('rate_limit:ip', 60000)
+    await second.increment('rate_limit:ip', 60000)
+    const hit = await first.increment('rate_limit:ip', 60000)
+
+    expect(hit.count).toBe(3)
+    expect(hit.resetTime).toBeGreaterThan(Date.now() + 59000)
+  })
+
+  it('should set the expiry only when the window starts', async () => {
+    const store = new RedisRateLimitStore(connect())
+
+    await store.increment('rate_limit:ip', 60000)
+    await store.increment('rate_limit:ip', 60000)
+
+    const sets = redis.commands.filter(([name]) => name === 'SET')
+    expect(sets).toEqual([
+      ['SET', 'rate_limit:ip', '0', 'PX', '60000', 'NX'],
+      ['SET', 'rate_limit:ip', '0', 'PX', '60000', 'NX'],
+    ])
+    expect(redis.commands.map(([name]) => name)).toEqual([
+      'MULTI', 'SET', 'INCR', 'PTTL', 'EXEC',
+      'MULTI', 'SET', 'INCR', 'PTTL', 'EXEC',
+    ])
+  })
+
+  it('should start over once the key expires', async () => {
+    const store = new RedisRateLimitStore(connect())
+
+    await store.increment('rate_limit:ip', 20)
+    await new Promise(resolve => setTimeout(resolve, 40))
+    const hit = await store.increment('rate_limit:ip', 20)
+
+    expect(hit.count).toBe(1)
+  })
+
+  it('should authenticate and select the database from the URL', async () => {
+    const store = new RedisRateLimitStore(connect(redis.url.replace('redis://', 'redis://limiter:s3cret@') + '/2'))
+
+    await store.increment('rate_limit:ip', 60000)
+
+    expect(redis.commands.slice(0, 2)).toEqual([['AUTH', 'limiter', 's3cret'], ['SELECT', '2']])
+  })
+
+  it('should read and decrement counters', async () => {
+    const store = new RedisRateLimitStore(connect())
+    await store.increment('rate_limit:ip', 60000)
+    await store.increment('rate_limit:ip', 60000)
+
+    await store.decrement('rate_limit:ip')
+    await store.decrement('rate_limit:missing')
+
+    expect(await store.get('rate_limit:ip')).toBe(1)
+    expect(await store.get('rate_limit:missing')).toBe(0)
+  })
+
+  it('should take and refund tokens through scripts', async () => {
+    const store = new RedisRateLimitStore(connect())
+    const now = Date.now()
+
+    expect(await store.consumeToken('bucket', 30000, 30000, now)).toEqual({ allowed: true, tat: now + 30000 })
+    expect((await store.consumeToken('bucket', 30000, 30000, now)).allowed).toBe(false)
+
+    await store.refundToken('bucket', 30000)
+
+    expect((await store.consumeToken('bucket', 30000, 30000, now)).allowed).toBe(true)
+  })
+
+  it('should fail a hit when a command inside the transaction fails', async () => {
+    const client = connect()
+    await client.command('SET', 'rate_limit:ip', 'not-a-count')
+    const limiter = createRateLimit({ windowMs: 60000, maxRequests: 2, algorithm: 'fixed-window', store: new RedisRateLimitStore(client) })
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(new RedisRateLimitStore(client).increment('rate_limit:ip', 60000)).rejects.toThrow('value is not an integer')
+    // Let through, but logged as a store failure rather than counted as a fresh window
+    expect(await limiter.check(request(), { key: 'rate_limit:ip' })).toEqual(expect.objectContaining({ allowed: true }))
+    expect(consoleSpy).toHaveBeenCalledWith('Rate limit store error:', expect.objectContaining({ message: 'ERR value is not an integer or out of range' }))
+    consoleSpy.mockRestore()
+  })
+
+  it('should reject commands the server refuses', async () => {
+    await expect(connect().command('FLUSHALL')).rejects.toThrow("unknown command 'FLUSHALL'")
+  })
+
+  it('should reject when the server is unreachable', async () => {
+    const url = redis.url
+    await redis.close()
+    redis = await startFakeRedis()
+
+    await expect(new RedisRateLimitStore(connect(url)).increment('rate_limit:ip', 60000)).rejects.toThrow()
+  })
+
+  it('should give up on a server that accepts the connection but never completes it', async () => {
+    // Takes the TCP connection, then never answers the TLS handshake
+    const sockets: net.Socket[] = []
+    const silent = net.createServer(socket => sockets.push(socket))
+    await new Promise<void>(resolve => silent.listen(0, '127.0.0.1', resolve))
+    const { port } = silent.address() as net.AddressInfo
+    const client = new RedisClient(`rediss://127.0.0.1:${port}`, 100)
+
+    try {
+      await expect(client.command('PING')).rejects.toThrow('Redis connection timed out')
+    } finally {
+      client.close()
+      sockets.forEach(socket => socket.destroy())
+      await new Promise(resolve => silent.close(resolve))
+    }
+  })
+})
+
+// Runs against a real server when one is available, e.g. REDIS_TEST_URL=redis://localhost:6379/15
+const describeRedis = process.env.REDIS_TEST_URL ? describe : describe.skip
+
+describeRedis('RedisRateLimitStore against Redis', () => {
+  it('should count and expire hits', async () => {
+    const client = new RedisClient(process.env.REDIS_TEST_URL as string)
+    const store = new RedisRateLimitStore(client)
+    const key = `rate_limit:test:${Date.now()}`
+
+    try {
+      await store.increment(key, 100)
+      expect((await store.increment(key, 100)).count).toBe(2)
+      await store.decrement(key)
+      expect(await store.get(key)).toBe(1)
+
+      await new Promise(resolve => setTimeout(resolve, 150))
+      expect((await store.increment(key, 100)).count).toBe(1)
+    } finally {
+      client.close()
+    }
+  })
+
+  it('should run the token bucket script', async () => {
+    const client = new RedisClient(process.env.REDIS_TEST_URL as string)
+    const store = new RedisRateLimitStore(client)
+    const key = `rate_limit:bucket:${Date.now()}`
+    const now = Date.now()
+
+    try {
+      expect((await store.consumeToken(key, 50, 100, now)).allowed).toBe(true)
+      expect((await store.consumeToken(key, 50, 100, now)).allowed).toBe(true)
+      expect((await store.consumeToken(key, 50, 100, now)).allowed).toBe(false)
+      await store.refundToken(key, 50)
+      expect((await store.consumeToken(key, 50, 100, now)).allowed).toBe(true)
+    } finally {
+      client.close()
+    }
+  })
+})
+
+describe('createRateLimitStore', () => {
+  const env = process.env
+
+  afterEach(() => {
+    process.env = env
+  })
+
+  it('should default to memory', () => {
+    expect(createRateLimitStore(undefined)).toBeInstanceOf(MemoryRateLimitStore)
+  })
+
+  it('should pick postgres and redis', () => {
+    process.env = { ...env, REDIS_URL: 'redis://localhost:6379' }
+
+    expect(createRateLimitStore('postgres')).toBeInstanceOf(PrismaRateLimitStore)
+    expect(createRateLimitStore('redis')).toBeInstanceOf(RedisRateLimitStore)
+  })
+
+  it('should refuse redis without REDIS_URL and unknown stores', () => {
+    process.env = { ...env, REDIS_URL: '' }
+
+    expect(() => createRateLimitStore('redis')).toThrow('REDIS_URL')
+    expect(() => createRateLimitStore('mongo')).toThrow('Unknown RATE_LIMIT_STORE: mongo')
+  })
+})
+
+describe('createRateLimit with a store', () => {
+  it('should limit across limiters sharing a store', async () => {
+    const store = new MemoryRateLimitStore()
+    const first = createRateLimit({ windowMs: 60000, maxRequests: 2, store })
+    const second = createRateLimit({ windowMs: 60000, maxRequests: 2, store })
+
+    await first.check(request())
+    await second.check(request())
+    const result = await first.check(request())
+
+    expect(result.allowed).toBe(false)
+    expect(result.remaining).toBe(0)
+  })
+
+  it('should fail open when the store is down', async () => {
+    const down = jest.fn().mockRejectedValue(new Error('connection refused'))
+    const store: RateLimitStore = { increment: down, get: down, decrement: down, consumeToken: down, refundToken: down }
+    const limiter = createRateLimit({ windowMs: 60000, maxRequests: 2, store })
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const result = await limiter.check(request())
+
+    expect(result).toEqual(expect.objectContaining({ allowed: true, remaining: 2 }))
+    expect(consoleSpy).toHaveBeenCalledWith('Rate limit store error:', expect.any(Error))
+    consoleSpy.mockRestore()
+  })
+})
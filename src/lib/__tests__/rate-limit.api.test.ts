@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MemoryRateLimitStore } from '../rate-limit-store'
+import { rateLimitAlgorithms, slidingWindowRetryAt } from '../rate-limit-algorithms'
+import { createRateLimit } from '../rate-limit'
+
+const request = (ip = '203.0.113.7') => ({
+  headers: { get: (name: string) => (name === 'x-forwarded-for' ? ip : null) },
+}) as unknown as NextRequest
+
+const rule = { limit: 10, windowMs: 60000 }
+// Aligned to a window boundary, so offsets below are positions within a window
+const windowStart = 1000 * 60000
+
+async function hit(algorithm: keyof typeof rateLimitAlgorithms, store: MemoryRateLimitStore, now: number, times: number) {
+  const decisions = []
+  for (let i = 0; i < times; i++) {
+    decisions.push(await rateLimitAlgorithms[algorithm](store, 'rate_limit:ip', rule, now))
+  }
+  return decisions.filter(decision => decision.allowed).length
+}
+
+describe('rate limit algorithms', () => {
+  let now: number
+
+  beforeEach(() => {
+    now = windowStart
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should let a fixed window double up across a boundary', async () => {
+    const store = new MemoryRateLimitStore()
+    await hit('fixed-window', store, now, 1)
+
+    now = windowStart + 59000
+    const before = await hit('fixed-window', store, now, 9)
+    now = windowStart + 60000
+    const after = await hit('fixed-window', store, now, 10)
+
+    expect(before + after).toBe(19)
+  })
+
+  it('should stop the boundary burst with a sliding window', async () => {
+    const store = new MemoryRateLimitStore()
+
+    now = windowStart + 59000
+    const before = await hit('sliding-window', store, now, 10)
+    now = windowStart + 60000
+    const after = await hit('sliding-window', store, now, 10)
+
+    expect(before).toBe(10)
+    expect(after).toBe(0)
+  })
+
+  it('should weight the previous window by how much of it still overlaps', async () => {
+    const store = new MemoryRateLimitStore()
+    await hit('sliding-window', store, now, 10)
+
+    // Three quarters into the next window, a quarter of the previous 10 still counts
+    now = windowStart + 60000 + 45000
+    const decision = await rateLimitAlgorithms['sliding-window'](store, 'rate_limit:ip', rule, now)
+
+    expect(decision.allowed).toBe(true)
+    expect(decision.remaining).toBe(6)
+  })
+
+  it('should tell a refused client when the sliding window has room again', async () => {
+    const store = new MemoryRateLimitStore()
+    await hit('sliding-window', store, now, 10)
+
+    now = windowStart + 60000
+    const decision = await rateLimitAlgorithms['sliding-window'](store, 'rate_limit:ip', rule, now)
+
+    expect(decision.allowed).toBe(false)
+    // The refused request counts too: 10 * (1 - elapsed) + 1 + 1 <= 10 once a fifth of the window has passed
+    expect(decision.resetTime).toBe(windowStart + 60000 + 12000)
+  })
+
+  it('should work out the retry time from both windows', () => {
+    expect(slidingWindowRetryAt(0, 5, rule, windowStart, windowStart + 1000)).toBe(windowStart + 1000)
+    expect(slidingWindowRetryAt(10, 1, rule, windowStart, windowStart)).toBe(windowStart + 12000)
+    expect(slidingWindowRetryAt(0, 12, rule, windowStart, windowStart)).toBe(windowStart + 60000 + 15000)
+  })
+
+  it('should allow a burst from a token bucket, then one token per interval', async () => {
+    const store = new MemoryRateLimitStore()
+
+    expect(await hit('token-bucket', store, now, 12)).toBe(10)
+
+    now += 5999
+    expect(await hit('token-bucket', store, now, 1)).toBe(0)
+    now += 1
+    expect(await hit('token-bucket', store, now, 2)).toBe(1)
+  })
+
+  it('should report the remaining tokens and when the next one arrives', async () => {
+    const store = new MemoryRateLimitStore()
+
+    const first = await rateLimitAlgorithms['token-bucket'](store, 'rate_limit:ip', rule, now)
+    await hit('token-bucket', store, now, 9)
+    const refused = await rateLimitAlgorithms['token-bucket'](store, 'rate_limit:ip', rule, now)
+
+    expect(first).toMatchObject({ allowed: true, remaining: 9, resetTime: now + 6000 })
+    expect(refused).toMatchObject({ allowed: false, remaining: 0, resetTime: now + 6000 })
+  })
+})
+
+describe('createRateLimit', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  const respond = (status: number) => async () => NextResponse.json({}, { status })
+
+  it('should default to a sliding window', async () => {
+    const store = new MemoryRateLimitStore()
+    const limiter = createRateLimit({ windowMs: 60000, maxRequests: 2, store })
+
+    await limiter.check(request())
+    const keys = [...(store as unknown as { entries: Map<string, unknown> }).entries.keys()]
+
+    expect(keys).toEqual([expect.stringMatching(/^rate_limit:203\.0\.113\.7:\d+$/)])
+  })
+
+  it('should only count failures with skipSuccessfulRequests', async () => {
+    const limiter = createRateLimit({
+      windowMs: 60000, maxRequests: 2, skipSuccessfulRequests: true, store: new MemoryRateLimitStore()
+    })
+
+    for (let i = 0; i < 5; i++) {
+      expect((await limiter.middleware(request(), respond(200))).status).toBe(200)
+    }
+    await limiter.middleware(request(), respond(401))
+    await limiter.middleware(request(), respond(401))
+
+    expect((await limiter.middleware(request(), respond(200))).status).toBe(429)
+  })
+
+  it('should only count successes with skipFailedRequests', async () => {
+    const limiter = createRateLimit({
+      windowMs: 60000, maxRequests: 2, algorithm: 'token-bucket', skipFailedRequests: true, store: new MemoryRateLimitStore()
+    })
+
+    for (let i = 0; i < 5; i++) {
+      expect((await limiter.middleware(request(), respond(500))).status).toBe(500)
+    }
+    await expect(limiter.middleware(request(), async () => { throw new Error('boom') })).rejects.toThrow('boom')
+    await limiter.middleware(request(), respond(200))
+    await limiter.middleware(request(), respond(200))
+
+    // Refused requests are given back too, so a client that keeps retrying isn't locked out for longer
+    expect((await limiter.middleware(request(), respond(200))).status).toBe(429)
+    expect((await limiter.middleware(request(), respond(200))).status).toBe(429)
+  })
+
+  it('should count everything by default', async () => {
+    const limiter = createRateLimit({ windowMs: 60000, maxRequests: 2, algorithm: 'fixed-window', store: new MemoryRateLimitStore() })
+
+    await limiter.middleware(request(), respond(200))
+    await limiter.middleware(request(), respond(401))
+
+    const refused = await limiter.middleware(request(), respond(200))
+    expect(refused.status).toBe(429)
+    expect(refused.headers.get('RateLimit-Remaining')).toBe('0')
+  })
+
+  it('should still answer when a refund fails', async () => {
+    const store = new MemoryRateLimitStore()
+    jest.spyOn(store, 'decrement').mockRejectedValue(new Error('connection reset'))
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation()
+    const limiter = createRateLimit({ windowMs: 60000, maxRequests: 2, skipSuccessfulRequests: true, store })
+
+    const response = await limiter.middleware(request(), respond(200))
+
+    expect(response.status).toBe(200)
+    expect(consoleSpy).toHaveBeenCalledWith('Rate limit refund failed:', expect.any(Error))
+  })
+})
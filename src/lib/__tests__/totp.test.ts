@@ -0,0 +1,66 @@
+import { base32Decode, base32Encode, buildOtpauthUri, generateTotp, getTimeStep, verifyTotp } from '../totp'
+
+// RFC 6238 appendix B uses the ASCII key "12345678901234567890" with 8 digits;
+// these are the same vectors truncated to the 6 digits authenticator apps show
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+describe('TOTP', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255])
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes)
+    })
+
+    it('should ignore case, padding and whitespace when decoding', () => {
+      expect(base32Decode('mzxw 6ytb====').toString()).toBe('fooba')
+    })
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character')
+    })
+  })
+
+  describe('generateTotp', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ])('should match the RFC 6238 vector at T=%d', (seconds, expected) => {
+      expect(generateTotp(RFC_SECRET, getTimeStep(seconds * 1000))).toBe(expected)
+    })
+  })
+
+  describe('verifyTotp', () => {
+    const timestamp = 1111111111 * 1000
+
+    it('should return the matching time step', () => {
+      expect(verifyTotp(RFC_SECRET, '050471', { timestamp })).toBe(getTimeStep(timestamp))
+    })
+
+    it('should accept a code from the adjacent step to allow for clock drift', () => {
+      const previous = generateTotp(RFC_SECRET, getTimeStep(timestamp) - 1)
+      expect(verifyTotp(RFC_SECRET, previous, { timestamp })).toBe(getTimeStep(timestamp) - 1)
+    })
+
+    it('should reject codes outside the window', () => {
+      const stale = generateTotp(RFC_SECRET, getTimeStep(timestamp) - 2)
+      expect(verifyTotp(RFC_SECRET, stale, { timestamp })).toBeNull()
+    })
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '12345', { timestamp })).toBeNull()
+      expect(verifyTotp(RFC_SECRET, 'abcdef', { timestamp })).toBeNull()
+    })
+  })
+
+  it('should build an otpauth URI authenticator apps can scan', () => {
+    const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'user@example.com', 'Hayl Energy AI')
+
+    expect(uri).toMatch(/^otpauth:\/\/totp\/Hayl%20Energy%20AI%3Auser%40example\.com\?/)
+    expect(uri).toContain('secret=JBSWY3DPEHPK3PXP')
+    expect(uri).toContain('digits=6')
+    expect(uri).toContain('period=30')
+  })
+})
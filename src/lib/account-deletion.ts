@@ -0,0 +1,97 @@
+import { prisma } from './prisma'
+import { emailService } from './email-service'
+import { AuditLogService } from './audit-log'
+import { createExpiringToken, hashToken } from './secure-token'
+
+// How long a deletion request can still be cancelled before the account is purged
+export const ACCOUNT_DELETION_GRACE_DAYS = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS) || 30
+
+const clearedDeletion = {
+  deletionRequestedAt: null,
+  deletionScheduledFor: null,
+  deletionCancelToken: null
+}
+
+/**
+ * Self-service account deletion. A request only schedules the purge; until
+ * the grace period ends the owner can cancel from settings or from the link
+ * in the confirmation email. The purge itself runs in the background (see
+ * MaintenanceService and `npm run db:purge-accounts`).
+ */
+export class AccountDeletionService {
+  static async schedule(user: { id: string; email: string; name: string | null }): Promise<{ scheduledFor: Date; emailSent: boolean }> {
+    const { token, tokenHash, expiresAt } = createExpiringToken(ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000)
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        deletionRequestedAt: new Date(),
+        deletionScheduledFor: expiresAt,
+        deletionCancelToken: tokenHash
+      }
+    })
+
+    let emailSent = false
+    try {
+      emailSent = await emailService.sendAccountDeletionEmail(user.email, user.name, expiresAt, token)
+    } catch (emailError) {
+      console.error('Account deletion email failed:', emailError)
+    }
+
+    return { scheduledFor: expiresAt, emailSent }
+  }
+
+  static async cancel(userId: string): Promise<boolean> {
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, deletionScheduledFor: { not: null } },
+      data: clearedDeletion
+    })
+    return count > 0
+  }
+
+  // Redeems the link from the confirmation email; null once the account is gone or the link is unknown
+  static async cancelWithToken(token: string): Promise<{ id: string; email: string } | null> {
+    const user = await prisma.user.findUnique({
+      where: { deletionCancelToken: hashToken(token) },
+      select: { id: true, email: true, deletionScheduledFor: true }
+    })
+
+    if (!user || !user.deletionScheduledFor) {
+      return null
+    }
+
+    await prisma.user.update({ where: { id: user.id }, data: clearedDeletion })
+    return { id: user.id, email: user.email }
+  }
+
+  /**
+   * Deletes one account for good. Audit records are anonymized first: if the
+   * delete then fails, the next run finds the account again and retries,
+   * whereas the other order could leave identifiable records behind.
+   */
+  static async purge(user: { id: string; email: string }): Promise<void> {
+    await AuditLogService.anonymizeUser(user.id, user.email)
+    // Sessions, passkeys, devices and the rest go with the user through cascading deletes
+    await prisma.user.delete({ where: { id: user.id } })
+  }
+
+  // Purges every account whose grace period has ended; returns how many went
+  static async purgeDue(now = new Date()): Promise<number> {
+    const due = await prisma.user.findMany({
+      where: { deletionScheduledFor: { lte: now } },
+      select: { id: true, email: true }
+    })
+
+    let purged = 0
+    for (const user of due) {
+      try {
+        await this.purge(user)
+        purged++
+      } catch (error) {
+        console.error(`Failed to purge account ${user.id}:`, error)
+      }
+    }
+
+    return purged
+  }
+}
@@ -0,0 +1,78 @@
+import { prisma } from './prisma'
+import { AuditLogService } from './audit-log'
+import { resolvePreferences } from './user-preferences'
+
+// Bumped when sections are renamed or removed, so tools reading old archives can tell
+export const ACCOUNT_EXPORT_VERSION = 1
+
+/**
+ * Everything stored about one account, for data-portability requests.
+ * Password and MFA secrets, token hashes and passkey public keys are
+ * credentials rather than personal data and stay out; the export says
+ * which of them exist instead.
+ */
+export async function buildAccountExport(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      emailVerified: true,
+      preferences: true,
+      pendingEmail: true,
+      passwordChangedAt: true,
+      mfaEnabled: true,
+      disabledAt: true,
+      deletionRequestedAt: true,
+      deletionScheduledFor: true,
+      createdAt: true,
+      updatedAt: true,
+      sessions: {
+        select: { createdAt: true, lastSeenAt: true, expiresAt: true, revokedAt: true, ipAddress: true, userAgent: true },
+        orderBy: { createdAt: 'desc' }
+      },
+      knownDevices: {
+        select: { family: true, ipPrefix: true, location: true, firstSeenAt: true, lastSeenAt: true },
+        orderBy: { firstSeenAt: 'desc' }
+      },
+      credentials: {
+        select: { name: true, deviceType: true, backedUp: true, transports: true, createdAt: true, lastUsedAt: true }
+      },
+      oauthAccounts: {
+        select: { provider: true, email: true, createdAt: true, lastUsedAt: true }
+      },
+      roles: {
+        select: { assignedAt: true, role: { select: { name: true } } }
+      },
+      recoveryCodes: {
+        select: { usedAt: true }
+      }
+    }
+  })
+
+  if (!user) return null
+
+  const { events, alerts } = await AuditLogService.findForUser(user.id, user.email)
+  const { sessions, knownDevices, credentials, oauthAccounts, roles, recoveryCodes, preferences, ...profile } = user
+
+  return {
+    exportVersion: ACCOUNT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile,
+    preferences: resolvePreferences(preferences),
+    roles: roles.map(({ role, assignedAt }) => ({ name: role.name, assignedAt })),
+    security: {
+      mfaEnabled: user.mfaEnabled,
+      recoveryCodesRemaining: recoveryCodes.filter(code => !code.usedAt).length,
+      passkeys: credentials,
+      linkedAccounts: oauthAccounts
+    },
+    sessions,
+    knownDevices,
+    activity: {
+      events,
+      securityAlerts: alerts
+    }
+  }
+}
@@ -0,0 +1,221 @@
+import { prisma } from './prisma'
+import { createExpiringToken, hashToken } from './secure-token'
+
+// Failures allowed before each further attempt has to wait
+export const FREE_LOGIN_ATTEMPTS = 3
+// Failures that lock the account outright
+export const LOCKOUT_THRESHOLD = 10
+export const LOCKOUT_DURATION_MINUTES = 30
+const MAX_BACKOFF_SECONDS = 5 * 60
+// A quiet day wipes the slate; old typos shouldn't count toward a lockout
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000
+// Times a claim re-reads the row after losing a race before giving up for a second
+const CLAIM_ATTEMPTS = 3
+
+export interface LockoutFields {
+  id: string
+  failedLoginAttempts: number
+  lastFailedLoginAt: Date | null
+  lockedUntil: Date | null
+}
+
+export type LockStatus =
+  | { state: 'open' }
+  | { state: 'throttled'; retryAfter: number }
+  | { state: 'locked'; lockedUntil: Date; retryAfter: number }
+
+export const lockoutSelect = {
+  failedLoginAttempts: true,
+  lastFailedLoginAt: true,
+  lockedUntil: true
+} as const
+
+// Everything that marks an account as locked or on its way there
+export const clearedLockout = {
+  failedLoginAttempts: 0,
+  lastFailedLoginAt: null,
+  lockedUntil: null,
+  unlockToken: null,
+  unlockTokenExpiresAt: null
+}
+
+// 1s after the last free attempt, doubling each time: 1, 2, 4, 8... capped at five minutes
+export function getBackoffSeconds(failedAttempts: number): number {
+  if (failedAttempts < FREE_LOGIN_ATTEMPTS) return 0
+  return Math.min(2 ** (failedAttempts - FREE_LOGIN_ATTEMPTS), MAX_BACKOFF_SECONDS)
+}
+
+export interface LockoutFailure {
+  failedAttempts: number
+  lockedUntil?: Date
+  unlockToken?: string
+}
+
+// An attempt counted as a failure up front, before the password or code is checked
+export interface ClaimedAttempt {
+  state: 'claimed'
+  failedAttempts: number
+  claimedAt: Date
+  // What the claim replaced; a right password on the way to MFA puts it back
+  previous: Pick<LockoutFields, 'failedLoginAttempts' | 'lastFailedLoginAt'>
+}
+
+export type AttemptClaim = ClaimedAttempt | Exclude<LockStatus, { state: 'open' }>
+
+/**
+ * Per-account failed-login tracking stored on the user row, so limits hold
+ * across server instances and restarts. Wrong passwords and wrong second
+ * factors count together. Signing in with a passkey, a sign-in link or a
+ * provider doesn't: those prove possession of something the attacker
+ * guessing passwords doesn't have.
+ */
+export class AccountLockoutService {
+  static getLockStatus(user: LockoutFields, now = new Date()): LockStatus {
+    if (user.lockedUntil && user.lockedUntil > now) {
+      return {
+        state: 'locked',
+        lockedUntil: user.lockedUntil,
+        retryAfter: Math.ceil((user.lockedUntil.getTime() - now.getTime()) / 1000)
+      }
+    }
+
+    if (this.isStale(user, now)) {
+      return { state: 'open' }
+    }
+
+    const waitUntil = (user.lastFailedLoginAt?.getTime() ?? 0) + getBackoffSeconds(user.failedLoginAttempts) * 1000
+    if (waitUntil > now.getTime()) {
+      return { state: 'throttled', retryAfter: Math.ceil((waitUntil - now.getTime()) / 1000) }
+    }
+
+    return { state: 'open' }
+  }
+
+  // An expired lock or a long quiet spell means the next failure starts counting from one
+  private static isStale(user: LockoutFields, now: Date): boolean {
+    if (user.lockedUntil && user.lockedUntil <= now) return true
+    return !user.lastFailedLoginAt || now.getTime() - user.lastFailedLoginAt.getTime() > FAILURE_WINDOW_MS
+  }
+
+  /**
+   * Counts an attempt as a failure before its password or code is checked,
+   * or says why it has to wait. The update only goes through if the row still
+   * holds what the lock check saw, so concurrent requests can't all pass the
+   * same check: each gets the next count, and the backoff that comes with it.
+   */
+  static async claimAttempt(user: LockoutFields): Promise<AttemptClaim> {
+    let current = user
+
+    for (let attempt = 0; attempt < CLAIM_ATTEMPTS; attempt++) {
+      const now = new Date()
+      const status = this.getLockStatus(current, now)
+      if (status.state !== 'open') return status
+
+      const stale = this.isStale(current, now)
+      const failedAttempts = stale ? 1 : current.failedLoginAttempts + 1
+      const { count } = await prisma.user.updateMany({
+        where: {
+          id: current.id,
+          failedLoginAttempts: current.failedLoginAttempts,
+          lastFailedLoginAt: current.lastFailedLoginAt,
+          lockedUntil: current.lockedUntil
+        },
+        data: stale
+          ? { ...clearedLockout, failedLoginAttempts: failedAttempts, lastFailedLoginAt: now }
+          : { failedLoginAttempts: failedAttempts, lastFailedLoginAt: now }
+      })
+
+      if (count === 1) {
+        return {
+          state: 'claimed',
+          failedAttempts,
+          claimedAt: now,
+          previous: stale
+            ? { failedLoginAttempts: 0, lastFailedLoginAt: null }
+            : { failedLoginAttempts: current.failedLoginAttempts, lastFailedLoginAt: current.lastFailedLoginAt }
+        }
+      }
+
+      // Another attempt got there first: check again against what it wrote
+      const fresh = await prisma.user.findUnique({
+        where: { id: current.id },
+        select: { id: true, ...lockoutSelect }
+      })
+      if (!fresh) break
+      current = fresh
+    }
+
+    return { state: 'throttled', retryAfter: 1 }
+  }
+
+  /**
+   * The claimed attempt turned out wrong. The claim already counted it; if it
+   * was the one that reached the threshold, the account is locked and the raw
+   * unlock token is returned for the email. Only that attempt gets a token.
+   */
+  static async recordFailure(user: LockoutFields, claim: ClaimedAttempt): Promise<LockoutFailure> {
+    if (claim.failedAttempts < LOCKOUT_THRESHOLD) {
+      return { failedAttempts: claim.failedAttempts }
+    }
+
+    const lockDurationMs = LOCKOUT_DURATION_MINUTES * 60 * 1000
+    const { token, tokenHash, expiresAt } = createExpiringToken(lockDurationMs)
+
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, lockedUntil: null },
+      data: {
+        lockedUntil: expiresAt,
+        unlockToken: tokenHash,
+        unlockTokenExpiresAt: expiresAt
+      }
+    })
+
+    return count === 1
+      ? { failedAttempts: claim.failedAttempts, lockedUntil: expiresAt, unlockToken: token }
+      : { failedAttempts: claim.failedAttempts }
+  }
+
+  // A right password whose sign-in continues with a second factor: take the claim back without clearing earlier failures
+  static async releaseAttempt(user: LockoutFields, claim: ClaimedAttempt): Promise<void> {
+    await prisma.user.updateMany({
+      where: { id: user.id, failedLoginAttempts: claim.failedAttempts, lastFailedLoginAt: claim.claimedAt },
+      data: claim.previous
+    })
+  }
+
+  static async recordSuccess(user: LockoutFields): Promise<void> {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: clearedLockout
+    })
+  }
+
+  // Redeems the link from the lockout email; returns the unlocked user or null
+  static async unlockWithToken(token: string): Promise<{ id: string; email: string } | null> {
+    const user = await prisma.user.findUnique({
+      where: { unlockToken: hashToken(token) },
+      select: { id: true, email: true, unlockTokenExpiresAt: true }
+    })
+
+    if (!user || !user.unlockTokenExpiresAt || user.unlockTokenExpiresAt < new Date()) {
+      return null
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: clearedLockout
+    })
+
+    return { id: user.id, email: user.email }
+  }
+
+  // For administrators and support tooling: lift a lock without the user's email
+  static async unlockAccount(userId: string): Promise<boolean> {
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId },
+      data: clearedLockout
+    })
+
+    return count === 1
+  }
+}
@@ -0,0 +1,199 @@
+import { NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { SessionService } from './session'
+import { RbacService, PermissionCheck } from './rbac'
+import { emailService } from './email-service'
+import { authSecurityHeaders } from './security-headers'
+import { requirePasswordReset } from './password-reset'
+import { AccountDeletionService } from './account-deletion'
+import { AdminUserQuery } from './validation'
+import { BASE_ROLE, PERMISSIONS, hasPermission } from './permissions'
+
+export interface AdminTargetUser {
+  id: string
+  email: string
+  name: string | null
+  emailVerified: boolean
+  roles: string[]
+}
+
+type AuthorizedCheck = Extract<PermissionCheck, { authorized: true }>
+
+function adminUserSelect(now: Date) {
+  return {
+    id: true,
+    email: true,
+    name: true,
+    emailVerified: true,
+    mfaEnabled: true,
+    createdAt: true,
+    lockedUntil: true,
+    disabledAt: true,
+    disabledReason: true,
+    passwordResetRequired: true,
+    roles: { select: { role: { select: { name: true } } } },
+    _count: {
+      select: {
+        sessions: { where: { revokedAt: null, expiresAt: { gt: now } } }
+      }
+    }
+  } satisfies Prisma.UserSelect
+}
+
+function errorResponse(error: string, status: number) {
+  return authSecurityHeaders.applyHeaders(NextResponse.json(
+    {
+      success: false,
+      error
+    },
+    { status }
+  ))
+}
+
+// Every sign-in route returns this for an account an administrator has disabled
+export function accountDisabledResponse(): NextResponse {
+  return authSecurityHeaders.applyHeaders(NextResponse.json(
+    {
+      success: false,
+      error: 'This account has been disabled. Contact support if you think this is a mistake.',
+      code: 'ACCOUNT_DISABLED'
+    },
+    { status: 403 }
+  ))
+}
+
+/**
+ * Account administration behind the /admin/users console. Permission checks
+ * happen in the routes (`requirePermission`); these methods only do the work.
+ */
+export class AdminUserService {
+  static async listUsers(query: AdminUserQuery) {
+    const now = new Date()
+    const where: Prisma.UserWhereInput = {}
+
+    if (query.search) {
+      where.OR = [
+        { email: { contains: query.search, mode: 'insensitive' } },
+        { name: { contains: query.search, mode: 'insensitive' } }
+      ]
+    }
+
+    if (query.emailVerified !== undefined) {
+      where.emailVerified = query.emailVerified
+    }
+
+    // Everyone holds the base role, so filtering on it means "no other role"
+    if (query.role) {
+      where.roles = query.role === BASE_ROLE
+        ? { none: {} }
+        : { some: { role: { name: query.role } } }
+    }
+
+    if (query.createdFrom || query.createdTo) {
+      where.createdAt = { gte: query.createdFrom, lte: query.createdTo }
+    }
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: adminUserSelect(now),
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.pageSize,
+        take: query.pageSize
+      }),
+      prisma.user.count({ where })
+    ])
+
+    return {
+      total,
+      users: users.map(({ roles, _count, lockedUntil, ...user }) => ({
+        ...user,
+        roles: [BASE_ROLE, ...roles.map(({ role }) => role.name)],
+        locked: !!lockedUntil && lockedUntil > now,
+        lockedUntil,
+        activeSessions: _count.sessions
+      }))
+    }
+  }
+
+  static async findTarget(userId: string): Promise<AdminTargetUser | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, name: true, emailVerified: true }
+    })
+    if (!user) return null
+
+    const { roles } = await RbacService.getUserAccess(user.id)
+    return { ...user, roles }
+  }
+
+  /**
+   * Loads the user an action targets and refuses actions that would let an
+   * administrator lock themselves out or act on someone above them: only
+   * holders of `roles:manage` may act on a super_admin.
+   */
+  static async resolveTarget(
+    check: AuthorizedCheck,
+    userId: string,
+    options: { allowSelf?: boolean } = {}
+  ): Promise<{ target: AdminTargetUser } | { response: NextResponse }> {
+    const target = await this.findTarget(userId)
+
+    if (!target) {
+      return { response: errorResponse('User not found', 404) }
+    }
+
+    if (!options.allowSelf && target.id === check.user.userId) {
+      return { response: errorResponse('You cannot perform this action on your own account', 400) }
+    }
+
+    if (target.roles.includes('super_admin') && !hasPermission(check.access, PERMISSIONS.ROLES_MANAGE)) {
+      return { response: errorResponse('Forbidden - Only a super admin can manage this account', 403) }
+    }
+
+    return { target }
+  }
+
+  static async resendVerification(user: AdminTargetUser): Promise<{ emailSent: boolean }> {
+    const verificationToken = crypto.randomUUID()
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        verificationToken,
+        tokenExpiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000) // 24 hours
+      }
+    })
+
+    const emailSent = await emailService.sendVerificationEmail(user.email, user.name, verificationToken)
+    return { emailSent }
+  }
+
+  // Signs the user out everywhere and makes the current password useless until they pick a new one
+  static async forcePasswordReset(user: AdminTargetUser): Promise<{ emailSent: boolean; revokedSessions: number }> {
+    return requirePasswordReset(user)
+  }
+
+  static async disableUser(userId: string, reason?: string): Promise<{ revokedSessions: number }> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { disabledAt: new Date(), disabledReason: reason || null }
+    })
+
+    const revokedSessions = await SessionService.revokeAllSessions(userId)
+    return { revokedSessions }
+  }
+
+  static async enableUser(userId: string): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { disabledAt: null, disabledReason: null }
+    })
+  }
+
+  // The same purge as a self-service deletion, so the user's audit records are anonymized rather than left behind
+  static async deleteUser(user: AdminTargetUser): Promise<void> {
+    await AccountDeletionService.purge(user)
+  }
+}
@@ -0,0 +1,196 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import type { AuthLogEntry, SecurityAlert } from './auth-logger'
+import { AuditQuery } from './validation'
+
+// How long audit events and alerts are kept; compliance reviews look back a year
+export const AUDIT_RETENTION_DAYS = Number(process.env.AUTH_AUDIT_RETENTION_DAYS) || 365
+
+// Most rows a single CSV/JSON export returns; narrow the date range for more
+export const AUDIT_EXPORT_LIMIT = 10000
+
+const EVENT_COLUMNS = ['createdAt', 'event', 'success', 'userId', 'email', 'ip', 'userAgent', 'sessionId', 'error', 'duration', 'metadata'] as const
+const ALERT_COLUMNS = ['createdAt', 'level', 'type', 'message', 'userId', 'ip', 'metadata'] as const
+
+function toJson(metadata: Record<string, unknown> | undefined): Prisma.InputJsonValue | undefined {
+  return metadata ? JSON.parse(JSON.stringify(metadata)) : undefined
+}
+
+function createdAtFilter(query: AuditQuery): Prisma.DateTimeFilter | undefined {
+  if (!query.from && !query.to) return undefined
+  return { gte: query.from, lte: query.to }
+}
+
+function eventWhere(query: AuditQuery): Prisma.AuthAuditLogWhereInput {
+  return {
+    userId: query.userId,
+    email: query.email,
+    ip: query.ip,
+    event: query.event ? { in: query.event } : undefined,
+    success: query.success,
+    createdAt: createdAtFilter(query)
+  }
+}
+
+function alertWhere(query: AuditQuery): Prisma.AuthSecurityAlertWhereInput {
+  return {
+    userId: query.userId,
+    ip: query.ip,
+    level: query.level,
+    type: query.type,
+    createdAt: createdAtFilter(query)
+  }
+}
+
+// One person's events: signed-in events carry their id, attempts before sign-in only the email they typed
+function subjectWhere(userId: string, email: string): Prisma.AuthAuditLogWhereInput {
+  return { OR: [{ userId }, { email }] }
+}
+
+// Stands in for the IP address and user agent of a deleted account's records
+export const ANONYMIZED = 'anonymized'
+
+// Quotes a CSV cell and defuses values a spreadsheet would run as a formula (emails and user agents are user input)
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+
+  let text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value)
+
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Postgres storage behind AuthLogger. Entries and alerts are written in
+ * batches by the logger and read back by the admin audit endpoint.
+ */
+export class AuditLogService {
+  static async saveEntries(entries: AuthLogEntry[]): Promise<void> {
+    if (entries.length === 0) return
+
+    await prisma.authAuditLog.createMany({
+      data: entries.map(entry => ({
+        event: entry.event,
+        success: entry.success,
+        userId: entry.userId,
+        email: entry.email,
+        ip: entry.ip,
+        userAgent: entry.userAgent,
+        error: entry.error,
+        sessionId: entry.sessionId,
+        duration: entry.duration,
+        metadata: toJson(entry.metadata),
+        createdAt: new Date(entry.timestamp)
+      }))
+    })
+  }
+
+  static async saveAlerts(alerts: SecurityAlert[]): Promise<void> {
+    if (alerts.length === 0) return
+
+    await prisma.authSecurityAlert.createMany({
+      data: alerts.map(alert => ({
+        level: alert.level,
+        type: alert.type,
+        message: alert.message,
+        userId: alert.userId,
+        ip: alert.ip,
+        metadata: toJson(alert.metadata),
+        createdAt: new Date(alert.timestamp)
+      }))
+    })
+  }
+
+  // One page, newest first; pass `limit` instead of paging for exports
+  static async find(query: AuditQuery, limit?: number) {
+    const skip = limit ? 0 : (query.page - 1) * query.pageSize
+    const take = limit ?? query.pageSize
+
+    if (query.kind === 'alerts') {
+      const where = alertWhere(query)
+      const [rows, total] = await Promise.all([
+        prisma.authSecurityAlert.findMany({ where, orderBy: { createdAt: 'desc' }, skip, take }),
+        prisma.authSecurityAlert.count({ where })
+      ])
+      return { rows, total }
+    }
+
+    const where = eventWhere(query)
+    const [rows, total] = await Promise.all([
+      prisma.authAuditLog.findMany({ where, orderBy: { createdAt: 'desc' }, skip, take }),
+      prisma.authAuditLog.count({ where })
+    ])
+    return { rows, total }
+  }
+
+  // Everything the audit trail holds about one account, newest first, for the data export
+  static async findForUser(userId: string, email: string) {
+    const [events, alerts] = await Promise.all([
+      prisma.authAuditLog.findMany({
+        where: subjectWhere(userId, email),
+        orderBy: { createdAt: 'desc' },
+        take: AUDIT_EXPORT_LIMIT
+      }),
+      prisma.authSecurityAlert.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: AUDIT_EXPORT_LIMIT
+      })
+    ])
+    return { events, alerts }
+  }
+
+  /**
+   * Strips whatever identifies a deleted account's owner from its events and
+   * alerts. The rows themselves stay, so counts and timelines in the audit
+   * trail still add up after the account is gone.
+   */
+  static async anonymizeUser(userId: string, email: string): Promise<{ entries: number; alerts: number }> {
+    const [entries, alerts] = await Promise.all([
+      prisma.authAuditLog.updateMany({
+        where: subjectWhere(userId, email),
+        data: {
+          userId: null,
+          email: null,
+          ip: ANONYMIZED,
+          userAgent: ANONYMIZED,
+          sessionId: null,
+          metadata: { anonymized: true }
+        }
+      }),
+      prisma.authSecurityAlert.updateMany({
+        where: { userId },
+        data: { userId: null, ip: ANONYMIZED, metadata: { anonymized: true } }
+      })
+    ])
+
+    return { entries: entries.count, alerts: alerts.count }
+  }
+
+  // Deletes events and alerts older than the retention window
+  static async prune(retentionDays = AUDIT_RETENTION_DAYS): Promise<{ entries: number; alerts: number }> {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000)
+
+    const [entries, alerts] = await Promise.all([
+      prisma.authAuditLog.deleteMany({ where: { createdAt: { lt: cutoff } } }),
+      prisma.authSecurityAlert.deleteMany({ where: { createdAt: { lt: cutoff } } })
+    ])
+
+    return { entries: entries.count, alerts: alerts.count }
+  }
+
+  static toCsv(kind: AuditQuery['kind'], rows: object[]): string {
+    const columns: readonly string[] = kind === 'alerts' ? ALERT_COLUMNS : EVENT_COLUMNS
+    const lines = rows.map(row => {
+      const record = row as Record<string, unknown>
+      return columns.map(column => csvCell(record[column])).join(',')
+    })
+
+    return [columns.join(','), ...lines].join('\r\n') + '\r\n'
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import type { TokenPair } from './jwt'
+import {
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  LEGACY_AUTH_COOKIE,
+  ACCESS_TOKEN_MAX_AGE,
+  REFRESH_TOKEN_MAX_AGE
+} from './auth-tokens'
+
+// The cookie contract itself is documented in auth-tokens.ts
+const AUTH_COOKIE_NAMES = [ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, LEGACY_AUTH_COOKIE] as const
+
+const baseCookieOptions = () => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/'
+})
+
+export function setAuthCookies(response: NextResponse, { accessToken, refreshToken }: TokenPair): NextResponse {
+  response.cookies.set(ACCESS_TOKEN_COOKIE, accessToken, {
+    ...baseCookieOptions(),
+    maxAge: ACCESS_TOKEN_MAX_AGE
+  })
+
+  response.cookies.set(REFRESH_TOKEN_COOKIE, refreshToken, {
+    ...baseCookieOptions(),
+    maxAge: REFRESH_TOKEN_MAX_AGE
+  })
+
+  return response
+}
+
+// Expire every auth cookie we have ever issued, including the retired `auth-token`
+export function clearAuthCookies(response: NextResponse): NextResponse {
+  for (const name of AUTH_COOKIE_NAMES) {
+    response.cookies.set(name, '', {
+      ...baseCookieOptions(),
+      maxAge: 0 // Expire immediately
+    })
+  }
+
+  return response
+}
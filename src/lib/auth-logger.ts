@@ -1,4 +1,6 @@
 import { NextRequest } from 'next/server'
+import { AuditLogService } from './audit-log'
+import { getClientIp } from './client-ip'
 
 interface AuthLogEntry {
   timestamp: string
@@ -18,18 +20,41 @@ type AuthEvent =
   | 'login_attempt'
   | 'login_success'
   | 'login_failure'
+  | 'new_device_login'
   | 'signup_attempt'
   | 'signup_success'
   | 'signup_failure'
   | 'logout'
+  | 'session_revoked'
   | 'token_refresh'
+  | 'token_reuse'
   | 'password_reset_request'
   | 'password_reset_success'
+  | 'password_changed'
+  | 'profile_updated'
+  | 'email_change_requested'
+  | 'email_changed'
+  | 'email_change_cancelled'
+  | 'data_exported'
+  | 'account_deletion_requested'
+  | 'account_deletion_cancelled'
   | 'account_locked'
   | 'suspicious_activity'
   | 'rate_limit_exceeded'
   | 'invalid_token'
   | 'token_expired'
+  | 'mfa_required'
+  | 'mfa_success'
+  | 'mfa_failure'
+  | 'mfa_enabled'
+  | 'mfa_disabled'
+  | 'passkey_registered'
+  | 'passkey_removed'
+  | 'oidc_account_linked'
+  | 'magic_link_request'
+  | 'account_unlocked'
+  | 'access_denied'
+  | 'admin_action'
 
 interface SecurityAlert {
   level: 'low' | 'medium' | 'high' | 'critical'
@@ -41,42 +66,36 @@ interface SecurityAlert {
   metadata?: Record<string, any>
 }
 
-class AuthLogger {
+const MAX_PENDING_WRITES = 500
+
+/**
+ * Records authentication events. The in-memory buffers are a short window for
+ * the security alert heuristics; everything is also written to Postgres
+ * (`auth_audit_logs`, `auth_security_alerts`) for the audit trail, before the
+ * logging call returns: a serverless function may be frozen as soon as it has
+ * responded, so nothing is left for a timer to write later.
+ */
+export class AuthLogger {
   private logBuffer: AuthLogEntry[] = []
   private alertBuffer: SecurityAlert[] = []
   private readonly maxBufferSize = 1000
-  private flushInterval: NodeJS.Timeout | null = null
-
-  constructor() {
-    // Flush logs every 30 seconds in production
-    if (process.env.NODE_ENV === 'production') {
-      this.flushInterval = setInterval(() => {
-        this.flushLogs()
-      }, 30000)
-    }
-  }
-
-  private extractClientInfo(request: NextRequest) {
-    // Extract IP address with fallbacks for different proxy setups
-    const forwarded = request.headers.get('x-forwarded-for')
-    const realIp = request.headers.get('x-real-ip')
-    const clientIp = request.headers.get('x-client-ip')
-    
-    let ip = forwarded?.split(',')[0]?.trim() || 
-             realIp || 
-             clientIp || 
-             (request as any).ip ||
-             'unknown'
+  private pendingEntries: AuthLogEntry[] = []
+  private pendingAlerts: SecurityAlert[] = []
+  private readonly persist: boolean
 
-    // Handle IPv6 localhost
-    if (ip === '::1') ip = '127.0.0.1'
+  // Tests mock the database per suite, so nothing is written under Jest unless asked for
+  constructor(options: { persist?: boolean } = {}) {
+    this.persist = options.persist ?? process.env.NODE_ENV !== 'test'
+  }
 
+  extractClientInfo(request: NextRequest) {
+    const ip = getClientIp(request)
     const userAgent = request.headers.get('user-agent') || 'unknown'
     
     return { ip, userAgent }
   }
 
-  logAuthEvent(
+  async logAuthEvent(
     event: AuthEvent,
     request: NextRequest,
     data: {
@@ -88,7 +107,7 @@ class AuthLogger {
       sessionId?: string
       duration?: number
     }
-  ) {
+  ): Promise<void> {
     const { ip, userAgent } = this.extractClientInfo(request)
     
     const logEntry: AuthLogEntry = {
@@ -115,10 +134,8 @@ class AuthLogger {
     // Check for security alerts
     this.checkSecurityAlerts(logEntry, request)
 
-    // In production, you might want to send to external logging service
-    if (process.env.NODE_ENV === 'production') {
-      this.sendToLoggingService(logEntry)
-    }
+    this.pendingEntries.push(logEntry)
+    await this.persistPending()
   }
 
   private checkSecurityAlerts(entry: AuthLogEntry, request: NextRequest) {
@@ -135,6 +152,21 @@ class AuthLogger {
       }
     }
 
+    // Someone with the password is guessing second-factor codes
+    if (entry.event === 'mfa_failure' && entry.userId) {
+      const recentMfaFailures = this.getRecentMfaFailures(entry.userId)
+      if (recentMfaFailures >= 5) {
+        this.createSecurityAlert('high', 'mfa_brute_force',
+          `${recentMfaFailures} failed two-factor attempts - password may be compromised`, entry, request)
+      }
+    }
+
+    // Enough wrong passwords against one account to lock it
+    if (entry.event === 'account_locked') {
+      this.createSecurityAlert('high', 'account_locked',
+        'Account locked after repeated failed login attempts', entry, request)
+    }
+
     // Rapid signup attempts from same IP
     if (entry.event === 'signup_attempt') {
       const recentSignups = this.getRecentSignups(entry.ip)
@@ -144,13 +176,28 @@ class AuthLogger {
       }
     }
 
-    // Login from new location/device
-    if (entry.event === 'login_success' && entry.userId) {
-      const isNewDevice = this.isNewDevice(entry.userId, entry.userAgent, entry.ip)
-      if (isNewDevice) {
-        this.createSecurityAlert('low', 'new_device_login', 
-          'Login from new device/location', entry, request)
-      }
+    // Sign-in from a browser and network the user hasn't used before (see KnownDeviceService)
+    if (entry.event === 'new_device_login' && entry.userId) {
+      this.createSecurityAlert('low', 'new_device_login',
+        'Sign-in from a new device or location', entry, request)
+    }
+
+    // A rotated refresh token came back: either the client or an attacker holds a stolen copy
+    if (entry.event === 'token_reuse') {
+      this.createSecurityAlert('critical', 'refresh_token_reuse',
+        'Rotated refresh token presented again - session revoked', entry, request)
+    }
+
+    // The account owner says recent activity wasn't them
+    if (entry.event === 'suspicious_activity' && entry.metadata?.reportedByUser) {
+      this.createSecurityAlert('high', 'user_reported_compromise',
+        'Account owner reported unrecognized activity - sessions revoked and password reset required', entry, request)
+    }
+
+    // A few wrong passwords each across many accounts from one address or network (see CredentialStuffingDefense)
+    if (entry.event === 'suspicious_activity' && entry.metadata?.passwordSpraying) {
+      this.createSecurityAlert('high', 'password_spraying',
+        `Failed sign-ins against ${entry.metadata.accounts} accounts from one ${entry.metadata.source === 'ip' ? 'address' : 'network'} - possible password spraying`, entry, request)
     }
 
     // Suspicious token activities
@@ -185,6 +232,7 @@ class AuthLogger {
     }
 
     this.alertBuffer.push(alert)
+    this.pendingAlerts.push(alert)
     
     // Log high and critical alerts immediately
     if (level === 'high' || level === 'critical') {
@@ -207,6 +255,15 @@ class AuthLogger {
     ).length
   }
 
+  private getRecentMfaFailures(userId: string): number {
+    const fifteenMinutesAgo = new Date(Date.now() - 15 * 60 * 1000).toISOString()
+    return this.logBuffer.filter(entry =>
+      entry.timestamp > fifteenMinutesAgo &&
+      entry.event === 'mfa_failure' &&
+      entry.userId === userId
+    ).length
+  }
+
   private getRecentSignups(ip: string): number {
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString()
     return this.logBuffer.filter(entry => 
@@ -225,36 +282,6 @@ class AuthLogger {
     ).length
   }
 
-  private isNewDevice(userId: string, userAgent: string, ip: string): boolean {
-    // Simple check - in production you'd want a more sophisticated approach
-    const userLogins = this.logBuffer.filter(entry => 
-      entry.userId === userId &&
-      entry.event === 'login_success'
-    )
-
-    // If user has logged in before, check if this device/IP combo is new
-    if (userLogins.length > 1) {
-      const knownDevices = userLogins.map(entry => `${entry.userAgent}:${entry.ip}`)
-      return !knownDevices.includes(`${userAgent}:${ip}`)
-    }
-
-    return false
-  }
-
-  private async sendToLoggingService(entry: AuthLogEntry) {
-    // In production, send to your logging service (e.g., Winston, Datadog, etc.)
-    try {
-      // Example implementation:
-      // await fetch('https://api.your-logging-service.com/logs', {
-      //   method: 'POST',
-      //   headers: { 'Content-Type': 'application/json' },
-      //   body: JSON.stringify(entry)
-      // })
-    } catch (error) {
-      console.error('Failed to send log to external service:', error)
-    }
-  }
-
   private async sendSecurityAlert(alert: SecurityAlert) {
     // Send critical security alerts to monitoring system
     try {
@@ -274,69 +301,105 @@ class AuthLogger {
     }
   }
 
-  private flushLogs() {
-    if (this.logBuffer.length > 0) {
-      // In production, batch send logs to external service
-      const logsToFlush = [...this.logBuffer]
-      this.logBuffer = []
-      
-      // Send to external logging service
-      this.batchSendLogs(logsToFlush)
+  // The event and any alerts it raised go in together
+  private async persistPending(): Promise<void> {
+    if (!this.persist) {
+      this.pendingEntries = []
+      this.pendingAlerts = []
+      return
     }
+
+    await this.flushLogs()
   }
 
-  private async batchSendLogs(logs: AuthLogEntry[]) {
+  // Writes everything pending; on failure the newest writes are kept for the next attempt
+  async flushLogs(): Promise<void> {
+    const entries = this.pendingEntries
+    const alerts = this.pendingAlerts
+    this.pendingEntries = []
+    this.pendingAlerts = []
+
     try {
-      // Batch send to logging service
-      // await fetch('https://api.your-logging-service.com/batch-logs', {
-      //   method: 'POST',
-      //   headers: { 'Content-Type': 'application/json' },
-      //   body: JSON.stringify({ logs })
-      // })
+      await AuditLogService.saveEntries(entries)
+    } catch (error) {
+      console.error('Failed to persist auth logs:', error)
+      this.pendingEntries = [...entries, ...this.pendingEntries].slice(-MAX_PENDING_WRITES)
+    }
+
+    try {
+      await AuditLogService.saveAlerts(alerts)
     } catch (error) {
-      console.error('Failed to batch send logs:', error)
-      // Re-add logs to buffer on failure
-      this.logBuffer.unshift(...logs.slice(-500)) // Keep last 500 logs
+      console.error('Failed to persist security alerts:', error)
+      this.pendingAlerts = [...alerts, ...this.pendingAlerts].slice(-MAX_PENDING_WRITES)
     }
   }
 
   // Public methods for manual logging
   logLogin(request: NextRequest, success: boolean, data: Partial<AuthLogEntry> = {}) {
-    this.logAuthEvent(success ? 'login_success' : 'login_failure', request, {
+    return this.logAuthEvent(success ? 'login_success' : 'login_failure', request, {
       success,
       ...data
     })
   }
 
   logSignup(request: NextRequest, success: boolean, data: Partial<AuthLogEntry> = {}) {
-    this.logAuthEvent(success ? 'signup_success' : 'signup_failure', request, {
+    return this.logAuthEvent(success ? 'signup_success' : 'signup_failure', request, {
+      success,
+      ...data
+    })
+  }
+
+  logMfa(request: NextRequest, success: boolean, data: Partial<AuthLogEntry> = {}) {
+    return this.logAuthEvent(success ? 'mfa_success' : 'mfa_failure', request, {
       success,
       ...data
     })
   }
 
   logLogout(request: NextRequest, data: Partial<AuthLogEntry> = {}) {
-    this.logAuthEvent('logout', request, {
+    return this.logAuthEvent('logout', request, {
       success: true,
       ...data
     })
   }
 
   logRateLimit(request: NextRequest, data: Partial<AuthLogEntry> = {}) {
-    this.logAuthEvent('rate_limit_exceeded', request, {
+    return this.logAuthEvent('rate_limit_exceeded', request, {
       success: false,
       ...data
     })
   }
 
   logSuspiciousActivity(request: NextRequest, reason: string, data: Partial<AuthLogEntry> = {}) {
-    this.logAuthEvent('suspicious_activity', request, {
+    return this.logAuthEvent('suspicious_activity', request, {
       success: false,
       error: reason,
       ...data
     })
   }
 
+  // Who did what to whom: the entry's userId is the administrator, the target goes in metadata
+  logAdminAction(
+    request: NextRequest,
+    admin: { userId: string; email: string; sessionId?: string },
+    action: string,
+    target: { id: string; email: string },
+    metadata: Record<string, unknown> = {}
+  ) {
+    return this.logAuthEvent('admin_action', request, {
+      success: true,
+      userId: admin.userId,
+      email: admin.email,
+      sessionId: admin.sessionId,
+      metadata: {
+        action,
+        targetUserId: target.id,
+        targetEmail: target.email,
+        ...metadata
+      }
+    })
+  }
+
   // Get recent logs for debugging/admin purposes
   getRecentLogs(limit = 100): AuthLogEntry[] {
     return this.logBuffer.slice(-limit)
@@ -381,10 +444,7 @@ class AuthLogger {
 
   // Cleanup method
   destroy() {
-    if (this.flushInterval) {
-      clearInterval(this.flushInterval)
-    }
-    this.flushLogs()
+    return this.persist ? this.flushLogs() : Promise.resolve()
   }
 }
 
@@ -408,13 +468,35 @@ export function logSignup(request: NextRequest, success: boolean, data?: Partial
   return authLogger.logSignup(request, success, data)
 }
 
+export function logMfa(request: NextRequest, success: boolean, data?: Partial<AuthLogEntry>) {
+  return authLogger.logMfa(request, success, data)
+}
+
 export function logLogout(request: NextRequest, data?: Partial<AuthLogEntry>) {
   return authLogger.logLogout(request, data)
 }
 
+export function logRateLimit(request: NextRequest, data?: Partial<AuthLogEntry>) {
+  return authLogger.logRateLimit(request, data)
+}
+
 export function logSuspiciousActivity(request: NextRequest, reason: string, data?: Partial<AuthLogEntry>) {
   return authLogger.logSuspiciousActivity(request, reason, data)
 }
 
+export function logAdminAction(
+  request: NextRequest,
+  admin: { userId: string; email: string; sessionId?: string },
+  action: string,
+  target: { id: string; email: string },
+  metadata?: Record<string, unknown>
+) {
+  return authLogger.logAdminAction(request, admin, action, target, metadata)
+}
+
+export function extractClientInfo(request: NextRequest) {
+  return authLogger.extractClientInfo(request)
+}
+
 // Export types for external use
 export type { AuthLogEntry, AuthEvent, SecurityAlert }
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { jwtVerify, JWTPayload } from 'jose'
+import { NextRequest } from 'next/server'
+import { KeyRing, getAccessKeyRing, getInternalKeyRing } from './jwt-keys'
+
+/**
+ * The one place tokens are read and verified. Middleware (Edge) uses it
+ * directly; route handlers and server components go through `auth.ts`, which
+ * adds the session check; JWTService signs and rotates tokens and verifies
+ * with the same functions. Only jose and WebCrypto, so it runs on the Edge.
+ *
+ * Cookie contract (set and cleared only by `auth-cookies.ts`):
+ * - `access-token`: the access JWT. HttpOnly, SameSite=Lax, Secure in
+ *   production, path `/`, expires with the token (15 minutes). Read on every
+ *   request by middleware, route handlers and server components.
+ * - `refresh-token`: the refresh JWT, same flags, 7 days. Only the refresh and
+ *   logout routes read it.
+ * - `auth-token`: retired. It used to carry a copy of the access token for
+ *   middleware; it is no longer set or read, only expired on logout.
+ *
+ * An `Authorization: Bearer` header wins over the cookie, for API clients.
+ */
+
+export const ACCESS_TOKEN_COOKIE = 'access-token'
+export const REFRESH_TOKEN_COOKIE = 'refresh-token'
+// Left over from before the cookies were unified; expired whenever auth cookies are cleared
+export const LEGACY_AUTH_COOKIE = 'auth-token'
+
+export const TOKEN_ISSUER = 'hayl-energy-ai'
+export const TOKEN_AUDIENCE = 'hayl-energy-ai-users'
+export const ACCESS_TOKEN_MAX_AGE = 15 * 60 // 15 minutes, in seconds
+export const REFRESH_TOKEN_MAX_AGE = 7 * 24 * 60 * 60 // 7 days, in seconds
+
+export type TokenType = 'access' | 'refresh' | 'mfa'
+
+export interface TokenPayload extends JWTPayload {
+  userId: string
+  email: string
+  type: TokenType
+  sessionId?: string
+  // Access tokens only: what the holder may do, as of when the token was issued
+  roles?: string[]
+  permissions?: string[]
+}
+
+// Access tokens use the published ring; refresh and MFA challenge tokens never leave this app
+const keyRings: Record<TokenType, () => Promise<KeyRing>> = {
+  access: getAccessKeyRing,
+  refresh: getInternalKeyRing,
+  mfa: getInternalKeyRing
+}
+
+// Checks signature, key, issuer, audience, expiry and type; anything else is null, never an exception
+export async function verifyAuthToken(token: string, type: TokenType): Promise<TokenPayload | null> {
+  try {
+    const keyRing = await keyRings[type]()
+    const { payload } = await jwtVerify(token, header => keyRing.resolve(header), {
+      issuer: TOKEN_ISSUER,
+      audience: TOKEN_AUDIENCE
+    })
+
+    const tokenPayload = payload as TokenPayload
+    return tokenPayload.type === type ? tokenPayload : null
+  } catch {
+    return null
+  }
+}
+
+export function verifyAccessToken(token: string): Promise<TokenPayload | null> {
+  return verifyAuthToken(token, 'access')
+}
+
+// The access token sent with a request: Bearer header first, then the cookie
+export function getTokenFromRequest(request: NextRequest): string | undefined {
+  const authHeader = request.headers.get('authorization')
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.substring(7)
+  }
+
+  return request.cookies.get(ACCESS_TOKEN_COOKIE)?.value
+}
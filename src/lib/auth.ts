@@ -1,40 +1,35 @@
-import { SignJWT, jwtVerify } from 'jose'
 import { cookies } from 'next/headers'
 import { NextRequest } from 'next/server'
+import { TokenPayload, ACCESS_TOKEN_COOKIE, getTokenFromRequest, verifyAccessToken } from './auth-tokens'
 
-const secret = new TextEncoder().encode(process.env.JWT_SECRET!)
-const alg = 'HS256'
+// Who is signed in, for route handlers and server components: a valid access token (see auth-tokens.ts) whose session is still active
 
-export async function signToken(payload: { userId: string, email: string }) {
-  return await new SignJWT(payload)
-    .setProtectedHeader({ alg })
-    .setIssuedAt()
-    .setExpirationTime('7d')
-    .sign(secret)
+// A verified access token tied to a live session
+export interface VerifiedToken extends TokenPayload {
+  iat: number
+  exp: number
 }
 
-export async function verifyToken(token: string) {
-  try {
-    const { payload } = await jwtVerify(token, secret)
-    return payload as { userId: string, email: string, iat: number, exp: number }
-  } catch {
-    return null
-  }
+async function authenticate(token: string | undefined): Promise<VerifiedToken | null> {
+  if (!token) return null
+
+  const payload = await verifyAccessToken(token)
+  if (!payload?.sessionId) return null
+
+  // Loaded lazily: session.ts reaches back here through rbac.ts
+  const { SessionService } = await import('./session')
+  if (!(await SessionService.isSessionActive(payload.sessionId))) return null
+
+  return payload as VerifiedToken
 }
 
-export async function getTokenFromRequest(request: NextRequest) {
-  const authHeader = request.headers.get('authorization')
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7)
-  }
-  
-  const cookieStore = await cookies()
-  return cookieStore.get('auth-token')?.value
+// For route handlers. Unlike middleware, this also refuses tokens whose session was revoked
+export async function getCurrentUser(request: NextRequest): Promise<VerifiedToken | null> {
+  return authenticate(getTokenFromRequest(request))
 }
 
-export async function getCurrentUser(request: NextRequest) {
-  const token = await getTokenFromRequest(request)
-  if (!token) return null
-  
-  return await verifyToken(token)
-}
\ No newline at end of file
+// For server components and server actions, which have no request object
+export async function getServerUser(): Promise<VerifiedToken | null> {
+  const cookieStore = await cookies()
+  return authenticate(cookieStore.get(ACCESS_TOKEN_COOKIE)?.value)
+}
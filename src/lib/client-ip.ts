@@ -0,0 +1,163 @@
+import { NextRequest } from 'next/server'
+import { ipToBigInt } from './geoip'
+
+/**
+ * The client address a request came from, and matching it against
+ * addresses and CIDR ranges (IPv4 and IPv6). Route handlers only see what
+ * proxies wrote into X-Forwarded-For, and everything left of the entries our
+ * own proxies appended came from the client, so the header is read from the
+ * right. TRUSTED_PROXIES names the proxies to skip (CIDR blocks or presets);
+ * without it the client is TRUSTED_PROXY_HOPS entries from the right.
+ */
+
+export interface TrustedProxyConfig {
+  // Proxy addresses and CIDR blocks skipped when reading X-Forwarded-For from the right
+  ranges: string[]
+  // Used when `ranges` is empty: how many proxies in front of the app append to X-Forwarded-For
+  hops: number
+}
+
+// Names accepted in TRUSTED_PROXIES next to CIDR blocks
+export const TRUSTED_PROXY_PRESETS: Record<string, Partial<TrustedProxyConfig>> = {
+  // Vercel overwrites X-Forwarded-For with the address it saw, so there's exactly one hop
+  vercel: { hops: 1 },
+  // https://www.cloudflare.com/ips/
+  cloudflare: {
+    ranges: [
+      '173.245.48.0/20', '103.21.244.0/22', '103.22.200.0/22', '103.31.4.0/22', '141.101.64.0/18',
+      '108.162.192.0/18', '190.93.240.0/20', '188.114.96.0/20', '197.234.240.0/22', '198.41.128.0/17',
+      '162.158.0.0/15', '104.16.0.0/13', '104.24.0.0/14', '172.64.0.0/13', '131.0.72.0/22',
+      '2400:cb00::/32', '2606:4700::/32', '2803:f800::/32', '2405:b500::/32', '2405:8100::/32',
+      '2a06:98c0::/29', '2c0f:f248::/32'
+    ]
+  },
+  // nginx or a load balancer on the same host or private network
+  nginx: {
+    ranges: ['127.0.0.0/8', '::1/128', '10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7']
+  }
+}
+
+let cachedConfig: { source: string; config: TrustedProxyConfig } | null = null
+
+// From TRUSTED_PROXIES and TRUSTED_PROXY_HOPS. A typo in either throws rather than trusting the wrong entry
+export function getTrustedProxyConfig(): TrustedProxyConfig {
+  const proxies = process.env.TRUSTED_PROXIES || ''
+  const hops = process.env.TRUSTED_PROXY_HOPS || ''
+  const source = `${proxies}|${hops}`
+  if (cachedConfig?.source === source) return cachedConfig.config
+
+  const config: TrustedProxyConfig = { ranges: [], hops: 1 }
+
+  for (const entry of proxies.split(',').map(value => value.trim()).filter(Boolean)) {
+    const preset = TRUSTED_PROXY_PRESETS[entry.toLowerCase()]
+    if (preset) {
+      config.ranges.push(...(preset.ranges || []))
+      config.hops = preset.hops ?? config.hops
+    } else if (isValidRange(entry)) {
+      config.ranges.push(entry)
+    } else {
+      throw new Error(`Invalid TRUSTED_PROXIES entry: ${entry}`)
+    }
+  }
+
+  if (hops) {
+    config.hops = Number(hops)
+    if (!Number.isInteger(config.hops) || config.hops < 1) {
+      throw new Error(`Invalid TRUSTED_PROXY_HOPS: ${hops}`)
+    }
+  }
+
+  cachedConfig = { source, config }
+  return config
+}
+
+function formatIp(value: bigint): string {
+  // IPv4 and IPv4-mapped IPv6 (::ffff:0:0/96) are written as plain IPv4
+  if (value >> BigInt(32) === BigInt(0xffff)) {
+    return [24, 16, 8, 0].map(shift => Number((value >> BigInt(shift)) & BigInt(0xff))).join('.')
+  }
+
+  const groups = [112, 96, 80, 64, 48, 32, 16, 0].map(shift => ((value >> BigInt(shift)) & BigInt(0xffff)).toString(16))
+
+  // RFC 5952: the longest run of two or more zero groups, the first one on a tie, becomes ::
+  let zerosStart = -1
+  let zerosLength = 1
+  for (let start = 0; start < groups.length; start++) {
+    let length = 0
+    while (groups[start + length] === '0') length++
+    if (length > zerosLength) {
+      zerosStart = start
+      zerosLength = length
+    }
+  }
+
+  if (zerosStart === -1) return groups.join(':')
+  return `${groups.slice(0, zerosStart).join(':')}::${groups.slice(zerosStart + zerosLength).join(':')}`
+}
+
+// One spelling per address, so the same client always gets the same rate limit key and log entry.
+// Drops brackets, ports and zone ids; null when it isn't an address at all
+export function normalizeIp(value: string): string | null {
+  let address = value.trim()
+
+  const bracketed = address.match(/^\[([^\]]+)\](?::\d+)?$/)
+  if (bracketed) {
+    address = bracketed[1]
+  } else if (/^[\d.]+:\d+$/.test(address)) {
+    address = address.slice(0, address.lastIndexOf(':'))
+  }
+
+  const numeric = ipToBigInt(address.split('%')[0])
+  return numeric === null ? null : formatIp(numeric)
+}
+
+function isValidRange(range: string): boolean {
+  const [network, prefix, ...rest] = range.split('/')
+  if (rest.length > 0 || ipToBigInt(network) === null) return false
+  if (prefix === undefined) return true
+
+  return /^\d{1,3}$/.test(prefix) && Number(prefix) <= (network.includes(':') ? 128 : 32)
+}
+
+// `range` is an address or a CIDR block, e.g. 203.0.113.0/24 or 2001:db8::/32
+export function ipMatches(ip: string, range: string): boolean {
+  const normalized = normalizeIp(ip)
+  if (normalized === null || !isValidRange(range)) return false
+
+  const [network, prefix] = range.split('/')
+  const address = ipToBigInt(normalized) as bigint
+  const base = ipToBigInt(network) as bigint
+
+  const isIpv4 = !network.includes(':')
+  const length = prefix === undefined ? (isIpv4 ? 32 : 128) : Number(prefix)
+
+  // Both are 128-bit (IPv4 mapped into IPv6), so an IPv4 prefix counts from bit 96
+  const hostBits = BigInt(128 - (isIpv4 ? length + 96 : length))
+  return address >> hostBits === base >> hostBits
+}
+
+// X-Real-IP and X-Client-IP are never read: nothing guarantees a proxy overwrote them
+export function resolveClientIp(
+  headers: Pick<Headers, 'get'>,
+  config: TrustedProxyConfig = getTrustedProxyConfig()
+): string {
+  const chain = (headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+
+  if (chain.length === 0) return 'unknown'
+
+  let client = chain[Math.max(0, chain.length - config.hops)]
+  if (config.ranges.length > 0) {
+    // The first entry from the right that isn't one of our proxies. If they all are, the leftmost is the closest we get
+    const untrusted = [...chain].reverse().find(entry => !config.ranges.some(range => ipMatches(entry, range)))
+    client = untrusted ?? chain[0]
+  }
+
+  return normalizeIp(client) ?? 'unknown'
+}
+
+export function getClientIp(request: NextRequest): string {
+  return resolveClientIp(request.headers)
+}
@@ -27,9 +27,11 @@ const DEFAULT_CORS_OPTIONS: CorsOptions = {
     'Cache-Control'
   ],
   exposedHeaders: [
-    'X-RateLimit-Limit',
-    'X-RateLimit-Remaining',
-    'X-RateLimit-Reset',
+    'RateLimit-Limit',
+    'RateLimit-Remaining',
+    'RateLimit-Reset',
+    'RateLimit-Policy',
+    'Retry-After',
     'X-Total-Count'
   ],
   credentials: true,
@@ -174,9 +176,11 @@ export const apiCors = new CorsHandler({
     'X-Requested-With'
   ],
   exposedHeaders: [
-    'X-RateLimit-Limit',
-    'X-RateLimit-Remaining',
-    'X-RateLimit-Reset'
+    'RateLimit-Limit',
+    'RateLimit-Remaining',
+    'RateLimit-Reset',
+    'RateLimit-Policy',
+    'Retry-After'
   ]
 })
 
@@ -0,0 +1,194 @@
+import { NextRequest } from 'next/server'
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { getRateLimitStore } from './rate-limit-store'
+import { getClientIp } from './client-ip'
+import { expandIPv6 } from './geoip'
+import { logSuspiciousActivity } from './auth-logger'
+import { ProofOfWorkChallenge, hasLeadingZeroBits } from './proof-of-work'
+import { requireSecret } from './secure-token'
+
+/**
+ * Defense against credential stuffing and password spraying on password
+ * sign-in. Rate limits count requests per address and account lockout counts
+ * per existing account; this counts failed sign-ins per email (known or not),
+ * per address and per subnet (/24 for IPv4, /64 for IPv6), plus how many
+ * different accounts each address and subnet failed against. Past a threshold
+ * the next attempt has to come with a solved proof-of-work challenge.
+ *
+ * Counters live in the rate-limit store, so they are shared across instances
+ * the same way rate limits are, and expire an hour after they start.
+ */
+
+const TRACKING_WINDOW_MS = 60 * 60 * 1000
+
+// One account failing from anywhere: a botnet working through one victim's password list
+export const EMAIL_FAILURE_THRESHOLD = 5
+// One address or subnet failing, whatever the accounts
+export const IP_FAILURE_THRESHOLD = 10
+export const SUBNET_FAILURE_THRESHOLD = 25
+// Spraying: many accounts, a couple of guesses each, which stays under every per-account limit
+export const SPRAY_ACCOUNT_THRESHOLD = { ip: 5, subnet: 15 }
+const SPRAY_MAX_FAILURES_PER_ACCOUNT = 3
+
+// About 65k hashes, a second or two in a browser; spraying costs four times that
+export const POW_DIFFICULTY = 16
+export const SPRAYING_POW_DIFFICULTY = 18
+const CHALLENGE_TTL_MS = 5 * 60 * 1000
+
+export type LoginRiskReason =
+  | 'email_failures'
+  | 'ip_failures'
+  | 'subnet_failures'
+  | 'ip_spraying'
+  | 'subnet_spraying'
+
+export interface LoginRisk {
+  challengeRequired: boolean
+  reasons: LoginRiskReason[]
+  difficulty: number
+}
+
+type Source = 'ip' | 'subnet'
+
+const noRisk: LoginRisk = { challengeRequired: false, reasons: [], difficulty: POW_DIFFICULTY }
+
+// Hashed, so addresses don't end up in the rate limit store
+function emailKey(email: string): string {
+  return createHash('sha256').update(email.trim().toLowerCase()).digest('hex').slice(0, 32)
+}
+
+export function getSubnet(ip: string): string | null {
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(ip)) {
+    return `${ip.split('.').slice(0, 3).join('.')}.0/24`
+  }
+
+  const groups = expandIPv6(ip)
+  return groups ? `${groups.slice(0, 4).map(group => parseInt(group, 16).toString(16)).join(':')}::/64` : null
+}
+
+// Addresses the request came from; none when the client address is unknown, since every such client would share one counter
+function sources(request: NextRequest): Array<{ source: Source; value: string }> {
+  const ip = getClientIp(request)
+  if (ip === 'unknown') return []
+
+  const subnet = getSubnet(ip)
+  return subnet ? [{ source: 'ip', value: ip }, { source: 'subnet', value: subnet }] : [{ source: 'ip', value: ip }]
+}
+
+const failuresKey = (kind: string, value: string) => `credential_stuffing:failures:${kind}:${value}`
+const accountsKey = (source: Source, value: string) => `credential_stuffing:accounts:${source}:${value}`
+const seenKey = (source: Source, value: string, email: string) => `credential_stuffing:seen:${source}:${value}:${email}`
+
+// Without it, a bot could sign its own easy challenges; issuing and checking throw instead, so flagged sign-ins fail
+function challengeKey(): Buffer {
+  return createHash('sha256').update(`login-challenge:${requireSecret('LOGIN_CHALLENGE_SECRET')}`).digest()
+}
+
+// The challenge is bound to the email it was issued for, so one solution can't be spent on another account
+function signChallenge(nonce: string, expiresAt: number, difficulty: number, email: string): string {
+  return createHmac('sha256', challengeKey())
+    .update(`${nonce}.${expiresAt}.${difficulty}.${emailKey(email)}`)
+    .digest('base64url')
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+export class CredentialStuffingDefense {
+  // Whether this attempt needs a solved challenge before the password is checked. Store errors let it through
+  static async assess(request: NextRequest, email: string): Promise<LoginRisk> {
+    try {
+      const store = getRateLimitStore()
+      const reasons: LoginRiskReason[] = []
+
+      if (await store.get(failuresKey('email', emailKey(email))) >= EMAIL_FAILURE_THRESHOLD) {
+        reasons.push('email_failures')
+      }
+
+      for (const { source, value } of sources(request)) {
+        const failures = await store.get(failuresKey(source, value))
+        const accounts = await store.get(accountsKey(source, value))
+
+        if (failures >= (source === 'ip' ? IP_FAILURE_THRESHOLD : SUBNET_FAILURE_THRESHOLD)) {
+          reasons.push(`${source}_failures`)
+        }
+        if (accounts >= SPRAY_ACCOUNT_THRESHOLD[source] && failures <= accounts * SPRAY_MAX_FAILURES_PER_ACCOUNT) {
+          reasons.push(`${source}_spraying`)
+        }
+      }
+
+      const spraying = reasons.some(reason => reason.endsWith('_spraying'))
+      return {
+        challengeRequired: reasons.length > 0,
+        reasons,
+        difficulty: spraying ? SPRAYING_POW_DIFFICULTY : POW_DIFFICULTY
+      }
+    } catch (error) {
+      console.error('Credential stuffing check error:', error)
+      return noRisk
+    }
+  }
+
+  // A wrong password or an unknown email
+  static async recordFailure(request: NextRequest, email: string): Promise<void> {
+    try {
+      const store = getRateLimitStore()
+      const account = emailKey(email)
+
+      await store.increment(failuresKey('email', account), TRACKING_WINDOW_MS)
+
+      for (const { source, value } of sources(request)) {
+        const { count: failures } = await store.increment(failuresKey(source, value), TRACKING_WINDOW_MS)
+
+        // A distinct-account count out of plain counters: only the first failure per account moves it
+        const { count: seen } = await store.increment(seenKey(source, value, account), TRACKING_WINDOW_MS)
+        if (seen !== 1) continue
+
+        const { count: accounts } = await store.increment(accountsKey(source, value), TRACKING_WINDOW_MS)
+        if (accounts === SPRAY_ACCOUNT_THRESHOLD[source]) {
+          await logSuspiciousActivity(request, `Failed sign-ins against ${accounts} accounts from one ${source === 'ip' ? 'address' : 'network'}`, {
+            metadata: { passwordSpraying: true, source, [source]: value, accounts, failures }
+          })
+        }
+      }
+    } catch (error) {
+      console.error('Credential stuffing tracking error:', error)
+    }
+  }
+
+  static issueChallenge(email: string, difficulty: number): ProofOfWorkChallenge {
+    const nonce = randomBytes(16).toString('base64url')
+    const expiresAt = Date.now() + CHALLENGE_TTL_MS
+    return {
+      challenge: `${nonce}.${expiresAt}.${difficulty}.${signChallenge(nonce, expiresAt, difficulty, email)}`,
+      difficulty,
+      expiresAt
+    }
+  }
+
+  // `solution` is straight from the request body. Each challenge is accepted once
+  static async verifySolution(solution: unknown, email: string, minDifficulty: number): Promise<boolean> {
+    const { challenge, nonce } = (solution || {}) as { challenge?: unknown; nonce?: unknown }
+    if (typeof challenge !== 'string' || typeof nonce !== 'string' || nonce.length > 32) return false
+
+    const [challengeNonce, expiresAtValue, difficultyValue, signature, ...rest] = challenge.split('.')
+    const expiresAt = Number(expiresAtValue)
+    const difficulty = Number(difficultyValue)
+    if (rest.length > 0 || !signature || !(expiresAt > Date.now()) || !(difficulty >= minDifficulty)) return false
+    if (!safeEqual(signature, signChallenge(challengeNonce, expiresAt, difficulty, email))) return false
+
+    const digest = createHash('sha256').update(`${challenge}:${nonce}`).digest()
+    if (!hasLeadingZeroBits(digest, difficulty)) return false
+
+    try {
+      const { count } = await getRateLimitStore().increment(`credential_stuffing:challenge:${challengeNonce}`, CHALLENGE_TTL_MS)
+      return count === 1
+    } catch (error) {
+      console.error('Credential stuffing check error:', error)
+      return true
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { SessionService } from './session'
+import { emailService } from './email-service'
+import { createExpiringToken, hashToken } from './secure-token'
+
+// Same lifetime as a signup verification link
+export const EMAIL_CHANGE_TTL_HOURS = 24
+
+const clearedEmailChange = {
+  pendingEmail: null,
+  emailChangeToken: null,
+  emailChangeCancelToken: null,
+  emailChangeExpiresAt: null
+}
+
+export type EmailChangeRequestResult =
+  | { status: 'requested'; confirmationSent: boolean; noticeSent: boolean }
+  | { status: 'unchanged' }
+  | { status: 'email_taken' }
+
+export type EmailChangeConfirmResult =
+  | { status: 'confirmed'; user: { id: string; email: string; previousEmail: string }; revokedSessions: number }
+  | { status: 'invalid' }
+  | { status: 'expired'; userId: string }
+  | { status: 'email_taken'; userId: string }
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+}
+
+/**
+ * Moves an account to a new login email. The address only changes once the
+ * new mailbox confirms; until then the old mailbox holds a link that cancels
+ * the change, so a hijacked session can't quietly take the account over.
+ */
+export class EmailChangeService {
+  static async request(
+    user: { id: string; email: string; name: string | null },
+    newEmail: string
+  ): Promise<EmailChangeRequestResult> {
+    if (newEmail === user.email) {
+      return { status: 'unchanged' }
+    }
+
+    const taken = await prisma.user.findUnique({ where: { email: newEmail }, select: { id: true } })
+    if (taken) {
+      return { status: 'email_taken' }
+    }
+
+    const ttlMs = EMAIL_CHANGE_TTL_HOURS * 60 * 60 * 1000
+    const confirmation = createExpiringToken(ttlMs)
+    const cancellation = createExpiringToken(ttlMs)
+
+    // A new request replaces any earlier one, so only the latest links work
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        pendingEmail: newEmail,
+        emailChangeToken: confirmation.tokenHash,
+        emailChangeCancelToken: cancellation.tokenHash,
+        emailChangeExpiresAt: confirmation.expiresAt
+      }
+    })
+
+    let confirmationSent = false
+    let noticeSent = false
+    try {
+      confirmationSent = await emailService.sendEmailChangeConfirmationEmail(
+        newEmail, user.name, confirmation.token, EMAIL_CHANGE_TTL_HOURS
+      )
+      noticeSent = await emailService.sendEmailChangeNoticeEmail(
+        user.email, user.name, newEmail, cancellation.token
+      )
+    } catch (emailError) {
+      console.error('Email change emails failed:', emailError)
+    }
+
+    return { status: 'requested', confirmationSent, noticeSent }
+  }
+
+  /**
+   * Swaps the address. Every session except `keepSessionId` (the caller's
+   * own, when they confirm while signed in) is revoked, since those tokens
+   * still carry the old address.
+   */
+  static async confirm(token: string, keepSessionId?: string): Promise<EmailChangeConfirmResult> {
+    const tokenHash = hashToken(token)
+    const user = await prisma.user.findUnique({
+      where: { emailChangeToken: tokenHash },
+      select: { id: true, email: true, pendingEmail: true, emailChangeExpiresAt: true }
+    })
+
+    if (!user || !user.pendingEmail) {
+      return { status: 'invalid' }
+    }
+
+    // Only this request is cleared, not one made since
+    const thisRequest = { id: user.id, emailChangeToken: tokenHash }
+
+    if (!user.emailChangeExpiresAt || user.emailChangeExpiresAt < new Date()) {
+      await prisma.user.updateMany({ where: thisRequest, data: clearedEmailChange })
+      return { status: 'expired', userId: user.id }
+    }
+
+    try {
+      // Swapping only while the request is still stored and unexpired means a cancel from the old address
+      // between the lookup and here wins, and the link works once
+      const { count } = await prisma.user.updateMany({
+        where: { ...thisRequest, pendingEmail: user.pendingEmail, emailChangeExpiresAt: { gt: new Date() } },
+        data: {
+          email: user.pendingEmail,
+          // Following the link proves the new mailbox
+          emailVerified: true,
+          ...clearedEmailChange
+        }
+      })
+      if (count === 0) {
+        return { status: 'invalid' }
+      }
+    } catch (error) {
+      // Someone signed up with the address after the change was requested
+      if (isUniqueViolation(error)) {
+        await prisma.user.updateMany({ where: thisRequest, data: clearedEmailChange })
+        return { status: 'email_taken', userId: user.id }
+      }
+      throw error
+    }
+
+    const revokedSessions = await SessionService.revokeAllSessions(user.id, keepSessionId)
+
+    return {
+      status: 'confirmed',
+      user: { id: user.id, email: user.pendingEmail, previousEmail: user.email },
+      revokedSessions
+    }
+  }
+
+  // Redeems the link sent to the old address; returns the owner, or null for unknown links
+  static async cancelWithToken(token: string): Promise<{ id: string; email: string; pendingEmail: string } | null> {
+    const user = await prisma.user.findUnique({
+      where: { emailChangeCancelToken: hashToken(token) },
+      select: { id: true, email: true, pendingEmail: true }
+    })
+
+    if (!user || !user.pendingEmail) {
+      return null
+    }
+
+    await prisma.user.update({ where: { id: user.id }, data: clearedEmailChange })
+    return { id: user.id, email: user.email, pendingEmail: user.pendingEmail }
+  }
+
+  static async cancelForUser(userId: string): Promise<boolean> {
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, pendingEmail: { not: null } },
+      data: clearedEmailChange
+    })
+    return count > 0
+  }
+}
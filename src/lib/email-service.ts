@@ -11,6 +11,14 @@ interface SendEmailOptions {
   text: string
 }
 
+export interface NewDeviceDetails {
+  signedInAt: Date
+  device: string
+  ip: string
+  location: string | null
+  secureToken: string
+}
+
 export class EmailService {
   private baseUrl: string
 
@@ -430,6 +438,1047 @@ Need help? Our support team is here to assist you.
       text: template.text
     })
   }
+
+  /**
+   * Generate password reset template
+   */
+  generatePasswordResetEmail(
+    email: string,
+    name: string | null,
+    resetToken: string,
+    expiresInMinutes: number
+  ): EmailTemplate {
+    const resetUrl = `${this.baseUrl}/reset-password?token=${resetToken}`
+    const displayName = name || email.split('@')[0]
+
+    const subject = 'Reset your password - Hayl Energy AI'
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Reset Your Password</title>
+    <style>
+        body { 
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+        }
+        .header {
+            background: linear-gradient(135deg, #3b82f6 0%, #10b981 100%);
+            color: white;
+            padding: 30px;
+            text-align: center;
+            border-radius: 10px 10px 0 0;
+        }
+        .content {
+            background: #f8fafc;
+            padding: 30px;
+            border-radius: 0 0 10px 10px;
+        }
+        .button {
+            display: inline-block;
+            background: #3b82f6;
+            color: white;
+            padding: 15px 30px;
+            text-decoration: none;
+            border-radius: 8px;
+            margin: 20px 0;
+            font-weight: 600;
+        }
+        .footer {
+            text-align: center;
+            margin-top: 30px;
+            font-size: 14px;
+            color: #6b7280;
+        }
+        .security-note {
+            background: #fef3c7;
+            border: 1px solid #f59e0b;
+            border-radius: 6px;
+            padding: 15px;
+            margin: 20px 0;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1 style="margin: 0; font-size: 24px;">⚡ Hayl Energy AI</h1>
+        <p style="margin: 10px 0 0 0; opacity: 0.9;">Password reset request</p>
+    </div>
+    
+    <div class="content">
+        <h2>Hello ${displayName},</h2>
+        
+        <p>We received a request to reset the password for your Hayl Energy AI account. Click the button below to choose a new password.</p>
+        
+        <div style="text-align: center;">
+            <a href="${resetUrl}" class="button">
+                🔑 Reset Password
+            </a>
+        </div>
+        
+        <div class="security-note">
+            <strong>🔒 Security Note:</strong> This link is valid for ${expiresInMinutes} minutes and can only be used once. Resetting your password will sign you out of all devices.
+        </div>
+        
+        <p>If the button doesn't work, copy and paste this link into your browser:</p>
+        <p style="word-break: break-all; background: #e5e7eb; padding: 10px; border-radius: 4px; font-family: monospace;">
+            ${resetUrl}
+        </p>
+        
+        <hr style="margin: 30px 0; border: none; border-top: 1px solid #e5e7eb;">
+        
+        <p><strong>Didn't request this?</strong></p>
+        <p>If you didn't ask to reset your password, you can safely ignore this email. Your password will not be changed.</p>
+    </div>
+    
+    <div class="footer">
+        <p>© 2024 Hayl Energy AI - Smart Energy Management Solutions</p>
+        <p>This email was sent to ${email}</p>
+    </div>
+</body>
+</html>
+    `
+
+    const text = `
+Hello ${displayName},
+
+We received a request to reset the password for your Hayl Energy AI account. Use the link below to choose a new password:
+
+${resetUrl}
+
+This link is valid for ${expiresInMinutes} minutes and can only be used once. Resetting your password will sign you out of all devices.
+
+If you didn't ask to reset your password, you can safely ignore this email. Your password will not be changed.
+
+---
+© 2024 Hayl Energy AI
+This email was sent to ${email}
+    `
+
+    return { subject, html, text }
+  }
+
+  /**
+   * Send password reset email
+   */
+  async sendPasswordResetEmail(
+    email: string,
+    name: string | null,
+    resetToken: string,
+    expiresInMinutes: number
+  ): Promise<boolean> {
+    const template = this.generatePasswordResetEmail(email, name, resetToken, expiresInMinutes)
+
+    return await this.sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    })
+  }
+
+  /**
+   * Generate passwordless sign-in link template
+   */
+  generateMagicLinkEmail(
+    email: string,
+    name: string | null,
+    token: string,
+    expiresInMinutes: number,
+    redirectTo?: string
+  ): EmailTemplate {
+    const params = new URLSearchParams({ token })
+    if (redirectTo) params.set('redirect', redirectTo)
+    const signInUrl = `${this.baseUrl}/magic-link?${params.toString()}`
+    const displayName = name || email.split('@')[0]
+
+    const subject = 'Your sign-in link - Hayl Energy AI'
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Sign In to Hayl Energy AI</title>
+    <style>
+        body { 
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+        }
+        .header {
+            background: linear-gradient(135deg, #3b82f6 0%, #10b981 100%);
+            color: white;
+            padding: 30px;
+            text-align: center;
+            border-radius: 10px 10px 0 0;
+        }
+        .content {
+            background: #f8fafc;
+            padding: 30px;
+            border-radius: 0 0 10px 10px;
+        }
+        .button {
+            display: inline-block;
+            background: #3b82f6;
+            color: white;
+            padding: 15px 30px;
+            text-decoration: none;
+            border-radius: 8px;
+            margin: 20px 0;
+            font-weight: 600;
+        }
+        .footer {
+            text-align: center;
+            margin-top: 30px;
+            font-size: 14px;
+            color: #6b7280;
+        }
+        .security-note {
+            background: #fef3c7;
+            border: 1px solid #f59e0b;
+            border-radius: 6px;
+            padding: 15px;
+            margin: 20px 0;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1 style="margin: 0; font-size: 24px;">⚡ Hayl Energy AI</h1>
+        <p style="margin: 10px 0 0 0; opacity: 0.9;">Sign-in link</p>
+    </div>
+    
+    <div class="content">
+        <h2>Hello ${displayName},</h2>
+        
+        <p>Click the button below to sign in to your Hayl Energy AI account. No password needed.</p>
+        
+        <div style="text-align: center;">
+            <a href="${signInUrl}" class="button">
+                🔑 Sign In
+            </a>
+        </div>
+        
+        <div class="security-note">
+            <strong>🔒 Security Note:</strong> This link is valid for ${expiresInMinutes} minutes and can only be used once. Anyone with this link can sign in as you, so don't forward it.
+        </div>
+        
+        <p>If the button doesn't work, copy and paste this link into your browser:</p>
+        <p style="word-break: break-all; background: #e5e7eb; padding: 10px; border-radius: 4px; font-family: monospace;">
+            ${signInUrl}
+        </p>
+        
+        <hr style="margin: 30px 0; border: none; border-top: 1px solid #e5e7eb;">
+        
+        <p><strong>Didn't request this?</strong></p>
+        <p>If you didn't ask to sign in, you can safely ignore this email. Nobody can sign in without the link.</p>
+    </div>
+    
+    <div class="footer">
+        <p>© 2024 Hayl Energy AI - Smart Energy Management Solutions</p>
+        <p>This email was sent to ${email}</p>
+    </div>
+</body>
+</html>
+    `
+
+    const text = `
+Hello ${displayName},
+
+Use the link below to sign in to your Hayl Energy AI account. No password needed:
+
+${signInUrl}
+
+This link is valid for ${expiresInMinutes} minutes and can only be used once. Anyone with this link can sign in as you, so don't forward it.
+
+If you didn't ask to sign in, you can safely ignore this email. Nobody can sign in without the link.
+
+---
+© 2024 Hayl Energy AI
+This email was sent to ${email}
+    `
+
+    return { subject, html, text }
+  }
+
+  /**
+   * Send passwordless sign-in link email
+   */
+  async sendMagicLinkEmail(
+    email: string,
+    name: string | null,
+    token: string,
+    expiresInMinutes: number,
+    redirectTo?: string
+  ): Promise<boolean> {
+    const template = this.generateMagicLinkEmail(email, name, token, expiresInMinutes, redirectTo)
+
+    return await this.sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    })
+  }
+
+  /**
+   * Generate account locked template with an unlock link
+   */
+  generateAccountLockedEmail(
+    email: string,
+    name: string | null,
+    unlockToken: string,
+    lockedForMinutes: number
+  ): EmailTemplate {
+    const unlockUrl = `${this.baseUrl}/unlock-account?token=${unlockToken}`
+    const forgotPasswordUrl = `${this.baseUrl}/forgot-password`
+    const displayName = name || email.split('@')[0]
+
+    const subject = 'Your account has been locked - Hayl Energy AI'
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Account Locked</title>
+    <style>
+        body { 
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+        }
+        .header {
+            background: linear-gradient(135deg, #3b82f6 0%, #10b981 100%);
+            color: white;
+            padding: 30px;
+            text-align: center;
+            border-radius: 10px 10px 0 0;
+        }
+        .content {
+            background: #f8fafc;
+            padding: 30px;
+            border-radius: 0 0 10px 10px;
+        }
+        .button {
+            display: inline-block;
+            background: #3b82f6;
+            color: white;
+            padding: 15px 30px;
+            text-decoration: none;
+            border-radius: 8px;
+            margin: 20px 0;
+            font-weight: 600;
+        }
+        .footer {
+            text-align: center;
+            margin-top: 30px;
+            font-size: 14px;
+            color: #6b7280;
+        }
+        .security-note {
+            background: #fef3c7;
+            border: 1px solid #f59e0b;
+            border-radius: 6px;
+            padding: 15px;
+            margin: 20px 0;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1 style="margin: 0; font-size: 24px;">⚡ Hayl Energy AI</h1>
+        <p style="margin: 10px 0 0 0; opacity: 0.9;">Account locked</p>
+    </div>
+    
+    <div class="content">
+        <h2>Hello ${displayName},</h2>
+        
+        <p>We locked your Hayl Energy AI account after several failed sign-in attempts. If those attempts were you, click the button below to unlock it now. Otherwise it unlocks by itself in ${lockedForMinutes} minutes.</p>
+        
+        <div style="text-align: center;">
+            <a href="${unlockUrl}" class="button">
+                🔓 Unlock Account
+            </a>
+        </div>
+        
+        <div class="security-note">
+            <strong>🔒 Security Note:</strong> This link is valid for ${lockedForMinutes} minutes and can only be used once.
+        </div>
+        
+        <p>If the button doesn't work, copy and paste this link into your browser:</p>
+        <p style="word-break: break-all; background: #e5e7eb; padding: 10px; border-radius: 4px; font-family: monospace;">
+            ${unlockUrl}
+        </p>
+        
+        <hr style="margin: 30px 0; border: none; border-top: 1px solid #e5e7eb;">
+        
+        <p><strong>Weren't trying to sign in?</strong></p>
+        <p>Someone may be guessing your password. Your account stayed protected, but we recommend you <a href="${forgotPasswordUrl}">reset your password</a>.</p>
+    </div>
+    
+    <div class="footer">
+        <p>© 2024 Hayl Energy AI - Smart Energy Management Solutions</p>
+        <p>This email was sent to ${email}</p>
+    </div>
+</body>
+</html>
+    `
+
+    const text = `
+Hello ${displayName},
+
+We locked your Hayl Energy AI account after several failed sign-in attempts. If those attempts were you, use the link below to unlock it now. Otherwise it unlocks by itself in ${lockedForMinutes} minutes:
+
+${unlockUrl}
+
+This link is valid for ${lockedForMinutes} minutes and can only be used once.
+
+Weren't trying to sign in? Someone may be guessing your password. Your account stayed protected, but we recommend you reset your password: ${forgotPasswordUrl}
+
+---
+© 2024 Hayl Energy AI
+This email was sent to ${email}
+    `
+
+    return { subject, html, text }
+  }
+
+  /**
+   * Send account locked email
+   */
+  async sendAccountLockedEmail(
+    email: string,
+    name: string | null,
+    unlockToken: string,
+    lockedForMinutes: number
+  ): Promise<boolean> {
+    const template = this.generateAccountLockedEmail(email, name, unlockToken, lockedForMinutes)
+
+    return await this.sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    })
+  }
+
+  /**
+   * Generate new device sign-in template with a "secure my account" link
+   */
+  generateNewDeviceEmail(
+    email: string,
+    name: string | null,
+    details: NewDeviceDetails
+  ): EmailTemplate {
+    const secureUrl = `${this.baseUrl}/secure-account?token=${details.secureToken}`
+    const displayName = name || email.split('@')[0]
+    const signedInAt = details.signedInAt.toUTCString()
+    const location = details.location || 'Unknown location'
+
+    const subject = 'New sign-in to your account - Hayl Energy AI'
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>New Sign-in</title>
+    <style>
+        body { 
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+        }
+        .header {
+            background: linear-gradient(135deg, #3b82f6 0%, #10b981 100%);
+            color: white;
+            padding: 30px;
+            text-align: center;
+            border-radius: 10px 10px 0 0;
+        }
+        .content {
+            background: #f8fafc;
+            padding: 30px;
+            border-radius: 0 0 10px 10px;
+        }
+        .details {
+            background: white;
+            border: 1px solid #e5e7eb;
+            border-radius: 6px;
+            padding: 15px 20px;
+            margin: 20px 0;
+        }
+        .details td {
+            padding: 4px 12px 4px 0;
+            vertical-align: top;
+        }
+        .button {
+            display: inline-block;
+            background: #dc2626;
+            color: white;
+            padding: 15px 30px;
+            text-decoration: none;
+            border-radius: 8px;
+            margin: 20px 0;
+            font-weight: 600;
+        }
+        .footer {
+            text-align: center;
+            margin-top: 30px;
+            font-size: 14px;
+            color: #6b7280;
+        }
+        .security-note {
+            background: #fef3c7;
+            border: 1px solid #f59e0b;
+            border-radius: 6px;
+            padding: 15px;
+            margin: 20px 0;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1 style="margin: 0; font-size: 24px;">⚡ Hayl Energy AI</h1>
+        <p style="margin: 10px 0 0 0; opacity: 0.9;">New sign-in</p>
+    </div>
+    
+    <div class="content">
+        <h2>Hello ${displayName},</h2>
+        
+        <p>Your Hayl Energy AI account was just signed in to from a device or location we haven't seen before.</p>
+        
+        <table class="details">
+            <tr><td><strong>When</strong></td><td>${signedInAt}</td></tr>
+            <tr><td><strong>Where</strong></td><td>${location} (${details.ip})</td></tr>
+            <tr><td><strong>Device</strong></td><td>${details.device}</td></tr>
+        </table>
+        
+        <p>If this was you, there's nothing to do.</p>
+        
+        <p><strong>Don't recognize this sign-in?</strong> Secure your account now. We'll sign you out everywhere and email you a link to choose a new password.</p>
+        
+        <div style="text-align: center;">
+            <a href="${secureUrl}" class="button">
+                🔒 Secure My Account
+            </a>
+        </div>
+        
+        <div class="security-note">
+            <strong>🔒 Security Note:</strong> This link is valid for 7 days. Location is approximate and based on the network address.
+        </div>
+        
+        <p>If the button doesn't work, copy and paste this link into your browser:</p>
+        <p style="word-break: break-all; background: #e5e7eb; padding: 10px; border-radius: 4px; font-family: monospace;">
+            ${secureUrl}
+        </p>
+    </div>
+    
+    <div class="footer">
+        <p>© 2024 Hayl Energy AI - Smart Energy Management Solutions</p>
+        <p>This email was sent to ${email}</p>
+    </div>
+</body>
+</html>
+    `
+
+    const text = `
+Hello ${displayName},
+
+Your Hayl Energy AI account was just signed in to from a device or location we haven't seen before.
+
+When: ${signedInAt}
+Where: ${location} (${details.ip})
+Device: ${details.device}
+
+If this was you, there's nothing to do.
+
+Don't recognize this sign-in? Secure your account now. We'll sign you out everywhere and email you a link to choose a new password:
+
+${secureUrl}
+
+This link is valid for 7 days. Location is approximate and based on the network address.
+
+---
+© 2024 Hayl Energy AI
+This email was sent to ${email}
+    `
+
+    return { subject, html, text }
+  }
+
+  /**
+   * Send new device sign-in email
+   */
+  async sendNewDeviceEmail(
+    email: string,
+    name: string | null,
+    details: NewDeviceDetails
+  ): Promise<boolean> {
+    const template = this.generateNewDeviceEmail(email, name, details)
+
+    return await this.sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    })
+  }
+
+  /**
+   * Generate email change confirmation template, sent to the new address
+   */
+  generateEmailChangeConfirmationEmail(
+    newEmail: string,
+    name: string | null,
+    token: string,
+    expiresInHours: number
+  ): EmailTemplate {
+    const confirmUrl = `${this.baseUrl}/confirm-email-change?token=${token}`
+    const displayName = name || newEmail.split('@')[0]
+
+    const subject = 'Confirm your new email address - Hayl Energy AI'
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Confirm Your New Email</title>
+    <style>
+        body { 
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+        }
+        .header {
+            background: linear-gradient(135deg, #3b82f6 0%, #10b981 100%);
+            color: white;
+            padding: 30px;
+            text-align: center;
+            border-radius: 10px 10px 0 0;
+        }
+        .content {
+            background: #f8fafc;
+            padding: 30px;
+            border-radius: 0 0 10px 10px;
+        }
+        .button {
+            display: inline-block;
+            background: #3b82f6;
+            color: white;
+            padding: 15px 30px;
+            text-decoration: none;
+            border-radius: 8px;
+            margin: 20px 0;
+            font-weight: 600;
+        }
+        .footer {
+            text-align: center;
+            margin-top: 30px;
+            font-size: 14px;
+            color: #6b7280;
+        }
+        .security-note {
+            background: #fef3c7;
+            border: 1px solid #f59e0b;
+            border-radius: 6px;
+            padding: 15px;
+            margin: 20px 0;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1 style="margin: 0; font-size: 24px;">⚡ Hayl Energy AI</h1>
+        <p style="margin: 10px 0 0 0; opacity: 0.9;">Confirm your new email address</p>
+    </div>
+    
+    <div class="content">
+        <h2>Hello ${displayName},</h2>
+        
+        <p>You asked to sign in to Hayl Energy AI with this email address from now on. Click the button below to confirm the change.</p>
+        
+        <div style="text-align: center;">
+            <a href="${confirmUrl}" class="button">
+                ✉️ Confirm New Email
+            </a>
+        </div>
+        
+        <div class="security-note">
+            <strong>🔒 Security Note:</strong> This link is valid for ${expiresInHours} hours and can only be used once. Confirming signs you out on your other devices.
+        </div>
+        
+        <p>If the button doesn't work, copy and paste this link into your browser:</p>
+        <p style="word-break: break-all; background: #e5e7eb; padding: 10px; border-radius: 4px; font-family: monospace;">
+            ${confirmUrl}
+        </p>
+        
+        <hr style="margin: 30px 0; border: none; border-top: 1px solid #e5e7eb;">
+        
+        <p><strong>Didn't ask for this?</strong></p>
+        <p>You can ignore this email. Your address won't be added to anyone's account unless you click the link.</p>
+    </div>
+    
+    <div class="footer">
+        <p>© 2024 Hayl Energy AI - Smart Energy Management Solutions</p>
+        <p>This email was sent to ${newEmail}</p>
+    </div>
+</body>
+</html>
+    `
+
+    const text = `
+Hello ${displayName},
+
+You asked to sign in to Hayl Energy AI with this email address from now on. Open the link below to confirm the change:
+
+${confirmUrl}
+
+This link is valid for ${expiresInHours} hours and can only be used once. Confirming signs you out on your other devices.
+
+Didn't ask for this? You can ignore this email. Your address won't be added to anyone's account unless you open the link.
+
+---
+© 2024 Hayl Energy AI
+This email was sent to ${newEmail}
+    `
+
+    return { subject, html, text }
+  }
+
+  /**
+   * Send email change confirmation email
+   */
+  async sendEmailChangeConfirmationEmail(
+    newEmail: string,
+    name: string | null,
+    token: string,
+    expiresInHours: number
+  ): Promise<boolean> {
+    const template = this.generateEmailChangeConfirmationEmail(newEmail, name, token, expiresInHours)
+
+    return await this.sendEmail({
+      to: newEmail,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    })
+  }
+
+  /**
+   * Generate email change notice template, sent to the current address with a cancel link
+   */
+  generateEmailChangeNoticeEmail(
+    email: string,
+    name: string | null,
+    newEmail: string,
+    cancelToken: string
+  ): EmailTemplate {
+    const cancelUrl = `${this.baseUrl}/cancel-email-change?token=${cancelToken}`
+    const displayName = name || email.split('@')[0]
+
+    const subject = 'Your email address is being changed - Hayl Energy AI'
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Email Change Requested</title>
+    <style>
+        body { 
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+        }
+        .header {
+            background: linear-gradient(135deg, #3b82f6 0%, #10b981 100%);
+            color: white;
+            padding: 30px;
+            text-align: center;
+            border-radius: 10px 10px 0 0;
+        }
+        .content {
+            background: #f8fafc;
+            padding: 30px;
+            border-radius: 0 0 10px 10px;
+        }
+        .button {
+            display: inline-block;
+            background: #3b82f6;
+            color: white;
+            padding: 15px 30px;
+            text-decoration: none;
+            border-radius: 8px;
+            margin: 20px 0;
+            font-weight: 600;
+        }
+        .footer {
+            text-align: center;
+            margin-top: 30px;
+            font-size: 14px;
+            color: #6b7280;
+        }
+        .security-note {
+            background: #fef3c7;
+            border: 1px solid #f59e0b;
+            border-radius: 6px;
+            padding: 15px;
+            margin: 20px 0;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1 style="margin: 0; font-size: 24px;">⚡ Hayl Energy AI</h1>
+        <p style="margin: 10px 0 0 0; opacity: 0.9;">Email change requested</p>
+    </div>
+    
+    <div class="content">
+        <h2>Hello ${displayName},</h2>
+        
+        <p>Someone signed in to your Hayl Energy AI account asked to change its email address to <strong>${newEmail}</strong>. The change happens once that address is confirmed.</p>
+        
+        <p>If this was you, there's nothing to do.</p>
+        
+        <p><strong>Didn't ask for this?</strong> Cancel the change now, then change your password.</p>
+        
+        <div style="text-align: center;">
+            <a href="${cancelUrl}" class="button">
+                🚫 Cancel Email Change
+            </a>
+        </div>
+        
+        <div class="security-note">
+            <strong>🔒 Security Note:</strong> Until the new address is confirmed, your account keeps using ${email}.
+        </div>
+        
+        <p>If the button doesn't work, copy and paste this link into your browser:</p>
+        <p style="word-break: break-all; background: #e5e7eb; padding: 10px; border-radius: 4px; font-family: monospace;">
+            ${cancelUrl}
+        </p>
+    </div>
+    
+    <div class="footer">
+        <p>© 2024 Hayl Energy AI - Smart Energy Management Solutions</p>
+        <p>This email was sent to ${email}</p>
+    </div>
+</body>
+</html>
+    `
+
+    const text = `
+Hello ${displayName},
+
+Someone signed in to your Hayl Energy AI account asked to change its email address to ${newEmail}. The change happens once that address is confirmed.
+
+If this was you, there's nothing to do.
+
+Didn't ask for this? Cancel the change now, then change your password:
+
+${cancelUrl}
+
+Until the new address is confirmed, your account keeps using ${email}.
+
+---
+© 2024 Hayl Energy AI
+This email was sent to ${email}
+    `
+
+    return { subject, html, text }
+  }
+
+  /**
+   * Send email change notice email
+   */
+  async sendEmailChangeNoticeEmail(
+    email: string,
+    name: string | null,
+    newEmail: string,
+    cancelToken: string
+  ): Promise<boolean> {
+    const template = this.generateEmailChangeNoticeEmail(email, name, newEmail, cancelToken)
+
+    return await this.sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    })
+  }
+
+  /**
+   * Generate account deletion scheduled email template
+   */
+  generateAccountDeletionEmail(
+    email: string,
+    name: string | null,
+    scheduledFor: Date,
+    cancelToken: string
+  ): EmailTemplate {
+    const cancelUrl = `${this.baseUrl}/cancel-account-deletion?token=${cancelToken}`
+    const displayName = name || email.split('@')[0]
+    const deletionDate = scheduledFor.toUTCString()
+
+    const subject = 'Your account will be deleted - Hayl Energy AI'
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Account Deletion Scheduled</title>
+    <style>
+        body { 
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+        }
+        .header {
+            background: linear-gradient(135deg, #3b82f6 0%, #10b981 100%);
+            color: white;
+            padding: 30px;
+            text-align: center;
+            border-radius: 10px 10px 0 0;
+        }
+        .content {
+            background: #f8fafc;
+            padding: 30px;
+            border-radius: 0 0 10px 10px;
+        }
+        .button {
+            display: inline-block;
+            background: #3b82f6;
+            color: white;
+            padding: 15px 30px;
+            text-decoration: none;
+            border-radius: 8px;
+            margin: 20px 0;
+            font-weight: 600;
+        }
+        .footer {
+            text-align: center;
+            margin-top: 30px;
+            font-size: 14px;
+            color: #6b7280;
+        }
+        .security-note {
+            background: #fef3c7;
+            border: 1px solid #f59e0b;
+            border-radius: 6px;
+            padding: 15px;
+            margin: 20px 0;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1 style="margin: 0; font-size: 24px;">⚡ Hayl Energy AI</h1>
+        <p style="margin: 10px 0 0 0; opacity: 0.9;">Account deletion scheduled</p>
+    </div>
+    
+    <div class="content">
+        <h2>Hello ${displayName},</h2>
+        
+        <p>Your Hayl Energy AI account is scheduled to be deleted on <strong>${deletionDate}</strong>. After that your profile, sessions, passkeys and settings are removed for good, and your sign-in history is kept only in anonymized form.</p>
+        
+        <p>Changed your mind? Cancel any time before then, or sign in and cancel from your account settings.</p>
+        
+        <div style="text-align: center;">
+            <a href="${cancelUrl}" class="button">
+                ↩️ Keep My Account
+            </a>
+        </div>
+        
+        <div class="security-note">
+            <strong>🔒 Security Note:</strong> If you didn't ask for this, keep your account using the button above, then change your password.
+        </div>
+        
+        <p>If the button doesn't work, copy and paste this link into your browser:</p>
+        <p style="word-break: break-all; background: #e5e7eb; padding: 10px; border-radius: 4px; font-family: monospace;">
+            ${cancelUrl}
+        </p>
+    </div>
+    
+    <div class="footer">
+        <p>© 2024 Hayl Energy AI - Smart Energy Management Solutions</p>
+        <p>This email was sent to ${email}</p>
+    </div>
+</body>
+</html>
+    `
+
+    const text = `
+Hello ${displayName},
+
+Your Hayl Energy AI account is scheduled to be deleted on ${deletionDate}. After that your profile, sessions, passkeys and settings are removed for good, and your sign-in history is kept only in anonymized form.
+
+Changed your mind? Cancel any time before then, or sign in and cancel from your account settings:
+
+${cancelUrl}
+
+If you didn't ask for this, keep your account using the link above, then change your password.
+
+---
+© 2024 Hayl Energy AI
+This email was sent to ${email}
+    `
+
+    return { subject, html, text }
+  }
+
+  /**
+   * Send account deletion scheduled email
+   */
+  async sendAccountDeletionEmail(
+    email: string,
+    name: string | null,
+    scheduledFor: Date,
+    cancelToken: string
+  ): Promise<boolean> {
+    const template = this.generateAccountDeletionEmail(email, name, scheduledFor, cancelToken)
+
+    return await this.sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    })
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,184 @@
+import { readFileSync } from 'fs'
+import { isIP } from 'net'
+import path from 'path'
+
+export interface GeoLocation {
+  country: string
+  region?: string
+  city?: string
+}
+
+interface IpRange {
+  start: bigint
+  end: bigint
+  location: GeoLocation
+}
+
+const DEFAULT_DATASET_PATH = 'data/ip-ranges.csv'
+
+const LOCAL_NETWORK: GeoLocation = { country: 'Local network' }
+
+// Loopback, RFC 1918, link-local and IPv6 unique-local addresses never appear in a public dataset
+const PRIVATE_RANGES: Array<[string, string]> = [
+  ['10.0.0.0', '10.255.255.255'],
+  ['127.0.0.0', '127.255.255.255'],
+  ['169.254.0.0', '169.254.255.255'],
+  ['172.16.0.0', '172.31.255.255'],
+  ['192.168.0.0', '192.168.255.255'],
+  ['::1', '::1'],
+  ['fc00::', 'fdff:ffff:ffff:ffff:ffff:ffff:ffff:ffff'],
+  ['fe80::', 'febf:ffff:ffff:ffff:ffff:ffff:ffff:ffff']
+]
+
+// The eight groups of an IPv6 address with `::` filled in; null for spellings with an embedded IPv4 tail
+export function expandIPv6(address: string): string[] | null {
+  const [head, tail = ''] = address.toLowerCase().split('::')
+  const headGroups = head ? head.split(':') : []
+  const tailGroups = tail ? tail.split(':') : []
+  const groups = address.includes('::')
+    ? [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+    : headGroups
+
+  if (groups.length !== 8 || groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null
+  return groups
+}
+
+// IPv4 addresses map into the IPv4-mapped IPv6 space so one sorted list covers both families
+export function ipToBigInt(ip: string): bigint | null {
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  const address = mapped ? mapped[1] : ip
+  const family = isIP(address)
+
+  if (family === 4) {
+    const value = address.split('.').reduce((acc, octet) => (acc << BigInt(8)) + BigInt(Number(octet)), BigInt(0))
+    return BigInt('0xffff00000000') + value
+  }
+
+  if (family === 6) {
+    const groups = expandIPv6(address)
+    return groups && groups.reduce((acc, group) => (acc << BigInt(16)) + BigInt(parseInt(group, 16)), BigInt(0))
+  }
+
+  return null
+}
+
+// Splits one CSV line, honouring quoted fields ("Washington, D.C.")
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  fields.push(current)
+  return fields.map(field => field.trim())
+}
+
+/**
+ * Offline IP-to-location lookup over a CSV of address ranges, so sign-in
+ * emails can say roughly where a sign-in came from without calling a
+ * third-party API. Accepts the DB-IP "IP to Country Lite"
+ * (`start,end,country`) and "IP to City Lite"
+ * (`start,end,continent,country,region,city,…`) formats.
+ */
+export class GeoIpDatabase {
+  private constructor(private readonly ranges: IpRange[]) {}
+
+  static fromCsv(csv: string): GeoIpDatabase {
+    const ranges: IpRange[] = []
+
+    for (const line of csv.split(/\r?\n/)) {
+      if (!line.trim()) continue
+
+      const fields = splitCsvLine(line)
+      const start = ipToBigInt(fields[0])
+      const end = ipToBigInt(fields[1])
+      if (start === null || end === null) continue // header or comment row
+
+      const location: GeoLocation = fields.length >= 6
+        ? { country: fields[3], region: fields[4] || undefined, city: fields[5] || undefined }
+        : { country: fields[2] }
+
+      if (location.country) {
+        ranges.push({ start, end, location })
+      }
+    }
+
+    ranges.sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0))
+    return new GeoIpDatabase(ranges)
+  }
+
+  get size(): number {
+    return this.ranges.length
+  }
+
+  lookup(ip: string): GeoLocation | null {
+    const value = ipToBigInt(ip)
+    if (value === null) return null
+
+    for (const [start, end] of PRIVATE_RANGES) {
+      if (value >= ipToBigInt(start)! && value <= ipToBigInt(end)!) {
+        return LOCAL_NETWORK
+      }
+    }
+
+    // Last range starting at or before the address
+    let low = 0
+    let high = this.ranges.length - 1
+    let match: IpRange | null = null
+    while (low <= high) {
+      const mid = (low + high) >> 1
+      if (this.ranges[mid].start <= value) {
+        match = this.ranges[mid]
+        low = mid + 1
+      } else {
+        high = mid - 1
+      }
+    }
+
+    return match && value <= match.end ? match.location : null
+  }
+}
+
+let database: GeoIpDatabase | null = null
+
+// Loads GEOIP_DATASET_PATH (default data/ip-ranges.csv) on first use; without it only local addresses resolve
+export function lookupLocation(ip: string): GeoLocation | null {
+  if (!database) {
+    const datasetPath = path.resolve(process.cwd(), process.env.GEOIP_DATASET_PATH || DEFAULT_DATASET_PATH)
+    try {
+      database = GeoIpDatabase.fromCsv(readFileSync(datasetPath, 'utf8'))
+    } catch {
+      console.warn(`GeoIP dataset not found at ${datasetPath}; new-device emails will not include a location`)
+      database = GeoIpDatabase.fromCsv('')
+    }
+  }
+
+  return database.lookup(ip)
+}
+
+export function formatLocation(location: GeoLocation | null): string | null {
+  if (!location) return null
+  return [location.city, location.region, location.country]
+    .filter((part, index, parts) => part && parts.indexOf(part) === index)
+    .join(', ')
+}
@@ -0,0 +1,188 @@
+import { JWK, JWTHeaderParameters, exportJWK, importJWK, importPKCS8, importSPKI } from 'jose'
+
+/**
+ * Signing keys for the JWTs we issue. Safe in Edge middleware: keys come from
+ * the environment and are imported with WebCrypto.
+ *
+ * A key ring lists keys newest first. The first one signs; the others only
+ * verify, until their `verifyUntil` passes or they are removed, so replacing
+ * a key doesn't sign everyone out. Every token carries the `kid` of the key
+ * that signed it.
+ */
+
+export const JWT_ALGORITHMS = ['HS256', 'ES256', 'EdDSA'] as const
+export type JwtAlgorithm = typeof JWT_ALGORITHMS[number]
+
+// kid given to JWT_SECRET / JWT_REFRESH_SECRET; tokens from before key rotation have no kid and use it too
+export const LEGACY_KID = 'jwt-secret'
+
+// One entry of JWT_SIGNING_KEYS / JWT_INTERNAL_SIGNING_KEYS
+export interface JwtKeyConfig {
+  kid: string
+  alg: JwtAlgorithm
+  // HS256 only
+  secret?: string
+  // ES256/EdDSA: PKCS#8 PEM. Leave it out (and give publicKey) for a key that only verifies
+  privateKey?: string
+  // ES256/EdDSA: SPKI PEM, for a key whose private half is already gone
+  publicKey?: string
+  // ISO date after which tokens signed with this key are refused
+  verifyUntil?: string
+}
+
+type KeyMaterial = CryptoKey | Uint8Array
+
+export interface JwtKey {
+  kid: string
+  alg: JwtAlgorithm
+  signingKey: KeyMaterial | null
+  verificationKey: KeyMaterial
+  // Public half for the JWKS; null for HS256 secrets, which are never published
+  publicJwk: JWK | null
+  verifyUntil: Date | null
+}
+
+export class KeyRing {
+  constructor(readonly keys: JwtKey[]) {
+    if (!keys[0]?.signingKey) {
+      throw new Error('The first JWT key must be able to sign')
+    }
+  }
+
+  get signing(): { kid: string; alg: JwtAlgorithm; key: KeyMaterial } {
+    const [{ kid, alg, signingKey }] = this.keys
+    return { kid, alg, key: signingKey! }
+  }
+
+  // Looks up the key named by a token header; tokens without a kid predate rotation
+  resolve(header: Pick<JWTHeaderParameters, 'alg' | 'kid'>, now = new Date()): KeyMaterial {
+    const kid = header.kid ?? LEGACY_KID
+    const key = this.keys.find(candidate => candidate.kid === kid)
+
+    if (!key) {
+      throw new Error(`Unknown JWT key id: ${kid}`)
+    }
+    // Never let the token choose the algorithm: an HS256 header against a published public key is a forgery
+    if (header.alg !== key.alg) {
+      throw new Error(`JWT key ${kid} does not use ${header.alg}`)
+    }
+    if (key.verifyUntil && key.verifyUntil < now) {
+      throw new Error(`JWT key ${kid} was retired`)
+    }
+
+    return key.verificationKey
+  }
+
+  // Public keys for /.well-known/jwks.json, including retired ones still inside their grace period
+  jwks(now = new Date()): { keys: JWK[] } {
+    return {
+      keys: this.keys
+        .filter(key => key.publicJwk && (!key.verifyUntil || key.verifyUntil >= now))
+        .map(key => ({ ...key.publicJwk, kid: key.kid, alg: key.alg, use: 'sig' }))
+    }
+  }
+}
+
+function publicOnly(jwk: JWK): JWK {
+  const { kty, crv, x, y } = jwk
+  return { kty, crv, x, y }
+}
+
+async function importKey(config: JwtKeyConfig): Promise<JwtKey> {
+  const { kid, alg } = config
+  const verifyUntil = config.verifyUntil ? new Date(config.verifyUntil) : null
+
+  if (!kid) {
+    throw new Error('Every JWT key needs a kid')
+  }
+  if (!JWT_ALGORITHMS.includes(alg)) {
+    throw new Error(`JWT key ${kid}: unsupported algorithm ${alg}`)
+  }
+  if (verifyUntil && isNaN(verifyUntil.getTime())) {
+    throw new Error(`JWT key ${kid}: verifyUntil is not a date`)
+  }
+
+  if (alg === 'HS256') {
+    if (!config.secret) {
+      throw new Error(`JWT key ${kid}: HS256 keys need a secret`)
+    }
+    const secret = new TextEncoder().encode(config.secret)
+    return { kid, alg, signingKey: secret, verificationKey: secret, publicJwk: null, verifyUntil }
+  }
+
+  if (config.privateKey) {
+    // Extractable so the public half can be derived for the JWKS
+    const privateKey = await importPKCS8(config.privateKey, alg, { extractable: true })
+    const publicJwk = publicOnly(await exportJWK(privateKey))
+    const verificationKey = await importJWK(publicJwk, alg) as CryptoKey
+    return { kid, alg, signingKey: privateKey, verificationKey, publicJwk, verifyUntil }
+  }
+
+  if (config.publicKey) {
+    const publicKey = await importSPKI(config.publicKey, alg, { extractable: true })
+    return { kid, alg, signingKey: null, verificationKey: publicKey, publicJwk: publicOnly(await exportJWK(publicKey)), verifyUntil }
+  }
+
+  throw new Error(`JWT key ${kid}: ${alg} keys need a privateKey or publicKey`)
+}
+
+export function parseKeyConfigs(json: string, variable: string): JwtKeyConfig[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    throw new Error(`${variable} is not valid JSON`)
+  }
+
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error(`${variable} must be a non-empty array of keys`)
+  }
+
+  return parsed as JwtKeyConfig[]
+}
+
+export async function createKeyRing(configs: JwtKeyConfig[]): Promise<KeyRing> {
+  const keys = await Promise.all(configs.map(importKey))
+
+  const kids = new Set(keys.map(key => key.kid))
+  if (kids.size !== keys.length) {
+    throw new Error('JWT key ids must be unique')
+  }
+
+  return new KeyRing(keys)
+}
+
+// A JSON key list when configured; otherwise the single secret under LEGACY_KID
+function loadKeyRing(variable: string, json: string | undefined, legacySecret: string | undefined): Promise<KeyRing> {
+  if (json) {
+    return createKeyRing(parseKeyConfigs(json, variable))
+  }
+  if (!legacySecret) {
+    return Promise.reject(new Error(`Set ${variable} or JWT_SECRET`))
+  }
+  return createKeyRing([{ kid: LEGACY_KID, alg: 'HS256', secret: legacySecret }])
+}
+
+// Imported once per process; environment variables are read by name so Next can inline them for the Edge runtime
+let accessKeyRing: Promise<KeyRing> | null = null
+let internalKeyRing: Promise<KeyRing> | null = null
+
+// Signs access tokens; its public keys are what other services verify against
+export function getAccessKeyRing(): Promise<KeyRing> {
+  if (!accessKeyRing) {
+    accessKeyRing = loadKeyRing('JWT_SIGNING_KEYS', process.env.JWT_SIGNING_KEYS, process.env.JWT_SECRET)
+  }
+  return accessKeyRing
+}
+
+// Signs refresh and MFA challenge tokens, which only this app reads
+export function getInternalKeyRing(): Promise<KeyRing> {
+  if (!internalKeyRing) {
+    internalKeyRing = loadKeyRing(
+      'JWT_INTERNAL_SIGNING_KEYS',
+      process.env.JWT_INTERNAL_SIGNING_KEYS,
+      process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET
+    )
+  }
+  return internalKeyRing
+}
@@ -1,14 +1,22 @@
-import { SignJWT, jwtVerify, JWTPayload } from 'jose'
-import { cookies } from 'next/headers'
-
-const accessTokenSecret = new TextEncoder().encode(process.env.JWT_SECRET!)
-const refreshTokenSecret = new TextEncoder().encode(process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET!)
-const alg = 'HS256'
-
-export interface TokenPayload extends JWTPayload {
+import { SignJWT } from 'jose'
+import { prisma } from './prisma'
+import { SessionService } from './session'
+import { UserAccess } from './permissions'
+import { getAccessKeyRing, getInternalKeyRing } from './jwt-keys'
+import {
+  TokenPayload,
+  TOKEN_ISSUER,
+  TOKEN_AUDIENCE,
+  ACCESS_TOKEN_MAX_AGE,
+  REFRESH_TOKEN_MAX_AGE,
+  verifyAuthToken
+} from './auth-tokens'
+
+export type { TokenPayload }
+
+export interface TokenSubject extends Partial<UserAccess> {
   userId: string
   email: string
-  type: 'access' | 'refresh'
   sessionId?: string
 }
 
@@ -17,110 +25,166 @@ export interface TokenPair {
   refreshToken: string
 }
 
-export class JWTService {
-  private static readonly ACCESS_TOKEN_EXPIRES = '15m'
-  private static readonly REFRESH_TOKEN_EXPIRES = '7d'
-  private static readonly ISSUER = 'hayl-energy-ai'
-  private static readonly AUDIENCE = 'hayl-energy-ai-users'
+export type RefreshTokenRotation =
+  | { status: 'rotated'; tokens: TokenPair }
+  | { status: 'reused' }
+  | { status: 'unknown' }
 
-  static async signAccessToken(payload: { userId: string; email: string; sessionId?: string }): Promise<string> {
+export class JWTService {
+  static readonly ACCESS_TOKEN_MAX_AGE = ACCESS_TOKEN_MAX_AGE
+  static readonly REFRESH_TOKEN_MAX_AGE = REFRESH_TOKEN_MAX_AGE
+  static readonly MFA_CHALLENGE_MAX_AGE = 5 * 60 // 5 minutes, in seconds
+  // Tabs sharing cookies can refresh at the same moment; a replay this soon isn't treated as theft
+  static readonly REFRESH_REUSE_GRACE_MS = 10 * 1000
+  private static readonly ISSUER = TOKEN_ISSUER
+  private static readonly AUDIENCE = TOKEN_AUDIENCE
+
+  static async signAccessToken(payload: TokenSubject): Promise<string> {
+    const { kid, alg, key } = (await getAccessKeyRing()).signing
     return await new SignJWT({
       ...payload,
       type: 'access'
     } as TokenPayload)
-      .setProtectedHeader({ alg })
+      .setProtectedHeader({ alg, kid })
       .setIssuedAt()
       .setIssuer(this.ISSUER)
       .setAudience(this.AUDIENCE)
-      .setExpirationTime(this.ACCESS_TOKEN_EXPIRES)
+      .setExpirationTime(`${this.ACCESS_TOKEN_MAX_AGE}s`)
       .setJti(crypto.randomUUID())
-      .sign(accessTokenSecret)
+      .sign(key)
   }
 
-  static async signRefreshToken(payload: { userId: string; email: string; sessionId?: string }): Promise<string> {
+  static async signRefreshToken(
+    payload: { userId: string; email: string; sessionId?: string },
+    jti: string = crypto.randomUUID()
+  ): Promise<string> {
+    const { kid, alg, key } = (await getInternalKeyRing()).signing
     return await new SignJWT({
       ...payload,
       type: 'refresh'
     } as TokenPayload)
-      .setProtectedHeader({ alg })
+      .setProtectedHeader({ alg, kid })
+      .setIssuedAt()
+      .setIssuer(this.ISSUER)
+      .setAudience(this.AUDIENCE)
+      .setExpirationTime(`${this.REFRESH_TOKEN_MAX_AGE}s`)
+      .setJti(jti)
+      .sign(key)
+  }
+
+  // Proves the password step of a login succeeded; exchanged for a real session once the second factor checks out.
+  // Signed with the internal keys like refresh tokens, so services trusting our JWKS never see a valid one
+  static async signMfaChallengeToken(payload: { userId: string; email: string }): Promise<string> {
+    const { kid, alg, key } = (await getInternalKeyRing()).signing
+    return await new SignJWT({
+      ...payload,
+      type: 'mfa'
+    } as TokenPayload)
+      .setProtectedHeader({ alg, kid })
       .setIssuedAt()
       .setIssuer(this.ISSUER)
       .setAudience(this.AUDIENCE)
-      .setExpirationTime(this.REFRESH_TOKEN_EXPIRES)
+      .setExpirationTime(`${this.MFA_CHALLENGE_MAX_AGE}s`)
       .setJti(crypto.randomUUID())
-      .sign(refreshTokenSecret)
+      .sign(key)
   }
 
-  static async createTokenPair(payload: { userId: string; email: string }): Promise<TokenPair> {
-    const sessionId = crypto.randomUUID()
-    const tokenPayload = { ...payload, sessionId }
+  // Pass an existing sessionId when refreshing so the pair stays tied to the same session.
+  // Refresh tokens for a persisted session are recorded so they can be rotated; `parentJti`
+  // links a rotated token to the one it replaced. Roles and permissions go in the access
+  // token only, so each refresh picks up the user's current ones.
+  static async createTokenPair(
+    payload: TokenSubject,
+    parentJti?: string
+  ): Promise<TokenPair> {
+    const sessionId = payload.sessionId || crypto.randomUUID()
+    const tokenPayload = { userId: payload.userId, email: payload.email, sessionId }
+    const jti = crypto.randomUUID()
 
     const [accessToken, refreshToken] = await Promise.all([
-      this.signAccessToken(tokenPayload),
-      this.signRefreshToken(tokenPayload)
+      this.signAccessToken({
+        ...tokenPayload,
+        roles: payload.roles ?? [],
+        permissions: payload.permissions ?? []
+      }),
+      this.signRefreshToken(tokenPayload, jti)
     ])
 
+    if (payload.sessionId) {
+      await prisma.refreshToken.create({
+        data: {
+          jti,
+          sessionId,
+          parentJti,
+          expiresAt: new Date(Date.now() + this.REFRESH_TOKEN_MAX_AGE * 1000)
+        }
+      })
+    }
+
     return { accessToken, refreshToken }
   }
 
-  static async verifyAccessToken(token: string): Promise<TokenPayload | null> {
-    try {
-      const { payload } = await jwtVerify(token, accessTokenSecret, {
-        issuer: this.ISSUER,
-        audience: this.AUDIENCE
-      })
-      
-      const tokenPayload = payload as TokenPayload
-      if (tokenPayload.type !== 'access') {
-        return null
-      }
-      
-      return tokenPayload
-    } catch (error) {
-      console.error('Access token verification failed:', error)
-      return null
+  // Exchanges a verified refresh token for a new pair. Each refresh token can be rotated once;
+  // presenting one that was already rotated means it was copied, so the whole family is revoked.
+  static async rotateRefreshToken(payload: TokenPayload, access?: UserAccess): Promise<RefreshTokenRotation> {
+    if (!payload.jti || !payload.sessionId) {
+      return { status: 'unknown' }
     }
-  }
 
-  static async verifyRefreshToken(token: string): Promise<TokenPayload | null> {
-    try {
-      const { payload } = await jwtVerify(token, refreshTokenSecret, {
-        issuer: this.ISSUER,
-        audience: this.AUDIENCE
+    const now = new Date()
+    const { count } = await prisma.refreshToken.updateMany({
+      where: { jti: payload.jti, sessionId: payload.sessionId, rotatedAt: null },
+      data: { rotatedAt: now }
+    })
+
+    if (count === 0) {
+      const record = await prisma.refreshToken.findUnique({
+        where: { jti: payload.jti },
+        select: { sessionId: true, rotatedAt: true }
       })
-      
-      const tokenPayload = payload as TokenPayload
-      if (tokenPayload.type !== 'refresh') {
-        return null
+
+      if (!record || record.sessionId !== payload.sessionId || !record.rotatedAt) {
+        return { status: 'unknown' }
+      }
+
+      if (now.getTime() - record.rotatedAt.getTime() > this.REFRESH_REUSE_GRACE_MS) {
+        await this.revokeRefreshTokenFamily(payload.sessionId)
+        return { status: 'reused' }
       }
-      
-      return tokenPayload
-    } catch (error) {
-      console.error('Refresh token verification failed:', error)
-      return null
     }
+
+    const tokens = await this.createTokenPair(
+      { userId: payload.userId, email: payload.email, sessionId: payload.sessionId, ...access },
+      payload.jti
+    )
+
+    return { status: 'rotated', tokens }
   }
 
-  static async verifyToken(token: string, type: 'access' | 'refresh' = 'access'): Promise<TokenPayload | null> {
-    return type === 'access' 
-      ? await this.verifyAccessToken(token)
-      : await this.verifyRefreshToken(token)
+  // Ends the session and spends every outstanding refresh token issued for it
+  static async revokeRefreshTokenFamily(sessionId: string): Promise<void> {
+    await prisma.refreshToken.updateMany({
+      where: { sessionId, rotatedAt: null },
+      data: { rotatedAt: new Date() }
+    })
+    await SessionService.revokeSession(sessionId)
+  }
+
+  // Verification lives in the shared auth core so middleware checks tokens exactly the same way
+  static async verifyAccessToken(token: string): Promise<TokenPayload | null> {
+    return verifyAuthToken(token, 'access')
   }
 
-  static async getTokenFromRequest(request: Request): Promise<{ accessToken?: string; refreshToken?: string }> {
-    // Check Authorization header for access token
-    const authHeader = request.headers.get('authorization')
-    const accessToken = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : undefined
+  static async verifyRefreshToken(token: string): Promise<TokenPayload | null> {
+    return verifyAuthToken(token, 'refresh')
+  }
 
-    // Check cookies for both tokens
-    const cookieStore = await cookies()
-    const accessTokenFromCookie = cookieStore.get('access-token')?.value
-    const refreshTokenFromCookie = cookieStore.get('refresh-token')?.value
+  static async verifyMfaChallengeToken(token: string): Promise<TokenPayload | null> {
+    return verifyAuthToken(token, 'mfa')
+  }
 
-    return {
-      accessToken: accessToken || accessTokenFromCookie,
-      refreshToken: refreshTokenFromCookie
-    }
+  static async verifyToken(token: string, type: 'access' | 'refresh' = 'access'): Promise<TokenPayload | null> {
+    return verifyAuthToken(token, type)
   }
 
   static generateSecureSecret(): string {
@@ -140,6 +204,18 @@ export class JWTService {
     return Date.now() >= (payload.exp * 1000 - bufferMs)
   }
 
+  // Epoch milliseconds at which an access token issued now will expire
+  static getAccessTokenExpiresAt(): number {
+    return Date.now() + this.ACCESS_TOKEN_MAX_AGE * 1000
+  }
+
+  // True when the token predates `date`, e.g. a password change that should end older sessions
+  static isTokenIssuedBefore(payload: Pick<TokenPayload, 'iat'>, date: Date | null | undefined): boolean {
+    if (!date) return false
+    if (!payload.iat) return true
+    return payload.iat < Math.floor(date.getTime() / 1000)
+  }
+
   static extractTokenInfo(token: string): { header: any; payload: TokenPayload } | null {
     try {
       const parts = token.split('.')
@@ -153,9 +229,4 @@ export class JWTService {
       return null
     }
   }
-}
-
-// Legacy compatibility functions
-export const signToken = JWTService.signAccessToken
-export const verifyToken = JWTService.verifyAccessToken
-export const getTokenFromRequest = JWTService.getTokenFromRequest
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { NextRequest } from 'next/server'
+import { isIP } from 'net'
+import { prisma } from './prisma'
+import { emailService } from './email-service'
+import { extractClientInfo, logAuthEvent } from './auth-logger'
+import { parseUserAgent } from './user-agent'
+import { expandIPv6, formatLocation, lookupLocation } from './geoip'
+import { createExpiringToken, hashToken } from './secure-token'
+
+// The "secure my account" link stays usable for a week; it can only lock the account down, never open it
+const SECURE_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+// Browser and OS without versions, so updates don't look like a new device
+export function deviceFamily(userAgent: string | null | undefined): string {
+  const { browser, os, deviceType } = parseUserAgent(userAgent)
+  return `${browser}|${os}|${deviceType}`
+}
+
+// IPv4 /24 and IPv6 /48: stable across DHCP renewals and privacy addresses, different across networks
+export function ipPrefix(ip: string): string {
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  const address = mapped ? mapped[1] : ip
+
+  if (isIP(address) === 4) {
+    return `${address.split('.').slice(0, 3).join('.')}.0/24`
+  }
+
+  const groups = isIP(address) === 6 ? expandIPv6(address) : null
+  if (groups) {
+    return `${groups.slice(0, 3).map(group => group.replace(/^0+(?=.)/, '')).join(':')}::/48`
+  }
+
+  return 'unknown'
+}
+
+/**
+ * Remembers where each user signs in from. A sign-in from a browser family
+ * and network we haven't seen for that user gets an email with the time,
+ * approximate location, device and a one-click "secure my account" link.
+ */
+export class KnownDeviceService {
+  static async recordSignIn(user: { id: string; email: string }, request: NextRequest): Promise<{ newDevice: boolean }> {
+    const { ip, userAgent } = extractClientInfo(request)
+    const family = deviceFamily(userAgent)
+    const prefix = ipPrefix(ip)
+    const now = new Date()
+
+    const { count } = await prisma.knownDevice.updateMany({
+      where: { userId: user.id, family, ipPrefix: prefix },
+      data: { lastSeenAt: now }
+    })
+    if (count > 0) return { newDevice: false }
+
+    const hasHistory = await prisma.knownDevice.count({ where: { userId: user.id } }) > 0
+    const location = formatLocation(lookupLocation(ip))
+
+    // The first device we ever see is where the account was set up; nothing to warn about
+    if (!hasHistory) {
+      await prisma.knownDevice.create({
+        data: { userId: user.id, family, ipPrefix: prefix, location }
+      })
+      return { newDevice: false }
+    }
+
+    const { token, tokenHash, expiresAt } = createExpiringToken(SECURE_TOKEN_TTL_MS)
+    await prisma.knownDevice.create({
+      data: {
+        userId: user.id,
+        family,
+        ipPrefix: prefix,
+        location,
+        secureToken: tokenHash,
+        secureTokenExpiresAt: expiresAt
+      }
+    })
+
+    const device = parseUserAgent(userAgent)
+    await logAuthEvent('new_device_login', request, {
+      success: true,
+      userId: user.id,
+      email: user.email,
+      metadata: { device: device.label, ipPrefix: prefix, location }
+    })
+
+    const account = await prisma.user.findUnique({ where: { id: user.id }, select: { name: true } })
+    try {
+      await emailService.sendNewDeviceEmail(user.email, account?.name ?? null, {
+        signedInAt: now,
+        device: device.label,
+        ip,
+        location,
+        secureToken: token
+      })
+    } catch (emailError) {
+      console.error('New device email failed:', emailError)
+    }
+
+    return { newDevice: true }
+  }
+
+  /**
+   * Redeems the link from the new-device email. The device stops being known
+   * so a later sign-in from it warns again; returns null for unknown or
+   * expired links.
+   */
+  static async redeemSecureToken(token: string): Promise<{ id: string; email: string; name: string | null } | null> {
+    const device = await prisma.knownDevice.findUnique({
+      where: { secureToken: hashToken(token) },
+      select: {
+        id: true,
+        secureTokenExpiresAt: true,
+        user: { select: { id: true, email: true, name: true } }
+      }
+    })
+
+    if (!device || !device.secureTokenExpiresAt || device.secureTokenExpiresAt < new Date()) {
+      return null
+    }
+
+    await prisma.knownDevice.delete({ where: { id: device.id } })
+    return device.user
+  }
+}
@@ -0,0 +1,57 @@
+import { AuditLogService } from './audit-log'
+import { AccountDeletionService } from './account-deletion'
+import { getRateLimitStore } from './rate-limit-store'
+
+/**
+ * Daily housekeeping: audit events past their retention, accounts whose
+ * deletion grace period has ended, and expired rate-limit counters. Nothing
+ * runs it implicitly; the /api/cron/maintenance route is on the Vercel cron
+ * schedule in vercel.json. Each step runs even if an earlier one failed.
+ */
+
+export interface MaintenanceReport {
+  // null when the step failed
+  prunedAuditEntries: number | null
+  prunedSecurityAlerts: number | null
+  purgedAccounts: number | null
+  prunedRateLimits: boolean
+}
+
+export class MaintenanceService {
+  static async run(): Promise<MaintenanceReport> {
+    const report: MaintenanceReport = {
+      prunedAuditEntries: null,
+      prunedSecurityAlerts: null,
+      purgedAccounts: null,
+      prunedRateLimits: false
+    }
+
+    try {
+      const { entries, alerts } = await AuditLogService.prune()
+      report.prunedAuditEntries = entries
+      report.prunedSecurityAlerts = alerts
+    } catch (error) {
+      console.error('Failed to prune audit logs:', error)
+    }
+
+    try {
+      report.purgedAccounts = await AccountDeletionService.purgeDue()
+    } catch (error) {
+      console.error('Failed to purge deleted accounts:', error)
+    }
+
+    // Only the Postgres store keeps expired rows; Redis and memory expire their own
+    try {
+      await getRateLimitStore().prune?.()
+      report.prunedRateLimits = true
+    } catch (error) {
+      console.error('Failed to prune rate limit counters:', error)
+    }
+
+    return report
+  }
+
+  static succeeded(report: MaintenanceReport): boolean {
+    return report.prunedAuditEntries !== null && report.purgedAccounts !== null && report.prunedRateLimits
+  }
+}
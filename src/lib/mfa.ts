@@ -0,0 +1,147 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import QRCode from 'qrcode'
+import { prisma } from './prisma'
+import { hashToken, requireSecret } from './secure-token'
+import { base32Encode, buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp'
+
+const ISSUER = 'Hayl Energy AI'
+const RECOVERY_CODE_COUNT = 10
+
+// TOTP secrets must be readable by the server, so they are encrypted rather than hashed. The key is its own
+// setting: one borrowed from token signing would make every stored secret unreadable when that key rotates
+const encryptionKey = () => createHash('sha256')
+  .update(requireSecret('MFA_ENCRYPTION_KEY'))
+  .digest()
+
+function encryptSecret(secret: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':')
+}
+
+function decryptSecret(payload: string): string {
+  const [iv, tag, ciphertext] = payload.split(':').map(part => Buffer.from(part, 'base64'))
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), iv)
+  decipher.setAuthTag(tag)
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+}
+
+// Recovery codes are typed by hand, so ignore case, spaces and dashes
+function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '')
+}
+
+export interface MfaEnrollment {
+  secret: string
+  otpauthUri: string
+  qrCode: string
+}
+
+export class MfaService {
+  // Stores a fresh secret without enabling MFA; `enable` turns it on once the user proves they saved it
+  static async beginEnrollment(user: { id: string; email: string }): Promise<MfaEnrollment> {
+    const secret = generateTotpSecret()
+    const otpauthUri = buildOtpauthUri(secret, user.email, ISSUER)
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        mfaSecret: encryptSecret(secret),
+        mfaLastUsedStep: null
+      }
+    })
+
+    return {
+      secret,
+      otpauthUri,
+      qrCode: await QRCode.toDataURL(otpauthUri)
+    }
+  }
+
+  /**
+   * Check a TOTP code for the user. Each time step is accepted once, so a code
+   * observed over someone's shoulder can't be replayed within its 30 seconds.
+   */
+  static async verifyCode(
+    user: { id: string; mfaSecret: string | null; mfaLastUsedStep: number | null },
+    code: string
+  ): Promise<boolean> {
+    if (!user.mfaSecret) return false
+
+    const step = verifyTotp(decryptSecret(user.mfaSecret), code)
+    if (step === null) return false
+    if (user.mfaLastUsedStep !== null && step <= user.mfaLastUsedStep) return false
+
+    // Conditional update so two concurrent requests can't both spend the same step
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }]
+      },
+      data: { mfaLastUsedStep: step }
+    })
+
+    return count === 1
+  }
+
+  static async enable(userId: string): Promise<string[]> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { mfaEnabled: true }
+    })
+
+    return this.generateRecoveryCodes(userId)
+  }
+
+  static async disable(userId: string): Promise<void> {
+    await prisma.recoveryCode.deleteMany({ where: { userId } })
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        mfaEnabled: false,
+        mfaSecret: null,
+        mfaLastUsedStep: null
+      }
+    })
+  }
+
+  // Replaces any previous codes; the plaintext codes are returned once and never stored
+  static async generateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = base32Encode(randomBytes(7)).slice(0, 10)
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`
+    })
+
+    await prisma.recoveryCode.deleteMany({ where: { userId } })
+    await prisma.recoveryCode.createMany({
+      data: codes.map(code => ({
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(code))
+      }))
+    })
+
+    return codes
+  }
+
+  static async consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+    const { count } = await prisma.recoveryCode.updateMany({
+      where: {
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(code)),
+        usedAt: null
+      },
+      data: { usedAt: new Date() }
+    })
+
+    return count === 1
+  }
+
+  static async countRemainingRecoveryCodes(userId: string): Promise<number> {
+    return prisma.recoveryCode.count({
+      where: { userId, usedAt: null }
+    })
+  }
+}
@@ -0,0 +1,381 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto'
+import bcrypt from 'bcryptjs'
+import { EncryptJWT, createRemoteJWKSet, jwtDecrypt, jwtVerify } from 'jose'
+import { prisma } from './prisma'
+import { requireSecret } from './secure-token'
+
+export const OIDC_STATE_COOKIE = 'oidc-state'
+export const OIDC_STATE_MAX_AGE = 10 * 60 // 10 minutes to finish signing in at the provider
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000 // 1 hour
+
+interface ProviderPreset {
+  name: string
+  issuer: () => string
+}
+
+// Well-known providers only need a client id and secret; anything else supplies OIDC_<ID>_ISSUER
+const PROVIDER_PRESETS: Record<string, ProviderPreset> = {
+  google: {
+    name: 'Google',
+    issuer: () => 'https://accounts.google.com'
+  },
+  microsoft: {
+    name: 'Microsoft',
+    // `organizations` accepts any Entra tenant; set OIDC_MICROSOFT_TENANT to pin one
+    issuer: () => `https://login.microsoftonline.com/${process.env.OIDC_MICROSOFT_TENANT || 'organizations'}/v2.0`
+  }
+}
+
+export interface OidcProvider {
+  id: string
+  name: string
+  issuer: string
+  clientId: string
+  clientSecret?: string
+  scopes: string[]
+  // Treat the `email` claim as verified even without `email_verified` (single-tenant directories only)
+  trustEmail: boolean
+}
+
+interface DiscoveryDocument {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+}
+
+// Everything the callback needs to finish the flow, sealed into a short-lived cookie
+export interface OidcAuthState {
+  provider: string
+  state: string
+  nonce: string
+  codeVerifier: string
+  redirectTo: string
+}
+
+export interface OidcIdentity {
+  subject: string
+  email: string | null
+  emailVerified: boolean
+  name: string | null
+}
+
+export type OidcErrorCode =
+  | 'oidc_state_mismatch'
+  | 'oidc_token_exchange_failed'
+  | 'oidc_invalid_id_token'
+  | 'oidc_email_unverified'
+  | 'oidc_account_unverified'
+
+export class OidcError extends Error {
+  constructor(readonly code: OidcErrorCode, message: string) {
+    super(message)
+  }
+}
+
+const discoveryCache = new Map<string, { document: DiscoveryDocument; fetchedAt: number }>()
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>()
+
+const linkedUserSelect = {
+  id: true,
+  email: true,
+  name: true,
+  emailVerified: true,
+  mfaEnabled: true,
+  createdAt: true,
+  disabledAt: true,
+  _count: { select: { credentials: true } }
+} as const
+
+function base64url(bytes: Buffer): string {
+  return bytes.toString('base64url')
+}
+
+function stateKey(): Uint8Array {
+  return createHash('sha256').update(`oidc-state:${requireSecret('OIDC_STATE_SECRET')}`).digest()
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+export class OidcService {
+  static getProviders(): OidcProvider[] {
+    const ids = (process.env.OIDC_PROVIDERS || '')
+      .split(',')
+      .map(id => id.trim().toLowerCase())
+      .filter(Boolean)
+
+    return ids.flatMap(id => {
+      const prefix = `OIDC_${id.toUpperCase()}`
+      const preset = PROVIDER_PRESETS[id]
+      const clientId = process.env[`${prefix}_CLIENT_ID`]
+      const issuer = process.env[`${prefix}_ISSUER`] || preset?.issuer()
+
+      if (!clientId || !issuer) {
+        console.warn(`OIDC provider "${id}" is missing a client id or issuer and has been skipped`)
+        return []
+      }
+
+      return [{
+        id,
+        name: process.env[`${prefix}_NAME`] || preset?.name || id,
+        issuer: issuer.replace(/\/$/, ''),
+        clientId,
+        clientSecret: process.env[`${prefix}_CLIENT_SECRET`] || undefined,
+        scopes: (process.env[`${prefix}_SCOPES`] || 'openid email profile').split(/\s+/),
+        trustEmail: process.env[`${prefix}_TRUST_EMAIL`] === 'true'
+      }]
+    })
+  }
+
+  static getProvider(id: string): OidcProvider | null {
+    return this.getProviders().find(provider => provider.id === id) ?? null
+  }
+
+  // Must match the redirect URI registered with the provider exactly, so prefer the configured public URL
+  static getRedirectUri(providerId: string, requestOrigin: string): string {
+    const origin = (process.env.NEXTAUTH_URL || requestOrigin).replace(/\/$/, '')
+    return `${origin}/api/auth/oidc/${providerId}/callback`
+  }
+
+  private static async discover(provider: OidcProvider): Promise<DiscoveryDocument> {
+    const cached = discoveryCache.get(provider.issuer)
+    if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) {
+      return cached.document
+    }
+
+    const response = await fetch(`${provider.issuer}/.well-known/openid-configuration`)
+    if (!response.ok) {
+      throw new Error(`OIDC discovery for ${provider.id} failed with status ${response.status}`)
+    }
+
+    const document = await response.json() as DiscoveryDocument
+    // Multi-tenant Entra publishes a `{tenantid}` template; it is resolved per token in validateIdToken
+    if (document.issuer.replace(/\/$/, '') !== provider.issuer && !document.issuer.includes('{tenantid}')) {
+      throw new Error(`OIDC discovery for ${provider.id} returned issuer ${document.issuer}`)
+    }
+
+    discoveryCache.set(provider.issuer, { document, fetchedAt: Date.now() })
+    return document
+  }
+
+  private static getJwks(jwksUri: string) {
+    let jwks = jwksCache.get(jwksUri)
+    if (!jwks) {
+      jwks = createRemoteJWKSet(new URL(jwksUri))
+      jwksCache.set(jwksUri, jwks)
+    }
+    return jwks
+  }
+
+  // Authorization code flow with PKCE; state and nonce bind the callback to this browser and this request
+  static async createAuthorizationRequest(
+    provider: OidcProvider,
+    redirectUri: string,
+    redirectTo: string
+  ): Promise<{ url: string; state: OidcAuthState }> {
+    const document = await this.discover(provider)
+    const state: OidcAuthState = {
+      provider: provider.id,
+      state: base64url(randomBytes(32)),
+      nonce: base64url(randomBytes(32)),
+      codeVerifier: base64url(randomBytes(32)),
+      redirectTo
+    }
+
+    const url = new URL(document.authorization_endpoint)
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: provider.clientId,
+      redirect_uri: redirectUri,
+      scope: provider.scopes.join(' '),
+      state: state.state,
+      nonce: state.nonce,
+      code_challenge: base64url(createHash('sha256').update(state.codeVerifier).digest()),
+      code_challenge_method: 'S256'
+    }).toString()
+
+    return { url: url.toString(), state }
+  }
+
+  static async sealState(state: OidcAuthState): Promise<string> {
+    return new EncryptJWT({ ...state })
+      .setProtectedHeader({ alg: 'dir', enc: 'A256GCM' })
+      .setIssuedAt()
+      .setExpirationTime(`${OIDC_STATE_MAX_AGE}s`)
+      .encrypt(stateKey())
+  }
+
+  // Returns the sealed state only if it belongs to this provider and echoes the `state` parameter
+  static async openState(sealed: string | undefined, providerId: string, stateParam: string | null): Promise<OidcAuthState> {
+    if (!sealed || !stateParam) {
+      throw new OidcError('oidc_state_mismatch', 'Missing OIDC state')
+    }
+
+    let state: OidcAuthState
+    try {
+      const { payload } = await jwtDecrypt(sealed, stateKey())
+      state = payload as unknown as OidcAuthState
+    } catch {
+      throw new OidcError('oidc_state_mismatch', 'OIDC state cookie is invalid or expired')
+    }
+
+    if (state.provider !== providerId || !safeEqual(state.state, stateParam)) {
+      throw new OidcError('oidc_state_mismatch', 'OIDC state does not match')
+    }
+
+    return state
+  }
+
+  static async exchangeCode(
+    provider: OidcProvider,
+    code: string,
+    redirectUri: string,
+    state: OidcAuthState
+  ): Promise<OidcIdentity> {
+    const document = await this.discover(provider)
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      code_verifier: state.codeVerifier
+    })
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json'
+    }
+
+    // client_secret_basic for confidential clients; public clients identify themselves in the body
+    if (provider.clientSecret) {
+      const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`
+    } else {
+      body.set('client_id', provider.clientId)
+    }
+
+    const response = await fetch(document.token_endpoint, { method: 'POST', headers, body })
+    const tokens = await response.json().catch(() => ({})) as { id_token?: string; error?: string }
+
+    if (!response.ok || !tokens.id_token) {
+      throw new OidcError('oidc_token_exchange_failed', `Token exchange failed: ${tokens.error || response.status}`)
+    }
+
+    return this.validateIdToken(provider, document, tokens.id_token, state.nonce)
+  }
+
+  private static async validateIdToken(
+    provider: OidcProvider,
+    document: DiscoveryDocument,
+    idToken: string,
+    nonce: string
+  ): Promise<OidcIdentity> {
+    let claims: Record<string, unknown>
+    try {
+      const { payload } = await jwtVerify(idToken, this.getJwks(document.jwks_uri), {
+        audience: provider.clientId,
+        clockTolerance: 60
+      })
+      claims = payload
+    } catch (error) {
+      throw new OidcError('oidc_invalid_id_token', `ID token verification failed: ${error instanceof Error ? error.message : error}`)
+    }
+
+    const expectedIssuer = document.issuer.replace('{tenantid}', String(claims.tid))
+    if (claims.iss !== expectedIssuer) {
+      throw new OidcError('oidc_invalid_id_token', 'ID token issuer does not match')
+    }
+
+    // A token minted for several audiences must name us as the authorized party
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== provider.clientId) {
+      throw new OidcError('oidc_invalid_id_token', 'ID token authorized party does not match')
+    }
+
+    if (typeof claims.nonce !== 'string' || !safeEqual(claims.nonce, nonce)) {
+      throw new OidcError('oidc_invalid_id_token', 'ID token nonce does not match')
+    }
+
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new OidcError('oidc_invalid_id_token', 'ID token has no subject')
+    }
+
+    const email = typeof claims.email === 'string' ? claims.email.toLowerCase().trim() : null
+
+    return {
+      subject: claims.sub,
+      email,
+      // Entra never sends email_verified; xms_edov says the tenant owns the email's domain
+      emailVerified: !!email && (claims.email_verified === true || claims.xms_edov === true || provider.trustEmail),
+      name: typeof claims.name === 'string' ? claims.name : null
+    }
+  }
+
+  /**
+   * Finds the local user for an external identity. A known (provider, subject)
+   * pair always wins; otherwise the identity is linked by verified email, and
+   * a new user is created when no account uses that email yet.
+   */
+  static async findOrLinkUser(providerId: string, identity: OidcIdentity) {
+    const account = await prisma.oAuthAccount.findUnique({
+      where: { provider_providerAccountId: { provider: providerId, providerAccountId: identity.subject } },
+      select: { id: true, user: { select: linkedUserSelect } }
+    })
+
+    if (account) {
+      await prisma.oAuthAccount.update({
+        where: { id: account.id },
+        data: { lastUsedAt: new Date(), email: identity.email }
+      })
+      return { user: account.user, linked: false, created: false }
+    }
+
+    if (!identity.email || !identity.emailVerified) {
+      throw new OidcError('oidc_email_unverified', 'Provider did not return a verified email address')
+    }
+
+    const existing = await prisma.user.findUnique({
+      where: { email: identity.email },
+      select: linkedUserSelect
+    })
+
+    if (existing) {
+      // Someone could have registered this email without owning it; linking would hand them the provider's sign-ins
+      if (!existing.emailVerified) {
+        throw new OidcError('oidc_account_unverified', 'Existing account has not verified its email address')
+      }
+
+      await prisma.oAuthAccount.create({
+        data: {
+          userId: existing.id,
+          provider: providerId,
+          providerAccountId: identity.subject,
+          email: identity.email
+        }
+      })
+      return { user: existing, linked: true, created: false }
+    }
+
+    // The password column is required; an unguessable hash means the account signs in via the provider or a reset
+    const user = await prisma.user.create({
+      data: {
+        email: identity.email,
+        name: identity.name,
+        password: await bcrypt.hash(base64url(randomBytes(32)), 12),
+        emailVerified: true,
+        oauthAccounts: {
+          create: {
+            provider: providerId,
+            providerAccountId: identity.subject,
+            email: identity.email
+          }
+        }
+      },
+      select: linkedUserSelect
+    })
+
+    return { user, linked: true, created: true }
+  }
+}
@@ -0,0 +1,44 @@
+import { prisma } from './prisma'
+import { SessionService } from './session'
+import { emailService } from './email-service'
+import { createExpiringToken } from './secure-token'
+
+// Same lifetime as a self-service reset; a user who misses it can request another from the login page
+export const FORCED_RESET_TOKEN_TTL_MINUTES = 60
+
+export interface ResetTarget {
+  id: string
+  email: string
+  name: string | null
+}
+
+/**
+ * Treats the current password as compromised: it stops working for sign-in,
+ * every session ends and the owner is emailed a reset link. Used when an
+ * administrator forces a reset and when users report activity they don't
+ * recognize.
+ */
+export async function requirePasswordReset(user: ResetTarget): Promise<{ emailSent: boolean; revokedSessions: number }> {
+  const { token, tokenHash, expiresAt } = createExpiringToken(FORCED_RESET_TOKEN_TTL_MINUTES * 60 * 1000)
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      passwordResetRequired: true,
+      passwordResetToken: tokenHash,
+      passwordResetExpiresAt: expiresAt,
+      passwordChangedAt: new Date()
+    }
+  })
+
+  const revokedSessions = await SessionService.revokeAllSessions(user.id)
+
+  let emailSent = false
+  try {
+    emailSent = await emailService.sendPasswordResetEmail(user.email, user.name, token, FORCED_RESET_TOKEN_TTL_MINUTES)
+  } catch (emailError) {
+    console.error('Forced password reset email failed:', emailError)
+  }
+
+  return { emailSent, revokedSessions }
+}
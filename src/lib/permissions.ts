@@ -0,0 +1,69 @@
+/**
+ * Role and permission vocabulary shared by the server, the Edge middleware and
+ * the browser. Nothing here touches the database; `rbac.ts` loads a user's
+ * roles and `JWTService` embeds the result in access tokens.
+ */
+
+export const PERMISSIONS = {
+  ADMIN_ACCESS: 'admin:access',
+  USERS_READ: 'users:read',
+  USERS_WRITE: 'users:write',
+  USERS_UNLOCK: 'users:unlock',
+  USERS_DELETE: 'users:delete',
+  SESSIONS_REVOKE: 'sessions:revoke',
+  AUDIT_READ: 'audit:read',
+  ROLES_MANAGE: 'roles:manage'
+} as const
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS]
+
+// Held by every account, whether or not it has any role rows
+export const BASE_ROLE = 'user'
+
+export const ADMIN_ROLES = ['admin', 'super_admin']
+
+// Seeded into the roles table; administrators can change a role's permissions afterwards
+export const DEFAULT_ROLES: Record<string, { description: string; permissions: Permission[] }> = {
+  [BASE_ROLE]: {
+    description: 'Every signed-in account',
+    permissions: []
+  },
+  support: {
+    description: 'Look up accounts and help users get back in',
+    permissions: [
+      PERMISSIONS.ADMIN_ACCESS,
+      PERMISSIONS.USERS_READ,
+      PERMISSIONS.USERS_UNLOCK,
+      PERMISSIONS.SESSIONS_REVOKE
+    ]
+  },
+  admin: {
+    description: 'Manage user accounts and review the audit log',
+    permissions: [
+      PERMISSIONS.ADMIN_ACCESS,
+      PERMISSIONS.USERS_READ,
+      PERMISSIONS.USERS_WRITE,
+      PERMISSIONS.USERS_UNLOCK,
+      PERMISSIONS.USERS_DELETE,
+      PERMISSIONS.SESSIONS_REVOKE,
+      PERMISSIONS.AUDIT_READ
+    ]
+  },
+  super_admin: {
+    description: 'Everything, including granting roles',
+    permissions: Object.values(PERMISSIONS)
+  }
+}
+
+export interface UserAccess {
+  roles: string[]
+  permissions: string[]
+}
+
+export function hasPermission(access: Partial<UserAccess> | null | undefined, permission: Permission): boolean {
+  return !!access?.permissions?.includes(permission)
+}
+
+export function hasAnyRole(access: Partial<UserAccess> | null | undefined, roles: string[]): boolean {
+  return !!access?.roles?.some(role => roles.includes(role))
+}
@@ -0,0 +1,43 @@
+/**
+ * Hashcash-style proof of work for the login form. The server hands out a
+ * signed challenge (see credential-stuffing.ts); the browser looks for a
+ * nonce where SHA-256(`<challenge>:<nonce>`) starts with `difficulty` zero
+ * bits. That takes about 2^difficulty hashes to find and one to check, so a
+ * person signing in waits a second or two while a bot trying thousands of
+ * passwords pays for every one. Used by the browser too, so no Node imports.
+ */
+
+export interface ProofOfWorkChallenge {
+  challenge: string
+  // Leading zero bits the hash must have
+  difficulty: number
+  // Epoch milliseconds after which the server refuses the solution
+  expiresAt: number
+}
+
+export interface ProofOfWorkSolution {
+  challenge: string
+  nonce: string
+}
+
+export function hasLeadingZeroBits(digest: Uint8Array, bits: number): boolean {
+  const fullBytes = Math.floor(bits / 8)
+  for (let i = 0; i < fullBytes; i++) {
+    if (digest[i] !== 0) return false
+  }
+
+  const rest = bits % 8
+  return rest === 0 || digest[fullBytes] >> (8 - rest) === 0
+}
+
+export async function solveProofOfWork({ challenge, difficulty }: ProofOfWorkChallenge): Promise<ProofOfWorkSolution> {
+  const encoder = new TextEncoder()
+
+  for (let counter = 0; ; counter++) {
+    const nonce = counter.toString(36)
+    const digest = await crypto.subtle.digest('SHA-256', encoder.encode(`${challenge}:${nonce}`))
+    if (hasLeadingZeroBits(new Uint8Array(digest), difficulty)) {
+      return { challenge, nonce }
+    }
+  }
+}
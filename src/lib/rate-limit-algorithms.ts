@@ -0,0 +1,110 @@
+import { RateLimitStore } from './rate-limit-store'
+
+/**
+ * How a limiter decides whether one more request fits in `limit` per
+ * `windowMs`. Each works against any RateLimitStore.
+ * - `fixed-window`: a counter that starts over every window. Cheapest, but a
+ *   client can spend a full window's budget either side of a boundary.
+ * - `sliding-window`: the current window's count plus the previous window's,
+ *   weighted by how much of it still overlaps the last `windowMs`. Smooths
+ *   out the boundary burst at the cost of one extra read.
+ * - `token-bucket`: `limit` tokens, one back every `windowMs / limit`. Allows
+ *   a burst up to `limit`, then a steady rate.
+ */
+
+export const RATE_LIMIT_ALGORITHMS = ['fixed-window', 'sliding-window', 'token-bucket'] as const
+export type RateLimitAlgorithm = typeof RATE_LIMIT_ALGORITHMS[number]
+
+export interface RateLimitRule {
+  limit: number
+  windowMs: number
+}
+
+export interface RateLimitDecision {
+  allowed: boolean
+  remaining: number
+  // Epoch milliseconds: for a refused request, the earliest another can succeed; otherwise when the full budget is back
+  resetTime: number
+  // Gives this request back, for skipSuccessfulRequests / skipFailedRequests
+  refund: () => Promise<void>
+}
+
+type Algorithm = (store: RateLimitStore, key: string, rule: RateLimitRule, now: number) => Promise<RateLimitDecision>
+
+const fixedWindow: Algorithm = async (store, key, { limit, windowMs }) => {
+  const { count, resetTime } = await store.increment(key, windowMs)
+
+  return {
+    allowed: count <= limit,
+    remaining: Math.max(0, limit - count),
+    resetTime,
+    refund: () => store.decrement(key)
+  }
+}
+
+// When the weighted count drops far enough for one more request, given the counts of the current and previous windows
+export function slidingWindowRetryAt(
+  previous: number,
+  current: number,
+  { limit, windowMs }: RateLimitRule,
+  windowStart: number,
+  now: number
+): number {
+  const room = limit - 1
+
+  if (current <= room) {
+    if (previous === 0) return now
+    // previous * (1 - elapsed / windowMs) + current <= room
+    return Math.max(now, Math.ceil(windowStart + windowMs * (1 - (room - current) / previous)))
+  }
+
+  // Not before the next window, once this one's count has decayed enough
+  return Math.ceil(windowStart + windowMs + windowMs * (1 - room / current))
+}
+
+const slidingWindow: Algorithm = async (store, key, windowRule, now) => {
+  const { limit, windowMs } = windowRule
+  const windowStart = Math.floor(now / windowMs) * windowMs
+  const currentKey = `${key}:${windowStart}`
+
+  // A window's counter is read as "previous" throughout the next one, so it lives for two
+  const [{ count: current }, previous] = await Promise.all([
+    store.increment(currentKey, windowMs * 2),
+    store.get(`${key}:${windowStart - windowMs}`)
+  ])
+
+  const weight = 1 - (now - windowStart) / windowMs
+  const estimate = previous * weight + current
+  const allowed = estimate <= limit
+
+  return {
+    allowed,
+    remaining: Math.max(0, Math.floor(limit - estimate)),
+    resetTime: allowed
+      ? windowStart + windowMs * 2
+      : slidingWindowRetryAt(previous, current, windowRule, windowStart, now),
+    refund: () => store.decrement(currentKey)
+  }
+}
+
+// GCRA: the store keeps the time the bucket will be full again; each token pushes it `intervalMs` later
+const tokenBucket: Algorithm = async (store, key, { limit, windowMs }, now) => {
+  const intervalMs = Math.ceil(windowMs / limit)
+  const burstMs = intervalMs * limit
+  const { allowed, tat } = await store.consumeToken(key, intervalMs, burstMs, now)
+
+  return {
+    allowed,
+    remaining: allowed ? Math.floor((burstMs - (tat - now)) / intervalMs) : 0,
+    // Refused: the next token arrives once the bucket is no longer a whole burst behind
+    resetTime: allowed ? tat : tat + intervalMs - burstMs,
+    // A refused request took no token, so there is nothing to give back
+    refund: allowed ? () => store.refundToken(key, intervalMs) : async () => {}
+  }
+}
+
+export const rateLimitAlgorithms: Record<RateLimitAlgorithm, Algorithm> = {
+  'fixed-window': fixedWindow,
+  'sliding-window': slidingWindow,
+  'token-bucket': tokenBucket
+}
@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from 'next/server'
+import crypto from 'crypto'
+import {
+  EndpointRateLimiter,
+  authRateLimit,
+  signupRateLimit,
+  apiRateLimit,
+  verificationEmailRateLimit,
+  verificationEmailIpRateLimit,
+  passwordResetRateLimit,
+  mfaRateLimit,
+  passkeyRateLimit,
+  oidcRateLimit,
+  magicLinkRateLimit,
+  magicLinkVerifyRateLimit,
+  accountUnlockRateLimit,
+  secureAccountRateLimit,
+  changePasswordRateLimit,
+  emailChangeRateLimit,
+  emailChangeVerifyRateLimit,
+  accountExportRateLimit,
+  accountDeletionRateLimit
+} from './rate-limit'
+import { getClientIp, ipMatches } from './client-ip'
+import { getTokenFromRequest, verifyAccessToken } from './auth-tokens'
+import { logAuthEvent, logLogin, logMfa, logRateLimit } from './auth-logger'
+
+/**
+ * Which limiter guards which API route, and what it counts by. Every route
+ * handler under src/app/api is exported through `withRateLimit`, which looks
+ * the request up here; the first matching policy applies, so specific routes
+ * go before the catch-all. Addresses in RATE_LIMIT_ALLOWLIST skip all of it.
+ */
+
+// What a request is counted against: its IP, the signed-in user, or the email address in its body.
+// `user` and `email` fall back to the IP when there's no session or no address.
+export type RateLimitKeyStrategy = 'ip' | 'user' | 'email'
+
+export interface RateLimitPolicy {
+  // A route path as under src/app: `[param]` matches one segment, `[...param]` one or more
+  pattern: string
+  // Every method when left out
+  methods?: string[]
+  // null exempts the route
+  limiter: EndpointRateLimiter | null
+  key: RateLimitKeyStrategy
+  // Also counts the request per IP, checked first, for `user` and `email` keys a client could cycle through
+  ipLimiter?: EndpointRateLimiter
+  // Logs `rate_limit_exceeded` when left out. Sign-in routes log a failed attempt instead, so brute-force alerts count it
+  onLimited?: (request: NextRequest) => void | Promise<void>
+  // Replaces the JSON 429, for routes the browser navigates to
+  limitedResponse?: (request: NextRequest) => NextResponse
+}
+
+const rateLimited = { error: 'Rate limit exceeded' }
+
+export const RATE_LIMIT_POLICIES: RateLimitPolicy[] = [
+  // Load balancer and uptime probes poll this; it must answer whatever else is limited
+  { pattern: '/api/health', limiter: null, key: 'ip' },
+
+  {
+    pattern: '/api/auth/login', methods: ['POST'], limiter: authRateLimit, key: 'ip',
+    onLimited: request => logLogin(request, false, rateLimited)
+  },
+  { pattern: '/api/auth/signup', methods: ['POST'], limiter: signupRateLimit, key: 'ip' },
+  {
+    pattern: '/api/auth/verify-email', methods: ['POST'], limiter: verificationEmailRateLimit, key: 'email',
+    ipLimiter: verificationEmailIpRateLimit
+  },
+  {
+    pattern: '/api/auth/forgot-password', methods: ['POST'], limiter: passwordResetRateLimit, key: 'ip',
+    onLimited: request => logAuthEvent('password_reset_request', request, { success: false, ...rateLimited })
+  },
+  {
+    pattern: '/api/auth/mfa/challenge', methods: ['POST'], limiter: mfaRateLimit, key: 'ip',
+    onLimited: request => logMfa(request, false, rateLimited)
+  },
+  // Options and verify share one budget, so a sign-in costs two requests
+  { pattern: '/api/auth/passkeys/login/options', methods: ['POST'], limiter: passkeyRateLimit, key: 'ip' },
+  {
+    pattern: '/api/auth/passkeys/login/verify', methods: ['POST'], limiter: passkeyRateLimit, key: 'ip',
+    onLimited: request => logLogin(request, false, { ...rateLimited, metadata: { method: 'passkey' } })
+  },
+  {
+    pattern: '/api/auth/oidc/[provider]/callback', methods: ['GET'], limiter: oidcRateLimit, key: 'ip',
+    onLimited: request => logLogin(request, false, {
+      ...rateLimited,
+      metadata: { method: 'oidc', provider: new URL(request.url).pathname.split('/')[4] }
+    }),
+    limitedResponse: request => NextResponse.redirect(new URL('/login?error=rate_limited', request.url))
+  },
+  { pattern: '/api/auth/magic-link', methods: ['POST'], limiter: magicLinkRateLimit, key: 'ip' },
+  { pattern: '/api/auth/magic-link/verify', methods: ['POST'], limiter: magicLinkVerifyRateLimit, key: 'ip' },
+  { pattern: '/api/auth/unlock', methods: ['POST'], limiter: accountUnlockRateLimit, key: 'ip' },
+  { pattern: '/api/auth/secure-account', methods: ['POST'], limiter: secureAccountRateLimit, key: 'ip' },
+  { pattern: '/api/auth/change-password', methods: ['POST'], limiter: changePasswordRateLimit, key: 'user' },
+  { pattern: '/api/auth/email-change', methods: ['POST'], limiter: emailChangeRateLimit, key: 'user' },
+  // Confirm and cancel links are opened without signing in
+  { pattern: '/api/auth/email-change/[action]', methods: ['POST'], limiter: emailChangeVerifyRateLimit, key: 'ip' },
+  { pattern: '/api/auth/account/export', methods: ['GET'], limiter: accountExportRateLimit, key: 'user' },
+  { pattern: '/api/auth/account/deletion', methods: ['POST'], limiter: accountDeletionRateLimit, key: 'user' },
+  { pattern: '/api/auth/account/deletion/cancel', methods: ['POST'], limiter: accountDeletionRateLimit, key: 'ip' },
+
+  { pattern: '/api/[...path]', limiter: apiRateLimit, key: 'user' },
+]
+
+function matchesPattern(pattern: string, pathname: string): boolean {
+  const expected = pattern.split('/').filter(Boolean)
+  const actual = pathname.replace(/\/+$/, '').split('/').filter(Boolean)
+
+  for (let i = 0; i < expected.length; i++) {
+    const segment = expected[i]
+    if (segment.startsWith('[...')) return actual.length > i
+    if (i >= actual.length) return false
+    if (!segment.startsWith('[') && segment !== actual[i]) return false
+  }
+  return expected.length === actual.length
+}
+
+export function findRateLimitPolicy(pathname: string, method: string): RateLimitPolicy | undefined {
+  return RATE_LIMIT_POLICIES.find(policy =>
+    matchesPattern(policy.pattern, pathname) &&
+    (!policy.methods || policy.methods.includes(method.toUpperCase()))
+  )
+}
+
+// Office networks and probes, e.g. RATE_LIMIT_ALLOWLIST="203.0.113.0/24,2001:db8::/48,10.0.0.5"
+export function isRateLimitAllowlisted(ip: string): boolean {
+  const allowlist = (process.env.RATE_LIMIT_ALLOWLIST || '')
+    .split(',')
+    .map(range => range.trim())
+    .filter(Boolean)
+
+  return allowlist.some(range => ipMatches(ip, range))
+}
+
+async function rateLimitSubject(strategy: RateLimitKeyStrategy, request: NextRequest, ip: string): Promise<string> {
+  if (strategy === 'user') {
+    const token = getTokenFromRequest(request)
+    const payload = token ? await verifyAccessToken(token) : null
+    if (payload) return `user:${payload.userId}`
+  }
+
+  if (strategy === 'email') {
+    // Read from a copy, so the handler can still read the body
+    const body = await request.clone().json().catch(() => null)
+    const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : ''
+    if (email) {
+      // Hashed, so addresses don't end up in the rate limit store
+      return `email:${crypto.createHash('sha256').update(email).digest('hex').slice(0, 32)}`
+    }
+  }
+
+  return ip
+}
+
+export async function enforceRateLimit(
+  request: NextRequest,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const ip = getClientIp(request)
+  const policy = findRateLimitPolicy(new URL(request.url).pathname, request.method)
+
+  if (!policy?.limiter || isRateLimitAllowlisted(ip)) {
+    return handler()
+  }
+
+  const { limiter, ipLimiter, onLimited, limitedResponse } = policy
+  const subject = await rateLimitSubject(policy.key, request, ip)
+
+  let limited = false
+  const limit = (active: EndpointRateLimiter, activeSubject: string, next: () => Promise<NextResponse>) =>
+    active.middleware(request, next, {
+      key: `rate_limit:${active.name}:${activeSubject}`,
+      onLimitReached: async () => {
+        limited = true
+        await (onLimited
+          ? onLimited(request)
+          : logRateLimit(request, { metadata: { limiter: active.name, route: policy.pattern } }))
+      }
+    })
+
+  const response = ipLimiter
+    ? await limit(ipLimiter, ip, () => limit(limiter, subject, handler))
+    : await limit(limiter, subject, handler)
+
+  return limited && limitedResponse ? limitedResponse(request) : response
+}
+
+// Wraps a route handler, e.g. `export const POST = withRateLimit(async (request: NextRequest) => { ... })`
+export function withRateLimit<Args extends unknown[]>(
+  handler: (request: NextRequest, ...args: Args) => Promise<NextResponse>
+) {
+  return (request: NextRequest, ...args: Args): Promise<NextResponse> =>
+    enforceRateLimit(request, () => handler(request, ...args))
+}
@@ -0,0 +1,334 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { RedisClient, RedisError } from './redis-client'
+
+/**
+ * Where rate-limit counters live. Every limiter built by `createRateLimit`
+ * shares the store picked by RATE_LIMIT_STORE:
+ * - `memory` (default): per process. Fine for one long-running server, but
+ *   serverless instances each count separately.
+ * - `postgres`: the `auth_rate_limits` table, through Prisma.
+ * - `redis`: any Redis-protocol server at REDIS_URL.
+ *
+ * Stores only know counters and token buckets; the algorithms built on them
+ * are in rate-limit-algorithms.ts.
+ */
+
+export interface RateLimitHit {
+  count: number
+  // Epoch milliseconds at which the window ends and the count starts over
+  resetTime: number
+}
+
+// Token buckets are kept as GCRA: one timestamp per key, the moment the bucket would be full again
+export interface TokenBucketHit {
+  allowed: boolean
+  // The bucket's full-again time after this request (unchanged when it was refused)
+  tat: number
+}
+
+export interface RateLimitStore {
+  // Counts one request against `key` in a fixed window of `windowMs`, starting a new window when the last one ended
+  increment(key: string, windowMs: number): Promise<RateLimitHit>
+  // The count of a live window, 0 once it ended
+  get(key: string): Promise<number>
+  // Gives one request back; never goes below zero or revives an ended window
+  decrement(key: string): Promise<void>
+  // Takes a token that refills every `intervalMs` from a bucket holding `burstMs / intervalMs` of them
+  consumeToken(key: string, intervalMs: number, burstMs: number, now: number): Promise<TokenBucketHit>
+  // Puts a token back into a bucket
+  refundToken(key: string, intervalMs: number): Promise<void>
+  // Drops expired counters, for stores that don't expire them on their own
+  prune?(now?: Date): Promise<void>
+}
+
+export type RateLimitStoreKind = 'memory' | 'postgres' | 'redis'
+
+interface MemoryEntry {
+  value: number
+  expiresAt: number
+}
+
+interface ExpiryItem {
+  key: string
+  expiresAt: number
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, MemoryEntry>()
+  // A min-heap on expiry, one item per key: a sweep only pops what has expired. Token buckets move a
+  // key's expiry after it was queued, so a popped key that is still live goes back in at its new expiry
+  private expiryHeap: ExpiryItem[] = []
+  private queuedKeys = new Set<string>()
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now()
+    this.sweep(now)
+
+    const entry = this.live(key, now)
+    if (entry) {
+      entry.value++
+      return { count: entry.value, resetTime: entry.expiresAt }
+    }
+
+    this.write(key, { value: 1, expiresAt: now + windowMs })
+    return { count: 1, resetTime: now + windowMs }
+  }
+
+  async get(key: string): Promise<number> {
+    return this.live(key, Date.now())?.value ?? 0
+  }
+
+  async decrement(key: string): Promise<void> {
+    const entry = this.live(key, Date.now())
+    if (entry && entry.value > 0) {
+      entry.value--
+    }
+  }
+
+  async consumeToken(key: string, intervalMs: number, burstMs: number, now: number): Promise<TokenBucketHit> {
+    this.sweep(now)
+
+    const current = this.live(key, now)?.value ?? now
+    const tat = Math.max(current, now) + intervalMs
+    if (tat - now > burstMs) {
+      return { allowed: false, tat: current }
+    }
+
+    this.write(key, { value: tat, expiresAt: tat })
+    return { allowed: true, tat }
+  }
+
+  async refundToken(key: string, intervalMs: number): Promise<void> {
+    const entry = this.live(key, Date.now())
+    if (entry) {
+      entry.value -= intervalMs
+      entry.expiresAt = entry.value
+    }
+  }
+
+  private live(key: string, now: number): MemoryEntry | undefined {
+    const entry = this.entries.get(key)
+    if (entry && entry.expiresAt <= now) {
+      this.entries.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  private write(key: string, entry: MemoryEntry) {
+    this.entries.set(key, entry)
+
+    if (!this.queuedKeys.has(key)) {
+      this.queuedKeys.add(key)
+      this.pushExpiry({ key, expiresAt: entry.expiresAt })
+    }
+  }
+
+  private sweep(now: number) {
+    while (this.expiryHeap.length > 0 && this.expiryHeap[0].expiresAt <= now) {
+      const { key } = this.popExpiry()
+      const entry = this.live(key, now)
+      if (entry) {
+        this.pushExpiry({ key, expiresAt: entry.expiresAt })
+      } else {
+        this.queuedKeys.delete(key)
+      }
+    }
+  }
+
+  private pushExpiry(item: ExpiryItem) {
+    const heap = this.expiryHeap
+    let index = heap.push(item) - 1
+    while (index > 0) {
+      const parent = (index - 1) >> 1
+      if (heap[parent].expiresAt <= item.expiresAt) break
+      heap[index] = heap[parent]
+      index = parent
+    }
+    heap[index] = item
+  }
+
+  private popExpiry(): ExpiryItem {
+    const heap = this.expiryHeap
+    const top = heap[0]
+    const last = heap.pop()!
+    if (heap.length === 0) return top
+
+    let index = 0
+    while (true) {
+      const left = index * 2 + 1
+      if (left >= heap.length) break
+      const child = left + 1 < heap.length && heap[left + 1].expiresAt < heap[left].expiresAt ? left + 1 : left
+      if (heap[child].expiresAt >= last.expiresAt) break
+      heap[index] = heap[child]
+      index = child
+    }
+    heap[index] = last
+    return top
+  }
+}
+
+// Timestamps go to Postgres as UTC, matching how Prisma stores DateTime columns
+const utc = (date: Date | number) => Prisma.sql`(${new Date(date)}::timestamptz AT TIME ZONE 'UTC')`
+
+export class PrismaRateLimitStore implements RateLimitStore {
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = new Date()
+    const resetAt = new Date(now.getTime() + windowMs)
+
+    // One statement, so concurrent requests on other instances can't both start a fresh window
+    const [row] = await prisma.$queryRaw<Array<{ count: number; resetAt: Date }>>`
+      INSERT INTO "auth_rate_limits" ("key", "count", "resetAt")
+      VALUES (${key}, 1, ${utc(resetAt)})
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE WHEN "auth_rate_limits"."resetAt" <= ${utc(now)} THEN 1 ELSE "auth_rate_limits"."count" + 1 END,
+        "resetAt" = CASE WHEN "auth_rate_limits"."resetAt" <= ${utc(now)} THEN EXCLUDED."resetAt" ELSE "auth_rate_limits"."resetAt" END
+      RETURNING "count", "resetAt"
+    `
+
+    return { count: Number(row.count), resetTime: new Date(row.resetAt).getTime() }
+  }
+
+  async get(key: string): Promise<number> {
+    const counter = await prisma.rateLimitCounter.findUnique({ where: { key } })
+    return counter && counter.resetAt > new Date() ? counter.count : 0
+  }
+
+  async decrement(key: string): Promise<void> {
+    await prisma.rateLimitCounter.updateMany({
+      where: { key, count: { gt: 0 }, resetAt: { gt: new Date() } },
+      data: { count: { decrement: 1 } }
+    })
+  }
+
+  // The bucket's full-again time goes in `resetAt`; `count` records whether the last request got a token
+  async consumeToken(key: string, intervalMs: number, burstMs: number, now: number): Promise<TokenBucketHit> {
+    const interval = Prisma.sql`(${intervalMs}::double precision * INTERVAL '1 millisecond')`
+    const next = Prisma.sql`GREATEST("auth_rate_limits"."resetAt", ${utc(now)}) + ${interval}`
+    const fits = Prisma.sql`${next} <= ${utc(now + burstMs)}`
+
+    const [row] = await prisma.$queryRaw<Array<{ count: number; resetAt: Date }>>`
+      INSERT INTO "auth_rate_limits" ("key", "count", "resetAt")
+      VALUES (${key}, 1, ${utc(now + intervalMs)})
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE WHEN ${fits} THEN 1 ELSE 0 END,
+        "resetAt" = CASE WHEN ${fits} THEN ${next} ELSE "auth_rate_limits"."resetAt" END
+      RETURNING "count", "resetAt"
+    `
+
+    return { allowed: Number(row.count) === 1, tat: new Date(row.resetAt).getTime() }
+  }
+
+  async refundToken(key: string, intervalMs: number): Promise<void> {
+    await prisma.$executeRaw`
+      UPDATE "auth_rate_limits"
+      SET "resetAt" = "resetAt" - (${intervalMs}::double precision * INTERVAL '1 millisecond')
+      WHERE "key" = ${key}
+    `
+  }
+
+  async prune(now = new Date()): Promise<void> {
+    await prisma.rateLimitCounter.deleteMany({ where: { resetAt: { lte: now } } })
+  }
+}
+
+// Lua runs atomically on the server; both scripts keep the key's expiry
+export const REDIS_SCRIPTS = {
+  // DECRBY, but only on a key that exists and only down to zero
+  decrement: `
+    local value = tonumber(redis.call('GET', KEYS[1]))
+    if value and value >= tonumber(ARGV[1]) then
+      return redis.call('DECRBY', KEYS[1], ARGV[1])
+    end
+    return 0`,
+  // GCRA: ARGV = now, interval, burst (milliseconds); returns { allowed, tat }
+  consumeToken: `
+    local now = tonumber(ARGV[1])
+    local current = tonumber(redis.call('GET', KEYS[1])) or now
+    local tat = math.max(current, now) + tonumber(ARGV[2])
+    if tat - now > tonumber(ARGV[3]) then
+      return { 0, current }
+    end
+    redis.call('SET', KEYS[1], tat, 'PX', tat - now)
+    return { 1, tat }`
+}
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private readonly client: RedisClient) {}
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    // SET NX starts the window with its expiry; INCR keeps the expiry. MULTI makes the three atomic
+    const replies = await this.client.pipeline([
+      ['MULTI'],
+      ['SET', key, 0, 'PX', windowMs, 'NX'],
+      ['INCR', key],
+      ['PTTL', key],
+      ['EXEC']
+    ])
+
+    // EXEC answers null when the transaction was aborted, and each command can fail on its own, e.g. INCR
+    // on a key that holds something else. Throwing lets the limiter fail open and log it
+    const results = replies[4]
+    if (!Array.isArray(results)) throw new RedisError('Rate limit transaction was aborted')
+    const [, count, ttl] = results
+    if (count instanceof RedisError) throw count
+    if (ttl instanceof RedisError) throw ttl
+    if (typeof count !== 'number' || typeof ttl !== 'number') throw new RedisError('Unexpected reply to a rate limit increment')
+
+    // A key without an expiry shouldn't exist, but would otherwise block forever
+    const remainingMs = ttl > 0 ? ttl : windowMs
+
+    return { count, resetTime: Date.now() + remainingMs }
+  }
+
+  async get(key: string): Promise<number> {
+    return Number(await this.client.command('GET', key)) || 0
+  }
+
+  async decrement(key: string): Promise<void> {
+    await this.client.command('EVAL', REDIS_SCRIPTS.decrement, 1, key, 1)
+  }
+
+  async consumeToken(key: string, intervalMs: number, burstMs: number, now: number): Promise<TokenBucketHit> {
+    const [allowed, tat] = await this.client.command(
+      'EVAL', REDIS_SCRIPTS.consumeToken, 1, key, now, intervalMs, burstMs
+    ) as [number, number]
+
+    return { allowed: allowed === 1, tat: Number(tat) }
+  }
+
+  async refundToken(key: string, intervalMs: number): Promise<void> {
+    await this.client.command('EVAL', REDIS_SCRIPTS.decrement, 1, key, intervalMs)
+  }
+}
+
+export function createRateLimitStore(kind: string = process.env.RATE_LIMIT_STORE || 'memory'): RateLimitStore {
+  switch (kind as RateLimitStoreKind) {
+    case 'memory':
+      return new MemoryRateLimitStore()
+    case 'postgres':
+      return new PrismaRateLimitStore()
+    case 'redis':
+      if (!process.env.REDIS_URL) {
+        throw new Error('RATE_LIMIT_STORE=redis needs REDIS_URL')
+      }
+      return new RedisRateLimitStore(new RedisClient(process.env.REDIS_URL))
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE: ${kind}`)
+  }
+}
+
+let sharedStore: RateLimitStore | null = null
+
+// Created on first use, so a bad RATE_LIMIT_STORE fails the first limited request rather than every import
+export function getRateLimitStore(): RateLimitStore {
+  if (!sharedStore) {
+    sharedStore = createRateLimitStore()
+
+    if (sharedStore instanceof MemoryRateLimitStore && process.env.NODE_ENV === 'production') {
+      console.warn('Rate limits are counted in memory; set RATE_LIMIT_STORE to share them between server instances')
+    }
+  }
+  return sharedStore
+}
@@ -1,127 +1,139 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { RateLimitStore, getRateLimitStore } from './rate-limit-store'
+import { RateLimitAlgorithm, RateLimitDecision, rateLimitAlgorithms } from './rate-limit-algorithms'
+import { getClientIp } from './client-ip'
 
 interface RateLimitOptions {
   windowMs: number
   maxRequests: number
+  // Defaults to a sliding window; see rate-limit-algorithms.ts
+  algorithm?: RateLimitAlgorithm
+  // Responses below 400 are given back, so only failures count (e.g. wrong passwords)
   skipSuccessfulRequests?: boolean
+  // Responses of 400 and up, refused requests and handlers that throw are given back
   skipFailedRequests?: boolean
   keyGenerator?: (request: NextRequest) => string | Promise<string>
   onLimitReached?: (request: NextRequest) => void
+  // Defaults to the shared store from RATE_LIMIT_STORE
+  store?: RateLimitStore
 }
 
-interface RateLimitStore {
-  [key: string]: {
-    count: number
-    resetTime: number
-  }
+// Per-request overrides, for callers that choose the key themselves (see rate-limit-policies.ts)
+interface RateLimitCallOptions {
+  key?: string
+  onLimitReached?: (request: NextRequest) => void | Promise<void>
 }
 
-class MemoryStore {
-  private store: RateLimitStore = {}
-
-  increment(key: string, windowMs: number): { count: number; resetTime: number } {
-    const now = Date.now()
-    const resetTime = now + windowMs
-
-    if (!this.store[key] || this.store[key].resetTime <= now) {
-      this.store[key] = { count: 1, resetTime }
-    } else {
-      this.store[key].count++
-    }
-
-    // Clean up expired entries
-    this.cleanup()
-
-    return this.store[key]
+// Refunds are best effort: the response has been produced either way
+async function refundQuietly(decision: RateLimitDecision) {
+  try {
+    await decision.refund()
+  } catch (error) {
+    console.error('Rate limit refund failed:', error)
   }
+}
 
-  private cleanup() {
-    const now = Date.now()
-    Object.keys(this.store).forEach(key => {
-      if (this.store[key].resetTime <= now) {
-        delete this.store[key]
-      }
-    })
+// The standard RateLimit-* fields (IETF httpapi-ratelimit-headers); Reset is in seconds from now
+function rateLimitHeaders({ remaining, resetTime }: RateLimitDecision, maxRequests: number, windowMs: number) {
+  return {
+    'RateLimit-Limit': maxRequests.toString(),
+    'RateLimit-Remaining': remaining.toString(),
+    'RateLimit-Reset': Math.max(0, Math.ceil((resetTime - Date.now()) / 1000)).toString(),
+    'RateLimit-Policy': `${maxRequests};w=${Math.ceil(windowMs / 1000)}`
   }
 }
 
-const store = new MemoryStore()
-
 export function createRateLimit(options: RateLimitOptions) {
   const {
     windowMs,
     maxRequests,
+    algorithm = 'sliding-window',
     skipSuccessfulRequests = false,
     skipFailedRequests = false,
     keyGenerator = defaultKeyGenerator,
-    onLimitReached
+    onLimitReached,
+    store
   } = options
 
   const rateLimiter = {
-    check: async (request: NextRequest): Promise<{ allowed: boolean; remaining: number; resetTime: number }> => {
-      const key = await keyGenerator(request)
-      const { count, resetTime } = store.increment(key, windowMs)
+    check: async (request: NextRequest, callOptions: RateLimitCallOptions = {}): Promise<RateLimitDecision> => {
+      const key = callOptions.key ?? await keyGenerator(request)
+      const now = Date.now()
 
-      const allowed = count <= maxRequests
-      const remaining = Math.max(0, maxRequests - count)
+      let decision: RateLimitDecision
+      try {
+        decision = await rateLimitAlgorithms[algorithm](
+          store || getRateLimitStore(),
+          key,
+          { limit: maxRequests, windowMs },
+          now
+        )
+      } catch (error) {
+        // Fail open: an unreachable store shouldn't take sign-in down, and account lockout still applies
+        console.error('Rate limit store error:', error)
+        return { allowed: true, remaining: maxRequests, resetTime: now + windowMs, refund: async () => {} }
+      }
 
-      if (!allowed && onLimitReached) {
-        onLimitReached(request)
+      if (!decision.allowed) {
+        onLimitReached?.(request)
+        await callOptions.onLimitReached?.(request)
       }
 
-      return { allowed, remaining, resetTime }
+      return decision
     },
 
     middleware: async (
       request: NextRequest,
-      handler: () => Promise<NextResponse>
+      handler: () => Promise<NextResponse>,
+      callOptions: RateLimitCallOptions = {}
     ): Promise<NextResponse> => {
-      const { allowed, remaining, resetTime } = await rateLimiter.check(request)
+      const decision = await rateLimiter.check(request, callOptions)
+      const headers = rateLimitHeaders(decision, maxRequests, windowMs)
+
+      if (!decision.allowed) {
+        if (skipFailedRequests) {
+          await refundQuietly(decision)
+        }
 
-      if (!allowed) {
         return new NextResponse(
           JSON.stringify({
             success: false,
             error: 'Too many requests',
             message: 'Rate limit exceeded. Please try again later.',
-            retryAfter: Math.ceil((resetTime - Date.now()) / 1000)
+            retryAfter: Number(headers['RateLimit-Reset'])
           }),
           {
             status: 429,
             headers: {
               'Content-Type': 'application/json',
-              'X-RateLimit-Limit': maxRequests.toString(),
-              'X-RateLimit-Remaining': remaining.toString(),
-              'X-RateLimit-Reset': resetTime.toString(),
-              'Retry-After': Math.ceil((resetTime - Date.now()) / 1000).toString()
+              ...headers,
+              'Retry-After': headers['RateLimit-Reset']
             }
           }
         )
       }
 
+      let response: NextResponse
       try {
-        const response = await handler()
-        
-        // Add rate limit headers to successful responses
-        response.headers.set('X-RateLimit-Limit', maxRequests.toString())
-        response.headers.set('X-RateLimit-Remaining', remaining.toString())
-        response.headers.set('X-RateLimit-Reset', resetTime.toString())
-
-        // Skip counting successful requests if configured
-        if (skipSuccessfulRequests && response.ok) {
-          // Note: In a production environment, you'd want to decrement the counter here
-          // This is a simplified implementation
-        }
-
-        return response
+        response = await handler()
       } catch (error) {
-        // Skip counting failed requests if configured
         if (skipFailedRequests) {
-          // Note: In a production environment, you'd want to decrement the counter here
-          // This is a simplified implementation
+          await refundQuietly(decision)
         }
         throw error
       }
+
+      // Add rate limit headers to successful responses; ones a nested limiter already set are kept
+      Object.entries(headers).forEach(([name, value]) => {
+        if (!response.headers.has(name)) response.headers.set(name, value)
+      })
+
+      const failed = response.status >= 400
+      if ((skipSuccessfulRequests && !failed) || (skipFailedRequests && failed)) {
+        await refundQuietly(decision)
+      }
+
+      return response
     }
   }
 
@@ -129,49 +141,156 @@ export function createRateLimit(options: RateLimitOptions) {
 }
 
 function defaultKeyGenerator(request: NextRequest): string {
-  // Try to get IP from various headers (for reverse proxy setups)
-  const forwarded = request.headers.get('x-forwarded-for')
-  const realIp = request.headers.get('x-real-ip')
-  const clientIp = request.headers.get('x-client-ip')
-  
-  let ip = forwarded?.split(',')[0]?.trim() || 
-           realIp || 
-           clientIp || 
-           'unknown'
-
-  // For development/local testing
-  if (ip === '::1' || ip === '127.0.0.1') {
-    ip = 'localhost'
-  }
-
-  return `rate_limit:${ip}`
+  return `rate_limit:${getClientIp(request)}`
 }
 
-// Predefined rate limiters for different use cases
-export const authRateLimit = createRateLimit({
+// Predefined rate limiters for different use cases; src/lib/rate-limit-policies.ts maps them to routes
+export const authRateLimit = createEndpointRateLimit('login', {
   windowMs: 15 * 60 * 1000, // 15 minutes
   maxRequests: 5, // 5 login attempts per 15 minutes
   onLimitReached: (request) => {
-    console.warn(`Rate limit exceeded for auth endpoint from IP: ${request.headers.get('x-forwarded-for') || 'unknown'}`)
+    console.warn(`Rate limit exceeded for auth endpoint from IP: ${getClientIp(request)}`)
   }
 })
 
-export const signupRateLimit = createRateLimit({
+export const signupRateLimit = createEndpointRateLimit('signup', {
   windowMs: 60 * 60 * 1000, // 1 hour
   maxRequests: 3, // 3 signup attempts per hour
   onLimitReached: (request) => {
-    console.warn(`Signup rate limit exceeded from IP: ${request.headers.get('x-forwarded-for') || 'unknown'}`)
+    console.warn(`Signup rate limit exceeded from IP: ${getClientIp(request)}`)
   }
 })
 
-export const apiRateLimit = createRateLimit({
+export const apiRateLimit = createEndpointRateLimit('api', {
   windowMs: 15 * 60 * 1000, // 15 minutes
   maxRequests: 100, // 100 API calls per 15 minutes
 })
 
-export const passwordResetRateLimit = createRateLimit({
+// Resends go to one inbox, so they're counted per address rather than per IP
+export const verificationEmailRateLimit = createEndpointRateLimit('verification-email', {
+  windowMs: 60 * 60 * 1000, // 1 hour
+  maxRequests: 3, // 3 verification emails per hour
+  onLimitReached: (request) => {
+    console.warn(`Verification email rate limit exceeded from IP: ${getClientIp(request)}`)
+  }
+})
+
+// Alongside the per-address limit, so one client can't mail a long list of inboxes three times each
+export const verificationEmailIpRateLimit = createEndpointRateLimit('verification-email-ip', {
+  windowMs: 60 * 60 * 1000, // 1 hour
+  maxRequests: 10, // 10 verification emails per hour from one IP
+  onLimitReached: (request) => {
+    console.warn(`Verification email IP rate limit exceeded from IP: ${getClientIp(request)}`)
+  }
+})
+
+// Keyed per endpoint so failed logins from the same IP don't eat into the reset budget
+export const passwordResetRateLimit = createEndpointRateLimit('password-reset', {
   windowMs: 60 * 60 * 1000, // 1 hour
   maxRequests: 3, // 3 password reset attempts per hour
+  onLimitReached: (request) => {
+    console.warn(`Password reset rate limit exceeded from IP: ${getClientIp(request)}`)
+  }
+})
+
+// A 6-digit code has a million possibilities; keep guessing well below that within a challenge's lifetime
+export const mfaRateLimit = createEndpointRateLimit('mfa', {
+  windowMs: 5 * 60 * 1000, // 5 minutes
+  maxRequests: 5, // 5 code attempts per 5 minutes
+  onLimitReached: (request) => {
+    console.warn(`MFA rate limit exceeded from IP: ${getClientIp(request)}`)
+  }
+})
+
+// Fetching options and verifying an assertion are separate requests, so one sign-in costs two
+export const passkeyRateLimit = createEndpointRateLimit('passkey', {
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 20, // 10 passkey sign-ins per 15 minutes
+  onLimitReached: (request) => {
+    console.warn(`Passkey rate limit exceeded from IP: ${getClientIp(request)}`)
+  }
+})
+
+// Only the provider callback is limited; each one costs a token exchange with the provider
+export const oidcRateLimit = createEndpointRateLimit('oidc', {
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 10, // 10 provider sign-ins per 15 minutes
+  onLimitReached: (request) => {
+    console.warn(`OIDC rate limit exceeded from IP: ${getClientIp(request)}`)
+  }
+})
+
+// Each request sends an email, so keep this close to the password reset budget
+export const magicLinkRateLimit = createEndpointRateLimit('magic-link', {
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 5, // 5 sign-in links per 15 minutes
+  onLimitReached: (request) => {
+    console.warn(`Magic link rate limit exceeded from IP: ${getClientIp(request)}`)
+  }
+})
+
+export const magicLinkVerifyRateLimit = createEndpointRateLimit('magic-link-verify', {
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 10, // 10 link redemptions per 15 minutes
+  onLimitReached: (request) => {
+    console.warn(`Magic link verification rate limit exceeded from IP: ${getClientIp(request)}`)
+  }
+})
+
+export const accountUnlockRateLimit = createEndpointRateLimit('account-unlock', {
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 5, // 5 unlock attempts per 15 minutes
+  onLimitReached: (request) => {
+    console.warn(`Account unlock rate limit exceeded from IP: ${getClientIp(request)}`)
+  }
+})
+
+export const secureAccountRateLimit = createEndpointRateLimit('secure-account', {
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 5, // 5 secure-account links per 15 minutes
+  onLimitReached: (request) => {
+    console.warn(`Secure account rate limit exceeded from IP: ${getClientIp(request)}`)
+  }
+})
+
+export const changePasswordRateLimit = createEndpointRateLimit('change-password', {
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 5, // 5 password changes per 15 minutes
+  onLimitReached: (request) => {
+    console.warn(`Change password rate limit exceeded from IP: ${getClientIp(request)}`)
+  }
+})
+
+export const emailChangeRateLimit = createEndpointRateLimit('email-change', {
+  windowMs: 60 * 60 * 1000, // 1 hour
+  maxRequests: 3, // 3 email change requests per hour
+  onLimitReached: (request) => {
+    console.warn(`Email change rate limit exceeded from IP: ${getClientIp(request)}`)
+  }
+})
+
+export const emailChangeVerifyRateLimit = createEndpointRateLimit('email-change-verify', {
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 10, // 10 confirm or cancel links per 15 minutes
+  onLimitReached: (request) => {
+    console.warn(`Email change link rate limit exceeded from IP: ${getClientIp(request)}`)
+  }
+})
+
+export const accountExportRateLimit = createEndpointRateLimit('account-export', {
+  windowMs: 60 * 60 * 1000, // 1 hour
+  maxRequests: 5, // 5 data exports per hour
+  onLimitReached: (request) => {
+    console.warn(`Account export rate limit exceeded from IP: ${getClientIp(request)}`)
+  }
+})
+
+export const accountDeletionRateLimit = createEndpointRateLimit('account-deletion', {
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 5, // 5 deletion requests or cancel links per 15 minutes
+  onLimitReached: (request) => {
+    console.warn(`Account deletion rate limit exceeded from IP: ${getClientIp(request)}`)
+  }
 })
 
 // Enhanced rate limiter with user-based limits
@@ -193,13 +312,14 @@ export function createUserRateLimit(options: RateLimitOptions & { userIdExtracto
   } as RateLimitOptions)
 }
 
-// Utility to create IP + endpoint specific rate limiting
+// Utility to create IP + endpoint specific rate limiting; `name` prefixes keys chosen by a policy too
 export function createEndpointRateLimit(endpoint: string, options: Omit<RateLimitOptions, 'keyGenerator'>) {
-  return createRateLimit({
+  const rateLimiter = createRateLimit({
     ...options,
-    keyGenerator: (request: NextRequest) => {
-      const ip = defaultKeyGenerator(request).replace('rate_limit:', '')
-      return `rate_limit:${endpoint}:${ip}`
-    }
+    keyGenerator: (request: NextRequest) => `rate_limit:${endpoint}:${getClientIp(request)}`
   })
-}
\ No newline at end of file
+
+  return { ...rateLimiter, name: endpoint }
+}
+
+export type EndpointRateLimiter = ReturnType<typeof createEndpointRateLimit>
\ No newline at end of file
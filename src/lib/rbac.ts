@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from './prisma'
+import { getCurrentUser, VerifiedToken } from './auth'
+import { authSecurityHeaders } from './security-headers'
+import { logAuthEvent } from './auth-logger'
+import { BASE_ROLE, DEFAULT_ROLES, Permission, UserAccess, hasPermission } from './permissions'
+
+export type PermissionCheck =
+  | { authorized: true; user: VerifiedToken; access: UserAccess }
+  | { authorized: false; response: NextResponse }
+
+/**
+ * Database side of role-based access control. Roles are rows in `auth_roles`
+ * holding a list of permissions; `auth_user_roles` grants them to users.
+ */
+export class RbacService {
+  static async getUserAccess(userId: string): Promise<UserAccess> {
+    const grants = await prisma.userRole.findMany({
+      where: { userId },
+      select: { role: { select: { name: true, permissions: true } } }
+    })
+
+    const roles = new Set([BASE_ROLE])
+    const permissions = new Set<string>()
+    for (const { role } of grants) {
+      roles.add(role.name)
+      role.permissions.forEach(permission => permissions.add(permission))
+    }
+
+    return { roles: [...roles], permissions: [...permissions] }
+  }
+
+  // Creates any default role that is missing; roles an administrator has edited are left alone
+  static async ensureDefaultRoles(): Promise<void> {
+    for (const [name, { description, permissions }] of Object.entries(DEFAULT_ROLES)) {
+      await prisma.role.upsert({
+        where: { name },
+        create: { name, description, permissions },
+        update: {}
+      })
+    }
+  }
+
+  // Returns false when no role has that name
+  static async assignRole(userId: string, roleName: string, assignedBy?: string): Promise<boolean> {
+    const role = await prisma.role.findUnique({ where: { name: roleName }, select: { id: true } })
+    if (!role) return false
+
+    await prisma.userRole.upsert({
+      where: { userId_roleId: { userId, roleId: role.id } },
+      create: { userId, roleId: role.id, assignedBy },
+      update: {}
+    })
+
+    return true
+  }
+
+  static async removeRole(userId: string, roleName: string): Promise<boolean> {
+    const { count } = await prisma.userRole.deleteMany({
+      where: { userId, role: { name: roleName } }
+    })
+
+    return count > 0
+  }
+}
+
+/**
+ * Guard for API routes:
+ *
+ *   const check = await requirePermission(request, PERMISSIONS.USERS_READ)
+ *   if (!check.authorized) return check.response
+ *
+ * Roles in the access token can be up to 15 minutes old, so they are read
+ * again here; taking a role away stops its API access immediately.
+ */
+export async function requirePermission(request: NextRequest, permission: Permission): Promise<PermissionCheck> {
+  const user = await getCurrentUser(request)
+
+  if (!user) {
+    return {
+      authorized: false,
+      response: authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Unauthorized - No valid token provided'
+        },
+        { status: 401 }
+      ))
+    }
+  }
+
+  const access = await RbacService.getUserAccess(user.userId)
+
+  if (!hasPermission(access, permission)) {
+    await logAuthEvent('access_denied', request, {
+      success: false,
+      userId: user.userId,
+      email: user.email,
+      sessionId: user.sessionId,
+      metadata: { permission }
+    })
+
+    return {
+      authorized: false,
+      response: authSecurityHeaders.applyHeaders(NextResponse.json(
+        {
+          success: false,
+          error: 'Forbidden - You do not have permission to perform this action',
+          code: 'FORBIDDEN'
+        },
+        { status: 403 }
+      ))
+    }
+  }
+
+  return { authorized: true, user, access }
+}
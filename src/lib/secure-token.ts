@@ -0,0 +1,34 @@
+import { createHash, randomBytes } from 'crypto'
+
+/**
+ * Helpers for single-use tokens that are emailed to users (password reset,
+ * sign-in links, etc). Only the SHA-256 hash of a token is ever stored, so a
+ * leaked database row cannot be replayed as a link.
+ */
+
+export function generateSecureToken(bytes = 32): string {
+  return randomBytes(bytes).toString('hex')
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// A secret that keys one feature. Missing or short, the feature refuses to run rather than use a guessable key
+export function requireSecret(variable: string): string {
+  const secret = process.env[variable]
+  if (!secret || secret.length < 32) {
+    throw new Error(`${variable} must be set to a random string of at least 32 characters`)
+  }
+  return secret
+}
+
+export function createExpiringToken(ttlMs: number, bytes = 32) {
+  const token = generateSecureToken(bytes)
+
+  return {
+    token,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs)
+  }
+}
@@ -0,0 +1,112 @@
+import { prisma } from './prisma'
+import { parseUserAgent, ParsedUserAgent } from './user-agent'
+import type { AuthEvent } from './auth-logger'
+
+// The audit events a user sees about their own account; the rest is operational noise
+export const ACTIVITY_EVENTS: AuthEvent[] = [
+  'login_success',
+  'login_failure',
+  'account_locked',
+  'account_unlocked',
+  'password_reset_request',
+  'password_reset_success',
+  'password_changed',
+  'email_change_requested',
+  'email_changed',
+  'email_change_cancelled',
+  'data_exported',
+  'account_deletion_requested',
+  'account_deletion_cancelled',
+  'mfa_enabled',
+  'mfa_disabled',
+  'mfa_failure',
+  'passkey_registered',
+  'passkey_removed',
+  'oidc_account_linked',
+  'session_revoked',
+  'token_reuse',
+  'suspicious_activity'
+]
+
+// Alerts that add something the events above don't already say
+export const ACTIVITY_ALERT_TYPES = ['new_device_login', 'mfa_brute_force']
+
+export const ACTIVITY_PAGE_SIZE = 20
+export const ACTIVITY_MAX_PAGE_SIZE = 50
+
+export interface ActivityItem {
+  id: string
+  kind: 'event' | 'alert'
+  type: string
+  success: boolean
+  level?: string
+  method?: string
+  ip: string
+  device: ParsedUserAgent
+  createdAt: Date
+}
+
+function metadataString(metadata: unknown, key: string): string | undefined {
+  if (!metadata || typeof metadata !== 'object') return undefined
+  const value = (metadata as Record<string, unknown>)[key]
+  return typeof value === 'string' ? value : undefined
+}
+
+/**
+ * The /settings/security timeline: a user's own audit events and security
+ * alerts merged newest first. Pages are cut by time (`before`), so new
+ * activity never shifts what the next page returns.
+ */
+export class SecurityActivityService {
+  static async listActivity(
+    userId: string,
+    options: { before?: Date; limit?: number } = {}
+  ): Promise<{ activity: ActivityItem[]; nextCursor: string | null }> {
+    const limit = options.limit ?? ACTIVITY_PAGE_SIZE
+    const createdAt = options.before ? { lt: options.before } : undefined
+
+    const [events, alerts] = await Promise.all([
+      prisma.authAuditLog.findMany({
+        where: { userId, event: { in: ACTIVITY_EVENTS }, createdAt },
+        orderBy: { createdAt: 'desc' },
+        take: limit + 1
+      }),
+      prisma.authSecurityAlert.findMany({
+        where: { userId, type: { in: ACTIVITY_ALERT_TYPES }, createdAt },
+        orderBy: { createdAt: 'desc' },
+        take: limit + 1
+      })
+    ])
+
+    const merged: ActivityItem[] = [
+      ...events.map(entry => ({
+        id: entry.id,
+        kind: 'event' as const,
+        type: entry.event,
+        success: entry.success,
+        method: metadataString(entry.metadata, 'method'),
+        ip: entry.ip,
+        device: parseUserAgent(entry.userAgent),
+        createdAt: entry.createdAt
+      })),
+      ...alerts.map(alert => ({
+        id: alert.id,
+        kind: 'alert' as const,
+        type: alert.type,
+        success: false,
+        level: alert.level,
+        ip: alert.ip,
+        device: parseUserAgent(metadataString(alert.metadata, 'userAgent')),
+        createdAt: alert.createdAt
+      }))
+    ].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+
+    const activity = merged.slice(0, limit)
+    const hasMore = merged.length > limit
+
+    return {
+      activity,
+      nextCursor: hasMore ? activity[activity.length - 1].createdAt.toISOString() : null
+    }
+  }
+}
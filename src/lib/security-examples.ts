@@ -7,7 +7,9 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { JWTService } from './jwt'
+import { getTokenFromRequest } from './auth-tokens'
 import { createRateLimit, authRateLimit } from './rate-limit'
+import { getClientIp } from './client-ip'
 import { withCors, authCors } from './cors'
 import { withSecurityHeaders, authSecurityHeaders } from './security-headers'
 import { 
@@ -46,7 +48,7 @@ export async function exampleRateLimit(request: NextRequest) {
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 10, // 10 requests per minute
     onLimitReached: (req) => {
-      console.log('Rate limit exceeded for:', req.headers.get('x-forwarded-for'))
+      console.log('Rate limit exceeded for:', getClientIp(req))
     }
   })
 
@@ -146,19 +148,8 @@ export async function secureAPIEndpoint(request: NextRequest) {
   const startTime = Date.now()
 
   try {
-    // 1. Apply rate limiting
-    const rateLimitResult = await authRateLimit.middleware(request, async () => {
-      return NextResponse.json({ success: true })
-    })
-
-    if (rateLimitResult.status === 429) {
-      await logAuthEvent('rate_limit_exceeded', request, {
-        success: false,
-        error: 'Rate limit exceeded',
-        duration: Date.now() - startTime
-      })
-      return rateLimitResult
-    }
+    // 1. Rate limiting happens before this runs: route handlers are exported through
+    //    withRateLimit, with a policy for the route in rate-limit-policies.ts
 
     // 2. Parse and sanitize input
     const body = await request.json()
@@ -186,7 +177,7 @@ export async function secureAPIEndpoint(request: NextRequest) {
     }
 
     // 5. Verify JWT token
-    const { accessToken } = await JWTService.getTokenFromRequest(request)
+    const accessToken = getTokenFromRequest(request)
     if (!accessToken) {
       return authSecurityHeaders.applyHeaders(NextResponse.json(
         { success: false, error: 'No token provided' },
@@ -252,7 +243,7 @@ export function createProtectedRoute(handler: (request: NextRequest) => Promise<
         // Layer 3: Security headers
         const securityHandler = authSecurityHeaders.middleware(async (secReq) => {
           // Layer 4: Authentication
-          const { accessToken } = await JWTService.getTokenFromRequest(secReq)
+          const accessToken = getTokenFromRequest(secReq)
           if (!accessToken) {
             return NextResponse.json(
               { success: false, error: 'Authentication required' },
@@ -0,0 +1,133 @@
+import { NextRequest } from 'next/server'
+import { prisma } from './prisma'
+import { JWTService, TokenPair } from './jwt'
+import { extractClientInfo } from './auth-logger'
+import { RbacService } from './rbac'
+import { KnownDeviceService } from './known-devices'
+import { UserAccess } from './permissions'
+
+/**
+ * Server-side record of every token pair we issue. The `sessionId` claim in
+ * access and refresh tokens points at a row here, so sessions can be listed
+ * and revoked even though the JWTs themselves are stateless.
+ */
+export class SessionService {
+  private static sessionExpiry(): Date {
+    return new Date(Date.now() + JWTService.REFRESH_TOKEN_MAX_AGE * 1000)
+  }
+
+  static async createSession(userId: string, request: NextRequest): Promise<string> {
+    const { ip, userAgent } = extractClientInfo(request)
+    const sessionId = crypto.randomUUID()
+
+    await prisma.session.create({
+      data: {
+        sessionId,
+        userId,
+        userAgent,
+        ipAddress: ip,
+        expiresAt: this.sessionExpiry()
+      }
+    })
+
+    return sessionId
+  }
+
+  // Every successful sign-in, whatever the method, ends here: a session row plus a token pair bound to it
+  static async startSession(
+    user: { id: string; email: string },
+    request: NextRequest
+  ): Promise<{ sessionId: string; tokens: TokenPair; access: UserAccess }> {
+    const [sessionId, access] = await Promise.all([
+      this.createSession(user.id, request),
+      RbacService.getUserAccess(user.id)
+    ])
+    const tokens = await JWTService.createTokenPair({
+      userId: user.id,
+      email: user.email,
+      sessionId,
+      ...access
+    })
+
+    // Device tracking only warns the owner; it must never stand between them and their account
+    try {
+      await KnownDeviceService.recordSignIn(user, request)
+    } catch (error) {
+      console.error('Known device tracking failed:', error)
+    }
+
+    return { sessionId, tokens, access }
+  }
+
+  static async isSessionActive(sessionId: string): Promise<boolean> {
+    const session = await prisma.session.findUnique({
+      where: { sessionId },
+      select: { revokedAt: true, expiresAt: true }
+    })
+
+    return !!session && !session.revokedAt && session.expiresAt > new Date()
+  }
+
+  // Called on refresh: records activity and slides the expiry forward
+  static async touchSession(sessionId: string, request: NextRequest): Promise<void> {
+    const { ip, userAgent } = extractClientInfo(request)
+
+    await prisma.session.update({
+      where: { sessionId },
+      data: {
+        lastSeenAt: new Date(),
+        expiresAt: this.sessionExpiry(),
+        ipAddress: ip,
+        userAgent
+      }
+    })
+  }
+
+  static async listActiveSessions(userId: string) {
+    return prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastSeenAt: 'desc' },
+      select: {
+        id: true,
+        sessionId: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastSeenAt: true
+      }
+    })
+  }
+
+  // Scoped to the owner so one user can't revoke another's session by guessing its id
+  static async revokeUserSession(userId: string, id: string): Promise<{ sessionId: string } | null> {
+    const session = await prisma.session.findFirst({
+      where: { id, userId, revokedAt: null },
+      select: { sessionId: true }
+    })
+
+    if (!session) return null
+
+    await this.revokeSession(session.sessionId)
+    return session
+  }
+
+  static async revokeSession(sessionId: string): Promise<void> {
+    await prisma.session.updateMany({
+      where: { sessionId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    })
+  }
+
+  static async revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const { count } = await prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId ? { sessionId: { not: exceptSessionId } } : {})
+      },
+      data: { revokedAt: new Date() }
+    })
+
+    return count
+  }
+}
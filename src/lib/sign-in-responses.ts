@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authSecurityHeaders } from './security-headers'
+import { emailService } from './email-service'
+import { logAuthEvent } from './auth-logger'
+import { LOCKOUT_DURATION_MINUTES, LockoutFailure } from './account-lockout'
+
+/**
+ * Refusals shared by the password step of a login and the second-factor
+ * step that finishes it, so the login page sees the same codes from both.
+ */
+
+export function accountLockedResponse(lockedUntil: Date, retryAfter: number): NextResponse {
+  const response = authSecurityHeaders.applyHeaders(NextResponse.json(
+    {
+      success: false,
+      error: 'Too many failed sign-in attempts. Your account is temporarily locked.',
+      code: 'ACCOUNT_LOCKED',
+      data: {
+        lockedUntil: lockedUntil.toISOString(),
+        retryAfter
+      }
+    },
+    { status: 423 }
+  ))
+  response.headers.set('Retry-After', String(retryAfter))
+  return response
+}
+
+export function loginThrottledResponse(retryAfter: number): NextResponse {
+  const response = authSecurityHeaders.applyHeaders(NextResponse.json(
+    {
+      success: false,
+      error: `Too many failed attempts. Please wait ${retryAfter} seconds before trying again.`,
+      code: 'LOGIN_THROTTLED',
+      data: { retryAfter }
+    },
+    { status: 429 }
+  ))
+  response.headers.set('Retry-After', String(retryAfter))
+  return response
+}
+
+export function passwordResetRequiredResponse(): NextResponse {
+  return authSecurityHeaders.applyHeaders(NextResponse.json(
+    {
+      success: false,
+      error: 'You need to reset your password before signing in. Check your email for a reset link, or request a new one.',
+      code: 'PASSWORD_RESET_REQUIRED'
+    },
+    { status: 403 }
+  ))
+}
+
+// For the failure that crossed the threshold: email the owner a way back in and record the lock
+export async function accountJustLockedResponse(
+  request: NextRequest,
+  user: { id: string; email: string; name: string | null },
+  failure: Required<LockoutFailure>
+): Promise<NextResponse> {
+  let emailSent = false
+  try {
+    emailSent = await emailService.sendAccountLockedEmail(
+      user.email,
+      user.name,
+      failure.unlockToken,
+      LOCKOUT_DURATION_MINUTES
+    )
+  } catch (emailError) {
+    console.error('Account locked email failed:', emailError)
+  }
+
+  await logAuthEvent('account_locked', request, {
+    success: true,
+    userId: user.id,
+    email: user.email,
+    metadata: {
+      failedAttempts: failure.failedAttempts,
+      lockedUntil: failure.lockedUntil.toISOString(),
+      emailSent
+    }
+  })
+
+  return accountLockedResponse(failure.lockedUntil, LOCKOUT_DURATION_MINUTES * 60)
+}
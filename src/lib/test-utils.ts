@@ -1,6 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { JWTService } from './jwt'
 import bcrypt from 'bcryptjs'
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto'
+import { createServer, request as httpRequest, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+import { isoCBOR } from '@simplewebauthn/server/helpers'
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON
+} from '@simplewebauthn/server'
 
 // Test utilities for API testing
 export class TestUtils {
@@ -88,6 +98,11 @@ export class TestUtils {
       password: '$2a$12$mockhashedpassword',
       name: 'Test User',
       emailVerified: true,
+      failedLoginAttempts: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null,
+      disabledAt: null,
+      passwordResetRequired: false,
       createdAt: new Date(),
       updatedAt: new Date(),
       ...overrides,
@@ -283,6 +298,269 @@ export const DatabaseTestHelpers = {
   },
 }
 
+// Authenticator data flags (WebAuthn Level 2, section 6.1)
+const FLAG_USER_PRESENT = 0x01
+const FLAG_USER_VERIFIED = 0x04
+const FLAG_ATTESTED_CREDENTIAL = 0x40
+
+/**
+ * A virtual platform authenticator: an ES256 key pair with "none" attestation.
+ * It produces the same JSON the browser hands back from navigator.credentials,
+ * so registration and sign-in ceremonies can be exercised without a browser.
+ */
+export class SoftwareAuthenticator {
+  readonly credentialId = randomBytes(16).toString('base64url')
+  signCount = 0
+  private readonly keyPair = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+
+  constructor(
+    private readonly options: { origin?: string; userVerification?: boolean } = {}
+  ) {}
+
+  private get origin() {
+    return this.options.origin || process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  }
+
+  private clientDataJSON(type: 'webauthn.create' | 'webauthn.get', challenge: string): Buffer {
+    return Buffer.from(JSON.stringify({ type, challenge, origin: this.origin, crossOrigin: false }))
+  }
+
+  private authenticatorData(rpId: string, extraFlags = 0, attestedCredential?: Buffer): Buffer {
+    const flags = FLAG_USER_PRESENT |
+      (this.options.userVerification === false ? 0 : FLAG_USER_VERIFIED) |
+      extraFlags
+    const counter = Buffer.alloc(4)
+    counter.writeUInt32BE(this.signCount)
+
+    return Buffer.concat([
+      createHash('sha256').update(rpId).digest(),
+      Buffer.from([flags]),
+      counter,
+      ...(attestedCredential ? [attestedCredential] : [])
+    ])
+  }
+
+  createRegistrationResponse(options: PublicKeyCredentialCreationOptionsJSON): RegistrationResponseJSON {
+    const { x, y } = this.keyPair.publicKey.export({ format: 'jwk' })
+    // COSE_Key for EC2 / P-256 / ES256
+    const publicKey = isoCBOR.encode(new Map<number, number | Uint8Array>([
+      [1, 2],
+      [3, -7],
+      [-1, 1],
+      [-2, new Uint8Array(Buffer.from(x!, 'base64url'))],
+      [-3, new Uint8Array(Buffer.from(y!, 'base64url'))],
+    ]))
+
+    const rawId = Buffer.from(this.credentialId, 'base64url')
+    const idLength = Buffer.alloc(2)
+    idLength.writeUInt16BE(rawId.length)
+
+    const authData = this.authenticatorData(
+      options.rp.id!,
+      FLAG_ATTESTED_CREDENTIAL,
+      Buffer.concat([Buffer.alloc(16), idLength, rawId, Buffer.from(publicKey)])
+    )
+    const attestationObject = isoCBOR.encode(new Map<string, string | Uint8Array | Map<string, never>>([
+      ['fmt', 'none'],
+      ['attStmt', new Map<string, never>()],
+      ['authData', new Uint8Array(authData)],
+    ]))
+
+    return {
+      id: this.credentialId,
+      rawId: this.credentialId,
+      type: 'public-key',
+      clientExtensionResults: {},
+      response: {
+        clientDataJSON: this.clientDataJSON('webauthn.create', options.challenge).toString('base64url'),
+        attestationObject: Buffer.from(attestationObject).toString('base64url'),
+        transports: ['internal'],
+      },
+    }
+  }
+
+  createAuthenticationResponse(options: PublicKeyCredentialRequestOptionsJSON): AuthenticationResponseJSON {
+    this.signCount += 1
+
+    const clientDataJSON = this.clientDataJSON('webauthn.get', options.challenge)
+    const authData = this.authenticatorData(options.rpId!)
+    const signature = sign(
+      'sha256',
+      Buffer.concat([authData, createHash('sha256').update(clientDataJSON).digest()]),
+      this.keyPair.privateKey
+    )
+
+    return {
+      id: this.credentialId,
+      rawId: this.credentialId,
+      type: 'public-key',
+      clientExtensionResults: {},
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        authenticatorData: authData.toString('base64url'),
+        signature: signature.toString('base64url'),
+      },
+    }
+  }
+}
+
+interface PendingAuthorization {
+  nonce: string | null
+  codeChallenge: string | null
+  redirectUri: string | null
+  claims: Record<string, unknown>
+}
+
+/**
+ * A minimal OpenID Connect provider on a local port: discovery, JWKS and a
+ * token endpoint that checks client credentials and PKCE. The browser leg is
+ * played by `authorize()`, which approves the request and returns the URL the
+ * provider would redirect back to.
+ */
+export class MockOidcProvider {
+  readonly clientId = 'mock-client-id'
+  readonly clientSecret = 'mock-client-secret'
+  issuer = ''
+  private server: Server | null = null
+  private readonly keyId = randomBytes(8).toString('hex')
+  private readonly keyPair = generateKeyPairSync('rsa', { modulusLength: 2048 })
+  private readonly pending = new Map<string, PendingAuthorization>()
+
+  async start(): Promise<string> {
+    this.server = createServer((request, response) => {
+      this.handle(request, response).catch(() => this.send(response, 500, { error: 'server_error' }))
+    })
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve))
+    this.issuer = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`
+    return this.issuer
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server?.close(resolve))
+    this.server = null
+  }
+
+  /**
+   * The API test environment replaces global fetch with a stub; install this
+   * in its place so discovery, JWKS and token requests reach the mock over HTTP.
+   */
+  readonly fetch = (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const headers: Record<string, string> = {}
+    const source = (init.headers || {}) as Record<string, string> | Iterable<[string, string]>
+    const entries = Symbol.iterator in source ? Array.from(source) : Object.entries(source)
+    for (const [key, value] of entries) headers[key.toLowerCase()] = value
+
+    return new Promise((resolve, reject) => {
+      const outgoing = httpRequest(String(input), { method: init.method || 'GET', headers }, incoming => {
+        let text = ''
+        incoming.on('data', chunk => { text += chunk })
+        incoming.on('end', () => resolve({
+          ok: incoming.statusCode! >= 200 && incoming.statusCode! < 300,
+          status: incoming.statusCode!,
+          json: async () => JSON.parse(text),
+          text: async () => text,
+        } as Response))
+      })
+      outgoing.on('error', reject)
+      outgoing.end(init.body ? String(init.body) : undefined)
+    })
+  }
+
+  // `claims` are merged over the defaults, so tests can swap the nonce, audience or email
+  authorize(authorizationUrl: string, claims: Record<string, unknown> = {}): string {
+    const params = new URL(authorizationUrl).searchParams
+    const code = randomBytes(16).toString('base64url')
+
+    this.pending.set(code, {
+      nonce: params.get('nonce'),
+      codeChallenge: params.get('code_challenge'),
+      redirectUri: params.get('redirect_uri'),
+      claims
+    })
+
+    const callback = new URL(params.get('redirect_uri')!)
+    callback.searchParams.set('code', code)
+    callback.searchParams.set('state', params.get('state') || '')
+    return callback.toString()
+  }
+
+  signIdToken(claims: Record<string, unknown>): string {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+    const signingInput = `${encode({ alg: 'RS256', typ: 'JWT', kid: this.keyId })}.${encode(claims)}`
+    const signature = sign('sha256', Buffer.from(signingInput), this.keyPair.privateKey)
+    return `${signingInput}.${signature.toString('base64url')}`
+  }
+
+  private send(response: ServerResponse, status: number, body: unknown) {
+    response.writeHead(status, { 'Content-Type': 'application/json' })
+    response.end(JSON.stringify(body))
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse) {
+    const path = new URL(request.url || '/', this.issuer).pathname
+
+    if (path === '/.well-known/openid-configuration') {
+      return this.send(response, 200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+        response_types_supported: ['code'],
+        code_challenge_methods_supported: ['S256']
+      })
+    }
+
+    if (path === '/jwks') {
+      const jwk = this.keyPair.publicKey.export({ format: 'jwk' })
+      return this.send(response, 200, { keys: [{ ...jwk, kid: this.keyId, alg: 'RS256', use: 'sig' }] })
+    }
+
+    if (path === '/token' && request.method === 'POST') {
+      let raw = ''
+      for await (const chunk of request) raw += chunk
+      const body = new URLSearchParams(raw)
+
+      const expectedAuth = `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64')}`
+      if (request.headers.authorization !== expectedAuth) {
+        return this.send(response, 401, { error: 'invalid_client' })
+      }
+
+      const code = body.get('code') || ''
+      const authorization = this.pending.get(code)
+      this.pending.delete(code)
+
+      const verifier = body.get('code_verifier') || ''
+      const challenge = createHash('sha256').update(verifier).digest('base64url')
+      if (
+        !authorization ||
+        body.get('grant_type') !== 'authorization_code' ||
+        body.get('redirect_uri') !== authorization.redirectUri ||
+        challenge !== authorization.codeChallenge
+      ) {
+        return this.send(response, 400, { error: 'invalid_grant' })
+      }
+
+      const now = Math.floor(Date.now() / 1000)
+      const idToken = this.signIdToken({
+        iss: this.issuer,
+        aud: this.clientId,
+        sub: 'mock-subject',
+        email: 'oidc-user@example.com',
+        email_verified: true,
+        name: 'OIDC User',
+        nonce: authorization.nonce,
+        iat: now,
+        exp: now + 300,
+        ...authorization.claims
+      })
+
+      return this.send(response, 200, { access_token: 'mock-access-token', token_type: 'Bearer', id_token: idToken })
+    }
+
+    this.send(response, 404, { error: 'not_found' })
+  }
+}
+
 // API test helpers
 export const APITestHelpers = {
   async testEndpoint(
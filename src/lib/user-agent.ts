@@ -0,0 +1,64 @@
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'unknown'
+
+export interface ParsedUserAgent {
+  browser: string
+  os: string
+  deviceType: DeviceType
+  label: string
+}
+
+// Order matters: Edge and Opera also advertise Chrome, and Chrome also advertises Safari
+const BROWSERS: Array<[string, RegExp]> = [
+  ['Edge', /Edg(e|A|iOS)?\//],
+  ['Opera', /OPR\/|Opera/],
+  ['Samsung Internet', /SamsungBrowser\//],
+  ['Firefox', /Firefox\/|FxiOS\//],
+  ['Chrome', /Chrome\/|CriOS\//],
+  ['Safari', /Version\/[\d.]+.*Safari\//]
+]
+
+const OPERATING_SYSTEMS: Array<[string, RegExp]> = [
+  ['iOS', /iPhone|iPad|iPod/],
+  ['Android', /Android/],
+  ['Windows', /Windows/],
+  ['macOS', /Mac OS X|Macintosh/],
+  ['ChromeOS', /CrOS/],
+  ['Linux', /Linux/]
+]
+
+function match(userAgent: string, candidates: Array<[string, RegExp]>): string {
+  return candidates.find(([, pattern]) => pattern.test(userAgent))?.[0] || 'Unknown'
+}
+
+function detectDeviceType(userAgent: string): DeviceType {
+  if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+    return 'tablet'
+  }
+  if (/Mobi|iPhone|iPod/.test(userAgent)) return 'mobile'
+  if (/Windows|Macintosh|Mac OS X|Linux|CrOS/.test(userAgent)) return 'desktop'
+  return 'unknown'
+}
+
+/**
+ * Reduce a User-Agent header to the browser, OS and device type shown to users.
+ * Only the common families are recognized; anything else is reported as "Unknown".
+ */
+export function parseUserAgent(userAgent: string | null | undefined): ParsedUserAgent {
+  if (!userAgent || userAgent === 'unknown') {
+    return { browser: 'Unknown', os: 'Unknown', deviceType: 'unknown', label: 'Unknown device' }
+  }
+
+  const browser = match(userAgent, BROWSERS)
+  const os = match(userAgent, OPERATING_SYSTEMS)
+  const deviceType = detectDeviceType(userAgent)
+
+  const label = browser === 'Unknown' && os === 'Unknown'
+    ? 'Unknown device'
+    : browser === 'Unknown'
+      ? os
+      : os === 'Unknown'
+        ? browser
+        : `${browser} on ${os}`
+
+  return { browser, os, deviceType, label }
+}
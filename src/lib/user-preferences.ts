@@ -0,0 +1,51 @@
+/**
+ * Account preferences shared by the server and the settings page. Stored as
+ * JSON on the user row; anything missing or unrecognized falls back to the
+ * defaults, so adding a preference never needs a migration.
+ */
+
+export const THEMES = ['system', 'light', 'dark'] as const
+export const ENERGY_UNITS = ['kWh', 'MWh'] as const
+
+export interface UserPreferences {
+  theme: typeof THEMES[number]
+  energyUnit: typeof ENERGY_UNITS[number]
+  // IANA zone such as "Europe/Berlin"; null follows the browser
+  timezone: string | null
+  // Product news and tips; security emails are always sent
+  productUpdates: boolean
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  theme: 'system',
+  energyUnit: 'kWh',
+  timezone: null,
+  productUpdates: false
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === 'string' && (values as readonly string[]).includes(value)
+}
+
+// Reads whatever is stored, keeping only values that are still valid
+export function resolvePreferences(stored: unknown): UserPreferences {
+  const raw = stored && typeof stored === 'object' && !Array.isArray(stored)
+    ? stored as Record<string, unknown>
+    : {}
+
+  return {
+    theme: isOneOf(THEMES, raw.theme) ? raw.theme : DEFAULT_PREFERENCES.theme,
+    energyUnit: isOneOf(ENERGY_UNITS, raw.energyUnit) ? raw.energyUnit : DEFAULT_PREFERENCES.energyUnit,
+    timezone: typeof raw.timezone === 'string' && isValidTimezone(raw.timezone) ? raw.timezone : DEFAULT_PREFERENCES.timezone,
+    productUpdates: typeof raw.productUpdates === 'boolean' ? raw.productUpdates : DEFAULT_PREFERENCES.productUpdates
+  }
+}
@@ -1,3 +1,5 @@
+import { DEFAULT_PREFERENCES, ENERGY_UNITS, isValidTimezone, THEMES, UserPreferences } from './user-preferences'
+
 export function validateEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
   return emailRegex.test(email)
@@ -34,11 +36,55 @@ export interface SignupData {
   name?: string
 }
 
+export interface AdminUserQuery {
+  search?: string
+  emailVerified?: boolean
+  role?: string
+  createdFrom?: Date
+  createdTo?: Date
+  page: number
+  pageSize: number
+}
+
+export interface AuditQuery {
+  kind: 'events' | 'alerts'
+  userId?: string
+  email?: string
+  ip?: string
+  event?: string[]
+  success?: boolean
+  level?: string
+  type?: string
+  from?: Date
+  to?: Date
+  page: number
+  pageSize: number
+  format?: 'csv' | 'json'
+}
+
 export interface LoginData {
   email: string
   password: string
 }
 
+export interface ProfileUpdate {
+  // null clears the name
+  name?: string | null
+  preferences?: Partial<UserPreferences>
+}
+
+export interface ChangePasswordData {
+  currentPassword: string
+  newPassword: string
+}
+
+export interface EmailChangeData {
+  newEmail: string
+  password: string
+}
+
+export const MAX_NAME_LENGTH = 100
+
 export function validateSignupData(data: any): { isValid: boolean; errors: string[]; data?: SignupData } {
   const errors: string[] = []
   
@@ -93,4 +139,254 @@ export function validateLoginData(data: any): { isValid: boolean; errors: string
       password: data.password
     } : undefined
   }
-}
\ No newline at end of file
+}
+// Body of PATCH /api/auth/me: any subset of name and preferences
+export function validateProfileUpdate(body: unknown): { isValid: boolean; errors: string[]; data?: ProfileUpdate } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { isValid: false, errors: ['Request body must be an object'] }
+  }
+
+  const data = body as Record<string, unknown>
+  const errors: string[] = []
+  const update: ProfileUpdate = {}
+
+  if (data.name !== undefined) {
+    if (data.name !== null && typeof data.name !== 'string') {
+      errors.push('Name must be a string')
+    } else if (data.name && data.name.trim().length > MAX_NAME_LENGTH) {
+      errors.push(`Name must be at most ${MAX_NAME_LENGTH} characters`)
+    } else {
+      update.name = data.name?.trim() || null
+    }
+  }
+
+  if (data.preferences !== undefined) {
+    if (!data.preferences || typeof data.preferences !== 'object' || Array.isArray(data.preferences)) {
+      errors.push('preferences must be an object')
+    } else {
+      const preferences = data.preferences as Record<string, unknown>
+      const unknownKeys = Object.keys(preferences).filter(key => !(key in DEFAULT_PREFERENCES))
+      if (unknownKeys.length > 0) {
+        errors.push(`Unknown preferences: ${unknownKeys.join(', ')}`)
+      }
+      if (preferences.theme !== undefined && !(THEMES as readonly unknown[]).includes(preferences.theme)) {
+        errors.push(`theme must be one of ${THEMES.join(', ')}`)
+      }
+      if (preferences.energyUnit !== undefined && !(ENERGY_UNITS as readonly unknown[]).includes(preferences.energyUnit)) {
+        errors.push(`energyUnit must be one of ${ENERGY_UNITS.join(', ')}`)
+      }
+      if (preferences.timezone !== undefined && preferences.timezone !== null &&
+        (typeof preferences.timezone !== 'string' || !isValidTimezone(preferences.timezone))) {
+        errors.push('timezone must be an IANA time zone such as Europe/Berlin')
+      }
+      if (preferences.productUpdates !== undefined && typeof preferences.productUpdates !== 'boolean') {
+        errors.push('productUpdates must be true or false')
+      }
+      update.preferences = preferences as Partial<UserPreferences>
+    }
+  }
+
+  if (data.name === undefined && data.preferences === undefined) {
+    errors.push('Nothing to update')
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    data: errors.length === 0 ? update : undefined
+  }
+}
+
+// Body of POST /api/auth/change-password; strength is checked by the route
+export function validateChangePasswordData(body: unknown): { isValid: boolean; errors: string[]; data?: ChangePasswordData } {
+  const data = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>
+  const errors: string[] = []
+
+  if (!data.currentPassword || typeof data.currentPassword !== 'string') {
+    errors.push('Current password is required')
+  }
+
+  if (!data.newPassword || typeof data.newPassword !== 'string') {
+    errors.push('New password is required')
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    data: errors.length === 0 ? {
+      currentPassword: data.currentPassword as string,
+      newPassword: data.newPassword as string
+    } : undefined
+  }
+}
+
+// Body of POST /api/auth/email-change; the password re-confirms the signed-in user
+export function validateEmailChangeData(body: unknown): { isValid: boolean; errors: string[]; data?: EmailChangeData } {
+  const data = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>
+  const errors: string[] = []
+
+  if (!data.newEmail || typeof data.newEmail !== 'string') {
+    errors.push('New email is required')
+  } else if (!validateEmail(data.newEmail.trim())) {
+    errors.push('Invalid email format')
+  }
+
+  if (!data.password || typeof data.password !== 'string') {
+    errors.push('Password is required')
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    data: errors.length === 0 ? {
+      newEmail: (data.newEmail as string).toLowerCase().trim(),
+      password: data.password as string
+    } : undefined
+  }
+}
+
+// Stands in for this app's origin when checking where a path resolves
+const REDIRECT_CHECK_ORIGIN = 'http://localhost'
+
+// Post-login redirects must stay on this origin. URL parsing drops tabs and newlines and reads `\\` as `/`,
+// so `/\t/evil.com` resolves to `//evil.com`: refuse those characters, then check where the path actually lands
+export function sanitizeRedirectPath(path: unknown, fallback = '/dashboard'): string {
+  if (typeof path !== 'string' || !path.startsWith('/') || /[\x00-\x20\x7f\\]/.test(path)) {
+    return fallback
+  }
+
+  try {
+    return new URL(path, REDIRECT_CHECK_ORIGIN).origin === REDIRECT_CHECK_ORIGIN ? path : fallback
+  } catch {
+    return fallback
+  }
+}
+
+const ADMIN_USERS_MAX_PAGE_SIZE = 100
+const AUDIT_MAX_PAGE_SIZE = 200
+const ALERT_LEVELS = ['low', 'medium', 'high', 'critical']
+
+function parseQueryDate(value: string | null, field: string, errors: string[]): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    errors.push(`${field} must be a date`)
+    return undefined
+  }
+  return date
+}
+
+function parsePaging(params: URLSearchParams, maxPageSize: number, errors: string[]) {
+  const page = Number(params.get('page') || 1)
+  if (!Number.isInteger(page) || page < 1) {
+    errors.push('page must be a positive integer')
+  }
+
+  const pageSize = Number(params.get('pageSize') || 20)
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > maxPageSize) {
+    errors.push(`pageSize must be between 1 and ${maxPageSize}`)
+  }
+
+  return { page, pageSize }
+}
+
+// Query string of GET /api/admin/users
+export function validateAdminUserQuery(params: URLSearchParams): { isValid: boolean; errors: string[]; data?: AdminUserQuery } {
+  const errors: string[] = []
+  const { page, pageSize } = parsePaging(params, ADMIN_USERS_MAX_PAGE_SIZE, errors)
+
+  const emailVerifiedParam = params.get('emailVerified')
+  if (emailVerifiedParam && emailVerifiedParam !== 'true' && emailVerifiedParam !== 'false') {
+    errors.push('emailVerified must be true or false')
+  }
+
+  const createdFrom = parseQueryDate(params.get('createdFrom'), 'createdFrom', errors)
+  const createdTo = parseQueryDate(params.get('createdTo'), 'createdTo', errors)
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    data: errors.length === 0 ? {
+      search: params.get('search')?.trim() || undefined,
+      emailVerified: emailVerifiedParam ? emailVerifiedParam === 'true' : undefined,
+      role: params.get('role')?.trim() || undefined,
+      createdFrom,
+      createdTo,
+      page,
+      pageSize
+    } : undefined
+  }
+}
+
+// Query string of GET /api/admin/audit
+export function validateAuditQuery(params: URLSearchParams): { isValid: boolean; errors: string[]; data?: AuditQuery } {
+  const errors: string[] = []
+  const { page, pageSize } = parsePaging(params, AUDIT_MAX_PAGE_SIZE, errors)
+
+  const kind = params.get('kind') || 'events'
+  if (kind !== 'events' && kind !== 'alerts') {
+    errors.push('kind must be events or alerts')
+  }
+
+  const format = params.get('format') || undefined
+  if (format && format !== 'csv' && format !== 'json') {
+    errors.push('format must be csv or json')
+  }
+
+  const successParam = params.get('success')
+  if (successParam && successParam !== 'true' && successParam !== 'false') {
+    errors.push('success must be true or false')
+  }
+
+  const level = params.get('level') || undefined
+  if (level && !ALERT_LEVELS.includes(level)) {
+    errors.push(`level must be one of ${ALERT_LEVELS.join(', ')}`)
+  }
+
+  const from = parseQueryDate(params.get('from'), 'from', errors)
+  const to = parseQueryDate(params.get('to'), 'to', errors)
+
+  const events = params.get('event')?.split(',').map(event => event.trim()).filter(Boolean)
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    data: errors.length === 0 ? {
+      kind: kind as AuditQuery['kind'],
+      userId: params.get('userId')?.trim() || undefined,
+      email: params.get('email')?.trim().toLowerCase() || undefined,
+      ip: params.get('ip')?.trim() || undefined,
+      event: events?.length ? events : undefined,
+      success: successParam ? successParam === 'true' : undefined,
+      level,
+      type: params.get('type')?.trim() || undefined,
+      from,
+      to,
+      page,
+      pageSize,
+      format: format as AuditQuery['format']
+    } : undefined
+  }
+}
+
+// Query string of GET /api/auth/activity
+export function validateActivityQuery(
+  params: URLSearchParams,
+  maxLimit: number
+): { isValid: boolean; errors: string[]; data?: { before?: Date; limit?: number } } {
+  const errors: string[] = []
+
+  const before = parseQueryDate(params.get('before'), 'before', errors)
+
+  const limitParam = params.get('limit')
+  const limit = limitParam ? Number(limitParam) : undefined
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > maxLimit)) {
+    errors.push(`limit must be between 1 and ${maxLimit}`)
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    data: errors.length === 0 ? { before, limit } : undefined
+  }
+}
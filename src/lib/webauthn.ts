@@ -0,0 +1,245 @@
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON
+} from '@simplewebauthn/server'
+import { isoUint8Array } from '@simplewebauthn/server/helpers'
+import { prisma } from './prisma'
+
+const RP_NAME = 'Hayl Energy AI'
+const CHALLENGE_TTL_MS = 5 * 60 * 1000 // 5 minutes
+
+type ChallengePurpose = 'registration' | 'authentication'
+
+// The relying party is this app's origin; WEBAUTHN_RP_ID lets a parent domain share passkeys across subdomains
+function getRelyingParty() {
+  const origin = process.env.WEBAUTHN_ORIGIN || process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  return {
+    origin,
+    rpID: process.env.WEBAUTHN_RP_ID || new URL(origin).hostname
+  }
+}
+
+export interface PasskeySummary {
+  id: string
+  name: string | null
+  deviceType: string
+  backedUp: boolean
+  createdAt: Date
+  lastUsedAt: Date | null
+}
+
+const passkeySummarySelect = {
+  id: true,
+  name: true,
+  deviceType: true,
+  backedUp: true,
+  createdAt: true,
+  lastUsedAt: true
+} as const
+
+export class WebAuthnService {
+  private static async storeChallenge(challenge: string, purpose: ChallengePurpose, userId?: string) {
+    // Sweep abandoned ceremonies so passwordless attempts can't pile up rows
+    await prisma.webAuthnChallenge.deleteMany({
+      where: { expiresAt: { lt: new Date() } }
+    })
+
+    await prisma.webAuthnChallenge.create({
+      data: {
+        challenge,
+        purpose,
+        userId: userId ?? null,
+        expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS)
+      }
+    })
+  }
+
+  // Challenges are single-use: deleting the row is what makes it valid, so a captured response can't be replayed
+  private static async consumeChallenge(challenge: string, purpose: ChallengePurpose, userId?: string): Promise<boolean> {
+    const { count } = await prisma.webAuthnChallenge.deleteMany({
+      where: {
+        challenge,
+        purpose,
+        userId: userId ?? null,
+        expiresAt: { gt: new Date() }
+      }
+    })
+
+    return count === 1
+  }
+
+  static async createRegistrationOptions(
+    user: { id: string; email: string; name?: string | null }
+  ): Promise<PublicKeyCredentialCreationOptionsJSON> {
+    const { rpID } = getRelyingParty()
+    const existing = await prisma.credential.findMany({
+      where: { userId: user.id },
+      select: { credentialId: true, transports: true }
+    })
+
+    const options = await generateRegistrationOptions({
+      rpName: RP_NAME,
+      rpID,
+      userName: user.email,
+      userDisplayName: user.name || user.email,
+      userID: isoUint8Array.fromUTF8String(user.id),
+      attestationType: 'none',
+      // Stops the same authenticator being registered twice
+      excludeCredentials: existing.map(credential => ({
+        id: credential.credentialId,
+        transports: credential.transports as AuthenticatorTransportFuture[]
+      })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'preferred'
+      }
+    })
+
+    await this.storeChallenge(options.challenge, 'registration', user.id)
+    return options
+  }
+
+  static async verifyRegistration(
+    userId: string,
+    response: RegistrationResponseJSON,
+    name?: string
+  ): Promise<PasskeySummary | null> {
+    const { origin, rpID } = getRelyingParty()
+
+    try {
+      const { verified, registrationInfo } = await verifyRegistrationResponse({
+        response,
+        expectedChallenge: challenge => this.consumeChallenge(challenge, 'registration', userId),
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        requireUserVerification: false
+      })
+
+      if (!verified) return null
+
+      const { credential, credentialDeviceType, credentialBackedUp } = registrationInfo
+
+      return await prisma.credential.create({
+        data: {
+          userId,
+          credentialId: credential.id,
+          publicKey: Buffer.from(credential.publicKey),
+          counter: BigInt(credential.counter),
+          transports: credential.transports ?? response.response.transports ?? [],
+          deviceType: credentialDeviceType,
+          backedUp: credentialBackedUp,
+          name: name || null
+        },
+        select: passkeySummarySelect
+      })
+    } catch (error) {
+      console.error('Passkey registration verification failed:', error)
+      return null
+    }
+  }
+
+  /**
+   * Options for an assertion. Without a userId the browser may offer any
+   * discoverable passkey (passwordless sign-in); with one, only that user's
+   * credentials are allowed (passkey as a second factor).
+   */
+  static async createAuthenticationOptions(userId?: string): Promise<PublicKeyCredentialRequestOptionsJSON> {
+    const { rpID } = getRelyingParty()
+    const allowCredentials = userId
+      ? await prisma.credential.findMany({
+          where: { userId },
+          select: { credentialId: true, transports: true }
+        })
+      : []
+
+    const options = await generateAuthenticationOptions({
+      rpID,
+      allowCredentials: allowCredentials.map(credential => ({
+        id: credential.credentialId,
+        transports: credential.transports as AuthenticatorTransportFuture[]
+      })),
+      // A passkey on its own must prove the user is present and verified (PIN or biometric)
+      userVerification: userId ? 'preferred' : 'required'
+    })
+
+    await this.storeChallenge(options.challenge, 'authentication', userId)
+    return options
+  }
+
+  // Returns the owner of the passkey, or null when the assertion doesn't check out
+  static async verifyAuthentication(
+    response: AuthenticationResponseJSON,
+    userId?: string
+  ): Promise<{ userId: string; credentialId: string } | null> {
+    const { origin, rpID } = getRelyingParty()
+
+    const credential = await prisma.credential.findUnique({
+      where: { credentialId: response.id }
+    })
+
+    if (!credential || (userId && credential.userId !== userId)) {
+      return null
+    }
+
+    try {
+      const { verified, authenticationInfo } = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge: challenge => this.consumeChallenge(challenge, 'authentication', userId),
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        credential: {
+          id: credential.credentialId,
+          publicKey: new Uint8Array(credential.publicKey),
+          counter: Number(credential.counter),
+          transports: credential.transports as AuthenticatorTransportFuture[]
+        },
+        requireUserVerification: !userId
+      })
+
+      if (!verified) return null
+
+      await prisma.credential.update({
+        where: { id: credential.id },
+        data: {
+          counter: BigInt(authenticationInfo.newCounter),
+          backedUp: authenticationInfo.credentialBackedUp,
+          lastUsedAt: new Date()
+        }
+      })
+
+      return { userId: credential.userId, credentialId: credential.id }
+    } catch (error) {
+      // Includes a sign counter that went backwards, the library's signal for a cloned authenticator
+      console.error('Passkey authentication verification failed:', error)
+      return null
+    }
+  }
+
+  static async listPasskeys(userId: string): Promise<PasskeySummary[]> {
+    return prisma.credential.findMany({
+      where: { userId },
+      select: passkeySummarySelect,
+      orderBy: { createdAt: 'asc' }
+    })
+  }
+
+  static async countPasskeys(userId: string): Promise<number> {
+    return prisma.credential.count({ where: { userId } })
+  }
+
+  // Scoped to the owner so one user can't remove another's passkey by guessing ids
+  static async deletePasskey(userId: string, id: string): Promise<boolean> {
+    const { count } = await prisma.credential.deleteMany({
+      where: { id, userId }
+    })
+
+    return count === 1
+  }
+}